@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { getAgent, getAgentSnapshots } from "@/lib/api";
+import { getAgent, getAgentSnapshots, getAgentPremium } from "@/lib/api";
 import {
   formatMon,
   shortenAddress,
@@ -7,6 +7,7 @@ import {
   formatNavPerShare,
 } from "@/lib/utils";
 import TradingWidget from "@/components/TradingWidget";
+import NavPremiumPanel from "@/components/NavPremiumPanel";
 
 export const dynamic = "force-dynamic";
 
@@ -19,12 +20,15 @@ export default async function AgentPage({
 
   let agent;
   let snapshots;
+  let premium = null;
   let error = null;
 
   try {
     agent = await getAgent(token);
     if (agent.vaultAddress) {
       snapshots = await getAgentSnapshots(token, 50);
+      // Premium needs trades as well as snapshots; the page renders without it
+      premium = await getAgentPremium(token).catch(() => null);
     }
   } catch (e) {
     error = e instanceof Error ? e.message : "Failed to load agent";
@@ -197,6 +201,9 @@ export default async function AgentPage({
         )}
       </div>
 
+      {/* Premium / Discount to NAV */}
+      {premium && <NavPremiumPanel premium={premium} />}
+
       {/* Trading Widget */}
       <div className="section-card">
         <h3 className="section-title-sm">Invest in Agent (nad.fun UI)</h3>
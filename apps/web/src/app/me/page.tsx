@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useAuth } from "@/lib/auth";
 import { shortenAddress, formatMon, formatNavPerShare } from "@/lib/utils";
-import type { AgentResponse } from "@/lib/types";
+import type { OwnerAgentResponse, OwnerSummaryResponse } from "@/lib/types";
 
 const API_BASE =
   process.env.NEXT_PUBLIC_INDEXER_URL || "https://indexer.railbird.fun";
@@ -12,14 +12,14 @@ const API_BASE =
 export default function MyAgentsPage() {
   const { isConnected, isAuthenticated, address, connect, authenticate } =
     useAuth();
-  const [agents, setAgents] = useState<AgentResponse[]>([]);
+  const [summary, setSummary] = useState<OwnerSummaryResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Fetch agents owned by current wallet
   useEffect(() => {
     if (!address) {
-      setAgents([]);
+      setSummary(null);
       return;
     }
 
@@ -28,20 +28,11 @@ export default function MyAgentsPage() {
       setError(null);
 
       try {
-        // Fetch all agents and filter by owner
-        // In production, the API should support ?owner= query param
-        const res = await fetch(`${API_BASE}/api/agents`);
+        const res = await fetch(`${API_BASE}/api/owners/${address}/summary`);
         if (!res.ok) {
           throw new Error(`Failed to fetch agents: ${res.status}`);
         }
-        const allAgents: AgentResponse[] = await res.json();
-
-        // Filter by owner address (case-insensitive)
-        const owned = allAgents.filter(
-          (agent) =>
-            agent.ownerAddress.toLowerCase() === address.toLowerCase()
-        );
-        setAgents(owned);
+        setSummary(await res.json());
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load agents");
       } finally {
@@ -52,6 +43,9 @@ export default function MyAgentsPage() {
     fetchOwnedAgents();
   }, [address]);
 
+  const agents = summary?.agents ?? [];
+  const handsToAct = summary?.openHands.filter((hand) => hand.toAct).length ?? 0;
+
   // Not connected - prompt to connect
   if (!isConnected) {
     return (
@@ -103,6 +97,36 @@ export default function MyAgentsPage() {
         <div className="card error-card">{error}</div>
       )}
 
+      {!isLoading && summary && agents.length > 0 && (
+        <div className="agent-card-stats">
+          <div>
+            <div className="agent-card-stat-label">Stack at Tables</div>
+            <div className="agent-card-stat-value">
+              {formatMon(summary.totals.stack)}
+            </div>
+          </div>
+          <div>
+            <div className="agent-card-stat-label">External Assets</div>
+            <div className="agent-card-stat-value">
+              {formatMon(summary.totals.externalAssets)}
+            </div>
+          </div>
+          <div>
+            <div className="agent-card-stat-label">Lifetime PnL</div>
+            <div className={`agent-card-stat-value ${BigInt(summary.totals.lifetimePnl) >= 0 ? "value-positive" : "value-negative"}`}>
+              {formatMon(summary.totals.lifetimePnl)}
+            </div>
+          </div>
+          <div>
+            <div className="agent-card-stat-label">Open Hands</div>
+            <div className="agent-card-stat-value">
+              {summary.totals.openHands}
+              {handsToAct > 0 && ` (${handsToAct} to act)`}
+            </div>
+          </div>
+        </div>
+      )}
+
       {!isLoading && !error && agents.length === 0 && (
         <div className="empty">
           <p>You don't own any agents yet.</p>
@@ -124,7 +148,7 @@ export default function MyAgentsPage() {
   );
 }
 
-function AgentCard({ agent }: { agent: AgentResponse }) {
+function AgentCard({ agent }: { agent: OwnerAgentResponse }) {
   const snapshot = agent.latestSnapshot;
 
   return (
@@ -186,6 +210,14 @@ function AgentCard({ agent }: { agent: AgentResponse }) {
             {snapshot ? formatMon(snapshot.cumulativePnl) : "-"}
           </div>
         </div>
+        <div>
+          <div className="agent-card-stat-label">Seat Stack</div>
+          <div className="agent-card-stat-value">
+            {agent.seats.length > 0
+              ? agent.seats.map((seat) => formatMon(seat.stack)).join(", ")
+              : "-"}
+          </div>
+        </div>
         <div>
           <div className="agent-card-stat-label">Status</div>
           <div className="agent-card-stat-value">
@@ -55,6 +55,7 @@ export function BettingPanel({ initialTable }: BettingPanelProps) {
   const market = useMemo(() => buildSeatMarket(table), [table]);
   const handId = table.currentHand?.handId ?? null;
   const winnerSeat = table.currentHand?.winnerSeat ?? null;
+  const winnerSeats = table.currentHand?.winnerSeats ?? [];
   const marketOpen = handId !== null && winnerSeat === null;
 
   useEffect(() => {
@@ -96,7 +97,9 @@ export function BettingPanel({ initialTable }: BettingPanelProps) {
       if (wager.status !== "open") return wager;
       if (wager.tableId !== table.tableId || wager.handId !== handId) return wager;
 
-      const won = wager.seatIndex === winnerSeat;
+      // Chopped pots pay dead-heat: the odds are divided between the seats that shared it
+      const sharedBy = winnerSeats.length > 0 ? winnerSeats : [winnerSeat];
+      const won = sharedBy.includes(wager.seatIndex);
       if (!won) {
         return {
           ...wager,
@@ -107,7 +110,7 @@ export function BettingPanel({ initialTable }: BettingPanelProps) {
       }
 
       const stake = BigInt(wager.stakeWei);
-      const payout = (stake * BigInt(wager.oddsBps)) / 10_000n;
+      const payout = (stake * BigInt(wager.oddsBps)) / 10_000n / BigInt(sharedBy.length);
       realized += payout;
       return {
         ...wager,
@@ -134,7 +137,7 @@ export function BettingPanel({ initialTable }: BettingPanelProps) {
         ? `Hand #${handId} settled: +${formatChips(realized)} ${CHIP_SYMBOL}`
         : `Hand #${handId} settled: no winning tickets this round.`
     );
-  }, [bankrollWei, handId, settledHands, table.tableId, wagers, winnerSeat]);
+  }, [bankrollWei, handId, settledHands, table.tableId, wagers, winnerSeat, winnerSeats]);
 
   const openWagers = wagers.filter((w) => w.status === "open").slice(-8).reverse();
   const settledWagers = wagers.filter((w) => w.status !== "open").slice(-8).reverse();
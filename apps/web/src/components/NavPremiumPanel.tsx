@@ -0,0 +1,103 @@
+import type { PremiumResponse, RebalanceStatusResponse } from "@/lib/types";
+import { formatNavPerShare, formatPercent } from "@/lib/utils";
+
+interface NavPremiumPanelProps {
+  premium: PremiumResponse;
+}
+
+// What the accretive-only rebalancer may do right now, as of the indexed block
+function rebalanceLabel(status: RebalanceStatusResponse): string {
+  if (!status.configured) return "Not configured";
+  if (status.alreadyRebalanced) return `Done for hand #${status.handId}`;
+  if (!status.eligible) {
+    return status.eligibleBlock ? `Waiting for block ${status.eligibleBlock}` : "Waiting for settlement";
+  }
+  if (status.canBuy && status.canSell) return "Can buy or sell";
+  if (status.canBuy) return "Can buy (below NAV)";
+  if (status.canSell) return "Can sell (above NAV)";
+  return "No accretive trade";
+}
+
+function premiumClass(premium: string): string {
+  return parseFloat(premium) >= 0 ? "value-positive" : "value-negative";
+}
+
+export default function NavPremiumPanel({ premium }: NavPremiumPanelProps) {
+  const { current, history } = premium;
+  const points = [...history.points].reverse().slice(0, 24);
+
+  return (
+    <div className="card section-card">
+      <h3 className="section-title-sm">Market vs NAV</h3>
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-label">Market Price</div>
+          <div className="stat-value">
+            {current.price ? formatNavPerShare(current.price) : "--"}
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">NAV/Share (P)</div>
+          <div className="stat-value">
+            {current.navPerShare ? formatNavPerShare(current.navPerShare) : "--"}
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">Premium / Discount</div>
+          <div
+            className={`stat-value ${
+              current.premium && parseFloat(current.premium) < 0 ? "negative" : "positive"
+            }`}
+          >
+            {current.premium ? formatPercent(current.premium) : "--"}
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">Rebalancer</div>
+          <div
+            className={`stat-value ${
+              current.rebalance.canBuy || current.rebalance.canSell ? "positive" : ""
+            }`}
+          >
+            {rebalanceLabel(current.rebalance)}
+          </div>
+        </div>
+      </div>
+
+      {points.length > 0 ? (
+        <div className="table-scroll spaced-top">
+          <table className="leaderboard-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Price</th>
+                <th>NAV/Share</th>
+                <th>Premium</th>
+                <th>Accretive</th>
+              </tr>
+            </thead>
+            <tbody>
+              {points.map((point) => (
+                <tr key={point.time}>
+                  <td className="text-muted">{new Date(point.time).toLocaleString("en-US")}</td>
+                  <td>{formatNavPerShare(point.price)}</td>
+                  <td>{formatNavPerShare(point.navPerShare)}</td>
+                  <td className={premiumClass(point.premium)}>{formatPercent(point.premium)}</td>
+                  <td>
+                    {point.accretiveBuy && point.accretiveSell
+                      ? "Buy / Sell"
+                      : point.accretiveBuy
+                        ? "Buy"
+                        : "Sell"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="chart-placeholder spaced-top">No trades to compare with NAV yet</div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import type {
   LeaderboardMetric,
   LeaderboardPeriod,
   VaultSnapshotResponse,
+  PremiumResponse,
   HandResponse,
 } from "./types";
 
@@ -60,6 +61,15 @@ export async function getAgentSnapshots(
   );
 }
 
+export async function getAgentPremium(
+  token: string,
+  interval: "1h" | "1d" = "1h"
+): Promise<PremiumResponse> {
+  return fetchJson<PremiumResponse>(
+    `/agents/${token}/premium?interval=${interval}`
+  );
+}
+
 // Leaderboard
 
 export async function getLeaderboard(
@@ -32,6 +32,7 @@ export interface HandResponse {
   buttonSeat: number;
   communityCards: number[];
   winnerSeat: number | null;
+  winnerSeats: number[];
   settlementAmount: string | null;
   actions: ActionResponse[];
 }
@@ -58,6 +59,42 @@ export interface AgentResponse {
   latestSnapshot: VaultSnapshotResponse | null;
 }
 
+export interface OwnerSeatResponse extends SeatResponse {
+  tableId: string;
+  tableAddress: string;
+  agentTokenAddress: string | null;
+}
+
+export interface OwnerAgentResponse extends AgentResponse {
+  seats: OwnerSeatResponse[];
+}
+
+export interface OwnerOpenHandResponse {
+  tableId: string;
+  handId: string;
+  seatIndex: number;
+  gameState: string;
+  pot: string;
+  actorSeat: number | null;
+  toAct: boolean;
+  startedAt: string;
+}
+
+export interface OwnerSummaryResponse {
+  ownerAddress: string;
+  agents: OwnerAgentResponse[];
+  seats: OwnerSeatResponse[];
+  openHands: OwnerOpenHandResponse[];
+  totals: {
+    agents: number;
+    seats: number;
+    stack: string;
+    externalAssets: string;
+    lifetimePnl: string;
+    openHands: number;
+  };
+}
+
 export interface VaultSnapshotResponse {
   handId: string;
   externalAssets: string;
@@ -68,6 +105,46 @@ export interface VaultSnapshotResponse {
   blockNumber: string;
 }
 
+// Premium is (price - NAV) / NAV as a signed decimal string ("-0.125000" = 12.5% discount)
+export interface PremiumPointResponse {
+  time: string;
+  price: string;
+  navPerShare: string;
+  premium: string;
+  accretiveBuy: boolean;
+  accretiveSell: boolean;
+}
+
+export interface RebalanceStatusResponse {
+  configured: boolean;
+  handId: string | null;
+  eligibleBlock: string | null;
+  alreadyRebalanced: boolean;
+  eligible: boolean;
+  canBuy: boolean;
+  canSell: boolean;
+}
+
+export interface PremiumResponse {
+  tokenAddress: string;
+  vaultAddress: string;
+  current: {
+    price: string | null;
+    priceAt: string | null;
+    navPerShare: string | null;
+    premium: string | null;
+    accretiveBuy: boolean;
+    accretiveSell: boolean;
+    rebalance: RebalanceStatusResponse;
+  };
+  history: {
+    interval: "1h" | "1d";
+    from: string;
+    to: string;
+    points: PremiumPointResponse[];
+  };
+}
+
 export type LeaderboardMetric = "roi" | "pnl" | "winrate" | "mdd";
 export type LeaderboardPeriod = "24h" | "7d" | "30d" | "all";
 
@@ -83,6 +160,7 @@ export interface LeaderboardEntry {
   totalHands: number;
   winningHands: number;
   losingHands: number;
+  splitHands: number;
   currentNavPerShare: string;
   initialNavPerShare: string;
 }
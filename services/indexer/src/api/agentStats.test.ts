@@ -0,0 +1,143 @@
+// Agent stats tests
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { computeAgentStats, positionLabel, type AgentHandInput } from "./agentStats.js";
+import type { Action, Hand } from "../db/types.js";
+
+function hand(handId: number, overrides: Partial<Hand> = {}): Hand {
+  return {
+    hand_id: handId.toString(),
+    table_id: "1",
+    pot: "0",
+    current_bet: "0",
+    actor_seat: null,
+    game_state: "SETTLED",
+    button_seat: 0,
+    small_blind: "5",
+    big_blind: "10",
+    community_cards: [],
+    winner_seat: null,
+    winner_seats: null,
+    settlement_amount: null,
+    started_block: "1",
+    showdown_block: null,
+    started_at: new Date(),
+    settled_at: new Date(),
+    ...overrides,
+  };
+}
+
+let actionId = 0;
+function action(seat: number, type: string, amount = 0, endsStreet = false): Action {
+  return {
+    id: ++actionId,
+    table_id: "1",
+    hand_id: "1",
+    seat_index: seat,
+    action_type: type,
+    amount: amount.toString(),
+    pot_after: "0",
+    block_number: "1",
+    tx_hash: "0x",
+    street_end_block: endsStreet ? "1" : null,
+    ends_street: endsStreet,
+    created_at: new Date(),
+  };
+}
+
+describe("Agent stats", () => {
+  describe("positionLabel", () => {
+    it("should follow PokerTable blind assignment", () => {
+      const players = [0, 1, 2, 3, 4, 5];
+      assert.strictEqual(positionLabel(players, 0, 0), "BTN");
+      assert.strictEqual(positionLabel(players, 0, 1), "SB");
+      assert.strictEqual(positionLabel(players, 0, 2), "BB");
+      assert.strictEqual(positionLabel(players, 0, 3), "UTG");
+      assert.strictEqual(positionLabel(players, 0, 4), "MP");
+      assert.strictEqual(positionLabel(players, 0, 5), "CO");
+    });
+
+    it("should treat the heads-up button as the big blind", () => {
+      assert.strictEqual(positionLabel([2, 5], 2, 2), "BB");
+      assert.strictEqual(positionLabel([2, 5], 2, 5), "SB");
+    });
+  });
+
+  describe("computeAgentStats", () => {
+    // 4-handed, button 0: SB 1, BB 2, UTG 3. Agent sits in seat 3.
+    const players = [0, 1, 2, 3];
+
+    const inputs: AgentHandInput[] = [
+      // UTG opens, everyone folds
+      {
+        hand: hand(1, { winner_seat: 3 }),
+        seat: 3,
+        players,
+        actions: [action(3, "RAISE", 30), action(0, "FOLD"), action(1, "FOLD"), action(2, "FOLD")],
+      },
+      // Agent limps, button raises, agent 3-bets, button calls; flop agent bets, button raises, agent folds
+      {
+        hand: hand(2, { winner_seat: 0 }),
+        seat: 3,
+        players,
+        actions: [
+          action(3, "CALL", 10),
+          action(0, "RAISE", 40),
+          action(1, "FOLD"),
+          action(2, "FOLD"),
+          action(3, "RAISE", 120),
+          action(0, "CALL", 80, true),
+          action(3, "RAISE", 50),
+          action(0, "RAISE", 150),
+          action(3, "FOLD"),
+        ],
+      },
+      // Limp, check down to showdown and win
+      {
+        hand: hand(3, { winner_seat: 3, showdown_block: "9" }),
+        seat: 3,
+        players,
+        actions: [
+          action(3, "CALL", 10),
+          action(0, "FOLD"),
+          action(1, "FOLD"),
+          action(2, "CHECK", 0, true),
+          action(2, "CHECK"),
+          action(3, "CHECK", 0, true),
+          action(2, "CHECK"),
+          action(3, "CHECK", 0, true),
+          action(2, "CHECK"),
+          action(3, "CHECK", 0, true),
+        ],
+      },
+    ];
+
+    const stats = computeAgentStats("0xtoken", "all", inputs);
+
+    it("should compute preflop frequencies", () => {
+      assert.strictEqual(stats.handsPlayed, 3);
+      assert.strictEqual(stats.vpip, "1.0000");
+      assert.strictEqual(stats.pfr, "0.6667");
+      assert.strictEqual(stats.samples.threeBetOpportunities, 1);
+      assert.strictEqual(stats.threeBet, "1.0000");
+    });
+
+    it("should compute street breakdowns and fold to raise", () => {
+      assert.strictEqual(stats.byStreet.flop.raises, 1);
+      assert.strictEqual(stats.byStreet.flop.folds, 1);
+      assert.strictEqual(stats.byStreet.flop.raisesFaced, 1);
+      assert.strictEqual(stats.byStreet.flop.foldToRaise, "1.0000");
+      assert.strictEqual(stats.byStreet.preflop.foldToRaise, "0.0000");
+      assert.strictEqual(stats.aggressionFactor, null);
+    });
+
+    it("should compute showdown stats", () => {
+      assert.strictEqual(stats.samples.sawFlop, 2);
+      assert.strictEqual(stats.wtsd, "0.5000");
+      assert.strictEqual(stats.wsd, "1.0000");
+      assert.deepStrictEqual(Object.keys(stats.byPosition), ["UTG"]);
+      assert.strictEqual(stats.byPosition.UTG.hands, 3);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+// Classic poker statistics derived from indexed actions
+//
+// Streets are reconstructed from actions flagged ends_street (the action a BettingRoundComplete followed).
+// RAISE amounts are the seat's total bet for the street; CALL amounts are the chips added.
+
+import type {
+  Action,
+  Hand,
+  AgentStatsResponse,
+  PositionStatsResponse,
+  StatsStreet,
+  StreetStatsResponse,
+} from "../db/types.js";
+
+export const STATS_STREETS: StatsStreet[] = ["preflop", "flop", "turn", "river"];
+
+export interface AgentHandInput {
+  hand: Hand;
+  seat: number;
+  // Seats dealt into the hand
+  players: number[];
+  actions: Action[];
+}
+
+interface HandOutcome {
+  position: string;
+  vpip: boolean;
+  pfr: boolean;
+  threeBetOpportunity: boolean;
+  threeBet: boolean;
+  sawFlop: boolean;
+  wentToShowdown: boolean;
+  wonAtShowdown: boolean;
+  streets: {
+    folds: number;
+    checks: number;
+    calls: number;
+    raises: number;
+    facedRaise: number;
+    foldedToRaise: number;
+  }[];
+}
+
+function nextSeat(seats: number[], from: number): number {
+  return seats.find((seat) => seat > from) ?? seats[0];
+}
+
+/**
+ * Position relative to the button, using PokerTable's blind assignment
+ * (SB is the first seat after the button, so heads-up the button posts the big blind).
+ */
+export function positionLabel(players: number[], buttonSeat: number, seat: number): string {
+  const seats = [...players].sort((a, b) => a - b);
+  const sb = nextSeat(seats, buttonSeat);
+  const bb = nextSeat(seats, sb);
+  if (seat === bb) return "BB";
+  if (seat === sb) return "SB";
+  if (seat === buttonSeat) return "BTN";
+
+  // Walk clockwise from the big blind: first to act is UTG, the seat before the button is CO
+  const order: number[] = [];
+  for (let s = nextSeat(seats, bb); s !== buttonSeat && s !== sb && order.length < seats.length; s = nextSeat(seats, s)) {
+    order.push(s);
+  }
+  const index = order.indexOf(seat);
+  if (index === 0) return "UTG";
+  if (index === order.length - 1) return "CO";
+  return "MP";
+}
+
+function analyzeHand(input: AgentHandInput): HandOutcome {
+  const { hand, seat, actions } = input;
+  const outcome: HandOutcome = {
+    position: positionLabel(input.players, hand.button_seat, seat),
+    vpip: false,
+    pfr: false,
+    threeBetOpportunity: false,
+    threeBet: false,
+    sawFlop: false,
+    wentToShowdown: false,
+    wonAtShowdown: false,
+    streets: STATS_STREETS.map(() => ({ folds: 0, checks: 0, calls: 0, raises: 0, facedRaise: 0, foldedToRaise: 0 })),
+  };
+
+  const seats = [...input.players].sort((a, b) => a - b);
+  const sbSeat = nextSeat(seats, hand.button_seat);
+  const bbSeat = nextSeat(seats, sbSeat);
+
+  let street = 0;
+  let currentBet = BigInt(hand.big_blind);
+  let raises = 0;
+  let contrib = new Map<number, bigint>([
+    [sbSeat, BigInt(hand.small_blind)],
+    [bbSeat, BigInt(hand.big_blind)],
+  ]);
+  let foldedOn: number | null = null;
+
+  for (const action of actions) {
+    const amount = BigInt(action.amount);
+
+    if (action.seat_index === seat && street < STATS_STREETS.length) {
+      const stats = outcome.streets[street];
+      const facingRaise = raises > 0 && currentBet > (contrib.get(seat) ?? 0n);
+
+      if (facingRaise) stats.facedRaise++;
+      switch (action.action_type) {
+        case "FOLD":
+          stats.folds++;
+          if (facingRaise) stats.foldedToRaise++;
+          foldedOn = street;
+          break;
+        case "CHECK":
+          stats.checks++;
+          break;
+        case "CALL":
+          stats.calls++;
+          break;
+        case "RAISE":
+          stats.raises++;
+          break;
+      }
+
+      if (street === 0) {
+        if (action.action_type === "CALL" || action.action_type === "RAISE") outcome.vpip = true;
+        if (action.action_type === "RAISE") outcome.pfr = true;
+        // First decision facing a single open raise
+        if (raises === 1 && facingRaise && !outcome.threeBetOpportunity) {
+          outcome.threeBetOpportunity = true;
+          outcome.threeBet = action.action_type === "RAISE";
+        }
+      }
+    }
+
+    if (action.action_type === "CALL") {
+      contrib.set(action.seat_index, (contrib.get(action.seat_index) ?? 0n) + amount);
+    } else if (action.action_type === "RAISE") {
+      contrib.set(action.seat_index, amount);
+      currentBet = amount;
+      raises++;
+    }
+
+    if (action.ends_street) {
+      street++;
+      currentBet = 0n;
+      raises = 0;
+      contrib = new Map();
+    }
+  }
+
+  outcome.sawFlop = street >= 1 && foldedOn !== 0;
+  outcome.wentToShowdown = hand.showdown_block !== null && foldedOn === null;
+  // A chopped pot counts as won for every seat that shared it
+  outcome.wonAtShowdown = outcome.wentToShowdown && (hand.winner_seats ?? [hand.winner_seat]).includes(seat);
+  return outcome;
+}
+
+function ratio(numerator: number, denominator: number): string | null {
+  return denominator > 0 ? (numerator / denominator).toFixed(4) : null;
+}
+
+export function computeAgentStats(
+  tokenAddress: string,
+  period: string,
+  hands: AgentHandInput[]
+): AgentStatsResponse {
+  const outcomes = hands.map(analyzeHand);
+  const count = (predicate: (o: HandOutcome) => boolean) => outcomes.filter(predicate).length;
+
+  const byStreet = {} as Record<StatsStreet, StreetStatsResponse>;
+  STATS_STREETS.forEach((street, i) => {
+    const totals = { folds: 0, checks: 0, calls: 0, raises: 0, facedRaise: 0, foldedToRaise: 0 };
+    for (const o of outcomes) {
+      for (const key of Object.keys(totals) as (keyof typeof totals)[]) totals[key] += o.streets[i][key];
+    }
+    byStreet[street] = {
+      folds: totals.folds,
+      checks: totals.checks,
+      calls: totals.calls,
+      raises: totals.raises,
+      aggressionFactor: ratio(totals.raises, totals.calls),
+      foldToRaise: ratio(totals.foldedToRaise, totals.facedRaise),
+      raisesFaced: totals.facedRaise,
+    };
+  });
+
+  const byPosition: Record<string, PositionStatsResponse> = {};
+  for (const position of new Set(outcomes.map((o) => o.position))) {
+    const group = outcomes.filter((o) => o.position === position);
+    byPosition[position] = {
+      hands: group.length,
+      vpip: ratio(group.filter((o) => o.vpip).length, group.length),
+      pfr: ratio(group.filter((o) => o.pfr).length, group.length),
+      wtsd: ratio(group.filter((o) => o.wentToShowdown).length, group.filter((o) => o.sawFlop).length),
+    };
+  }
+
+  const postflop = STATS_STREETS.slice(1).map((street) => byStreet[street]);
+  const postflopRaises = postflop.reduce((sum, s) => sum + s.raises, 0);
+  const postflopCalls = postflop.reduce((sum, s) => sum + s.calls, 0);
+  const raisesFaced = STATS_STREETS.reduce((sum, street) => sum + byStreet[street].raisesFaced, 0);
+  const foldsToRaise = outcomes.reduce((sum, o) => sum + o.streets.reduce((s, st) => s + st.foldedToRaise, 0), 0);
+
+  const sawFlop = count((o) => o.sawFlop);
+  const showdowns = count((o) => o.wentToShowdown);
+  const threeBetOpportunities = count((o) => o.threeBetOpportunity);
+
+  return {
+    tokenAddress,
+    period,
+    handsPlayed: outcomes.length,
+    vpip: ratio(count((o) => o.vpip), outcomes.length),
+    pfr: ratio(count((o) => o.pfr), outcomes.length),
+    threeBet: ratio(count((o) => o.threeBet), threeBetOpportunities),
+    aggressionFactor: ratio(postflopRaises, postflopCalls),
+    foldToRaise: ratio(foldsToRaise, raisesFaced),
+    wtsd: ratio(showdowns, sawFlop),
+    wsd: ratio(count((o) => o.wonAtShowdown), showdowns),
+    samples: {
+      threeBetOpportunities,
+      raisesFaced,
+      sawFlop,
+      showdowns,
+    },
+    byStreet,
+    byPosition,
+  };
+}
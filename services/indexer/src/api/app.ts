@@ -2,6 +2,7 @@
 
 import express from "express";
 import { router } from "./routes.js";
+import { DEFAULT_QUERY_LIMITS, createGraphqlRouter, getGraphqlSchema, type QueryLimits } from "../graphql/index.js";
 
 const DEFAULT_ALLOWED_ORIGINS = [
   "http://localhost:3000",
@@ -18,6 +19,13 @@ function getAllowedOrigins(): Set<string> {
   return new Set([...DEFAULT_ALLOWED_ORIGINS, ...configured]);
 }
 
+function getGraphqlLimits(): QueryLimits {
+  return {
+    maxDepth: parseInt(process.env.GRAPHQL_MAX_DEPTH || String(DEFAULT_QUERY_LIMITS.maxDepth), 10),
+    maxCost: parseInt(process.env.GRAPHQL_MAX_COST || String(DEFAULT_QUERY_LIMITS.maxCost), 10),
+  };
+}
+
 export function createApp(): express.Application {
   const app = express();
   // Respect x-forwarded-* headers on Railway/reverse proxies (needed for absolute URLs).
@@ -34,8 +42,9 @@ export function createApp(): express.Application {
       res.header("Access-Control-Allow-Origin", origin);
       res.header("Vary", "Origin");
     }
-    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.header("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, Last-Event-ID");
+    res.header("Access-Control-Expose-Headers", "X-Total-Count, X-Next-Cursor");
     if (req.method === "OPTIONS") {
       res.status(204).end();
       return;
@@ -50,6 +59,7 @@ export function createApp(): express.Application {
   });
 
   // API routes
+  app.use("/api/graphql", createGraphqlRouter(getGraphqlSchema(), getGraphqlLimits()));
   app.use("/api", router);
 
   // 404 handler
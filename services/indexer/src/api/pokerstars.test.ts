@@ -0,0 +1,175 @@
+// PokerStars export tests
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { formatCard, formatPokerStarsHand, type HandHistoryInput } from "./pokerstars.js";
+import type { Action, Hand, HandPlayer, Settlement } from "../db/types.js";
+
+const CHIP = 10n ** 18n;
+const OP = (n: number) => `0x${n.toString().repeat(40)}`;
+
+function hand(overrides: Partial<Hand> = {}): Hand {
+  return {
+    hand_id: "7",
+    table_id: "1",
+    pot: (30n * CHIP).toString(),
+    current_bet: "0",
+    actor_seat: null,
+    game_state: "SETTLED",
+    button_seat: 0,
+    small_blind: (5n * CHIP).toString(),
+    big_blind: (10n * CHIP).toString(),
+    community_cards: [],
+    winner_seat: 1,
+    winner_seats: [1],
+    settlement_amount: (30n * CHIP).toString(),
+    started_block: "100",
+    showdown_block: null,
+    started_at: new Date("2026-01-02T03:04:05Z"),
+    settled_at: new Date("2026-01-02T03:05:00Z"),
+    ...overrides,
+  };
+}
+
+function player(seat: number, stack: bigint): HandPlayer {
+  return {
+    table_id: "1",
+    hand_id: "7",
+    seat_index: seat,
+    owner_address: OP(seat + 5),
+    operator_address: OP(seat + 1),
+    starting_stack: (stack * CHIP).toString(),
+  };
+}
+
+let actionId = 0;
+function action(seat: number, type: string, amount: bigint, endsStreet = false): Action {
+  return {
+    id: ++actionId,
+    table_id: "1",
+    hand_id: "7",
+    seat_index: seat,
+    action_type: type,
+    amount: (amount * CHIP).toString(),
+    pot_after: "0",
+    block_number: "100",
+    tx_hash: "0x",
+    street_end_block: endsStreet ? "100" : null,
+    ends_street: endsStreet,
+    created_at: new Date(),
+  };
+}
+
+function settlement(seat: number, pot: bigint, won = pot, winner = seat): Settlement {
+  return {
+    id: 1,
+    table_id: "1",
+    hand_id: "7",
+    winner_seat: winner,
+    pot_amount: (pot * CHIP).toString(),
+    seat_index: seat,
+    owner_address: OP(seat + 5),
+    amount_won: (won * CHIP).toString(),
+    amount_contributed: null,
+    net_amount: null,
+    block_number: "110",
+    tx_hash: "0x",
+    created_at: new Date(),
+  };
+}
+
+describe("PokerStars export", () => {
+  it("should format cards with HandEvaluator encoding", () => {
+    assert.strictEqual(formatCard(0), "2s");
+    assert.strictEqual(formatCard(12), "As");
+    assert.strictEqual(formatCard(13), "2h");
+    assert.strictEqual(formatCard(51), "Ac");
+  });
+
+  it("should render a hand won preflop with the uncalled bet returned", () => {
+    // Three-handed: button 0, SB 1, BB 2. Button folds, SB raises, BB folds.
+    const input: HandHistoryInput = {
+      hand: hand({ pot: (40n * CHIP).toString(), settlement_amount: (40n * CHIP).toString() }),
+      players: [player(0, 100n), player(1, 100n), player(2, 100n)],
+      actions: [action(0, "FOLD", 0n), action(1, "RAISE", 30n), action(2, "FOLD", 0n)],
+      settlements: [settlement(1, 40n)],
+      holeCommitments: [],
+    };
+
+    const text = formatPokerStarsHand(input);
+    const lines = text.trimEnd().split("\n");
+
+    assert.strictEqual(lines[0], "PokerStars Hand #7: Hold'em No Limit (5/10) - 2026/01/02 03:04:05 UTC");
+    assert.strictEqual(lines[1], "Table 'Railbird 1' 9-max Seat #1 is the button");
+    assert.ok(lines.includes(`${OP(2)}: posts small blind 5`));
+    assert.ok(lines.includes(`${OP(3)}: posts big blind 10`));
+    assert.ok(lines.includes(`${OP(2)}: raises 20 to 30`));
+    assert.ok(lines.includes(`Uncalled bet (20) returned to ${OP(2)}`));
+    assert.ok(lines.includes(`${OP(2)} collected 20 from pot`));
+    assert.ok(lines.includes("Total pot 20 | Rake 0"));
+    assert.ok(lines.includes(`Seat 1: ${OP(1)} (button) folded before Flop (didn't bet)`));
+    assert.ok(lines.includes(`Seat 2: ${OP(2)} (small blind) collected (20)`));
+    assert.ok(lines.includes(`Seat 3: ${OP(3)} (big blind) folded before Flop`));
+    assert.ok(!text.includes("*** SHOW DOWN ***"));
+  });
+
+  it("should render streets and showdown reveals", () => {
+    // Heads-up: button 0, SB 1, BB 0
+    const input: HandHistoryInput = {
+      hand: hand({ community_cards: [0, 1, 2, 3, 4], showdown_block: "108" }),
+      players: [player(0, 100n), player(1, 100n)],
+      actions: [
+        action(1, "CALL", 5n),
+        action(0, "CHECK", 0n, true),
+        action(1, "RAISE", 10n),
+        action(0, "CALL", 10n, true),
+        action(1, "CHECK", 0n),
+        action(0, "CHECK", 0n, true),
+        action(1, "CHECK", 0n),
+        action(0, "CHECK", 0n, true),
+      ],
+      settlements: [settlement(1, 40n)],
+      holeCommitments: [
+        { table_id: "1", hand_id: "7", seat_index: 0, commitment: "0x", committed_block: "100", commit_tx_hash: "0x", card1: 12, card2: 25, revealed_block: "108", reveal_tx_hash: "0x", committed_at: new Date(), revealed_at: new Date() },
+        { table_id: "1", hand_id: "7", seat_index: 1, commitment: "0x", committed_block: "100", commit_tx_hash: "0x", card1: 38, card2: 51, revealed_block: "108", reveal_tx_hash: "0x", committed_at: new Date(), revealed_at: new Date() },
+      ],
+    };
+
+    const lines = formatPokerStarsHand(input).trimEnd().split("\n");
+
+    assert.ok(lines.includes("*** FLOP *** [2s 3s 4s]"));
+    assert.ok(lines.includes(`${OP(2)}: bets 10`));
+    assert.ok(lines.includes("*** TURN *** [2s 3s 4s] [5s]"));
+    assert.ok(lines.includes("*** RIVER *** [2s 3s 4s 5s] [6s]"));
+    assert.ok(lines.includes("*** SHOW DOWN ***"));
+    assert.ok(lines.includes(`${OP(1)}: shows [As Ah]`));
+    assert.ok(lines.includes("Board [2s 3s 4s 5s 6s]"));
+    assert.ok(lines.includes(`Seat 1: ${OP(1)} (button) (big blind) showed [As Ah] and lost`));
+    assert.ok(lines.includes(`Seat 2: ${OP(2)} (small blind) showed [Ad Ac] and won (40)`));
+  });
+
+  it("should credit every seat that shared a chopped pot", () => {
+    // Heads-up chop: both seats put in 20 and take 20 back
+    const input: HandHistoryInput = {
+      hand: hand({ settlement_amount: (40n * CHIP).toString(), winner_seats: [0, 1], showdown_block: "108" }),
+      players: [player(0, 100n), player(1, 100n)],
+      actions: [
+        action(1, "CALL", 5n),
+        action(0, "RAISE", 20n),
+        action(1, "CALL", 10n, true),
+        action(1, "CHECK", 0n),
+        action(0, "CHECK", 0n, true),
+      ],
+      settlements: [settlement(0, 40n, 20n, 1), settlement(1, 40n, 20n, 1)],
+      holeCommitments: [],
+    };
+
+    const lines = formatPokerStarsHand(input).trimEnd().split("\n");
+
+    assert.ok(lines.includes(`${OP(1)} collected 20 from pot`));
+    assert.ok(lines.includes(`${OP(2)} collected 20 from pot`));
+    assert.ok(lines.includes("Total pot 40 | Rake 0"));
+    assert.ok(lines.includes(`Seat 1: ${OP(1)} (button) (big blind) mucked and won (20)`));
+    assert.ok(lines.includes(`Seat 2: ${OP(2)} (small blind) mucked and won (20)`));
+  });
+});
@@ -0,0 +1,216 @@
+// PokerStars-style hand history export
+//
+// Renders indexed hands into the text format hand replayers and trackers import.
+// Amounts are printed in whole chips (18 decimals) and player names are seat operator addresses.
+
+import { formatUnits } from "viem";
+import type { Action, Hand, HandPlayer, HoleCommitment, Settlement } from "../db/types.js";
+
+export const HAND_EXPORT_FORMATS = ["pokerstars"] as const;
+export type HandExportFormat = (typeof HAND_EXPORT_FORMATS)[number];
+
+export interface HandHistoryInput {
+  hand: Hand;
+  players: HandPlayer[];
+  actions: Action[];
+  settlements: Settlement[];
+  holeCommitments: HoleCommitment[];
+}
+
+// Must match PokerTable.MAX_SEATS
+const MAX_SEATS = 9;
+const CHIP_DECIMALS = 18;
+
+// Card encoding matches HandEvaluator.sol: rank = id % 13, suit = id / 13
+const RANKS = "23456789TJQKA";
+const SUITS = "shdc";
+
+const STREET_NAMES = ["Flop", "Turn", "River"] as const;
+
+export function formatCard(card: number): string {
+  if (card < 0 || card > 51) return "??";
+  return `${RANKS[card % 13]}${SUITS[Math.floor(card / 13)]}`;
+}
+
+function formatCardList(cards: number[]): string {
+  return `[${cards.map(formatCard).join(" ")}]`;
+}
+
+function formatChips(amount: bigint): string {
+  return formatUnits(amount, CHIP_DECIMALS);
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return (
+    `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`
+  );
+}
+
+// Next seat clockwise among the dealt-in seats (PokerTable._nextPlayableSeat)
+function nextSeat(seats: number[], from: number): number {
+  return seats.find((seat) => seat > from) ?? seats[0];
+}
+
+export function formatPokerStarsHand(input: HandHistoryInput): string {
+  const { hand, actions, settlements, holeCommitments } = input;
+  const players = [...input.players].sort((a, b) => a.seat_index - b.seat_index);
+  const seatIndexes = players.map((p) => p.seat_index);
+  const names = new Map(players.map((p) => [p.seat_index, p.operator_address]));
+  const name = (seat: number) => names.get(seat) ?? `Seat ${seat + 1}`;
+
+  const smallBlind = BigInt(hand.small_blind);
+  const bigBlind = BigInt(hand.big_blind);
+  const buttonSeat = hand.button_seat;
+  const sbSeat = nextSeat(seatIndexes, buttonSeat);
+  const bbSeat = nextSeat(seatIndexes, sbSeat);
+  const board = hand.community_cards ?? [];
+
+  const revealed = new Map<number, number[]>();
+  for (const c of holeCommitments) {
+    if (c.card1 !== null && c.card2 !== null) revealed.set(c.seat_index, [c.card1, c.card2]);
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    `PokerStars Hand #${hand.hand_id}: Hold'em No Limit (${formatChips(smallBlind)}/${formatChips(bigBlind)}) - ` +
+      formatTimestamp(new Date(hand.started_at))
+  );
+  lines.push(`Table 'Railbird ${hand.table_id}' ${MAX_SEATS}-max Seat #${buttonSeat + 1} is the button`);
+  for (const p of players) {
+    lines.push(`Seat ${p.seat_index + 1}: ${name(p.seat_index)} (${formatChips(BigInt(p.starting_stack))} in chips)`);
+  }
+  lines.push(`${name(sbSeat)}: posts small blind ${formatChips(smallBlind)}`);
+  lines.push(`${name(bbSeat)}: posts big blind ${formatChips(bigBlind)}`);
+  lines.push("*** HOLE CARDS ***");
+
+  // street: 0 = preflop, 1-3 = flop/turn/river, 4 = showdown
+  let street = 0;
+  let currentBet = bigBlind;
+  let streetContrib = new Map<number, bigint>([
+    [sbSeat, smallBlind],
+    [bbSeat, bigBlind],
+  ]);
+  const invested = new Set<number>([sbSeat, bbSeat]);
+  const foldedOn = new Map<number, number>();
+
+  for (const action of actions) {
+    const seat = action.seat_index;
+    const amount = BigInt(action.amount);
+
+    switch (action.action_type) {
+      case "FOLD":
+        foldedOn.set(seat, street);
+        lines.push(`${name(seat)}: folds`);
+        break;
+      case "CHECK":
+        lines.push(`${name(seat)}: checks`);
+        break;
+      case "CALL":
+        // CALL amount is the chips added
+        streetContrib.set(seat, (streetContrib.get(seat) ?? 0n) + amount);
+        invested.add(seat);
+        lines.push(`${name(seat)}: calls ${formatChips(amount)}`);
+        break;
+      case "RAISE":
+        // RAISE amount is the seat's total bet for the street
+        lines.push(
+          currentBet === 0n
+            ? `${name(seat)}: bets ${formatChips(amount)}`
+            : `${name(seat)}: raises ${formatChips(amount - currentBet)} to ${formatChips(amount)}`
+        );
+        streetContrib.set(seat, amount);
+        currentBet = amount;
+        invested.add(seat);
+        break;
+    }
+
+    if (action.ends_street && street < 4) {
+      street++;
+      currentBet = 0n;
+      streetContrib = new Map();
+      // Board size once the street is dealt: flop 3, turn 4, river 5
+      const dealt = street + 2;
+      if (street === 1 && board.length >= 3) {
+        lines.push(`*** FLOP *** ${formatCardList(board.slice(0, 3))}`);
+      } else if (street <= 3 && board.length >= dealt) {
+        lines.push(
+          `*** ${STREET_NAMES[street - 1].toUpperCase()} *** ` +
+            `${formatCardList(board.slice(0, dealt - 1))} [${formatCard(board[dealt - 1])}]`
+        );
+      }
+    }
+  }
+
+  const remaining = seatIndexes.filter((seat) => !foldedOn.has(seat));
+  const winners = new Map<number, bigint>();
+  let uncalled = 0n;
+
+  // Everyone else folded: the unmatched part of the last bet goes back before the pot is collected
+  if (remaining.length === 1 && settlements.length > 0) {
+    const winner = remaining[0];
+    const winnerBet = streetContrib.get(winner) ?? 0n;
+    let matched = 0n;
+    for (const [seat, contrib] of streetContrib) {
+      if (seat !== winner && contrib > matched) matched = contrib;
+    }
+    if (winnerBet > matched) {
+      uncalled = winnerBet - matched;
+      lines.push(`Uncalled bet (${formatChips(uncalled)}) returned to ${name(winner)}`);
+    }
+  }
+
+  const showdown = remaining.length > 1 && (hand.showdown_block !== null || street === 4);
+  if (showdown) {
+    lines.push("*** SHOW DOWN ***");
+    for (const seat of remaining) {
+      const cards = revealed.get(seat);
+      lines.push(cards ? `${name(seat)}: shows ${formatCardList(cards)}` : `${name(seat)}: mucks hand`);
+    }
+  }
+
+  // One settlement row per dealt-in seat; a chopped pot has several with a share
+  for (const s of settlements) {
+    if (BigInt(s.amount_won) === 0n) continue;
+    const won = BigInt(s.amount_won) - uncalled;
+    winners.set(s.seat_index, (winners.get(s.seat_index) ?? 0n) + won);
+    lines.push(`${name(s.seat_index)} collected ${formatChips(won)} from pot`);
+  }
+
+  const totalPot = BigInt(hand.settlement_amount ?? hand.pot) - uncalled;
+  lines.push("*** SUMMARY ***");
+  lines.push(`Total pot ${formatChips(totalPot)} | Rake 0`);
+  if (board.length > 0) {
+    lines.push(`Board ${formatCardList(board)}`);
+  }
+
+  for (const p of players) {
+    const seat = p.seat_index;
+    let label = `Seat ${seat + 1}: ${name(seat)}`;
+    if (seat === buttonSeat) label += " (button)";
+    if (seat === sbSeat) label += " (small blind)";
+    if (seat === bbSeat) label += " (big blind)";
+
+    const folded = foldedOn.get(seat);
+    const won = winners.get(seat);
+    const cards = revealed.get(seat);
+    if (folded !== undefined) {
+      label += folded === 0 ? " folded before Flop" : ` folded on the ${STREET_NAMES[folded - 1]}`;
+      if (!invested.has(seat)) label += " (didn't bet)";
+    } else if (showdown) {
+      const shown = cards ? `showed ${formatCardList(cards)}` : "mucked";
+      label += won !== undefined ? ` ${shown} and won (${formatChips(won)})` : cards ? ` ${shown} and lost` : " mucked";
+    } else if (won !== undefined) {
+      label += ` collected (${formatChips(won)})`;
+    }
+    lines.push(label);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Hands are separated by blank lines, as in PokerStars history files
+export function formatPokerStarsHands(inputs: HandHistoryInput[]): string {
+  return inputs.map(formatPokerStarsHand).join("\n\n");
+}
@@ -2,6 +2,21 @@
 
 import { describe, it, beforeEach, mock } from "node:test";
 import assert from "node:assert";
+import {
+  encodeHandCursor,
+  decodeHandCursor,
+  parseHandHistoryFilters,
+  parseCandleRange,
+  formatPercent,
+  formatRatio,
+  buildPremiumSeries,
+  computeRebalanceStatus,
+  formatRebalanceResponse,
+  parseAgentEventTypes,
+  buildOwnerSummary,
+  parseWebhookInput,
+} from "./routes.js";
+import type { Rebalance, RebalanceDelay } from "../db/types.js";
 
 // Mock the database module before importing routes
 const mockTables = [
@@ -83,6 +98,7 @@ const mockSnapshot = {
   nav_per_share: "1111111111111111111",
   cumulative_pnl: "500",
   block_number: "100",
+  block_time: new Date(),
   created_at: new Date(),
 };
 
@@ -494,3 +510,399 @@ describe("Leaderboard", () => {
     });
   });
 });
+
+describe("Rebalances", () => {
+  const NAV = 10n ** 18n;
+  const rebalance = (direction: Rebalance["direction"], price: bigint, delay: RebalanceDelay | null): Rebalance => ({
+    id: 1,
+    vault_address: "0xvault",
+    hand_id: "7",
+    direction,
+    mon_in: "100",
+    mon_out: "0",
+    tokens_in: "0",
+    tokens_out: "100",
+    execution_price: price.toString(),
+    nav_before: NAV.toString(),
+    nav_after: NAV.toString(),
+    block_number: "120",
+    log_index: 0,
+    tx_hash: "0xtx",
+    created_at: new Date("2026-03-01T00:00:00Z"),
+    eligible_block: delay?.eligible_block ?? null,
+    delay_blocks: delay?.delay_blocks ?? null,
+  });
+  const delay: RebalanceDelay = {
+    vault_address: "0xvault",
+    hand_id: "7",
+    eligible_block: "115",
+    delay_blocks: "5",
+    block_number: "110",
+    tx_hash: "0xdelay",
+  };
+
+  describe("Accretive check", () => {
+    const accretive = (direction: Rebalance["direction"], price: bigint) =>
+      formatRebalanceResponse(rebalance(direction, price, delay)).accretive;
+
+    it("should accept buys at or below NAV", () => {
+      assert.strictEqual(accretive("BUY", (NAV * 9n) / 10n), true);
+      assert.strictEqual(accretive("BUY", NAV), true);
+      assert.strictEqual(accretive("BUY", (NAV * 11n) / 10n), false);
+    });
+
+    it("should accept sells at or above NAV", () => {
+      assert.strictEqual(accretive("SELL", (NAV * 11n) / 10n), true);
+      assert.strictEqual(accretive("SELL", NAV), true);
+      assert.strictEqual(accretive("SELL", (NAV * 9n) / 10n), false);
+    });
+  });
+
+  it("should report the rebalance's delay, or null when none was indexed for its hand", () => {
+    const delayed = formatRebalanceResponse(rebalance("BUY", NAV, delay));
+    assert.strictEqual(delayed.eligibleBlock, "115");
+    assert.strictEqual(delayed.delayBlocks, "5");
+    assert.strictEqual(delayed.timestamp, "2026-03-01T00:00:00.000Z");
+
+    const undelayed = formatRebalanceResponse(rebalance("SELL", NAV, null));
+    assert.strictEqual(undelayed.eligibleBlock, null);
+    assert.strictEqual(undelayed.delayBlocks, null);
+    assert.strictEqual(undelayed.accretive, true);
+  });
+});
+
+describe("Hand history", () => {
+  describe("Cursor", () => {
+    it("should round-trip hand ids", () => {
+      const cursor = encodeHandCursor(12345n);
+      assert.strictEqual(decodeHandCursor(cursor), 12345n);
+    });
+
+    it("should reject malformed cursors", () => {
+      assert.strictEqual(decodeHandCursor("not-a-cursor"), null);
+      assert.strictEqual(decodeHandCursor(Buffer.from('{"h":"-1"}').toString("base64url")), null);
+    });
+  });
+
+  describe("Filter parsing", () => {
+    it("should parse every filter", () => {
+      const filters = parseHandHistoryFilters({
+        cursor: encodeHandCursor(50n),
+        seat: "2",
+        winner: "3",
+        minPot: "100",
+        maxPot: "5000",
+        from: "2026-01-01T00:00:00Z",
+        to: "1767312000",
+        showdown: "true",
+      });
+
+      assert.notStrictEqual(typeof filters, "string");
+      const parsed = filters as Exclude<typeof filters, string>;
+      assert.strictEqual(parsed.beforeHandId, 50n);
+      assert.strictEqual(parsed.seat, 2);
+      assert.strictEqual(parsed.winner, 3);
+      assert.strictEqual(parsed.minPot, 100n);
+      assert.strictEqual(parsed.maxPot, 5000n);
+      assert.strictEqual(parsed.from?.toISOString(), "2026-01-01T00:00:00.000Z");
+      assert.strictEqual(parsed.to?.toISOString(), "2026-01-02T00:00:00.000Z");
+      assert.strictEqual(parsed.showdown, true);
+    });
+
+    it("should return an error for invalid values", () => {
+      assert.strictEqual(parseHandHistoryFilters({ seat: "-1" }), "Invalid seat");
+      assert.strictEqual(parseHandHistoryFilters({ minPot: "1.5" }), "Invalid minPot");
+      assert.strictEqual(parseHandHistoryFilters({ from: "yesterday" }), "Invalid from date");
+      assert.strictEqual(parseHandHistoryFilters({ showdown: "yes" }), "Invalid showdown (expected true or false)");
+    });
+  });
+});
+
+describe("Candle range", () => {
+  const now = new Date("2026-03-10T12:30:00Z");
+
+  it("should default to a week of hourly candles ending now", () => {
+    const range = parseCandleRange({}, now);
+    assert.notStrictEqual(typeof range, "string");
+    const parsed = range as Exclude<typeof range, string>;
+    assert.strictEqual(parsed.interval, "1h");
+    assert.strictEqual(parsed.bucketSeconds, 3600);
+    assert.strictEqual(parsed.to.toISOString(), "2026-03-10T12:30:00.000Z");
+    assert.strictEqual(parsed.from.toISOString(), "2026-03-03T12:30:00.000Z");
+  });
+
+  it("should extend the default window forward from a from date, capped at now", () => {
+    const daily = parseCandleRange({ interval: "1d", from: "2025-01-01T00:00:00Z" }, now);
+    assert.strictEqual((daily as Exclude<typeof daily, string>).to.toISOString(), "2025-04-01T00:00:00.000Z");
+
+    const recent = parseCandleRange({ from: "2026-03-10T00:00:00Z" }, now);
+    assert.strictEqual((recent as Exclude<typeof recent, string>).to.toISOString(), now.toISOString());
+  });
+
+  it("should use the caller's default interval", () => {
+    const range = parseCandleRange({}, now, "1d");
+    const parsed = range as Exclude<typeof range, string>;
+    assert.strictEqual(parsed.interval, "1d");
+    assert.strictEqual(parsed.from.toISOString(), "2025-12-10T12:30:00.000Z");
+  });
+
+  it("should accept unix seconds", () => {
+    const range = parseCandleRange({ interval: "1d", from: "1767225600", to: "1767312000" }, now);
+    const parsed = range as Exclude<typeof range, string>;
+    assert.strictEqual(parsed.from.toISOString(), "2026-01-01T00:00:00.000Z");
+    assert.strictEqual(parsed.to.toISOString(), "2026-01-02T00:00:00.000Z");
+  });
+
+  it("should reject invalid ranges", () => {
+    assert.strictEqual(parseCandleRange({ interval: "5m" }, now), "Invalid interval. Valid values: 1h, 1d");
+    assert.strictEqual(parseCandleRange({ interval: "toString" }, now), "Invalid interval. Valid values: 1h, 1d");
+    assert.strictEqual(parseCandleRange({ from: "soon" }, now), "Invalid from date");
+    assert.strictEqual(
+      parseCandleRange({ from: "2026-03-02T00:00:00Z", to: "2026-03-01T00:00:00Z" }, now),
+      "from must not be after to"
+    );
+    assert.strictEqual(
+      parseCandleRange({ from: "2025-01-01T00:00:00Z", to: "2026-01-01T00:00:00Z" }, now),
+      "Range too large for interval 1h (max 2000 candles)"
+    );
+  });
+});
+
+describe("Token holders", () => {
+  it("should format shares of outstanding supply as percentages", () => {
+    assert.strictEqual(formatPercent(1n, 3n), "33.3333");
+    assert.strictEqual(formatPercent(250n, 1000n), "25.0000");
+    assert.strictEqual(formatPercent(1n, 10n ** 9n), "0.0000");
+    assert.strictEqual(formatPercent(7n, 7n), "100.0000");
+    assert.strictEqual(formatPercent(5n, 0n), null);
+  });
+});
+
+describe("Premium to NAV", () => {
+  const ONE = 10n ** 18n;
+  const snapshot = {
+    id: 1,
+    vault_address: "0xvault",
+    hand_id: "7",
+    external_assets: (100n * ONE).toString(),
+    treasury_shares: (50n * ONE).toString(),
+    outstanding_shares: (100n * ONE).toString(),
+    nav_per_share: ONE.toString(),
+    cumulative_pnl: "0",
+    block_number: "100",
+    block_time: new Date(),
+    created_at: new Date(),
+  };
+  const status = (overrides: Partial<Parameters<typeof computeRebalanceStatus>[0]>) =>
+    computeRebalanceStatus({
+      snapshot,
+      configured: true,
+      delay: null,
+      lastRebalancedHandId: "6",
+      indexedBlock: 200n,
+      price: ONE,
+      ...overrides,
+    });
+  const delay = (eligibleBlock: string): RebalanceDelay => ({
+    vault_address: "0xvault",
+    hand_id: "7",
+    eligible_block: eligibleBlock,
+    delay_blocks: "50",
+    block_number: "100",
+    tx_hash: "0xdelay",
+  });
+
+  it("should format signed ratios", () => {
+    assert.strictEqual(formatRatio(-125n, 1000n), "-0.125000");
+    assert.strictEqual(formatRatio(1n, 3n), "0.333333");
+    assert.strictEqual(formatRatio(3n, 2n), "1.500000");
+    assert.strictEqual(formatRatio(0n, 5n), "0.000000");
+    assert.strictEqual(formatRatio(1n, 0n), null);
+  });
+
+  it("should pair price and NAV closes by bucket", () => {
+    const t1 = new Date("2026-03-01T00:00:00Z");
+    const t2 = new Date("2026-03-01T01:00:00Z");
+    const candle = (bucket: Date, close: string) => ({
+      bucket,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume_mon: "0",
+      volume_tokens: "0",
+      trade_count: 0,
+      buy_count: 0,
+      sell_count: 0,
+    });
+    const nav = (bucket: Date, close: string) => ({
+      bucket,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      external_assets: "0",
+      outstanding_shares: "0",
+      cumulative_pnl: "0",
+      snapshot_count: 1,
+    });
+
+    const points = buildPremiumSeries(
+      [candle(t1, "900"), candle(t2, "1200")],
+      [nav(t2, "1000")]
+    );
+    assert.deepStrictEqual(points, [
+      {
+        time: t2.toISOString(),
+        price: "1200",
+        navPerShare: "1000",
+        premium: "0.200000",
+        accretiveBuy: false,
+        accretiveSell: true,
+      },
+    ]);
+  });
+
+  it("should allow an accretive buy below NAV once the delay has passed", () => {
+    const result = status({ price: (ONE * 9n) / 10n, delay: delay("150") });
+    assert.strictEqual(result.eligible, true);
+    assert.strictEqual(result.canBuy, true);
+    assert.strictEqual(result.canSell, false);
+    assert.strictEqual(result.eligibleBlock, "150");
+  });
+
+  it("should block rebalancing before the delay or after this hand was rebalanced", () => {
+    assert.strictEqual(status({ delay: delay("250") }).eligible, false);
+
+    const rebalanced = status({ lastRebalancedHandId: "7" });
+    assert.strictEqual(rebalanced.alreadyRebalanced, true);
+    assert.strictEqual(rebalanced.canBuy, false);
+    assert.strictEqual(rebalanced.canSell, false);
+
+    assert.strictEqual(status({ configured: false }).eligible, false);
+  });
+
+  it("should not wait on a delay when none was requested for the snapshot hand", () => {
+    const result = status({ delay: null, indexedBlock: 0n });
+    assert.strictEqual(result.eligible, true);
+    assert.strictEqual(result.eligibleBlock, null);
+  });
+
+  it("should allow both sides at exactly NAV and neither without a price", () => {
+    const atNav = status({});
+    assert.strictEqual(atNav.canBuy, true);
+    assert.strictEqual(atNav.canSell, true);
+
+    const noPrice = status({ price: null });
+    assert.strictEqual(noPrice.eligible, true);
+    assert.strictEqual(noPrice.canBuy, false);
+    assert.strictEqual(noPrice.canSell, false);
+  });
+});
+
+describe("Agent timeline", () => {
+  it("should accept comma-separated event types in any case", () => {
+    assert.deepStrictEqual(parseAgentEventTypes(undefined), []);
+    assert.deepStrictEqual(parseAgentEventTypes("owner_updated, TABLE_UPDATED,owner_updated"), [
+      "OWNER_UPDATED",
+      "TABLE_UPDATED",
+    ]);
+  });
+
+  it("should reject unknown event types", () => {
+    const result = parseAgentEventTypes("OWNER_UPDATED,transfer");
+    assert.strictEqual(typeof result, "string");
+    assert.ok((result as string).startsWith("Invalid type: TRANSFER"));
+  });
+});
+
+describe("Owner portfolio", () => {
+  const table = "0x1234567890123456789012345678901234567890";
+  const agent = (token: string, operator: string, vault: string | null) => ({
+    ...mockAgents[0],
+    token_address: token,
+    vault_address: vault,
+    table_address: table,
+    owner_address: "0xowner1",
+    operator_address: operator,
+  });
+  const seat = (tableId: string, seatIndex: number, operator: string, stack: string) => ({
+    ...mockSeats[0],
+    table_id: tableId,
+    seat_index: seatIndex,
+    operator_address: operator,
+    stack,
+    contract_address: tableId === "1" ? table.toUpperCase().replace("0X", "0x") : "0xother",
+    current_hand_id: "5",
+  });
+
+  it("should link seats to agents and total stacks, NAV and PnL", () => {
+    const summary = buildOwnerSummary(
+      "0xOWNER1",
+      [agent("0xagent1", "0xop1", "0xvault1"), agent("0xagent2", "0xop2", null)],
+      [mockSnapshot],
+      [seat("1", 0, "0xop2", "700"), seat("2", 1, "0xop1", "300")],
+      [{ ...mockHand, winner_seats: null, started_block: "90", showdown_block: null, seat_index: 0 }]
+    );
+
+    assert.strictEqual(summary.ownerAddress, "0xowner1");
+    assert.deepStrictEqual(
+      summary.seats.map((s) => s.agentTokenAddress),
+      ["0xagent2", null]
+    );
+    assert.deepStrictEqual(summary.agents[1].seats.map((s) => s.seatIndex), [0]);
+    assert.deepStrictEqual(summary.agents[0].seats, []);
+    assert.strictEqual(summary.agents[0].latestSnapshot?.externalAssets, "10000");
+    assert.strictEqual(summary.agents[1].latestSnapshot, null);
+    assert.deepStrictEqual(summary.totals, {
+      agents: 2,
+      seats: 2,
+      stack: "1000",
+      externalAssets: "10000",
+      lifetimePnl: "500",
+      openHands: 1,
+    });
+    assert.strictEqual(summary.openHands[0].toAct, true);
+  });
+
+  it("should return an empty portfolio for an unknown owner", () => {
+    const summary = buildOwnerSummary("0xnobody", [], [], [], []);
+    assert.deepStrictEqual(summary.agents, []);
+    assert.strictEqual(summary.totals.stack, "0");
+    assert.strictEqual(summary.totals.lifetimePnl, "0");
+  });
+});
+
+describe("Webhooks", () => {
+  it("should normalize a registration", () => {
+    const input = parseWebhookInput({
+      url: "https://example.com/hooks",
+      events: ["hand_settled", "vault_snapshot", "hand_settled"],
+      topics: ["TABLE:1", "agent:*"],
+      description: "discord",
+    });
+    assert.deepStrictEqual(input, {
+      url: "https://example.com/hooks",
+      events: ["hand_settled", "vault_snapshot"],
+      topics: ["table:1", "agent:*"],
+      description: "discord",
+    });
+  });
+
+  it("should default to every event and topic", () => {
+    const input = parseWebhookInput({ url: "http://localhost:9000/hook" });
+    assert.notStrictEqual(typeof input, "string");
+    const parsed = input as Exclude<typeof input, string>;
+    assert.deepStrictEqual(parsed.events, []);
+    assert.deepStrictEqual(parsed.topics, []);
+    assert.strictEqual(parsed.description, null);
+  });
+
+  it("should return an error for invalid values", () => {
+    assert.strictEqual(parseWebhookInput({}), "url is required");
+    assert.strictEqual(parseWebhookInput({ url: "not a url" }), "Invalid url");
+    assert.strictEqual(parseWebhookInput({ url: "ftp://example.com" }), "url must be http or https");
+    assert.match(parseWebhookInput({ url: "https://x.io", events: ["pong"] }) as string, /^Unknown event "pong"/);
+    assert.strictEqual(parseWebhookInput({ url: "https://x.io", topics: ["table:abc"] }), 'Invalid topic "table:abc"');
+  });
+});
@@ -1,33 +1,124 @@
 // REST API routes
 
-import { Router, type Request, type Response } from "express";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { timingSafeEqual } from "node:crypto";
 import type { Router as RouterType } from "express";
 import {
   getTable,
   getAllTables,
   getSeats,
+  getSeatEvents,
   getHand,
   getTableHands,
   getHandActions,
+  getHandPlayers,
+  getHandSettlements,
+  getHandHoleCommitments,
+  getHandVrfRequests,
   getAgent,
   getAllAgents,
   getLatestVaultSnapshot,
   getVaultSnapshots,
-  getVaultSnapshotsInPeriod,
-  getAgentSettlementsInPeriod,
+  getVaultNavCandles,
+  getTokenTrades,
+  getAgentEvents,
+  getAgentsByOwners,
+  getLatestVaultSnapshots,
+  getOwnerSeats,
+  getOwnerOpenHands,
+  getTokenPriceCandles,
+  getLatestTokenTrade,
+  getRebalanceDelay,
+  getTokenHolders,
+  getTokenHolderSummary,
+  getTokenHolderCountHistory,
+  getRebalances,
+  getRebalanceConfig,
+  getLeaderboardPage,
+  getAgentHandsInPeriod,
+  getIndexerState,
+  readTransaction,
+  insertWebhook,
+  getWebhooks,
+  getWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  replayWebhookDeliveries,
 } from "../db/index.js";
-import { getWsManager } from "../ws/index.js";
+import {
+  SSE_KEEPALIVE_MS,
+  SseClient,
+  clientIp,
+  getWsManager,
+  parseSequence,
+  parseTopic,
+  resumeTopic,
+  subscribeWithSnapshot,
+  tableTopic,
+} from "../ws/index.js";
+import { WEBHOOK_EVENT_TYPES, generateWebhookSecret } from "../webhooks/index.js";
+import {
+  HAND_EXPORT_FORMATS,
+  formatPokerStarsHand,
+  formatPokerStarsHands,
+  type HandExportFormat,
+  type HandHistoryInput,
+} from "./pokerstars.js";
+import { computeAgentStats, type AgentHandInput } from "./agentStats.js";
 import type {
   TableResponse,
   SeatResponse,
+  SeatEventResponse,
   HandResponse,
+  HandDetailResponse,
+  AgentEvent,
+  AgentEventType,
+  Agent,
+  OwnerSeat,
+  OwnerOpenHand,
+  OwnerSeatResponse,
+  OwnerAgentResponse,
+  OwnerSummaryResponse,
+  AgentEventResponse,
+  Settlement,
+  SettlementPayoutResponse,
+  HandHistoryFilters,
+  Hand,
+  HoleCommitmentResponse,
+  VrfRequestResponse,
   ActionResponse,
   AgentResponse,
   VaultSnapshotResponse,
+  Rebalance,
+  NavCandle,
+  NavCandleResponse,
+  CandleInterval,
+  NavSeriesResponse,
+  TokenTrade,
+  TokenTradeResponse,
+  TradeSide,
+  PriceCandle,
+  PriceCandleResponse,
+  PriceSeriesResponse,
+  TokenHoldersResponse,
+  PremiumResponse,
+  PremiumPointResponse,
+  RebalanceStatusResponse,
+  RebalanceDelay,
+  VaultSnapshot,
+  RebalanceResponse,
+  RebalanceConfigResponse,
+  RebalanceHistoryResponse,
   LeaderboardEntry,
   LeaderboardResponse,
+  LeaderboardRow,
   LeaderboardMetric,
   LeaderboardPeriod,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookResponse,
+  WebhookDeliveryResponse,
 } from "../db/types.js";
 
 export const router: RouterType = Router();
@@ -208,9 +299,10 @@ router.get("/health", async (_req, res) => {
     dbReady = false;
   }
 
-  // Check chain config readiness
-  const chainReady = !!(
-    process.env.POKER_TABLE_ADDRESS &&
+  // Check chain config readiness (WS-only replicas do not ingest)
+  const wsOnly = process.env.INDEXER_MODE === "ws";
+  const chainReady = wsOnly || !!(
+    (process.env.POKER_TABLE_ADDRESS || process.env.POKER_TABLE_ADDRESSES) &&
     process.env.PLAYER_REGISTRY_ADDRESS &&
     process.env.RPC_URL
   );
@@ -220,9 +312,10 @@ router.get("/health", async (_req, res) => {
   res.status(allReady ? 200 : 503).json({
     status: allReady ? "ready" : "degraded",
     timestamp: new Date().toISOString(),
+    mode: wsOnly ? "ws" : "full",
     dependencies: {
       database: dbReady ? "ready" : "unavailable",
-      chain: chainReady ? "ready" : "unavailable",
+      chain: wsOnly ? "not_required" : chainReady ? "ready" : "unavailable",
     },
     websocket: wsStats,
   });
@@ -279,27 +372,84 @@ router.get("/tables", async (_req, res) => {
 router.get("/tables/:id", async (req, res) => {
   try {
     const tableId = BigInt(req.params.id);
-    const table = await getTable(tableId);
+    const response = await loadTableResponse(tableId);
+
+    if (!response) {
+      return res.status(404).json({ error: "Table not found" });
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching table:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
 
+// Server-Sent Events version of the table:<id> WebSocket topic: table_snapshot, then live events.
+// Reconnects resume from Last-Event-ID (or ?lastEventId= for clients that cannot set headers).
+router.get("/tables/:id/stream", async (req, res) => {
+  try {
+    const tableId = BigInt(req.params.id);
+    const table = await getTable(tableId);
     if (!table) {
       return res.status(404).json({ error: "Table not found" });
     }
 
-    const seats = await getSeats(tableId);
-    const hand = table.current_hand_id
-      ? await getHand(tableId, BigInt(table.current_hand_id))
-      : null;
+    const lastEventId = req.get("Last-Event-ID") ?? (req.query.lastEventId as string | undefined);
+    if (lastEventId !== undefined && !parseSequence(lastEventId)) {
+      return res.status(400).json({ error: "Invalid Last-Event-ID" });
+    }
 
-    let actions: ActionResponse[] = [];
-    if (hand) {
-      const dbActions = await getHandActions(tableId, BigInt(hand.hand_id));
-      actions = dbActions.map(formatActionResponse);
+    const manager = getWsManager();
+    const client = new SseClient(res);
+    const rejection = manager.registerConnection(client, clientIp(req, manager.getTrustedProxyHops()));
+    if (rejection) {
+      return res.status(503).json({
+        error: rejection === "ip_limit" ? "Too many connections from this address" : "Server is at capacity",
+      });
     }
 
-    const response = formatTableResponse(table, seats, hand, actions);
-    res.json(response);
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 3000\n\n");
+
+    const topic = tableTopic(tableId);
+    if (lastEventId !== undefined) {
+      resumeTopic(client, topic, lastEventId, loadTableSnapshot);
+    } else {
+      subscribeWithSnapshot(client, topic, loadTableSnapshot);
+    }
+
+    const keepAlive = setInterval(() => client.keepAlive(), SSE_KEEPALIVE_MS);
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      manager.unregisterConnection(client);
+    });
   } catch (error) {
-    console.error("Error fetching table:", error);
+    console.error("Error opening table stream:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+router.get("/tables/:id/seats/:seatIndex/history", async (req, res) => {
+  try {
+    const tableId = BigInt(req.params.id);
+    const seatIndex = parseInt(req.params.seatIndex, 10);
+    if (!Number.isInteger(seatIndex) || seatIndex < 0) {
+      return res.status(400).json({ error: "Invalid seat index" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const events = await getSeatEvents(tableId, seatIndex, limit);
+    res.json(events.map(formatSeatEventResponse));
+  } catch (error) {
+    console.error("Error fetching seat history:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -309,7 +459,12 @@ router.get("/tables/:id/hands", async (req, res) => {
     const tableId = BigInt(req.params.id);
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
 
-    const hands = await getTableHands(tableId, limit);
+    const filters = parseHandHistoryFilters(req.query);
+    if (typeof filters === "string") {
+      return res.status(400).json({ error: filters });
+    }
+
+    const { rows: hands, total } = await getTableHands(tableId, filters, limit);
 
     const response = await Promise.all(
       hands.map(async (hand) => {
@@ -318,6 +473,11 @@ router.get("/tables/:id/hands", async (req, res) => {
       })
     );
 
+    // Body stays a plain array; paging metadata travels in headers
+    res.setHeader("X-Total-Count", total.toString());
+    if (hands.length === limit) {
+      res.setHeader("X-Next-Cursor", encodeHandCursor(BigInt(hands[hands.length - 1].hand_id)));
+    }
     res.json(response);
   } catch (error) {
     console.error("Error fetching hands:", error);
@@ -325,6 +485,71 @@ router.get("/tables/:id/hands", async (req, res) => {
   }
 });
 
+// Registered before /hands/:handId so "export" is not parsed as a hand id
+router.get("/tables/:id/hands/export", async (req, res) => {
+  try {
+    const tableId = BigInt(req.params.id);
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${HAND_EXPORT_FORMATS.join(", ")}` });
+    }
+    const filters = parseHandHistoryFilters(req.query);
+    if (typeof filters === "string") {
+      return res.status(400).json({ error: filters });
+    }
+
+    const { rows: hands, total } = await getTableHands(tableId, filters, limit);
+    const histories = await Promise.all(hands.map((hand) => loadHandHistory(tableId, hand)));
+
+    // In-progress hands and hands indexed before player snapshots cannot be rendered
+    const exportable = histories
+      .filter((h) => h.hand.settled_at !== null && h.players.length > 0)
+      .reverse();
+
+    res.setHeader("X-Total-Count", total.toString());
+    if (hands.length === limit) {
+      res.setHeader("X-Next-Cursor", encodeHandCursor(BigInt(hands[hands.length - 1].hand_id)));
+    }
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="table-${tableId}-hands.txt"`);
+    res.send(formatPokerStarsHands(exportable));
+  } catch (error) {
+    console.error("Error exporting hands:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/tables/:tableId/hands/:handId/export", async (req, res) => {
+  try {
+    const tableId = BigInt(req.params.tableId);
+    const handId = BigInt(req.params.handId);
+
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${HAND_EXPORT_FORMATS.join(", ")}` });
+    }
+
+    const hand = await getHand(tableId, handId);
+    if (!hand) {
+      return res.status(404).json({ error: "Hand not found" });
+    }
+
+    const history = await loadHandHistory(tableId, hand);
+    if (history.players.length === 0) {
+      return res.status(422).json({ error: "Hand has no player snapshot (indexed before hand_players was added)" });
+    }
+
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="table-${tableId}-hand-${handId}.txt"`);
+    res.send(formatPokerStarsHand(history));
+  } catch (error) {
+    console.error("Error exporting hand:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 router.get("/tables/:tableId/hands/:handId", async (req, res) => {
   try {
     const tableId = BigInt(req.params.tableId);
@@ -335,10 +560,21 @@ router.get("/tables/:tableId/hands/:handId", async (req, res) => {
       return res.status(404).json({ error: "Hand not found" });
     }
 
-    const dbActions = await getHandActions(tableId, handId);
+    const [dbActions, settlements, commitments, vrfRequests] = await Promise.all([
+      getHandActions(tableId, handId),
+      getHandSettlements(tableId, handId),
+      getHandHoleCommitments(tableId, handId),
+      getHandVrfRequests(tableId, handId),
+    ]);
     const actions = dbActions.map(formatActionResponse);
 
-    res.json(formatHandResponse(hand, actions));
+    const response: HandDetailResponse = {
+      ...formatHandResponse(hand, actions),
+      payouts: settlements.map(formatSettlementPayoutResponse),
+      holeCommitments: commitments.map(formatHoleCommitmentResponse),
+      vrfTimeline: vrfRequests.map(formatVrfRequestResponse),
+    };
+    res.json(response);
   } catch (error) {
     console.error("Error fetching hand:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -405,11 +641,640 @@ router.get("/agents/:token/snapshots", async (req, res) => {
   }
 });
 
+router.get("/agents/:token/nav", async (req, res) => {
+  try {
+    const range = parseCandleRange(req.query);
+    if (typeof range === "string") {
+      return res.status(400).json({ error: range });
+    }
+
+    const agent = await getAgent(req.params.token);
+    if (!agent || !agent.vault_address) {
+      return res.status(404).json({ error: "Agent or vault not found" });
+    }
+
+    const candles = await getVaultNavCandles(agent.vault_address, range.bucketSeconds, range.from, range.to);
+    const response: NavSeriesResponse = {
+      tokenAddress: agent.token_address,
+      vaultAddress: agent.vault_address,
+      interval: range.interval,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      candles: candles.map(formatNavCandleResponse),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching NAV series:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+const TRADE_SIDES: TradeSide[] = ["BUY", "SELL"];
+
+router.get("/agents/:token/trades", async (req, res) => {
+  try {
+    const side = req.query.side !== undefined ? String(req.query.side).toUpperCase() : null;
+    if (side !== null && !TRADE_SIDES.includes(side as TradeSide)) {
+      return res.status(400).json({ error: `Invalid side. Valid values: ${TRADE_SIDES.join(", ")}` });
+    }
+    const before = (req.query.before as string | undefined) ?? null;
+    if (before !== null && !/^\d+$/.test(before)) {
+      return res.status(400).json({ error: "Invalid before" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const agent = await getAgent(req.params.token);
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+
+    const trades = await getTokenTrades(agent.token_address, limit, before, side as TradeSide | null);
+    res.json(trades.map(formatTokenTradeResponse));
+  } catch (error) {
+    console.error("Error fetching token trades:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+const AGENT_EVENT_TYPES: AgentEventType[] = [
+  "REGISTERED",
+  "OWNER_UPDATED",
+  "OPERATOR_UPDATED",
+  "VAULT_UPDATED",
+  "TABLE_UPDATED",
+  "META_URI_UPDATED",
+];
+
+// Comma-separated, case-insensitive; an empty list means every type
+export function parseAgentEventTypes(raw: unknown): AgentEventType[] | string {
+  if (raw === undefined || raw === "") return [];
+  const types = String(raw)
+    .split(",")
+    .map((type) => type.trim().toUpperCase())
+    .filter((type) => type !== "");
+  const invalid = types.find((type) => !AGENT_EVENT_TYPES.includes(type as AgentEventType));
+  if (invalid !== undefined) {
+    return `Invalid type: ${invalid}. Valid values: ${AGENT_EVENT_TYPES.join(", ")}`;
+  }
+  return [...new Set(types)] as AgentEventType[];
+}
+
+router.get("/agents/:token/timeline", async (req, res) => {
+  try {
+    const types = parseAgentEventTypes(req.query.type);
+    if (typeof types === "string") {
+      return res.status(400).json({ error: types });
+    }
+    const before = (req.query.before as string | undefined) ?? null;
+    if (before !== null && !/^\d+$/.test(before)) {
+      return res.status(400).json({ error: "Invalid before" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const agent = await getAgent(req.params.token);
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+
+    const events = await getAgentEvents(agent.token_address, limit, before, types.length > 0 ? types : null);
+    res.json(events.map(formatAgentEventResponse));
+  } catch (error) {
+    console.error("Error fetching agent timeline:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/agents/:token/price", async (req, res) => {
+  try {
+    const range = parseCandleRange(req.query);
+    if (typeof range === "string") {
+      return res.status(400).json({ error: range });
+    }
+
+    const agent = await getAgent(req.params.token);
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+
+    const candles = await getTokenPriceCandles(agent.token_address, range.bucketSeconds, range.from, range.to);
+    const response: PriceSeriesResponse = {
+      tokenAddress: agent.token_address,
+      interval: range.interval,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      candles: candles.map(formatPriceCandleResponse),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching price series:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/agents/:token/holders", async (req, res) => {
+  try {
+    const range = parseCandleRange(req.query, new Date(), "1d");
+    if (typeof range === "string") {
+      return res.status(400).json({ error: range });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 200);
+
+    const agent = await getAgent(req.params.token);
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+
+    // The vault's own balance is its treasury; everyone else holds outstanding shares
+    const treasury = agent.vault_address || null;
+    const { summary, holders, history } = await readTransaction(async () => ({
+      summary: await getTokenHolderSummary(agent.token_address, treasury),
+      holders: await getTokenHolders(agent.token_address, limit, treasury),
+      history: await getTokenHolderCountHistory(
+        agent.token_address,
+        treasury,
+        range.bucketSeconds,
+        range.from,
+        range.to
+      ),
+    }));
+
+    const totalSupply = BigInt(summary.total_supply);
+    const treasuryShares = BigInt(summary.treasury_balance);
+    const outstanding = totalSupply - treasuryShares;
+    const response: TokenHoldersResponse = {
+      tokenAddress: agent.token_address,
+      vaultAddress: treasury,
+      totalSupply: totalSupply.toString(),
+      treasuryShares: treasuryShares.toString(),
+      outstandingShares: outstanding.toString(),
+      holderCount: summary.holder_count,
+      holders: holders.map((holder) => ({
+        address: holder.holder_address,
+        balance: holder.balance,
+        percentOfOutstanding: formatPercent(BigInt(holder.balance), outstanding),
+      })),
+      history: {
+        interval: range.interval,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        points: history.map((point) => ({ time: point.bucket.toISOString(), holders: point.holder_count })),
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching token holders:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/agents/:token/premium", async (req, res) => {
+  try {
+    const range = parseCandleRange(req.query);
+    if (typeof range === "string") {
+      return res.status(400).json({ error: range });
+    }
+
+    const agent = await getAgent(req.params.token);
+    if (!agent || !agent.vault_address) {
+      return res.status(404).json({ error: "Agent or vault not found" });
+    }
+    const vault = agent.vault_address;
+
+    const data = await readTransaction(async () => {
+      const snapshot = await getLatestVaultSnapshot(vault);
+      return {
+        snapshot,
+        trade: await getLatestTokenTrade(agent.token_address),
+        config: await getRebalanceConfig(vault),
+        delay: snapshot ? await getRebalanceDelay(vault, snapshot.hand_id) : null,
+        lastRebalance: (await getRebalances(vault, 1)).rows[0] ?? null,
+        state: await getIndexerState(),
+        prices: await getTokenPriceCandles(agent.token_address, range.bucketSeconds, range.from, range.to),
+        navs: await getVaultNavCandles(vault, range.bucketSeconds, range.from, range.to),
+      };
+    });
+
+    const price = data.trade ? BigInt(data.trade.price) : null;
+    const nav = data.snapshot ? BigInt(data.snapshot.nav_per_share) : null;
+    const comparable = price !== null && nav !== null && nav > 0n;
+    const response: PremiumResponse = {
+      tokenAddress: agent.token_address,
+      vaultAddress: vault,
+      current: {
+        price: data.trade?.price ?? null,
+        priceAt: data.trade?.block_time.toISOString() ?? null,
+        navPerShare: data.snapshot?.nav_per_share ?? null,
+        premium: comparable ? formatRatio(price - nav, nav) : null,
+        accretiveBuy: comparable && price <= nav,
+        accretiveSell: comparable && price >= nav,
+        rebalance: computeRebalanceStatus({
+          snapshot: data.snapshot,
+          configured: data.config !== null,
+          delay: data.delay,
+          lastRebalancedHandId: data.lastRebalance?.hand_id ?? null,
+          indexedBlock: BigInt(data.state?.last_processed_block ?? 0),
+          price,
+        }),
+      },
+      history: {
+        interval: range.interval,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        points: buildPremiumSeries(data.prices, data.navs),
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching premium to NAV:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/agents/:token/stats", async (req, res) => {
+  try {
+    const period = ((req.query.period as string) || "all").toLowerCase() as LeaderboardPeriod;
+    if (!VALID_PERIODS.includes(period)) {
+      return res.status(400).json({
+        error: `Invalid period. Valid values: ${VALID_PERIODS.join(", ")}`,
+      });
+    }
+
+    const agent = await getAgent(req.params.token);
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+
+    // One snapshot, so a hand settling mid-request can't show up without its seats or actions
+    const { hands, players, actions } = await readTransaction(() =>
+      getAgentHandsInPeriod(agent.owner_address, agent.table_address, getPeriodStartDate(period))
+    );
+
+    const handKey = (tableId: string, handId: string) => `${tableId}:${handId}`;
+    const inputs = new Map<string, AgentHandInput>();
+    for (const hand of hands) {
+      inputs.set(handKey(hand.table_id, hand.hand_id), { hand, seat: hand.agent_seat, players: [], actions: [] });
+    }
+    for (const player of players) {
+      inputs.get(handKey(player.table_id, player.hand_id))?.players.push(player.seat_index);
+    }
+    for (const action of actions) {
+      inputs.get(handKey(action.table_id, action.hand_id))?.actions.push(action);
+    }
+
+    res.json(computeAgentStats(agent.token_address, period, Array.from(inputs.values())));
+  } catch (error) {
+    console.error("Error fetching agent stats:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/agents/:token/rebalances", async (req, res) => {
+  try {
+    const tokenAddress = req.params.token.toLowerCase();
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const agent = await getAgent(tokenAddress);
+    if (!agent || !agent.vault_address) {
+      return res.status(404).json({ error: "Agent or vault not found" });
+    }
+
+    const [{ rows, total }, config] = await Promise.all([
+      getRebalances(agent.vault_address, limit, offset),
+      getRebalanceConfig(agent.vault_address),
+    ]);
+
+    const response: RebalanceHistoryResponse = {
+      vaultAddress: agent.vault_address,
+      config: config ? formatRebalanceConfigResponse(config) : null,
+      total,
+      limit,
+      offset,
+      rebalances: rows.map(formatRebalanceResponse),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching rebalances:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ============ Owners ============
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * An owner's agents, seats and open hands in one response. Seats are held by the owner, so a seat
+ * belongs to the owner's agent registered at the same table (matching operator first).
+ */
+export function buildOwnerSummary(
+  ownerAddress: string,
+  agents: Agent[],
+  snapshots: VaultSnapshot[],
+  seats: OwnerSeat[],
+  openHands: OwnerOpenHand[]
+): OwnerSummaryResponse {
+  const snapshotByVault = new Map(snapshots.map((snapshot) => [snapshot.vault_address.toLowerCase(), snapshot]));
+
+  const seatResponses = seats.map((seat): OwnerSeatResponse => {
+    const tableAddress = seat.contract_address.toLowerCase();
+    const candidates = agents.filter((agent) => agent.table_address?.toLowerCase() === tableAddress);
+    const agent =
+      candidates.find((a) => a.operator_address.toLowerCase() === seat.operator_address.toLowerCase()) ??
+      candidates[0];
+    return {
+      ...formatSeatResponse(seat),
+      tableId: seat.table_id,
+      tableAddress: seat.contract_address,
+      agentTokenAddress: agent?.token_address ?? null,
+    };
+  });
+
+  let externalAssets = 0n;
+  let lifetimePnl = 0n;
+  const agentResponses = agents.map((agent): OwnerAgentResponse => {
+    const snapshot = agent.vault_address ? snapshotByVault.get(agent.vault_address.toLowerCase()) ?? null : null;
+    if (snapshot) {
+      externalAssets += BigInt(snapshot.external_assets);
+      lifetimePnl += BigInt(snapshot.cumulative_pnl);
+    }
+    return {
+      ...formatAgentResponse(agent, snapshot),
+      seats: seatResponses.filter((seat) => seat.agentTokenAddress === agent.token_address),
+    };
+  });
+
+  return {
+    ownerAddress: ownerAddress.toLowerCase(),
+    agents: agentResponses,
+    seats: seatResponses,
+    openHands: openHands.map((hand) => ({
+      tableId: hand.table_id,
+      handId: hand.hand_id,
+      seatIndex: hand.seat_index,
+      gameState: hand.game_state,
+      pot: hand.pot,
+      actorSeat: hand.actor_seat,
+      toAct: hand.actor_seat === hand.seat_index,
+      startedAt: hand.started_at.toISOString(),
+    })),
+    totals: {
+      agents: agents.length,
+      seats: seats.length,
+      stack: seats.reduce((sum, seat) => sum + BigInt(seat.stack), 0n).toString(),
+      externalAssets: externalAssets.toString(),
+      lifetimePnl: lifetimePnl.toString(),
+      openHands: openHands.length,
+    },
+  };
+}
+
+async function loadOwnerSummary(ownerAddress: string, withOpenHands: boolean): Promise<OwnerSummaryResponse> {
+  const data = await readTransaction(async () => {
+    const agents = await getAgentsByOwners([ownerAddress]);
+    const vaults = agents.flatMap((agent) => (agent.vault_address ? [agent.vault_address] : []));
+    return {
+      agents,
+      snapshots: vaults.length > 0 ? await getLatestVaultSnapshots(vaults) : [],
+      seats: await getOwnerSeats(ownerAddress),
+      openHands: withOpenHands ? await getOwnerOpenHands(ownerAddress) : [],
+    };
+  });
+  return buildOwnerSummary(ownerAddress, data.agents, data.snapshots, data.seats, data.openHands);
+}
+
+router.get("/owners/:address/agents", async (req, res) => {
+  try {
+    if (!ADDRESS_PATTERN.test(req.params.address)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    const summary = await loadOwnerSummary(req.params.address, false);
+    res.json(summary.agents);
+  } catch (error) {
+    console.error("Error fetching owner agents:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/owners/:address/summary", async (req, res) => {
+  try {
+    if (!ADDRESS_PATTERN.test(req.params.address)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    res.json(await loadOwnerSummary(req.params.address, true));
+  } catch (error) {
+    console.error("Error fetching owner summary:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // ============ Leaderboard ============
 
 const VALID_METRICS: LeaderboardMetric[] = ["roi", "pnl", "winrate", "mdd"];
 const VALID_PERIODS: LeaderboardPeriod[] = ["24h", "7d", "30d", "all"];
 
+function parseExportFormat(raw: unknown): HandExportFormat | null {
+  const format = raw === undefined ? "pokerstars" : String(raw);
+  return HAND_EXPORT_FORMATS.includes(format as HandExportFormat) ? (format as HandExportFormat) : null;
+}
+
+async function loadHandHistory(tableId: bigint, hand: Hand): Promise<HandHistoryInput> {
+  const handId = BigInt(hand.hand_id);
+  const [players, actions, settlements, holeCommitments] = await Promise.all([
+    getHandPlayers(tableId, handId),
+    getHandActions(tableId, handId),
+    getHandSettlements(tableId, handId),
+    getHandHoleCommitments(tableId, handId),
+  ]);
+  return { hand, players, actions, settlements, holeCommitments };
+}
+
+// Opaque to clients; currently wraps the last hand id of the previous page
+export function encodeHandCursor(handId: bigint): string {
+  return Buffer.from(JSON.stringify({ h: handId.toString() })).toString("base64url");
+}
+
+export function decodeHandCursor(cursor: string): bigint | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.h !== "string" || !/^\d+$/.test(parsed.h)) return null;
+    return BigInt(parsed.h);
+  } catch {
+    return null;
+  }
+}
+
+// Accepts ISO 8601 or unix seconds
+function parseDate(raw: unknown): Date | null {
+  if (typeof raw !== "string") return null;
+  const date = new Date(/^\d+$/.test(raw) ? Number(raw) * 1000 : raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Returns an error message for the first invalid parameter
+export function parseHandHistoryFilters(q: Request["query"]): HandHistoryFilters | string {
+  const filters: HandHistoryFilters = {};
+
+  const parseSeat = (raw: unknown): number | null => {
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= 0 && value < 256 ? value : null;
+  };
+  const parseAmount = (raw: unknown): bigint | null =>
+    typeof raw === "string" && /^\d+$/.test(raw) ? BigInt(raw) : null;
+
+  if (q.cursor !== undefined) {
+    const beforeHandId = decodeHandCursor(String(q.cursor));
+    if (beforeHandId === null) return "Invalid cursor";
+    filters.beforeHandId = beforeHandId;
+  }
+  if (q.seat !== undefined) {
+    const seat = parseSeat(q.seat);
+    if (seat === null) return "Invalid seat";
+    filters.seat = seat;
+  }
+  if (q.winner !== undefined) {
+    const winner = parseSeat(q.winner);
+    if (winner === null) return "Invalid winner";
+    filters.winner = winner;
+  }
+  if (q.minPot !== undefined) {
+    const minPot = parseAmount(q.minPot);
+    if (minPot === null) return "Invalid minPot";
+    filters.minPot = minPot;
+  }
+  if (q.maxPot !== undefined) {
+    const maxPot = parseAmount(q.maxPot);
+    if (maxPot === null) return "Invalid maxPot";
+    filters.maxPot = maxPot;
+  }
+  if (q.from !== undefined) {
+    const from = parseDate(q.from);
+    if (from === null) return "Invalid from date";
+    filters.from = from;
+  }
+  if (q.to !== undefined) {
+    const to = parseDate(q.to);
+    if (to === null) return "Invalid to date";
+    filters.to = to;
+  }
+  if (q.showdown !== undefined) {
+    if (q.showdown !== "true" && q.showdown !== "false") return "Invalid showdown (expected true or false)";
+    filters.showdown = q.showdown === "true";
+  }
+
+  return filters;
+}
+
+const CANDLE_INTERVALS: Record<CandleInterval, { seconds: number; defaultCandles: number }> = {
+  "1h": { seconds: 3600, defaultCandles: 168 },
+  "1d": { seconds: 86400, defaultCandles: 90 },
+};
+const MAX_CANDLES = 2000;
+
+export interface CandleRange {
+  interval: CandleInterval;
+  bucketSeconds: number;
+  from: Date;
+  to: Date;
+}
+
+// Defaults to the interval's default window ending now; `from` alone extends that window forward
+export function parseCandleRange(
+  q: Request["query"],
+  now = new Date(),
+  defaultInterval: CandleInterval = "1h"
+): CandleRange | string {
+  const interval = q.interval ?? defaultInterval;
+  if (typeof interval !== "string" || !Object.hasOwn(CANDLE_INTERVALS, interval)) {
+    return `Invalid interval. Valid values: ${Object.keys(CANDLE_INTERVALS).join(", ")}`;
+  }
+  const { seconds, defaultCandles } = CANDLE_INTERVALS[interval as CandleInterval];
+  const window = seconds * defaultCandles * 1000;
+
+  const from = q.from !== undefined ? parseDate(q.from) : null;
+  if (q.from !== undefined && from === null) return "Invalid from date";
+  let to = q.to !== undefined ? parseDate(q.to) : null;
+  if (q.to !== undefined && to === null) return "Invalid to date";
+
+  if (!to) to = from ? new Date(Math.min(from.getTime() + window, now.getTime())) : now;
+  const start = from ?? new Date(to.getTime() - window);
+  if (start > to) return "from must not be after to";
+  if ((to.getTime() - start.getTime()) / 1000 / seconds >= MAX_CANDLES) {
+    return `Range too large for interval ${interval} (max ${MAX_CANDLES} candles)`;
+  }
+
+  return { interval: interval as CandleInterval, bucketSeconds: seconds, from: start, to };
+}
+
+// part / whole as a percentage with 4 decimals, e.g. "12.3456"
+export function formatPercent(part: bigint, whole: bigint): string | null {
+  if (whole <= 0n) return null;
+  const scaled = (part * 1_000_000n) / whole;
+  return `${scaled / 10_000n}.${(scaled % 10_000n).toString().padStart(4, "0")}`;
+}
+
+// part / whole as a signed decimal with 6 places, e.g. "-0.125000"
+export function formatRatio(part: bigint, whole: bigint): string | null {
+  if (whole <= 0n) return null;
+  const scaled = (part * 1_000_000n) / whole;
+  const magnitude = scaled < 0n ? -scaled : scaled;
+  return `${scaled < 0n ? "-" : ""}${magnitude / 1_000_000n}.${(magnitude % 1_000_000n).toString().padStart(6, "0")}`;
+}
+
+// Pairs the gap-filled price and NAV closes bucket by bucket; buckets missing either are skipped
+export function buildPremiumSeries(prices: PriceCandle[], navs: NavCandle[]): PremiumPointResponse[] {
+  const navByTime = new Map(navs.map((candle) => [candle.bucket.getTime(), candle.close]));
+  const points: PremiumPointResponse[] = [];
+  for (const candle of prices) {
+    const navPerShare = navByTime.get(candle.bucket.getTime());
+    if (navPerShare === undefined || BigInt(navPerShare) <= 0n) continue;
+
+    const price = BigInt(candle.close);
+    const nav = BigInt(navPerShare);
+    points.push({
+      time: candle.bucket.toISOString(),
+      price: candle.close,
+      navPerShare,
+      premium: formatRatio(price - nav, nav)!,
+      accretiveBuy: price <= nav,
+      accretiveSell: price >= nav,
+    });
+  }
+  return points;
+}
+
+// Mirrors PlayerVault's rebalance preconditions from indexed state: a configured router, one
+// rebalance per snapshot hand, the randomized delay, and a price on the accretive side of NAV.
+// Buys also need external assets and sells treasury shares; size caps are not checked.
+export function computeRebalanceStatus(input: {
+  snapshot: VaultSnapshot | null;
+  configured: boolean;
+  delay: RebalanceDelay | null;
+  lastRebalancedHandId: string | null;
+  indexedBlock: bigint;
+  price: bigint | null;
+}): RebalanceStatusResponse {
+  const { snapshot, configured, delay, lastRebalancedHandId, indexedBlock, price } = input;
+  const alreadyRebalanced =
+    snapshot !== null && lastRebalancedHandId !== null && BigInt(lastRebalancedHandId) >= BigInt(snapshot.hand_id);
+  const eligible =
+    configured &&
+    snapshot !== null &&
+    !alreadyRebalanced &&
+    (delay === null || indexedBlock >= BigInt(delay.eligible_block));
+  const nav = snapshot ? BigInt(snapshot.nav_per_share) : 0n;
+
+  return {
+    configured,
+    handId: snapshot?.hand_id ?? null,
+    eligibleBlock: delay?.eligible_block ?? null,
+    alreadyRebalanced,
+    eligible,
+    canBuy: eligible && price !== null && nav > 0n && price <= nav && BigInt(snapshot!.external_assets) > 0n,
+    canSell: eligible && price !== null && nav > 0n && price >= nav && BigInt(snapshot!.treasury_shares) > 0n,
+  };
+}
+
 function getPeriodStartDate(period: LeaderboardPeriod): Date | null {
   if (period === "all") return null;
 
@@ -443,116 +1308,25 @@ router.get("/leaderboard", async (req, res) => {
       });
     }
 
-    const periodStart = getPeriodStartDate(period);
-
-    // Get all agents
-    const agents = await getAllAgents();
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
 
-    // Build leaderboard entries
-    const entries: LeaderboardEntry[] = [];
-
-    for (const agent of agents) {
-      if (!agent.vault_address) continue;
-
-      // Get snapshots in period
-      const snapshots = await getVaultSnapshotsInPeriod(agent.vault_address, periodStart);
-
-      // Get win/loss stats
-      const { total, wins } = await getAgentSettlementsInPeriod(agent.token_address, periodStart);
-
-      // Defaults keep agents visible even when period has no snapshots yet.
-      let initialNav = 0n;
-      let currentNav = 0n;
-      let cumulativePnl = 0n;
-      let roi = "0";
-      let mdd = "0";
-
-      // Winrate: wins / total
-      let winrate = "0";
-      if (total > 0) {
-        winrate = (wins / total).toFixed(4);
-      }
-
-      if (snapshots.length > 0) {
-        const firstSnapshot = snapshots[0];
-        const lastSnapshot = snapshots[snapshots.length - 1];
-
-        // Calculate metrics
-        initialNav = BigInt(firstSnapshot.nav_per_share);
-        currentNav = BigInt(lastSnapshot.nav_per_share);
-        cumulativePnl = BigInt(lastSnapshot.cumulative_pnl);
-
-        // ROI: (currentNav - initialNav) / initialNav
-        // Scale: 1e18 precision
-        if (initialNav > 0n) {
-          const roiNum = ((currentNav - initialNav) * 10000n) / initialNav;
-          roi = (Number(roiNum) / 10000).toString();
-        }
-
-        // MDD: Maximum Drawdown
-        // Track peak and calculate max drawdown
-        let peakNav = 0n;
-        let maxDrawdown = 0n;
-        for (const snap of snapshots) {
-          const nav = BigInt(snap.nav_per_share);
-          if (nav > peakNav) {
-            peakNav = nav;
-          }
-          if (peakNav > 0n) {
-            const drawdown = ((peakNav - nav) * 10000n) / peakNav;
-            if (drawdown > maxDrawdown) {
-              maxDrawdown = drawdown;
-            }
-          }
-        }
-        mdd = (Number(maxDrawdown) / 10000).toString();
-      }
-
-      entries.push({
-        rank: 0, // Will be set after sorting
-        tokenAddress: agent.token_address,
-        ownerAddress: agent.owner_address,
-        metaUri: agent.meta_uri,
-        roi,
-        cumulativePnl: cumulativePnl.toString(),
-        winrate,
-        mdd,
-        totalHands: total,
-        winningHands: wins,
-        losingHands: total - wins,
-        currentNavPerShare: currentNav.toString(),
-        initialNavPerShare: initialNav.toString(),
-      });
-    }
+    // Served from leaderboard_stats, which the indexer keeps current as events arrive
+    const { rows, total } = await getLeaderboardPage(period, metric, limit, offset);
 
-    // Sort by selected metric
-    entries.sort((a, b) => {
-      switch (metric) {
-        case "roi":
-          return parseFloat(b.roi) - parseFloat(a.roi);
-        case "pnl":
-          if (BigInt(b.cumulativePnl) === BigInt(a.cumulativePnl)) return 0;
-          return BigInt(b.cumulativePnl) > BigInt(a.cumulativePnl) ? 1 : -1;
-        case "winrate":
-          return parseFloat(b.winrate) - parseFloat(a.winrate);
-        case "mdd":
-          // Lower MDD is better, so ascending order
-          return parseFloat(a.mdd) - parseFloat(b.mdd);
-        default:
-          return 0;
-      }
-    });
-
-    // Assign ranks
-    entries.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
+    const updatedAt = rows.reduce<Date | null>(
+      (latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest),
+      null
+    );
 
     const response: LeaderboardResponse = {
       metric,
       period,
-      entries,
-      updatedAt: new Date().toISOString(),
+      total,
+      limit,
+      offset,
+      entries: rows.map(formatLeaderboardEntry),
+      updatedAt: (updatedAt ?? new Date()).toISOString(),
     };
 
     res.json(response);
@@ -562,6 +1336,234 @@ router.get("/leaderboard", async (req, res) => {
   }
 });
 
+// ============ Webhooks ============
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "delivered", "dead"];
+
+// Management requires WEBHOOK_ADMIN_TOKEN as a bearer token; unset, the endpoints are disabled
+function requireWebhookAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.WEBHOOK_ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: "Webhooks are not enabled" });
+  }
+  const provided = Buffer.from((req.headers.authorization ?? "").replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  next();
+}
+
+router.use("/webhooks", requireWebhookAdmin);
+
+router.post("/webhooks", async (req, res) => {
+  try {
+    const input = parseWebhookInput(req.body ?? {});
+    if (typeof input === "string") {
+      return res.status(400).json({ error: input });
+    }
+
+    const webhook = await insertWebhook(
+      input.url,
+      generateWebhookSecret(),
+      input.events,
+      input.topics,
+      input.description
+    );
+    // The only time the secret is shown
+    res.status(201).json(formatWebhookResponse(webhook, true));
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/webhooks", async (_req, res) => {
+  try {
+    const webhooks = await getWebhooks();
+    res.json(webhooks.map((webhook) => formatWebhookResponse(webhook)));
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/webhooks/:id", async (req, res) => {
+  try {
+    const webhook = /^\d+$/.test(req.params.id) ? await getWebhook(req.params.id) : null;
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json(formatWebhookResponse(webhook));
+  } catch (error) {
+    console.error("Error fetching webhook:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/webhooks/:id", async (req, res) => {
+  try {
+    const deleted = /^\d+$/.test(req.params.id) && (await deleteWebhook(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Delivery log, newest first; ?status=dead is the dead-letter queue
+router.get("/webhooks/:id/deliveries", async (req, res) => {
+  try {
+    const webhook = /^\d+$/.test(req.params.id) ? await getWebhook(req.params.id) : null;
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const status = (req.query.status as string | undefined) ?? null;
+    if (status !== null && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return res.status(400).json({
+        error: `Invalid status. Valid values: ${WEBHOOK_DELIVERY_STATUSES.join(", ")}`,
+      });
+    }
+    const before = (req.query.before as string | undefined) ?? null;
+    if (before !== null && !/^\d+$/.test(before)) {
+      return res.status(400).json({ error: "Invalid before" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const deliveries = await getWebhookDeliveries(
+      webhook.id,
+      status as WebhookDeliveryStatus | null,
+      limit,
+      before
+    );
+    res.json(deliveries.map(formatWebhookDeliveryResponse));
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Requeue every dead delivery, or just { deliveryIds: [...] }
+router.post("/webhooks/:id/replay", async (req, res) => {
+  try {
+    const webhook = /^\d+$/.test(req.params.id) ? await getWebhook(req.params.id) : null;
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const deliveryIds = req.body?.deliveryIds;
+    if (
+      deliveryIds !== undefined &&
+      (!Array.isArray(deliveryIds) ||
+        deliveryIds.length === 0 ||
+        !deliveryIds.every((id) => typeof id === "string" && /^\d+$/.test(id)))
+    ) {
+      return res.status(400).json({ error: "deliveryIds must be a non-empty array of delivery id strings" });
+    }
+
+    const replayed = await replayWebhookDeliveries(webhook.id, deliveryIds ?? null);
+    res.json({ replayed });
+  } catch (error) {
+    console.error("Error replaying webhook deliveries:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Returns an error message for the first invalid field
+export function parseWebhookInput(
+  body: Record<string, unknown>
+): { url: string; events: string[]; topics: string[]; description: string | null } | string {
+  if (typeof body.url !== "string") {
+    return "url is required";
+  }
+  let url: URL;
+  try {
+    url = new URL(body.url);
+  } catch {
+    return "Invalid url";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "url must be http or https";
+  }
+
+  const events = body.events ?? [];
+  if (!Array.isArray(events) || !events.every((event) => typeof event === "string")) {
+    return "events must be an array of event types";
+  }
+  const unknownEvent = events.find((event) => !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(event));
+  if (unknownEvent !== undefined) {
+    return `Unknown event "${unknownEvent}". Valid values: ${WEBHOOK_EVENT_TYPES.join(", ")}`;
+  }
+
+  const rawTopics = body.topics ?? [];
+  if (!Array.isArray(rawTopics)) {
+    return "topics must be an array of topics";
+  }
+  const topics: string[] = [];
+  for (const raw of rawTopics) {
+    const topic = parseTopic(raw);
+    if (!topic) {
+      return `Invalid topic "${String(raw)}"`;
+    }
+    topics.push(topic);
+  }
+
+  if (body.description !== undefined && body.description !== null && typeof body.description !== "string") {
+    return "description must be a string";
+  }
+
+  return {
+    url: url.toString(),
+    events: Array.from(new Set(events as string[])),
+    topics: Array.from(new Set(topics)),
+    description: (body.description as string | undefined) ?? null,
+  };
+}
+
+// ============ Table State ============
+
+// Table with seats and the current hand's actions, as served by GET /tables/:id
+export async function loadTableResponse(tableId: bigint): Promise<TableResponse | null> {
+  const table = await getTable(tableId);
+  if (!table) {
+    return null;
+  }
+
+  const seats = await getSeats(tableId);
+  const hand = table.current_hand_id
+    ? await getHand(tableId, BigInt(table.current_hand_id))
+    : null;
+
+  let actions: ActionResponse[] = [];
+  if (hand) {
+    const dbActions = await getHandActions(tableId, BigInt(hand.hand_id));
+    actions = dbActions.map(formatActionResponse);
+  }
+
+  return formatTableResponse(table, seats, hand, actions);
+}
+
+/**
+ * GET /tables/:id state for the WS table_snapshot, read in one snapshot transaction together
+ * with the indexer cursor: every event below cursorBlock is reflected in the table state.
+ */
+export async function loadTableSnapshot(
+  tableId: string
+): Promise<{ table: TableResponse; cursorBlock: bigint } | null> {
+  return readTransaction(async () => {
+    const table = await loadTableResponse(BigInt(tableId));
+    if (!table) {
+      return null;
+    }
+    const state = await getIndexerState();
+    return { table, cursorBlock: BigInt(state?.last_processed_block ?? 0) };
+  });
+}
+
 // ============ Response Formatters ============
 
 function formatTableResponse(
@@ -595,6 +1597,32 @@ function formatSeatResponse(seat: any): SeatResponse {
   };
 }
 
+function formatSeatEventResponse(event: any): SeatEventResponse {
+  return {
+    eventType: event.event_type,
+    seatIndex: event.seat_index,
+    ownerAddress: event.owner_address,
+    recipientAddress: event.recipient_address,
+    amount: event.amount,
+    stackAfter: event.stack_after,
+    blockNumber: event.block_number,
+    txHash: event.tx_hash,
+    timestamp: event.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+function formatAgentEventResponse(event: AgentEvent): AgentEventResponse {
+  return {
+    id: event.id,
+    eventType: event.event_type,
+    oldValue: event.old_value,
+    newValue: event.new_value,
+    blockNumber: event.block_number,
+    txHash: event.tx_hash,
+    timestamp: event.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
 function formatHandResponse(hand: any, actions: ActionResponse[]): HandResponse {
   return {
     handId: hand.hand_id,
@@ -606,11 +1634,54 @@ function formatHandResponse(hand: any, actions: ActionResponse[]): HandResponse
     buttonSeat: hand.button_seat,
     communityCards: hand.community_cards || [],
     winnerSeat: hand.winner_seat,
+    winnerSeats: hand.winner_seats || [],
     settlementAmount: hand.settlement_amount,
+    reachedShowdown: hand.showdown_block !== null && hand.showdown_block !== undefined,
     actions,
   };
 }
 
+function formatSettlementPayoutResponse(settlement: Settlement): SettlementPayoutResponse {
+  return {
+    seatIndex: settlement.seat_index,
+    ownerAddress: settlement.owner_address,
+    amountWon: settlement.amount_won,
+    amountContributed: settlement.amount_contributed,
+    netAmount: settlement.net_amount,
+  };
+}
+
+function formatHoleCommitmentResponse(commitment: any): HoleCommitmentResponse {
+  const revealed = commitment.card1 !== null && commitment.card2 !== null;
+  return {
+    seatIndex: commitment.seat_index,
+    commitment: commitment.commitment,
+    commitTxHash: commitment.commit_tx_hash,
+    cards: revealed ? [commitment.card1, commitment.card2] : null,
+    revealTxHash: commitment.reveal_tx_hash,
+  };
+}
+
+function formatVrfRequestResponse(request: any): VrfRequestResponse {
+  const fulfilled = request.status === "fulfilled";
+  const latencyBlocks =
+    fulfilled && request.requested_block !== null && request.fulfilled_block !== null
+      ? Number(request.fulfilled_block) - Number(request.requested_block)
+      : null;
+
+  return {
+    requestId: request.request_id,
+    street: request.street,
+    status: request.status,
+    replacedBy: request.replaced_by,
+    requestedBlock: request.requested_block,
+    fulfilledBlock: request.fulfilled_block,
+    requestedAt: request.requested_at?.toISOString() || new Date().toISOString(),
+    fulfilledAt: request.fulfilled_at?.toISOString() || null,
+    latencyBlocks,
+  };
+}
+
 function formatActionResponse(action: any): ActionResponse {
   return {
     seatIndex: action.seat_index,
@@ -651,3 +1722,127 @@ function formatSnapshotResponse(snapshot: any): VaultSnapshotResponse {
     blockNumber: snapshot.block_number,
   };
 }
+
+function formatNavCandleResponse(candle: NavCandle): NavCandleResponse {
+  return {
+    time: candle.bucket.toISOString(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    externalAssets: candle.external_assets,
+    outstandingShares: candle.outstanding_shares,
+    cumulativePnl: candle.cumulative_pnl,
+    snapshots: candle.snapshot_count,
+  };
+}
+
+function formatTokenTradeResponse(trade: TokenTrade): TokenTradeResponse {
+  return {
+    id: trade.id,
+    traderAddress: trade.trader_address,
+    side: trade.side,
+    monAmount: trade.mon_amount,
+    tokenAmount: trade.token_amount,
+    price: trade.price,
+    blockNumber: trade.block_number,
+    txHash: trade.tx_hash,
+    timestamp: trade.block_time.toISOString(),
+  };
+}
+
+function formatPriceCandleResponse(candle: PriceCandle): PriceCandleResponse {
+  return {
+    time: candle.bucket.toISOString(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volumeMon: candle.volume_mon,
+    volumeTokens: candle.volume_tokens,
+    trades: candle.trade_count,
+    buys: candle.buy_count,
+    sells: candle.sell_count,
+  };
+}
+
+function formatLeaderboardEntry(row: LeaderboardRow): LeaderboardEntry {
+  return {
+    rank: parseInt(row.rank, 10),
+    tokenAddress: row.token_address,
+    ownerAddress: row.owner_address,
+    metaUri: row.meta_uri,
+    // NUMERIC comes back zero-padded ("0.1500"); keep the previous plain decimal strings
+    roi: Number(row.roi).toString(),
+    cumulativePnl: row.cumulative_pnl,
+    winrate: Number(row.winrate).toFixed(4),
+    mdd: Number(row.mdd).toString(),
+    totalHands: row.total_hands,
+    winningHands: row.winning_hands,
+    losingHands: row.total_hands - row.winning_hands,
+    splitHands: row.split_hands,
+    currentNavPerShare: row.current_nav_per_share,
+    initialNavPerShare: row.initial_nav_per_share,
+  };
+}
+
+export function formatRebalanceResponse(rebalance: Rebalance): RebalanceResponse {
+  const price = BigInt(rebalance.execution_price);
+  const navBefore = BigInt(rebalance.nav_before);
+  return {
+    handId: rebalance.hand_id,
+    direction: rebalance.direction,
+    monIn: rebalance.mon_in,
+    monOut: rebalance.mon_out,
+    tokensIn: rebalance.tokens_in,
+    tokensOut: rebalance.tokens_out,
+    executionPrice: rebalance.execution_price,
+    navPerShareBefore: rebalance.nav_before,
+    navPerShareAfter: rebalance.nav_after,
+    accretive: rebalance.direction === "BUY" ? price <= navBefore : price >= navBefore,
+    delayBlocks: rebalance.delay_blocks,
+    eligibleBlock: rebalance.eligible_block,
+    blockNumber: rebalance.block_number,
+    txHash: rebalance.tx_hash,
+    timestamp: rebalance.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+function formatRebalanceConfigResponse(config: any): RebalanceConfigResponse {
+  return {
+    nadfunLens: config.nadfun_lens,
+    nadfunRouter: config.nadfun_router,
+    maxMonBps: config.max_mon_bps,
+    maxTokenBps: config.max_token_bps,
+    blockNumber: config.block_number,
+  };
+}
+
+function formatWebhookResponse(webhook: Webhook, includeSecret = false): WebhookResponse {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.event_types,
+    topics: webhook.topics,
+    description: webhook.description,
+    createdAt: webhook.created_at?.toISOString() || new Date().toISOString(),
+    ...(includeSecret ? { secret: webhook.secret } : {}),
+  };
+}
+
+function formatWebhookDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+  return {
+    id: delivery.id,
+    event: delivery.event_type,
+    topic: delivery.topic,
+    blockNumber: delivery.block_number,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === "pending" ? delivery.next_attempt_at.toISOString() : null,
+    lastError: delivery.last_error,
+    lastResponseStatus: delivery.last_response_status,
+    createdAt: delivery.created_at?.toISOString() || new Date().toISOString(),
+    deliveredAt: delivery.delivered_at?.toISOString() || null,
+    payload: delivery.payload,
+  };
+}
@@ -10,13 +10,28 @@ async function flush(): Promise<void> {
     await pool.query(`
       TRUNCATE TABLE
         settlements,
+        leaderboard_stats,
+        webhook_deliveries,
+        seat_events,
+        agent_events,
         vault_snapshots,
+        rebalances,
+        token_trades,
+        token_transfers,
+        token_balances,
+        token_supplies,
+        rebalance_delays,
+        rebalance_configs,
         vrf_requests,
+        hole_commitments,
         actions,
+        hand_players,
         hands,
         seats,
         agents,
         processed_events,
+        block_hashes,
+        rollback_journal,
         poker_tables,
         indexer_state
       RESTART IDENTITY CASCADE
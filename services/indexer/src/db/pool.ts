@@ -1,5 +1,6 @@
 // Database connection pool
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import pg from "pg";
 const { Pool } = pg;
 
@@ -14,6 +15,10 @@ export interface DbConfig {
 
 let pool: pg.Pool | null = null;
 
+// Client of the transaction the current async call chain is running in, if any.
+// Lets repository functions join an open transaction without threading a client through.
+const transactionScope = new AsyncLocalStorage<pg.PoolClient>();
+
 export function getDbConfig(): DbConfig {
   // DB env vars are validated at startup (index.ts).
   // Defaults are only applied for local dev there; by this point they are set.
@@ -61,17 +66,44 @@ export async function query<T extends pg.QueryResultRow>(
   text: string,
   params?: unknown[]
 ): Promise<pg.QueryResult<T>> {
-  const client = getPool();
+  const client = transactionScope.getStore() ?? getPool();
   return client.query<T>(text, params);
 }
 
+// Nested calls join the outer transaction rather than opening a second connection
 export async function transaction<T>(
   callback: (client: pg.PoolClient) => Promise<T>
 ): Promise<T> {
+  const current = transactionScope.getStore();
+  if (current) {
+    return callback(current);
+  }
+
   const client = await getPool().connect();
   try {
     await client.query("BEGIN");
-    const result = await callback(client);
+    const result = await transactionScope.run(client, () => callback(client));
+    await client.query("COMMIT");
+    return result;
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Read-only transaction whose queries all see one consistent snapshot of committed data
+export async function readTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  const current = transactionScope.getStore();
+  if (current) {
+    return callback();
+  }
+
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+    const result = await transactionScope.run(client, callback);
     await client.query("COMMIT");
     return result;
   } catch (e) {
@@ -0,0 +1,577 @@
+// Repository tests against an in-process Postgres (PGlite) loaded with schema.sql
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { closePool, query } from "./pool.js";
+import {
+  rollbackFromBlock,
+  upsertTable,
+  updateTableState,
+  getTable,
+  upsertSeat,
+  updateSeatStack,
+  deleteSeat,
+  getSeats,
+  insertHand,
+  updateHand,
+  getHand,
+  insertAction,
+  getHandActions,
+  insertSettlements,
+  getHandSettlements,
+  upsertRebalanceConfig,
+  getRebalanceConfig,
+  snapshotHandPlayers,
+  getTableHands,
+  markStreetEnd,
+  upsertAgent,
+  updateAgentOwner,
+  updateAgentVault,
+  insertAgentEvent,
+  getAgent,
+  getAgentEvents,
+  insertVaultSnapshot,
+  getVaultNavCandles,
+  insertTokenTrade,
+  getTokenPriceCandles,
+  applyTokenTransfer,
+  getTokenHolderCountHistory,
+  getTokenHolderSummary,
+  upsertTokenSupply,
+  applyHandToLeaderboard,
+  applyVaultSnapshotToLeaderboard,
+  refreshLeaderboardStats,
+  getTableHandPages,
+  countTableHands,
+  getVaultSnapshotPages,
+} from "./repository.js";
+
+const schemaPath = path.join(path.dirname(fileURLToPath(import.meta.url)), "schema.sql");
+
+let db: PGlite;
+let server: PGLiteSocketServer;
+let socketDir: string;
+
+// pg reaches the socket server through DB_HOST as a Unix socket directory
+before(async () => {
+  socketDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-db-"));
+  db = await PGlite.create();
+  server = new PGLiteSocketServer({ db, path: path.join(socketDir, ".s.PGSQL.5432") });
+  await server.start();
+  Object.assign(process.env, {
+    DB_HOST: socketDir,
+    DB_PORT: "5432",
+    DB_NAME: "postgres",
+    DB_USER: "postgres",
+    DB_PASSWORD: "postgres",
+    DB_POOL_SIZE: "1",
+  });
+  await query(fs.readFileSync(schemaPath, "utf-8"));
+});
+
+after(async () => {
+  await closePool();
+  await server.stop();
+  await db.close();
+  fs.rmSync(socketDir, { recursive: true, force: true });
+});
+
+async function truncateAll(): Promise<void> {
+  const result = await query<{ tablename: string }>(
+    `SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND tablename <> 'indexer_state'`
+  );
+  await query(`TRUNCATE ${result.rows.map((row) => row.tablename).join(", ")} RESTART IDENTITY CASCADE`);
+}
+
+describe("rollbackFromBlock", () => {
+  const TX = "0x" + "ab".repeat(32);
+  const VAULT = "0x" + "11".repeat(20);
+  const NEW_VAULT = "0x" + "22".repeat(20);
+
+  beforeEach(truncateAll);
+
+  // Hand 1 is dealt and called preflop before block 110; the flop, a raise, the settlement,
+  // seat changes, a config change and hand 2 all land at or after it
+  async function seedHandAcrossFork(): Promise<void> {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await upsertSeat(1n, 0, "0xowner0", "0xop0", 1000n, false, 0n, 100n);
+    await upsertSeat(1n, 1, "0xowner1", "0xop1", 1000n, false, 0n, 100n);
+    await upsertRebalanceConfig(VAULT, "0xlens", "0xrouter", 500n, 500n, 100n);
+
+    await insertHand(1n, 1n, 30n, 0, 10n, 20n, "BETTING_PRE", 100n, new Date());
+    await updateTableState(1n, "BETTING_PRE", 100n, 1n, 0);
+    await updateSeatStack(1n, 0, 990n, 100n);
+    await updateSeatStack(1n, 1, 980n, 100n);
+    await insertAction(1n, 1n, 0, "CALL", 10n, 40n, 105n, TX);
+    await updateHand(1n, 1n, { pot: 40n }, 105n);
+    await updateHand(1n, 1n, { gameState: "WAITING_VRF_FLOP" }, 105n);
+    await updateTableState(1n, "WAITING_VRF_FLOP", 105n);
+
+    await updateHand(1n, 1n, { communityCards: [1, 2, 3] }, 110n);
+    await updateHand(1n, 1n, { gameState: "BETTING_FLOP" }, 110n);
+    await updateTableState(1n, "BETTING_FLOP", 110n);
+    await insertAction(1n, 1n, 1, "RAISE", 40n, 80n, 111n, TX);
+    await updateHand(1n, 1n, { pot: 80n }, 111n);
+    await upsertSeat(1n, 2, "0xowner2", "0xop2", 500n, false, 0n, 111n);
+    await upsertRebalanceConfig(VAULT, "0xlens", "0xrouter", 900n, 900n, 111n);
+    await upsertRebalanceConfig(NEW_VAULT, "0xlens", "0xrouter", 100n, 100n, 111n);
+    await updateHand(
+      1n,
+      1n,
+      { winnerSeat: 1, winnerSeats: [1], settlementAmount: 80n, settledAt: new Date(), gameState: "SETTLED" },
+      112n
+    );
+    await insertSettlements(
+      1n,
+      1n,
+      1,
+      80n,
+      [
+        { seatIndex: 0, ownerAddress: "0xowner0", won: 0n, contributed: 20n },
+        { seatIndex: 1, ownerAddress: "0xowner1", won: 80n, contributed: 60n },
+      ],
+      112n,
+      TX
+    );
+    await updateSeatStack(1n, 1, 1040n, 112n);
+    await deleteSeat(1n, 0, 112n);
+    await updateTableState(1n, "SETTLED", 112n);
+    await insertHand(1n, 2n, 30n, 1, 10n, 20n, "BETTING_PRE", 113n, new Date());
+    await updateTableState(1n, "BETTING_PRE", 113n, 2n, 1);
+  }
+
+  it("should restore hands, table state, seats and configs to their pre-fork images", async () => {
+    await seedHandAcrossFork();
+    await rollbackFromBlock(110n);
+
+    const hand = await getHand(1n, 1n);
+    assert.strictEqual(hand?.pot, "40");
+    assert.strictEqual(hand?.game_state, "WAITING_VRF_FLOP");
+    assert.deepStrictEqual(hand?.community_cards, []);
+    assert.strictEqual(hand?.winner_seat, null);
+    assert.strictEqual(hand?.winner_seats, null);
+    assert.strictEqual(hand?.settled_at, null);
+    assert.strictEqual(await getHand(1n, 2n), null);
+    assert.deepStrictEqual((await getHandActions(1n, 1n)).map((a) => a.pot_after), ["40"]);
+    assert.deepStrictEqual(await getHandSettlements(1n, 1n), []);
+
+    const table = await getTable(1n);
+    assert.strictEqual(table?.game_state, "WAITING_VRF_FLOP");
+    assert.strictEqual(table?.current_hand_id, "1");
+    assert.strictEqual(table?.button_seat, 0);
+
+    const seats = await getSeats(1n);
+    assert.deepStrictEqual(
+      seats.map((seat) => [seat.seat_index, seat.owner_address, seat.stack]),
+      [
+        [0, "0xowner0", "990"],
+        [1, "0xowner1", "980"],
+      ]
+    );
+
+    assert.strictEqual((await getRebalanceConfig(VAULT))?.max_mon_bps, 500);
+    assert.strictEqual(await getRebalanceConfig(NEW_VAULT), null);
+  });
+
+  it("should keep pre-fork history and drop the journal from the fork on", async () => {
+    await seedHandAcrossFork();
+    await rollbackFromBlock(112n);
+
+    const hand = await getHand(1n, 1n);
+    assert.strictEqual(hand?.pot, "80");
+    assert.strictEqual(hand?.game_state, "BETTING_FLOP");
+    assert.deepStrictEqual(hand?.community_cards, [1, 2, 3]);
+    assert.strictEqual((await getTable(1n))?.game_state, "BETTING_FLOP");
+    assert.deepStrictEqual(
+      (await getSeats(1n)).map((seat) => [seat.seat_index, seat.stack]),
+      [
+        [0, "990"],
+        [1, "980"],
+        [2, "500"],
+      ]
+    );
+    assert.strictEqual((await getRebalanceConfig(VAULT))?.max_mon_bps, 900);
+
+    const journal = await query<{ max: string | null }>(`SELECT MAX(block_number) AS max FROM rollback_journal`);
+    assert.strictEqual(journal.rows[0].max, "111");
+  });
+});
+
+describe("rollbackFromBlock registry", () => {
+  const TX = "0x" + "cd".repeat(32);
+  const AGENT = "0x" + "a1".repeat(20);
+  const LATE_AGENT = "0x" + "a2".repeat(20);
+
+  beforeEach(truncateAll);
+
+  it("should drop agents registered after the fork and restore replaced values, NULL included", async () => {
+    await upsertAgent(AGENT, "0xowner", "0xop", null, null, "ipfs://a");
+    await insertAgentEvent(AGENT, "REGISTERED", null, "0xowner", 100n, 0, TX);
+    await updateAgentVault(AGENT, "0xvault");
+    await insertAgentEvent(AGENT, "VAULT_UPDATED", null, "0xvault", 110n, 0, TX);
+    await updateAgentOwner(AGENT, "0xnewowner");
+    await insertAgentEvent(AGENT, "OWNER_UPDATED", "0xowner", "0xnewowner", 111n, 0, TX);
+    await upsertAgent(LATE_AGENT, "0xowner", "0xop", "0xlatevault", "0xlatetable", null);
+    await insertAgentEvent(LATE_AGENT, "REGISTERED", null, "0xowner", 112n, 0, TX);
+
+    const removed = await rollbackFromBlock(110n);
+
+    assert.deepStrictEqual(
+      removed.map((agent) => [agent.token_address, agent.vault_address, agent.table_address]),
+      [[LATE_AGENT, "0xlatevault", "0xlatetable"]]
+    );
+    assert.strictEqual(await getAgent(LATE_AGENT), null);
+    const agent = await getAgent(AGENT);
+    assert.strictEqual(agent?.vault_address, null);
+    assert.strictEqual(agent?.owner_address, "0xowner");
+    assert.deepStrictEqual(
+      (await getAgentEvents(AGENT, 10)).map((event) => event.event_type),
+      ["REGISTERED"]
+    );
+  });
+});
+
+describe("Time series", () => {
+  const HOUR = 3600;
+  const at = (iso: string) => new Date(iso);
+
+  beforeEach(truncateAll);
+
+  // Everything is indexed now (created_at), long after the blocks it came from
+  it("should bucket NAV candles on block time", async () => {
+    const vault = "0x" + "33".repeat(20);
+    await insertVaultSnapshot(vault, 1n, 100n, 0n, 100n, 1000n, 0n, 10n, at("2026-01-01T00:10:00Z"));
+    await insertVaultSnapshot(vault, 2n, 120n, 0n, 100n, 1200n, 20n, 20n, at("2026-01-01T02:30:00Z"));
+
+    const candles = await getVaultNavCandles(vault, HOUR, at("2026-01-01T00:00:00Z"), at("2026-01-01T02:59:59Z"));
+    assert.deepStrictEqual(
+      candles.map((candle) => [candle.bucket.toISOString(), candle.close, candle.snapshot_count]),
+      [
+        ["2026-01-01T00:00:00.000Z", "1000", 1],
+        ["2026-01-01T01:00:00.000Z", "1000", 0],
+        ["2026-01-01T02:00:00.000Z", "1200", 1],
+      ]
+    );
+  });
+
+  it("should bucket price candles on block time", async () => {
+    const token = "0x" + "44".repeat(20);
+    const TX = "0x" + "ef".repeat(32);
+    await insertTokenTrade(token, "0xtrader", "BUY", 10n, 100n, 5n, "0xrouter", 1n, at("2026-01-01T00:05:00Z"), 0, TX);
+    await insertTokenTrade(token, "0xtrader", "SELL", 20n, 100n, 7n, "0xrouter", 2n, at("2026-01-01T01:40:00Z"), 0, TX);
+
+    const candles = await getTokenPriceCandles(token, HOUR, at("2026-01-01T00:00:00Z"), at("2026-01-01T01:59:59Z"));
+    assert.deepStrictEqual(
+      candles.map((candle) => [candle.bucket.toISOString(), candle.open, candle.close, candle.trade_count]),
+      [
+        ["2026-01-01T00:00:00.000Z", "5", "5", 1],
+        ["2026-01-01T01:00:00.000Z", "7", "7", 1],
+      ]
+    );
+  });
+
+  it("should replay holder counts in chain order and bucket them on block time", async () => {
+    const token = "0x" + "55".repeat(20);
+    const zero = "0x" + "00".repeat(20);
+    const TX = "0x" + "ef".repeat(32);
+    // The later block's transfer is indexed first, as a backfill does not guarantee insert order
+    await applyTokenTransfer(token, "0xalice", "0xbob", 100n, 3n, at("2026-01-01T01:20:00Z"), 0, TX);
+    await applyTokenTransfer(token, zero, "0xalice", 100n, 1n, at("2026-01-01T00:10:00Z"), 0, TX);
+
+    const from = at("2026-01-01T00:00:00Z");
+    const history = await getTokenHolderCountHistory(token, null, HOUR, from, at("2026-01-01T01:59:59Z"));
+    assert.deepStrictEqual(
+      history.map((point) => [point.bucket.toISOString(), point.holder_count]),
+      [
+        ["2026-01-01T00:00:00.000Z", 1],
+        ["2026-01-01T01:00:00.000Z", 1],
+      ]
+    );
+  });
+});
+
+describe("getTokenHolderSummary", () => {
+  const TOKEN = "0x" + "66".repeat(20);
+  const VAULT = "0x" + "77".repeat(20);
+  const TX = "0x" + "ef".repeat(32);
+
+  beforeEach(truncateAll);
+
+  // Only part of the supply's history is indexed: 400 of 1000 tokens are accounted for
+  async function seedPartialBalances(): Promise<void> {
+    await applyTokenTransfer(TOKEN, "0x" + "00".repeat(20), VAULT, 300n, 100n, new Date(), 0, TX);
+    await applyTokenTransfer(TOKEN, "0x" + "00".repeat(20), "0xalice", 100n, 101n, new Date(), 0, TX);
+  }
+
+  it("should take the supply from the token's totalSupply() once read", async () => {
+    await seedPartialBalances();
+    await upsertTokenSupply(TOKEN, 1000n, 101n);
+
+    assert.deepStrictEqual(await getTokenHolderSummary(TOKEN, VAULT), {
+      total_supply: "1000",
+      treasury_balance: "300",
+      holder_count: 1,
+    });
+  });
+
+  it("should fall back to indexed balances until read, and after a rollback drops the read", async () => {
+    await seedPartialBalances();
+    assert.strictEqual((await getTokenHolderSummary(TOKEN, VAULT)).total_supply, "400");
+
+    await upsertTokenSupply(TOKEN, 1000n, 101n);
+    await rollbackFromBlock(101n);
+    assert.strictEqual((await getTokenHolderSummary(TOKEN, VAULT)).total_supply, "300");
+  });
+});
+
+describe("schema.sql settlements backfill", () => {
+  const TX = "0x" + "12".repeat(32);
+  const EMPTY = "0x" + "00".repeat(20);
+
+  beforeEach(truncateAll);
+
+  it("should give legacy winner-only rows a zero-payout row per other seat dealt in", async () => {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await upsertSeat(1n, 0, "0xowner0", "0xop0", 1000n);
+    await upsertSeat(1n, 1, "0xowner1", "0xop1", 1000n);
+    await upsertSeat(1n, 2, EMPTY, EMPTY, 0n);
+    // Hand 1 snapshotted its players; hand 2 predates hand_players and falls back to current seats
+    await insertHand(1n, 1n, 30n, 0, 10n, 20n, "SETTLED", 100n, new Date());
+    await snapshotHandPlayers(1n, 1n, 20n);
+    await upsertSeat(1n, 1, "0xowner9", "0xop9", 1000n);
+    await insertHand(1n, 2n, 30n, 1, 10n, 20n, "SETTLED", 110n, new Date());
+    await query(
+      `INSERT INTO settlements (table_id, hand_id, winner_seat, pot_amount, block_number, tx_hash)
+       VALUES (1, 1, 0, 40, 101, $1), (1, 2, 1, 60, 111, $1)`,
+      [TX]
+    );
+
+    // Migration runs the schema on every start; the second run must leave the rows alone
+    await query(fs.readFileSync(schemaPath, "utf-8"));
+    await query(fs.readFileSync(schemaPath, "utf-8"));
+
+    const rows = await query<{ hand_id: string; seat_index: number; owner_address: string; amount_won: string }>(
+      `SELECT hand_id, seat_index, owner_address, amount_won FROM settlements ORDER BY hand_id, seat_index`
+    );
+    assert.deepStrictEqual(
+      rows.rows.map((row) => [row.hand_id, row.seat_index, row.owner_address, row.amount_won]),
+      [
+        ["1", 0, "0xowner0", "40"],
+        ["1", 1, "0xowner1", "0"],
+        ["2", 0, "0xowner0", "0"],
+        ["2", 1, "0xowner9", "60"],
+      ]
+    );
+  });
+});
+
+describe("Leaderboard deltas", () => {
+  const TOKEN = "0x" + "88".repeat(20);
+  const VAULT = "0x" + "99".repeat(20);
+  const TX = "0x" + "34".repeat(32);
+
+  beforeEach(truncateAll);
+
+  async function leaderboardRows(): Promise<unknown[]> {
+    const result = await query(
+      `SELECT period, initial_nav_per_share, current_nav_per_share, peak_nav_per_share, cumulative_pnl,
+              roi, mdd, winrate, total_hands, winning_hands, split_hands
+       FROM leaderboard_stats ORDER BY period`
+    );
+    return result.rows;
+  }
+
+  // A solo win, a chopped pot and a loss, with NAV rising, drawing down 40% and recovering
+  async function indexHandsAndSnapshots(): Promise<void> {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await upsertAgent(TOKEN, "0xOwner", "0xop", VAULT, null, null);
+    const hands: Array<[bigint, number[], Array<[string, bigint]>]> = [
+      [1n, [0], [["0xowner", 40n], ["0xother", 0n]]],
+      [2n, [0, 1], [["0xowner", 20n], ["0xother", 20n]]],
+      [3n, [1], [["0xowner", 0n], ["0xother", 40n]]],
+    ];
+    for (const [handId, winnerSeats, seats] of hands) {
+      await insertHand(1n, handId, 40n, 0, 10n, 20n, "SETTLED", 100n + handId, new Date());
+      await updateHand(1n, handId, { winnerSeats }, 100n + handId);
+      await insertSettlements(
+        1n,
+        handId,
+        winnerSeats[0],
+        40n,
+        seats.map(([ownerAddress, won], seatIndex) => ({ seatIndex, ownerAddress, won, contributed: 20n })),
+        100n + handId,
+        TX
+      );
+      await applyHandToLeaderboard(1n, handId);
+    }
+    for (const [i, nav] of [100n, 150n, 90n, 120n].entries()) {
+      await insertVaultSnapshot(VAULT, BigInt(i), nav, 0n, 100n, nav, nav - 100n, 110n + BigInt(i), new Date());
+      await applyVaultSnapshotToLeaderboard(VAULT, nav, nav - 100n);
+    }
+  }
+
+  it("should leave every period where a full recompute would", async () => {
+    await indexHandsAndSnapshots();
+
+    const applied = await leaderboardRows();
+    assert.deepStrictEqual(applied[0], {
+      period: "24h",
+      initial_nav_per_share: "100",
+      current_nav_per_share: "120",
+      peak_nav_per_share: "150",
+      cumulative_pnl: "20",
+      roi: "0.2000",
+      mdd: "0.4000",
+      winrate: "0.6667",
+      total_hands: 3,
+      winning_hands: 2,
+      split_hands: 1,
+    });
+    await refreshLeaderboardStats();
+    assert.deepStrictEqual(await leaderboardRows(), applied);
+  });
+
+  it("should leave the all-time rows alone on a rolling-only refresh", async () => {
+    await indexHandsAndSnapshots();
+    await query(`UPDATE leaderboard_stats SET total_hands = 99`);
+
+    await refreshLeaderboardStats({ rollingOnly: true });
+    const rows = (await leaderboardRows()) as Array<{ period: string; total_hands: number }>;
+    assert.deepStrictEqual(
+      rows.map((row) => [row.period, row.total_hands]),
+      [
+        ["24h", 3],
+        ["30d", 3],
+        ["7d", 3],
+        ["all", 99],
+      ]
+    );
+  });
+
+  it("should window settlements on the hand's block time rather than when they were indexed", async () => {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await upsertAgent(TOKEN, "0xOwner", "0xop", VAULT, null, null);
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await insertHand(1n, 1n, 40n, 0, 10n, 20n, "SETTLED", 101n, twoDaysAgo);
+    const seats = [{ seatIndex: 0, ownerAddress: "0xowner", won: 40n, contributed: 20n }];
+    await insertSettlements(1n, 1n, 0, 40n, seats, 102n, TX);
+
+    await refreshLeaderboardStats();
+    const rows = (await leaderboardRows()) as Array<{ period: string; total_hands: number }>;
+    assert.deepStrictEqual(
+      rows.map((row) => [row.period, row.total_hands]),
+      [
+        ["24h", 0],
+        ["30d", 1],
+        ["7d", 1],
+        ["all", 1],
+      ]
+    );
+  });
+});
+
+describe("markStreetEnd", () => {
+  const TX = "0x" + "56".repeat(32);
+
+  beforeEach(truncateAll);
+
+  it("should flag the hand's latest action until the completing block is rolled back", async () => {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await insertHand(1n, 1n, 30n, 0, 10n, 20n, "BETTING_PRE", 100n, new Date());
+    await insertAction(1n, 1n, 0, "CALL", 10n, 40n, 101n, TX);
+    await insertAction(1n, 1n, 1, "CHECK", 0n, 40n, 102n, TX);
+    // Completed in a later transaction, then again by a run-out with no new action
+    await markStreetEnd(1n, 1n, 103n);
+    await markStreetEnd(1n, 1n, 105n);
+
+    const flags = async () => (await getHandActions(1n, 1n)).map((a) => [a.street_end_block, a.ends_street]);
+    assert.deepStrictEqual(await flags(), [
+      [null, false],
+      ["103", true],
+    ]);
+
+    await rollbackFromBlock(103n);
+    assert.deepStrictEqual(await flags(), [
+      [null, false],
+      [null, false],
+    ]);
+  });
+});
+
+describe("getTableHands", () => {
+  beforeEach(truncateAll);
+
+  it("should filter on the hands a seat was dealt into and on the HandStarted block time", async () => {
+    await upsertTable(1n, "0x" + "aa".repeat(20), 10n, 20n);
+    await upsertSeat(1n, 0, "0xowner0", "0xop0", 1000n);
+    await insertHand(1n, 1n, 30n, 0, 10n, 20n, "SETTLED", 100n, new Date("2026-01-01T00:00:00Z"));
+    await snapshotHandPlayers(1n, 1n, 20n);
+    // Seat 1 joins for hand 2 only, never acts and never wins
+    await upsertSeat(1n, 1, "0xowner1", "0xop1", 1000n);
+    await insertHand(1n, 2n, 30n, 1, 10n, 20n, "SETTLED", 200n, new Date("2026-01-02T00:00:00Z"));
+    await snapshotHandPlayers(1n, 2n, 20n);
+
+    const handIds = async (filters: Parameters<typeof getTableHands>[1]) =>
+      (await getTableHands(1n, filters)).rows.map((hand) => hand.hand_id);
+    assert.deepStrictEqual(await handIds({ seat: 1 }), ["2"]);
+    assert.deepStrictEqual(await handIds({ seat: 0 }), ["2", "1"]);
+    assert.deepStrictEqual(await handIds({ to: new Date("2026-01-01T12:00:00Z") }), ["1"]);
+    assert.deepStrictEqual(await handIds({ from: new Date("2026-01-01T12:00:00Z") }), ["2"]);
+  });
+});
+
+describe("Batched pages", () => {
+  beforeEach(truncateAll);
+
+  it("should page each table's hands newest first in one query, keeping keys in order", async () => {
+    for (const tableId of [1n, 2n]) {
+      await upsertTable(tableId, "0x" + tableId.toString().repeat(40), 10n, 20n);
+      for (const handId of [1n, 2n, 3n]) {
+        await insertHand(tableId, handId, 30n, 0, 10n, 20n, "SETTLED", 100n + handId, new Date());
+      }
+    }
+
+    const rows = await getTableHandPages([
+      { tableId: 2n, beforeHandId: null, limit: 2 },
+      { tableId: 1n, beforeHandId: 3n, limit: 5 },
+      { tableId: 9n, beforeHandId: null, limit: 5 },
+    ]);
+    assert.deepStrictEqual(
+      rows.map((row) => [row.page_index, row.table_id, row.hand_id]),
+      [
+        [1, "2", "3"],
+        [1, "2", "2"],
+        [2, "1", "2"],
+        [2, "1", "1"],
+      ]
+    );
+    assert.deepStrictEqual(await countTableHands([1n, 9n]), [{ table_id: "1", total: 3 }]);
+  });
+
+  it("should page each vault's snapshots before a (block, id) cursor", async () => {
+    const [a, b] = ["0x" + "a1".repeat(20), "0x" + "b1".repeat(20)];
+    await insertVaultSnapshot(a, 1n, 100n, 0n, 100n, 1000n, 0n, 10n, new Date());
+    await insertVaultSnapshot(b, 1n, 100n, 0n, 100n, 1000n, 0n, 10n, new Date());
+    await insertVaultSnapshot(a, 2n, 100n, 0n, 100n, 1000n, 0n, 10n, new Date());
+    await insertVaultSnapshot(a, 3n, 100n, 0n, 100n, 1000n, 0n, 11n, new Date());
+
+    const rows = await getVaultSnapshotPages([
+      { vaultAddress: a, before: { blockNumber: 11n, id: 4 }, limit: 5 },
+      { vaultAddress: b.toUpperCase().replace("0X", "0x"), before: null, limit: 5 },
+    ]);
+    assert.deepStrictEqual(
+      rows.map((row) => [row.page_index, row.vault_address, row.hand_id]),
+      [
+        [1, a, "2"],
+        [1, a, "1"],
+        [2, b, "1"],
+      ]
+    );
+  });
+});
@@ -4,14 +4,47 @@ import { query, transaction } from "./pool.js";
 import type {
   PokerTable,
   Seat,
+  SeatEvent,
+  SeatEventType,
   Hand,
   Action,
+  VrfRequest,
+  HoleCommitment,
   Agent,
+  OwnerSeat,
+  OwnerOpenHand,
+  AgentEvent,
+  AgentEventType,
   VaultSnapshot,
+  NavCandle,
+  Rebalance,
+  RebalanceConfig,
+  RebalanceDelay,
+  RebalanceDirection,
   Settlement,
+  SeatPayout,
+  TokenTrade,
+  TradeSide,
+  PriceCandle,
+  TokenBalance,
+  TokenHolderSummary,
+  HolderCountPoint,
   IndexerState,
+  BlockHash,
+  HandHistoryFilters,
+  HandKey,
+  HandPageKey,
+  SnapshotPageKey,
+  HandPlayer,
+  LeaderboardRow,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  ClaimedWebhookDelivery,
 } from "./types.js";
 
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
 // ============ Event Idempotency ============
 
 export async function isEventProcessed(
@@ -61,6 +94,252 @@ export async function updateIndexerState(
   );
 }
 
+// ============ Reorg Tracking ============
+
+export async function saveBlockHashes(
+  entries: { blockNumber: bigint; blockHash: string }[]
+): Promise<void> {
+  for (const entry of entries) {
+    await query(
+      `INSERT INTO block_hashes (block_number, block_hash)
+       VALUES ($1, $2)
+       ON CONFLICT (block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash, created_at = NOW()`,
+      [entry.blockNumber.toString(), entry.blockHash.toLowerCase()]
+    );
+  }
+}
+
+// Newest first, so the first entry that still matches the chain bounds the fork point
+export async function getRecentBlockHashes(fromBlock: bigint): Promise<BlockHash[]> {
+  const result = await query<BlockHash>(
+    `SELECT * FROM block_hashes WHERE block_number >= $1 ORDER BY block_number DESC`,
+    [fromBlock.toString()]
+  );
+  return result.rows;
+}
+
+export async function pruneBlockHashes(belowBlock: bigint): Promise<void> {
+  await query(`DELETE FROM block_hashes WHERE block_number < $1`, [belowBlock.toString()]);
+}
+
+type JournaledTable = "seats" | "poker_tables" | "hands" | "rebalance_configs";
+
+// Save a row's image (NULL when it does not exist yet) before it is changed at blockNumber
+async function journalRow(
+  table: JournaledTable,
+  key: Record<string, string | number>,
+  blockNumber: bigint
+): Promise<void> {
+  const columns = Object.keys(key);
+  const where = columns.map((column, i) => `t.${column} = $${i + 3}`).join(" AND ");
+  await query(
+    `INSERT INTO rollback_journal (block_number, entity, entity_key, previous)
+     VALUES ($1, '${table}', $2::jsonb, (SELECT to_jsonb(t) FROM ${table} t WHERE ${where}))`,
+    [blockNumber.toString(), JSON.stringify(key), ...columns.map((column) => key[column])]
+  );
+}
+
+export async function pruneRollbackJournal(belowBlock: bigint): Promise<void> {
+  await query(`DELETE FROM rollback_journal WHERE block_number < $1`, [belowBlock.toString()]);
+}
+
+// Each journaled row's image from before its first change at or after the fork ($1)
+function journalImages(table: JournaledTable): string {
+  return `SELECT DISTINCT ON (entity_key) entity_key, previous FROM rollback_journal
+          WHERE entity = '${table}' AND block_number >= $1
+          ORDER BY entity_key, id`;
+}
+
+/**
+ * Remove everything derived from blocks >= forkBlock so the canonical range can be replayed.
+ * Append-only rows are deleted by block; rows updated in place are restored from the journal.
+ * Returns the agents whose registration was rolled back, so the listener can stop tracking them.
+ */
+export async function rollbackFromBlock(forkBlock: bigint): Promise<Agent[]> {
+  const fork = forkBlock.toString();
+
+  return transaction(async (client) => {
+    // Hands started after the fork disappear with all of their children
+    const removedHands = `SELECT table_id, hand_id FROM hands WHERE started_block >= $1`;
+    await client.query(`DELETE FROM actions WHERE (table_id, hand_id) IN (${removedHands})`, [fork]);
+    await client.query(`DELETE FROM settlements WHERE (table_id, hand_id) IN (${removedHands})`, [fork]);
+    await client.query(`DELETE FROM hole_commitments WHERE (table_id, hand_id) IN (${removedHands})`, [fork]);
+    await client.query(`DELETE FROM vrf_requests WHERE (table_id, hand_id) IN (${removedHands})`, [fork]);
+    await client.query(`DELETE FROM hand_players WHERE (table_id, hand_id) IN (${removedHands})`, [fork]);
+    await client.query(`DELETE FROM hands WHERE started_block >= $1`, [fork]);
+    await client.query(`DELETE FROM actions WHERE block_number >= $1`, [fork]);
+    await client.query(`UPDATE actions SET street_end_block = NULL WHERE street_end_block >= $1`, [fork]);
+    await client.query(`DELETE FROM settlements WHERE block_number >= $1`, [fork]);
+
+    // Surviving hands, table state, seats and rebalance configs go back to their pre-fork images
+    await client.query(
+      `UPDATE hands h SET
+         pot = r.pot, current_bet = r.current_bet, actor_seat = r.actor_seat, game_state = r.game_state,
+         community_cards = r.community_cards, winner_seat = r.winner_seat, winner_seats = r.winner_seats,
+         settlement_amount = r.settlement_amount, settled_at = r.settled_at, showdown_block = r.showdown_block
+       FROM (${journalImages("hands")}) j, jsonb_populate_record(NULL::hands, j.previous) r
+       WHERE h.table_id = r.table_id AND h.hand_id = r.hand_id`,
+      [fork]
+    );
+    await client.query(
+      `UPDATE poker_tables t SET
+         current_hand_id = r.current_hand_id, game_state = r.game_state, button_seat = r.button_seat,
+         action_deadline = r.action_deadline, updated_at = r.updated_at
+       FROM (${journalImages("poker_tables")}) j, jsonb_populate_record(NULL::poker_tables, j.previous) r
+       WHERE t.table_id = r.table_id`,
+      [fork]
+    );
+    await client.query(
+      `DELETE FROM seats s USING (${journalImages("seats")}) j
+       WHERE s.table_id = (j.entity_key->>'table_id')::bigint
+         AND s.seat_index = (j.entity_key->>'seat_index')::smallint`,
+      [fork]
+    );
+    await client.query(
+      `INSERT INTO seats
+       SELECT r.* FROM (${journalImages("seats")}) j, jsonb_populate_record(NULL::seats, j.previous) r
+       WHERE j.previous IS NOT NULL`,
+      [fork]
+    );
+    await client.query(
+      `DELETE FROM rebalance_configs c USING (${journalImages("rebalance_configs")}) j
+       WHERE c.vault_address = j.entity_key->>'vault_address'`,
+      [fork]
+    );
+    await client.query(
+      `INSERT INTO rebalance_configs
+       SELECT r.* FROM (${journalImages("rebalance_configs")}) j, jsonb_populate_record(NULL::rebalance_configs, j.previous) r
+       WHERE j.previous IS NOT NULL`,
+      [fork]
+    );
+    await client.query(`DELETE FROM rollback_journal WHERE block_number >= $1`, [fork]);
+
+    await client.query(
+      `UPDATE vrf_requests
+       SET status = 'pending', fulfilled_block = NULL, fulfilled_tx_hash = NULL, fulfilled_at = NULL
+       WHERE fulfilled_block >= $1`,
+      [fork]
+    );
+    await client.query(`DELETE FROM vrf_requests WHERE requested_block >= $1`, [fork]);
+    await client.query(
+      `UPDATE vrf_requests SET status = 'pending', replaced_by = NULL
+       WHERE status = 'rerequested' AND replaced_by NOT IN (SELECT request_id FROM vrf_requests)`
+    );
+
+    await client.query(`DELETE FROM hole_commitments WHERE committed_block >= $1`, [fork]);
+    await client.query(
+      `UPDATE hole_commitments
+       SET card1 = NULL, card2 = NULL, revealed_block = NULL, reveal_tx_hash = NULL, revealed_at = NULL
+       WHERE revealed_block >= $1`,
+      [fork]
+    );
+
+    await client.query(`DELETE FROM seat_events WHERE block_number >= $1`, [fork]);
+
+    // Agents first registered after the fork disappear; their events go with the rest below
+    const removedAgents = await client.query<Agent>(
+      `DELETE FROM agents a
+       WHERE EXISTS (
+         SELECT 1 FROM agent_events e
+         WHERE e.token_address = a.token_address AND e.event_type = 'REGISTERED' AND e.block_number >= $1
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM agent_events e
+         WHERE e.token_address = a.token_address AND e.event_type = 'REGISTERED' AND e.block_number < $1
+       )
+       RETURNING *`,
+      [fork]
+    );
+    await client.query(`DELETE FROM leaderboard_stats WHERE token_address = ANY($1::text[])`, [
+      removedAgents.rows.map((agent) => agent.token_address),
+    ]);
+
+    // Registry updates after the fork are undone with the value the earliest of them replaced, NULL included
+    await client.query(
+      `WITH removed AS (
+         DELETE FROM agent_events WHERE block_number >= $1
+         RETURNING id, token_address, event_type, old_value
+       ),
+       earliest AS (
+         SELECT DISTINCT ON (token_address, event_type) token_address, event_type, old_value
+         FROM removed
+         WHERE event_type <> 'REGISTERED'
+         ORDER BY token_address, event_type, id
+       ),
+       previous AS (
+         SELECT
+           token_address,
+           BOOL_OR(event_type = 'OWNER_UPDATED') AS owner_changed,
+           MAX(old_value) FILTER (WHERE event_type = 'OWNER_UPDATED') AS owner_address,
+           BOOL_OR(event_type = 'OPERATOR_UPDATED') AS operator_changed,
+           MAX(old_value) FILTER (WHERE event_type = 'OPERATOR_UPDATED') AS operator_address,
+           BOOL_OR(event_type = 'VAULT_UPDATED') AS vault_changed,
+           MAX(old_value) FILTER (WHERE event_type = 'VAULT_UPDATED') AS vault_address,
+           BOOL_OR(event_type = 'TABLE_UPDATED') AS table_changed,
+           MAX(old_value) FILTER (WHERE event_type = 'TABLE_UPDATED') AS table_address,
+           BOOL_OR(event_type = 'META_URI_UPDATED') AS meta_uri_changed,
+           MAX(old_value) FILTER (WHERE event_type = 'META_URI_UPDATED') AS meta_uri
+         FROM earliest
+         GROUP BY token_address
+       )
+       UPDATE agents a SET
+         owner_address = CASE WHEN p.owner_changed THEN p.owner_address ELSE a.owner_address END,
+         operator_address = CASE WHEN p.operator_changed THEN p.operator_address ELSE a.operator_address END,
+         vault_address = CASE WHEN p.vault_changed THEN p.vault_address ELSE a.vault_address END,
+         table_address = CASE WHEN p.table_changed THEN p.table_address ELSE a.table_address END,
+         meta_uri = CASE WHEN p.meta_uri_changed THEN p.meta_uri ELSE a.meta_uri END,
+         updated_at = NOW()
+       FROM previous p
+       WHERE a.token_address = p.token_address`,
+      [fork]
+    );
+    await client.query(`DELETE FROM vault_snapshots WHERE block_number >= $1`, [fork]);
+    await client.query(`DELETE FROM rebalances WHERE block_number >= $1`, [fork]);
+    await client.query(`DELETE FROM rebalance_delays WHERE block_number >= $1`, [fork]);
+    await client.query(`DELETE FROM token_trades WHERE block_number >= $1`, [fork]);
+
+    // Orphaned transfers are reversed out of the balances they were applied to
+    await client.query(
+      `WITH removed AS (
+         DELETE FROM token_transfers WHERE block_number >= $1
+         RETURNING token_address, from_address, to_address, amount
+       ),
+       deltas AS (
+         SELECT token_address, from_address AS holder_address, amount AS delta FROM removed
+         WHERE from_address <> $2
+         UNION ALL
+         SELECT token_address, to_address, -amount FROM removed
+         WHERE to_address <> $2
+       )
+       UPDATE token_balances b SET balance = b.balance + d.delta
+       FROM (
+         SELECT token_address, holder_address, SUM(delta) AS delta FROM deltas GROUP BY token_address, holder_address
+       ) d
+       WHERE b.token_address = d.token_address AND b.holder_address = d.holder_address`,
+      [fork, ZERO_ADDRESS]
+    );
+    // Supplies read on the orphaned fork are dropped; the listener reads them again
+    await client.query(`DELETE FROM token_supplies WHERE updated_block >= $1`, [fork]);
+
+    // Queued webhooks for orphaned events; already delivered ones are followed by a reorg event
+    await client.query(
+      `DELETE FROM webhook_deliveries WHERE status = 'pending' AND block_number >= $1 AND event_type <> 'reorg'`,
+      [fork]
+    );
+
+    await client.query(`DELETE FROM processed_events WHERE block_number >= $1`, [fork]);
+    await client.query(`DELETE FROM block_hashes WHERE block_number >= $1`, [fork]);
+    await client.query(
+      `UPDATE indexer_state
+       SET last_processed_block = $1, last_processed_log_index = 0, updated_at = NOW()
+       WHERE id = 1`,
+      [fork]
+    );
+
+    return removedAgents.rows;
+  });
+}
+
 // ============ Poker Tables ============
 
 export async function upsertTable(
@@ -84,6 +363,7 @@ export async function upsertTable(
 export async function updateTableState(
   tableId: bigint,
   gameState: string,
+  blockNumber: bigint,
   currentHandId?: bigint,
   buttonSeat?: number,
   actionDeadline?: Date | null
@@ -108,6 +388,7 @@ export async function updateTableState(
     paramIndex++;
   }
 
+  await journalRow("poker_tables", { table_id: tableId.toString() }, blockNumber);
   await query(
     `UPDATE poker_tables SET ${updates.join(", ")} WHERE table_id = $1`,
     params
@@ -129,6 +410,34 @@ export async function getAllTables(): Promise<PokerTable[]> {
   return result.rows;
 }
 
+export async function getTablesByIds(tableIds: bigint[]): Promise<PokerTable[]> {
+  const result = await query<PokerTable>(
+    `SELECT * FROM poker_tables WHERE table_id = ANY($1::bigint[]) ORDER BY table_id`,
+    [tableIds.map((id) => id.toString())]
+  );
+  return result.rows;
+}
+
+export async function getTablesByAddresses(contractAddresses: string[]): Promise<PokerTable[]> {
+  const result = await query<PokerTable>(
+    `SELECT * FROM poker_tables WHERE LOWER(contract_address) = ANY($1::text[]) ORDER BY table_id`,
+    [contractAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows;
+}
+
+// Keyset page in table id order, starting after the given id
+export async function getTablesPage(afterTableId: bigint | null, limit: number): Promise<PokerTable[]> {
+  const result = await query<PokerTable>(
+    `SELECT * FROM poker_tables
+     WHERE $1::bigint IS NULL OR table_id > $1::bigint
+     ORDER BY table_id
+     LIMIT $2`,
+    [afterTableId?.toString() ?? null, limit]
+  );
+  return result.rows;
+}
+
 // ============ Seats ============
 
 export async function upsertSeat(
@@ -138,8 +447,13 @@ export async function upsertSeat(
   operatorAddress: string,
   stack: bigint,
   isActive = false,
-  currentBet: bigint = 0n
+  currentBet: bigint = 0n,
+  // Block of the SeatUpdated being applied; null for snapshots read from chain
+  blockNumber: bigint | null = null
 ): Promise<void> {
+  if (blockNumber !== null) {
+    await journalRow("seats", { table_id: tableId.toString(), seat_index: seatIndex }, blockNumber);
+  }
   await query(
     `INSERT INTO seats (table_id, seat_index, owner_address, operator_address, stack, is_active, current_bet)
      VALUES ($1, $2, $3, $4, $5, $6, $7)
@@ -165,8 +479,10 @@ export async function upsertSeat(
 export async function updateSeatStack(
   tableId: bigint,
   seatIndex: number,
-  stack: bigint
+  stack: bigint,
+  blockNumber: bigint
 ): Promise<void> {
+  await journalRow("seats", { table_id: tableId.toString(), seat_index: seatIndex }, blockNumber);
   await query(
     `UPDATE seats SET stack = $3, updated_at = NOW()
      WHERE table_id = $1 AND seat_index = $2`,
@@ -174,6 +490,14 @@ export async function updateSeatStack(
   );
 }
 
+export async function deleteSeat(tableId: bigint, seatIndex: number, blockNumber: bigint): Promise<void> {
+  await journalRow("seats", { table_id: tableId.toString(), seat_index: seatIndex }, blockNumber);
+  await query(
+    `DELETE FROM seats WHERE table_id = $1 AND seat_index = $2`,
+    [tableId.toString(), seatIndex]
+  );
+}
+
 export async function getSeats(tableId: bigint): Promise<Seat[]> {
   const result = await query<Seat>(
     `SELECT * FROM seats WHERE table_id = $1 ORDER BY seat_index`,
@@ -182,8 +506,65 @@ export async function getSeats(tableId: bigint): Promise<Seat[]> {
   return result.rows;
 }
 
+export async function getSeatsForTables(tableIds: bigint[]): Promise<Seat[]> {
+  const result = await query<Seat>(
+    `SELECT * FROM seats WHERE table_id = ANY($1::bigint[]) ORDER BY table_id, seat_index`,
+    [tableIds.map((id) => id.toString())]
+  );
+  return result.rows;
+}
+
+// ============ Seat Events ============
+
+export async function insertSeatEvent(
+  tableId: bigint,
+  seatIndex: number,
+  eventType: SeatEventType,
+  ownerAddress: string,
+  recipientAddress: string | null,
+  amount: bigint,
+  stackAfter: bigint,
+  blockNumber: bigint,
+  logIndex: number,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO seat_events
+       (table_id, seat_index, event_type, owner_address, recipient_address, amount, stack_after, block_number, log_index, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      tableId.toString(),
+      seatIndex,
+      eventType,
+      ownerAddress.toLowerCase(),
+      recipientAddress?.toLowerCase() || null,
+      amount.toString(),
+      stackAfter.toString(),
+      blockNumber.toString(),
+      logIndex,
+      txHash,
+    ]
+  );
+}
+
+export async function getSeatEvents(
+  tableId: bigint,
+  seatIndex: number,
+  limit = 50
+): Promise<SeatEvent[]> {
+  const result = await query<SeatEvent>(
+    `SELECT * FROM seat_events
+     WHERE table_id = $1 AND seat_index = $2
+     ORDER BY block_number DESC, log_index DESC
+     LIMIT $3`,
+    [tableId.toString(), seatIndex, limit]
+  );
+  return result.rows;
+}
+
 // ============ Hands ============
 
+// started_at is the HandStarted block's timestamp, so date filters hold across catch-ups and reindexes
 export async function insertHand(
   tableId: bigint,
   handId: bigint,
@@ -191,14 +572,18 @@ export async function insertHand(
   buttonSeat: number,
   smallBlind: bigint,
   bigBlind: bigint,
-  gameState: string
+  gameState: string,
+  startedBlock: bigint,
+  startedAt: Date
 ): Promise<void> {
   await query(
-    `INSERT INTO hands (table_id, hand_id, pot, button_seat, small_blind, big_blind, game_state)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO hands (table_id, hand_id, pot, button_seat, small_blind, big_blind, game_state, started_block, started_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
      ON CONFLICT (table_id, hand_id) DO UPDATE SET
        pot = EXCLUDED.pot,
-       game_state = EXCLUDED.game_state`,
+       game_state = EXCLUDED.game_state,
+       started_block = EXCLUDED.started_block,
+       started_at = EXCLUDED.started_at`,
     [
       tableId.toString(),
       handId.toString(),
@@ -207,6 +592,8 @@ export async function insertHand(
       smallBlind.toString(),
       bigBlind.toString(),
       gameState,
+      startedBlock.toString(),
+      startedAt,
     ]
   );
 }
@@ -221,9 +608,12 @@ export async function updateHand(
     gameState: string;
     communityCards: number[];
     winnerSeat: number;
+    winnerSeats: number[];
     settlementAmount: bigint;
     settledAt: Date;
-  }>
+    showdownBlock: bigint;
+  }>,
+  blockNumber: bigint
 ): Promise<void> {
   const setClauses: string[] = [];
   const params: unknown[] = [tableId.toString(), handId.toString()];
@@ -253,6 +643,10 @@ export async function updateHand(
     setClauses.push(`winner_seat = $${paramIndex++}`);
     params.push(updates.winnerSeat);
   }
+  if (updates.winnerSeats !== undefined) {
+    setClauses.push(`winner_seats = $${paramIndex++}`);
+    params.push(updates.winnerSeats);
+  }
   if (updates.settlementAmount !== undefined) {
     setClauses.push(`settlement_amount = $${paramIndex++}`);
     params.push(updates.settlementAmount.toString());
@@ -261,9 +655,14 @@ export async function updateHand(
     setClauses.push(`settled_at = $${paramIndex++}`);
     params.push(updates.settledAt);
   }
+  if (updates.showdownBlock !== undefined) {
+    setClauses.push(`showdown_block = $${paramIndex++}`);
+    params.push(updates.showdownBlock.toString());
+  }
 
   if (setClauses.length === 0) return;
 
+  await journalRow("hands", { table_id: tableId.toString(), hand_id: handId.toString() }, blockNumber);
   await query(
     `UPDATE hands SET ${setClauses.join(", ")} WHERE table_id = $1 AND hand_id = $2`,
     params
@@ -278,14 +677,202 @@ export async function getHand(tableId: bigint, handId: bigint): Promise<Hand | n
   return result.rows[0] || null;
 }
 
-export async function getTableHands(tableId: bigint, limit = 10): Promise<Hand[]> {
+// (table_id, hand_id) pairs travel as two parallel arrays zipped by unnest
+function handKeyParams(keys: HandKey[]): [string[], string[]] {
+  return [keys.map((key) => key.tableId.toString()), keys.map((key) => key.handId.toString())];
+}
+
+export async function getHandsByKeys(keys: HandKey[]): Promise<Hand[]> {
+  const result = await query<Hand>(
+    `SELECT * FROM hands
+     WHERE (table_id, hand_id) IN (SELECT * FROM unnest($1::bigint[], $2::bigint[]))`,
+    handKeyParams(keys)
+  );
+  return result.rows;
+}
+
+// Several hand pages in one query; page_index is the 1-based position of the row's key
+export async function getTableHandPages(keys: HandPageKey[]): Promise<(Hand & { page_index: number })[]> {
+  const result = await query<Hand & { page_index: number }>(
+    `SELECT k.page_index::int AS page_index, h.*
+     FROM unnest($1::bigint[], $2::bigint[], $3::int[])
+       WITH ORDINALITY AS k(table_id, before_hand_id, page_size, page_index)
+     CROSS JOIN LATERAL (
+       SELECT * FROM hands
+       WHERE hands.table_id = k.table_id
+         AND (k.before_hand_id IS NULL OR hands.hand_id < k.before_hand_id)
+       ORDER BY hands.hand_id DESC
+       LIMIT k.page_size
+     ) h
+     ORDER BY k.page_index, h.hand_id DESC`,
+    [
+      keys.map((key) => key.tableId.toString()),
+      keys.map((key) => key.beforeHandId?.toString() ?? null),
+      keys.map((key) => key.limit),
+    ]
+  );
+  return result.rows;
+}
+
+export async function countTableHands(tableIds: bigint[]): Promise<{ table_id: string; total: number }[]> {
+  const result = await query<{ table_id: string; total: number }>(
+    `SELECT table_id, COUNT(*)::int AS total FROM hands
+     WHERE table_id = ANY($1::bigint[])
+     GROUP BY table_id`,
+    [tableIds.map(String)]
+  );
+  return result.rows;
+}
+
+// Newest first. total counts every hand matching the filters, ignoring the cursor.
+export async function getTableHands(
+  tableId: bigint,
+  filters: HandHistoryFilters = {},
+  limit = 10
+): Promise<{ rows: Hand[]; total: number }> {
+  const conditions: string[] = ["h.table_id = $1"];
+  const params: unknown[] = [tableId.toString()];
+  let paramIndex = 2;
+
+  if (filters.seat !== undefined) {
+    const p = `$${paramIndex++}`;
+    conditions.push(
+      `EXISTS (SELECT 1 FROM hand_players hp WHERE hp.table_id = h.table_id AND hp.hand_id = h.hand_id AND hp.seat_index = ${p})`
+    );
+    params.push(filters.seat);
+  }
+  if (filters.winner !== undefined) {
+    conditions.push(`$${paramIndex++} = ANY(h.winner_seats)`);
+    params.push(filters.winner);
+  }
+  if (filters.minPot !== undefined) {
+    conditions.push(`h.pot >= $${paramIndex++}::numeric`);
+    params.push(filters.minPot.toString());
+  }
+  if (filters.maxPot !== undefined) {
+    conditions.push(`h.pot <= $${paramIndex++}::numeric`);
+    params.push(filters.maxPot.toString());
+  }
+  if (filters.from !== undefined) {
+    conditions.push(`h.started_at >= $${paramIndex++}`);
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    conditions.push(`h.started_at <= $${paramIndex++}`);
+    params.push(filters.to);
+  }
+  if (filters.showdown !== undefined) {
+    conditions.push(filters.showdown ? "h.showdown_block IS NOT NULL" : "h.showdown_block IS NULL");
+  }
+
+  const where = conditions.join(" AND ");
+  const countResult = await query<{ total: string }>(
+    `SELECT COUNT(*) AS total FROM hands h WHERE ${where}`,
+    params
+  );
+
+  const pageConditions = [where];
+  const pageParams = [...params];
+  if (filters.beforeHandId !== undefined) {
+    pageConditions.push(`h.hand_id < $${paramIndex++}`);
+    pageParams.push(filters.beforeHandId.toString());
+  }
+  pageParams.push(limit);
+
   const result = await query<Hand>(
-    `SELECT * FROM hands WHERE table_id = $1 ORDER BY hand_id DESC LIMIT $2`,
-    [tableId.toString(), limit]
+    `SELECT h.* FROM hands h
+     WHERE ${pageConditions.join(" AND ")}
+     ORDER BY h.hand_id DESC
+     LIMIT $${paramIndex}`,
+    pageParams
+  );
+
+  return { rows: result.rows, total: parseInt(countResult.rows[0]?.total ?? "0", 10) };
+}
+
+// ============ Hand Players ============
+
+// Mirrors PokerTable._isSeatPlayable: occupied with at least one big blind behind
+export async function snapshotHandPlayers(
+  tableId: bigint,
+  handId: bigint,
+  bigBlind: bigint
+): Promise<void> {
+  await query(
+    `INSERT INTO hand_players (table_id, hand_id, seat_index, owner_address, operator_address, starting_stack)
+     SELECT table_id, $2, seat_index, owner_address, operator_address, stack
+     FROM seats
+     WHERE table_id = $1 AND stack >= $3::numeric
+       AND owner_address <> '0x0000000000000000000000000000000000000000'
+     ON CONFLICT (table_id, hand_id, seat_index) DO NOTHING`,
+    [tableId.toString(), handId.toString(), bigBlind.toString()]
+  );
+}
+
+export async function getHandPlayers(tableId: bigint, handId: bigint): Promise<HandPlayer[]> {
+  const result = await query<HandPlayer>(
+    `SELECT * FROM hand_players WHERE table_id = $1 AND hand_id = $2 ORDER BY seat_index`,
+    [tableId.toString(), handId.toString()]
   );
   return result.rows;
 }
 
+// Settled hands the agent was dealt into, with every seat and action needed to replay them.
+// Seats are matched by owner (as for settlements) and restricted to the agent's table when known.
+// The period applies to started_at, the HandStarted block time. Callers should run this inside
+// readTransaction so the three queries see the same hands.
+export async function getAgentHandsInPeriod(
+  ownerAddress: string,
+  tableAddress: string | null,
+  periodStart: Date | null
+): Promise<{ hands: (Hand & { agent_seat: number })[]; players: HandPlayer[]; actions: Action[] }> {
+  const conditions = ["hp.owner_address = $1", "h.settled_at IS NOT NULL"];
+  const params: unknown[] = [ownerAddress.toLowerCase()];
+  if (tableAddress) {
+    params.push(tableAddress.toLowerCase());
+    conditions.push(`LOWER(pt.contract_address) = $${params.length}`);
+  }
+  if (periodStart) {
+    params.push(periodStart.toISOString());
+    conditions.push(`h.started_at >= $${params.length}`);
+  }
+
+  const agentHands = `
+    SELECT h.table_id, h.hand_id, hp.seat_index AS agent_seat
+    FROM hand_players hp
+    JOIN hands h ON h.table_id = hp.table_id AND h.hand_id = hp.hand_id
+    JOIN poker_tables pt ON pt.table_id = h.table_id
+    WHERE ${conditions.join(" AND ")}`;
+
+  const [hands, players, actions] = await Promise.all([
+    query<Hand & { agent_seat: number }>(
+      `WITH agent_hands AS (${agentHands})
+       SELECT h.*, ah.agent_seat FROM hands h
+       JOIN agent_hands ah ON ah.table_id = h.table_id AND ah.hand_id = h.hand_id
+       ORDER BY h.table_id, h.hand_id`,
+      params
+    ),
+    query<HandPlayer>(
+      `WITH agent_hands AS (${agentHands})
+       SELECT p.* FROM hand_players p
+       JOIN agent_hands ah ON ah.table_id = p.table_id AND ah.hand_id = p.hand_id`,
+      params
+    ),
+    query<Action>(
+      `WITH agent_hands AS (${agentHands})
+       SELECT
+         a.*,
+         (a.street_end_block IS NOT NULL) AS ends_street
+       FROM actions a
+       JOIN agent_hands ah ON ah.table_id = a.table_id AND ah.hand_id = a.hand_id
+       ORDER BY a.id`,
+      params
+    ),
+  ]);
+
+  return { hands: hands.rows, players: players.rows, actions: actions.rows };
+}
+
 // ============ Actions ============
 
 export async function insertAction(
@@ -314,16 +901,22 @@ export async function insertAction(
   );
 }
 
+// Flags the hand's latest action as the one that closed its street. An action already flagged
+// keeps its block, e.g. when an all-in run-out completes further rounds without actions.
+export async function markStreetEnd(tableId: bigint, handId: bigint, blockNumber: bigint): Promise<void> {
+  await query(
+    `UPDATE actions SET street_end_block = $3
+     WHERE id = (SELECT MAX(id) FROM actions WHERE table_id = $1 AND hand_id = $2)
+       AND street_end_block IS NULL`,
+    [tableId.toString(), handId.toString(), blockNumber.toString()]
+  );
+}
+
 export async function getHandActions(tableId: bigint, handId: bigint): Promise<Action[]> {
   const result = await query<Action>(
     `SELECT
        a.*,
-       EXISTS(
-         SELECT 1
-         FROM processed_events pe
-         WHERE pe.tx_hash = a.tx_hash
-           AND pe.event_name = 'BettingRoundComplete'
-       ) AS ends_street
+       (a.street_end_block IS NOT NULL) AS ends_street
      FROM actions a
      WHERE a.table_id = $1 AND a.hand_id = $2
      ORDER BY a.id`,
@@ -332,6 +925,134 @@ export async function getHandActions(tableId: bigint, handId: bigint): Promise<A
   return result.rows;
 }
 
+export async function getActionsForHands(keys: HandKey[]): Promise<Action[]> {
+  const result = await query<Action>(
+    `SELECT
+       a.*,
+       (a.street_end_block IS NOT NULL) AS ends_street
+     FROM actions a
+     WHERE (a.table_id, a.hand_id) IN (SELECT * FROM unnest($1::bigint[], $2::bigint[]))
+     ORDER BY a.id`,
+    handKeyParams(keys)
+  );
+  return result.rows;
+}
+
+// ============ VRF Requests ============
+
+export async function insertVrfRequest(
+  tableId: bigint,
+  handId: bigint,
+  requestId: bigint,
+  street: string,
+  blockNumber: bigint,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO vrf_requests (request_id, table_id, hand_id, street, status, requested_block, requested_tx_hash)
+     VALUES ($1, $2, $3, $4, 'pending', $5, $6)
+     ON CONFLICT (request_id) DO NOTHING`,
+    [
+      requestId.toString(),
+      tableId.toString(),
+      handId.toString(),
+      street,
+      blockNumber.toString(),
+      txHash,
+    ]
+  );
+}
+
+export async function markVrfRequestReplaced(
+  tableId: bigint,
+  oldRequestId: bigint,
+  newRequestId: bigint
+): Promise<void> {
+  await query(
+    `UPDATE vrf_requests SET status = 'rerequested', replaced_by = $3
+     WHERE table_id = $1 AND request_id = $2 AND status = 'pending'`,
+    [tableId.toString(), oldRequestId.toString(), newRequestId.toString()]
+  );
+}
+
+// The table does not emit the fulfilled request id; CommunityCardsDealt for a street
+// fulfils whichever request for that street is still pending.
+export async function markVrfRequestFulfilled(
+  tableId: bigint,
+  handId: bigint,
+  street: string,
+  blockNumber: bigint,
+  txHash: string
+): Promise<void> {
+  await query(
+    `UPDATE vrf_requests
+     SET status = 'fulfilled', fulfilled_block = $4, fulfilled_tx_hash = $5, fulfilled_at = NOW()
+     WHERE table_id = $1 AND hand_id = $2 AND street = $3 AND status = 'pending'`,
+    [tableId.toString(), handId.toString(), street, blockNumber.toString(), txHash]
+  );
+}
+
+export async function getHandVrfRequests(tableId: bigint, handId: bigint): Promise<VrfRequest[]> {
+  const result = await query<VrfRequest>(
+    `SELECT * FROM vrf_requests
+     WHERE table_id = $1 AND hand_id = $2
+     ORDER BY requested_block ASC NULLS FIRST, request_id ASC`,
+    [tableId.toString(), handId.toString()]
+  );
+  return result.rows;
+}
+
+// ============ Hole Card Commitments ============
+
+export async function upsertHoleCommitment(
+  tableId: bigint,
+  handId: bigint,
+  seatIndex: number,
+  commitment: string,
+  blockNumber: bigint,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO hole_commitments (table_id, hand_id, seat_index, commitment, committed_block, commit_tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (table_id, hand_id, seat_index) DO UPDATE SET
+       commitment = EXCLUDED.commitment,
+       committed_block = EXCLUDED.committed_block,
+       commit_tx_hash = EXCLUDED.commit_tx_hash`,
+    [tableId.toString(), handId.toString(), seatIndex, commitment, blockNumber.toString(), txHash]
+  );
+}
+
+export async function markHoleCardsRevealed(
+  tableId: bigint,
+  handId: bigint,
+  seatIndex: number,
+  card1: number,
+  card2: number,
+  blockNumber: bigint,
+  txHash: string
+): Promise<void> {
+  await query(
+    `UPDATE hole_commitments
+     SET card1 = $4, card2 = $5, revealed_block = $6, reveal_tx_hash = $7, revealed_at = NOW()
+     WHERE table_id = $1 AND hand_id = $2 AND seat_index = $3`,
+    [tableId.toString(), handId.toString(), seatIndex, card1, card2, blockNumber.toString(), txHash]
+  );
+}
+
+export async function getHandHoleCommitments(
+  tableId: bigint,
+  handId: bigint
+): Promise<HoleCommitment[]> {
+  const result = await query<HoleCommitment>(
+    `SELECT * FROM hole_commitments
+     WHERE table_id = $1 AND hand_id = $2
+     ORDER BY seat_index`,
+    [tableId.toString(), handId.toString()]
+  );
+  return result.rows;
+}
+
 // ============ Agents ============
 
 export async function upsertAgent(
@@ -426,6 +1147,14 @@ export async function getAgent(tokenAddress: string): Promise<Agent | null> {
   return result.rows[0] || null;
 }
 
+export async function getAgentByVault(vaultAddress: string): Promise<Agent | null> {
+  const result = await query<Agent>(
+    `SELECT * FROM agents WHERE vault_address = $1`,
+    [vaultAddress.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
 export async function getAllAgents(): Promise<Agent[]> {
   const result = await query<Agent>(
     `SELECT * FROM agents WHERE is_registered = true ORDER BY created_at DESC`
@@ -433,6 +1162,107 @@ export async function getAllAgents(): Promise<Agent[]> {
   return result.rows;
 }
 
+export async function getAgentsByTokens(tokenAddresses: string[]): Promise<Agent[]> {
+  const result = await query<Agent>(
+    `SELECT * FROM agents WHERE token_address = ANY($1::text[])`,
+    [tokenAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows;
+}
+
+// Seats are held by the agent owner; registered agents sort first
+export async function getAgentsByOwners(ownerAddresses: string[]): Promise<Agent[]> {
+  const result = await query<Agent>(
+    `SELECT * FROM agents
+     WHERE LOWER(owner_address) = ANY($1::text[])
+     ORDER BY is_registered DESC, created_at DESC`,
+    [ownerAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows;
+}
+
+// Keyset page in getAllAgents order (newest first), starting after the given agent
+export async function getAgentsPage(
+  after: { createdAt: Date; tokenAddress: string } | null,
+  limit: number
+): Promise<Agent[]> {
+  const result = await query<Agent>(
+    `SELECT * FROM agents
+     WHERE is_registered = true
+       AND ($1::timestamptz IS NULL OR (created_at, token_address) < ($1::timestamptz, $2::text))
+     ORDER BY created_at DESC, token_address DESC
+     LIMIT $3`,
+    [after?.createdAt.toISOString() ?? null, after?.tokenAddress.toLowerCase() ?? null, limit]
+  );
+  return result.rows;
+}
+
+// ============ Owners ============
+
+export async function getOwnerSeats(ownerAddress: string): Promise<OwnerSeat[]> {
+  const result = await query<OwnerSeat>(
+    `SELECT s.*, pt.contract_address, pt.current_hand_id
+     FROM seats s
+     JOIN poker_tables pt ON pt.table_id = s.table_id
+     WHERE s.owner_address = $1
+     ORDER BY s.table_id, s.seat_index`,
+    [ownerAddress.toLowerCase()]
+  );
+  return result.rows;
+}
+
+// Only each table's current hand counts, so hands abandoned by a missed event do not linger
+export async function getOwnerOpenHands(ownerAddress: string): Promise<OwnerOpenHand[]> {
+  const result = await query<OwnerOpenHand>(
+    `SELECT h.*, hp.seat_index
+     FROM poker_tables pt
+     JOIN hands h ON h.table_id = pt.table_id AND h.hand_id = pt.current_hand_id
+     JOIN hand_players hp ON hp.table_id = h.table_id AND hp.hand_id = h.hand_id
+     WHERE hp.owner_address = $1 AND h.settled_at IS NULL
+     ORDER BY h.table_id, hp.seat_index`,
+    [ownerAddress.toLowerCase()]
+  );
+  return result.rows;
+}
+
+// ============ Agent Events ============
+
+// Values are stored as given; callers lowercase addresses so rollback can restore them verbatim
+export async function insertAgentEvent(
+  tokenAddress: string,
+  eventType: AgentEventType,
+  oldValue: string | null,
+  newValue: string | null,
+  blockNumber: bigint,
+  logIndex: number,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO agent_events (token_address, event_type, old_value, new_value, block_number, log_index, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [tokenAddress.toLowerCase(), eventType, oldValue, newValue, blockNumber.toString(), logIndex, txHash]
+  );
+}
+
+// Newest first; ids follow chain order, so beforeId pages back through history
+export async function getAgentEvents(
+  tokenAddress: string,
+  limit: number,
+  beforeId: string | null = null,
+  eventTypes: AgentEventType[] | null = null
+): Promise<AgentEvent[]> {
+  const result = await query<AgentEvent>(
+    `SELECT * FROM agent_events
+     WHERE token_address = $1
+       AND ($2::bigint IS NULL OR id < $2::bigint)
+       AND ($3::text[] IS NULL OR event_type = ANY($3::text[]))
+     ORDER BY id DESC
+     LIMIT $4`,
+    [tokenAddress.toLowerCase(), beforeId, eventTypes, limit]
+  );
+  return result.rows;
+}
+
 // ============ Vault Snapshots ============
 
 export async function insertVaultSnapshot(
@@ -443,12 +1273,13 @@ export async function insertVaultSnapshot(
   outstandingShares: bigint,
   navPerShare: bigint,
   cumulativePnl: bigint,
-  blockNumber: bigint
+  blockNumber: bigint,
+  blockTime: Date
 ): Promise<void> {
   await query(
     `INSERT INTO vault_snapshots
-       (vault_address, hand_id, external_assets, treasury_shares, outstanding_shares, nav_per_share, cumulative_pnl, block_number)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+       (vault_address, hand_id, external_assets, treasury_shares, outstanding_shares, nav_per_share, cumulative_pnl, block_number, block_time)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
     [
       vaultAddress.toLowerCase(),
       handId.toString(),
@@ -458,6 +1289,7 @@ export async function insertVaultSnapshot(
       navPerShare.toString(),
       cumulativePnl.toString(),
       blockNumber.toString(),
+      blockTime,
     ]
   );
 }
@@ -487,19 +1319,584 @@ export async function getVaultSnapshots(
   return result.rows;
 }
 
+export async function getLatestVaultSnapshots(vaultAddresses: string[]): Promise<VaultSnapshot[]> {
+  const result = await query<VaultSnapshot>(
+    `SELECT DISTINCT ON (vault_address) * FROM vault_snapshots
+     WHERE vault_address = ANY($1::text[])
+     ORDER BY vault_address, block_number DESC, id DESC`,
+    [vaultAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows;
+}
+
+// Keyset pages in getVaultSnapshots order (newest first), each starting after its key's snapshot,
+// in one query; page_index is the 1-based position of the row's key
+export async function getVaultSnapshotPages(
+  keys: SnapshotPageKey[]
+): Promise<(VaultSnapshot & { page_index: number })[]> {
+  const result = await query<VaultSnapshot & { page_index: number }>(
+    `SELECT k.page_index::int AS page_index, vs.*
+     FROM unnest($1::text[], $2::bigint[], $3::int[], $4::int[])
+       WITH ORDINALITY AS k(vault_address, before_block, before_id, page_size, page_index)
+     CROSS JOIN LATERAL (
+       SELECT * FROM vault_snapshots
+       WHERE vault_snapshots.vault_address = k.vault_address
+         AND (k.before_block IS NULL OR (block_number, id) < (k.before_block, k.before_id))
+       ORDER BY block_number DESC, id DESC
+       LIMIT k.page_size
+     ) vs
+     ORDER BY k.page_index, vs.block_number DESC, vs.id DESC`,
+    [
+      keys.map((key) => key.vaultAddress.toLowerCase()),
+      keys.map((key) => key.before?.blockNumber.toString() ?? null),
+      keys.map((key) => key.before?.id ?? null),
+      keys.map((key) => key.limit),
+    ]
+  );
+  return result.rows;
+}
+
+// OHLC of nav_per_share in fixed UTC buckets of block time covering [from, to], ordered by
+// (block_number, id) within a bucket. Empty buckets repeat the previous close (seeded from the last snapshot before
+// the range); buckets before the vault's first snapshot are omitted.
+export async function getVaultNavCandles(
+  vaultAddress: string,
+  bucketSeconds: number,
+  from: Date,
+  to: Date
+): Promise<NavCandle[]> {
+  const result = await query<NavCandle>(
+    `WITH buckets AS (
+       SELECT generate_series(
+         to_timestamp((floor(extract(epoch FROM $3::timestamptz) / $2::integer) * $2::integer)::double precision),
+         $4::timestamptz,
+         make_interval(secs => $2::integer)
+       ) AS bucket
+     ),
+     bounds AS (
+       SELECT MIN(bucket) AS lo, MAX(bucket) + make_interval(secs => $2::integer) AS hi FROM buckets
+     ),
+     candles AS (
+       SELECT to_timestamp((floor(extract(epoch FROM s.block_time) / $2::integer) * $2::integer)::double precision) AS bucket,
+              (array_agg(s.nav_per_share ORDER BY s.block_number, s.id))[1] AS open,
+              MAX(s.nav_per_share) AS high,
+              MIN(s.nav_per_share) AS low,
+              (array_agg(s.nav_per_share ORDER BY s.block_number DESC, s.id DESC))[1] AS close,
+              (array_agg(s.external_assets ORDER BY s.block_number DESC, s.id DESC))[1] AS external_assets,
+              (array_agg(s.outstanding_shares ORDER BY s.block_number DESC, s.id DESC))[1] AS outstanding_shares,
+              (array_agg(s.cumulative_pnl ORDER BY s.block_number DESC, s.id DESC))[1] AS cumulative_pnl,
+              COUNT(*)::integer AS snapshot_count
+       FROM vault_snapshots s, bounds
+       WHERE s.vault_address = $1
+         AND s.block_time >= bounds.lo
+         AND s.block_time < bounds.hi
+       GROUP BY 1
+     ),
+     seed AS (
+       SELECT s.nav_per_share, s.external_assets, s.outstanding_shares, s.cumulative_pnl
+       FROM vault_snapshots s, bounds
+       WHERE s.vault_address = $1 AND s.block_time < bounds.lo
+       ORDER BY s.block_number DESC, s.id DESC
+       LIMIT 1
+     ),
+     series AS (
+       -- Each bucket with snapshots starts a run; the empty buckets after it share its run number
+       SELECT b.bucket, c.open, c.high, c.low, c.close, c.external_assets, c.outstanding_shares,
+              c.cumulative_pnl, COALESCE(c.snapshot_count, 0) AS snapshot_count,
+              COUNT(c.close) OVER (ORDER BY b.bucket) AS run
+       FROM buckets b
+       LEFT JOIN candles c ON c.bucket = b.bucket
+     ),
+     filled AS (
+       SELECT series.bucket, series.open, series.high, series.low, series.snapshot_count,
+              COALESCE(MAX(series.close) OVER w, seed.nav_per_share) AS close,
+              COALESCE(MAX(series.external_assets) OVER w, seed.external_assets) AS external_assets,
+              COALESCE(MAX(series.outstanding_shares) OVER w, seed.outstanding_shares) AS outstanding_shares,
+              COALESCE(MAX(series.cumulative_pnl) OVER w, seed.cumulative_pnl) AS cumulative_pnl
+       FROM series
+       LEFT JOIN seed ON true
+       WINDOW w AS (PARTITION BY series.run)
+     )
+     SELECT bucket,
+            COALESCE(open, close) AS open,
+            COALESCE(high, close) AS high,
+            COALESCE(low, close) AS low,
+            close, external_assets, outstanding_shares, cumulative_pnl, snapshot_count
+     FROM filled
+     WHERE close IS NOT NULL
+     ORDER BY bucket`,
+    [vaultAddress.toLowerCase(), bucketSeconds, from, to]
+  );
+  return result.rows;
+}
+
+// ============ Rebalances ============
+
+export async function insertRebalance(
+  vaultAddress: string,
+  handId: bigint,
+  direction: RebalanceDirection,
+  amounts: { monIn: bigint; monOut: bigint; tokensIn: bigint; tokensOut: bigint },
+  executionPrice: bigint,
+  navBefore: bigint,
+  navAfter: bigint,
+  blockNumber: bigint,
+  logIndex: number,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO rebalances
+       (vault_address, hand_id, direction, mon_in, mon_out, tokens_in, tokens_out,
+        execution_price, nav_before, nav_after, block_number, log_index, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    [
+      vaultAddress.toLowerCase(),
+      handId.toString(),
+      direction,
+      amounts.monIn.toString(),
+      amounts.monOut.toString(),
+      amounts.tokensIn.toString(),
+      amounts.tokensOut.toString(),
+      executionPrice.toString(),
+      navBefore.toString(),
+      navAfter.toString(),
+      blockNumber.toString(),
+      logIndex,
+      txHash,
+    ]
+  );
+}
+
+export async function upsertRebalanceDelay(
+  vaultAddress: string,
+  handId: bigint,
+  eligibleBlock: bigint,
+  delayBlocks: bigint,
+  blockNumber: bigint,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO rebalance_delays (vault_address, hand_id, eligible_block, delay_blocks, block_number, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (vault_address, hand_id) DO UPDATE SET
+       eligible_block = EXCLUDED.eligible_block,
+       delay_blocks = EXCLUDED.delay_blocks,
+       block_number = EXCLUDED.block_number,
+       tx_hash = EXCLUDED.tx_hash`,
+    [
+      vaultAddress.toLowerCase(),
+      handId.toString(),
+      eligibleBlock.toString(),
+      delayBlocks.toString(),
+      blockNumber.toString(),
+      txHash,
+    ]
+  );
+}
+
+export async function upsertRebalanceConfig(
+  vaultAddress: string,
+  nadfunLens: string,
+  nadfunRouter: string,
+  maxMonBps: bigint,
+  maxTokenBps: bigint,
+  blockNumber: bigint
+): Promise<void> {
+  await journalRow("rebalance_configs", { vault_address: vaultAddress.toLowerCase() }, blockNumber);
+  await query(
+    `INSERT INTO rebalance_configs (vault_address, nadfun_lens, nadfun_router, max_mon_bps, max_token_bps, block_number)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (vault_address) DO UPDATE SET
+       nadfun_lens = EXCLUDED.nadfun_lens,
+       nadfun_router = EXCLUDED.nadfun_router,
+       max_mon_bps = EXCLUDED.max_mon_bps,
+       max_token_bps = EXCLUDED.max_token_bps,
+       block_number = EXCLUDED.block_number,
+       updated_at = NOW()`,
+    [
+      vaultAddress.toLowerCase(),
+      nadfunLens.toLowerCase(),
+      nadfunRouter.toLowerCase(),
+      maxMonBps.toString(),
+      maxTokenBps.toString(),
+      blockNumber.toString(),
+    ]
+  );
+}
+
+export async function getRebalances(
+  vaultAddress: string,
+  limit = 50,
+  offset = 0
+): Promise<{ rows: Rebalance[]; total: number }> {
+  const [rowsResult, countResult] = await Promise.all([
+    query<Rebalance>(
+      `SELECT r.*, d.eligible_block, d.delay_blocks
+       FROM rebalances r
+       LEFT JOIN rebalance_delays d
+         ON d.vault_address = r.vault_address AND d.hand_id = r.hand_id
+       WHERE r.vault_address = $1
+       ORDER BY r.block_number DESC, r.log_index DESC
+       LIMIT $2 OFFSET $3`,
+      [vaultAddress.toLowerCase(), limit, offset]
+    ),
+    query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM rebalances WHERE vault_address = $1`,
+      [vaultAddress.toLowerCase()]
+    ),
+  ]);
+  return {
+    rows: rowsResult.rows,
+    total: parseInt(countResult.rows[0]?.total || "0"),
+  };
+}
+
+export async function getRebalanceDelay(vaultAddress: string, handId: string): Promise<RebalanceDelay | null> {
+  const result = await query<RebalanceDelay>(
+    `SELECT * FROM rebalance_delays WHERE vault_address = $1 AND hand_id = $2`,
+    [vaultAddress.toLowerCase(), handId]
+  );
+  return result.rows[0] || null;
+}
+
+export async function getRebalanceConfig(vaultAddress: string): Promise<RebalanceConfig | null> {
+  const result = await query<RebalanceConfig>(
+    `SELECT * FROM rebalance_configs WHERE vault_address = $1`,
+    [vaultAddress.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// ============ Token Trades ============
+
+export async function insertTokenTrade(
+  tokenAddress: string,
+  traderAddress: string,
+  side: TradeSide,
+  monAmount: bigint,
+  tokenAmount: bigint,
+  price: bigint,
+  routerAddress: string,
+  blockNumber: bigint,
+  blockTime: Date,
+  logIndex: number,
+  txHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO token_trades
+       (token_address, trader_address, side, mon_amount, token_amount, price, router_address, block_number, block_time, log_index, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      tokenAddress.toLowerCase(),
+      traderAddress.toLowerCase(),
+      side,
+      monAmount.toString(),
+      tokenAmount.toString(),
+      price.toString(),
+      routerAddress.toLowerCase(),
+      blockNumber.toString(),
+      blockTime,
+      logIndex,
+      txHash,
+    ]
+  );
+}
+
+export async function getLatestTokenTrade(tokenAddress: string): Promise<TokenTrade | null> {
+  const result = await query<TokenTrade>(
+    `SELECT * FROM token_trades WHERE token_address = $1 ORDER BY id DESC LIMIT 1`,
+    [tokenAddress.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// Newest first; ids follow chain order, so `beforeId` pages backwards through history
+export async function getTokenTrades(
+  tokenAddress: string,
+  limit: number,
+  beforeId: string | null = null,
+  side: TradeSide | null = null
+): Promise<TokenTrade[]> {
+  const result = await query<TokenTrade>(
+    `SELECT * FROM token_trades
+     WHERE token_address = $1
+       AND ($2::bigint IS NULL OR id < $2::bigint)
+       AND ($3::text IS NULL OR side = $3::text)
+     ORDER BY id DESC
+     LIMIT $4`,
+    [tokenAddress.toLowerCase(), beforeId, side, limit]
+  );
+  return result.rows;
+}
+
+// Tokens among the given ones with no indexed trade, i.e. whose router history still needs a backfill
+export async function getTokensWithoutTrades(tokenAddresses: string[]): Promise<string[]> {
+  const result = await query<{ token_address: string }>(
+    `SELECT token_address FROM unnest($1::text[]) AS t(token_address)
+     WHERE NOT EXISTS (SELECT 1 FROM token_trades tt WHERE tt.token_address = t.token_address)`,
+    [tokenAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows.map((row) => row.token_address);
+}
+
+// OHLC of trade price and volume in fixed UTC buckets of block time covering [from, to]; gap filling
+// works as in getVaultNavCandles, with zero volume in empty buckets.
+export async function getTokenPriceCandles(
+  tokenAddress: string,
+  bucketSeconds: number,
+  from: Date,
+  to: Date
+): Promise<PriceCandle[]> {
+  const result = await query<PriceCandle>(
+    `WITH buckets AS (
+       SELECT generate_series(
+         to_timestamp((floor(extract(epoch FROM $3::timestamptz) / $2::integer) * $2::integer)::double precision),
+         $4::timestamptz,
+         make_interval(secs => $2::integer)
+       ) AS bucket
+     ),
+     bounds AS (
+       SELECT MIN(bucket) AS lo, MAX(bucket) + make_interval(secs => $2::integer) AS hi FROM buckets
+     ),
+     candles AS (
+       SELECT to_timestamp((floor(extract(epoch FROM t.block_time) / $2::integer) * $2::integer)::double precision) AS bucket,
+              (array_agg(t.price ORDER BY t.id))[1] AS open,
+              MAX(t.price) AS high,
+              MIN(t.price) AS low,
+              (array_agg(t.price ORDER BY t.id DESC))[1] AS close,
+              SUM(t.mon_amount) AS volume_mon,
+              SUM(t.token_amount) AS volume_tokens,
+              COUNT(*)::integer AS trade_count,
+              COUNT(*) FILTER (WHERE t.side = 'BUY')::integer AS buy_count,
+              COUNT(*) FILTER (WHERE t.side = 'SELL')::integer AS sell_count
+       FROM token_trades t, bounds
+       WHERE t.token_address = $1
+         AND t.block_time >= bounds.lo
+         AND t.block_time < bounds.hi
+       GROUP BY 1
+     ),
+     seed AS (
+       SELECT t.price
+       FROM token_trades t, bounds
+       WHERE t.token_address = $1 AND t.block_time < bounds.lo
+       ORDER BY t.id DESC
+       LIMIT 1
+     ),
+     series AS (
+       SELECT b.bucket, c.open, c.high, c.low, c.close, c.volume_mon, c.volume_tokens,
+              c.trade_count, c.buy_count, c.sell_count,
+              COUNT(c.close) OVER (ORDER BY b.bucket) AS run
+       FROM buckets b
+       LEFT JOIN candles c ON c.bucket = b.bucket
+     ),
+     filled AS (
+       SELECT series.*, COALESCE(MAX(series.close) OVER (PARTITION BY series.run), seed.price) AS last_price
+       FROM series
+       LEFT JOIN seed ON true
+     )
+     SELECT bucket,
+            COALESCE(open, last_price) AS open,
+            COALESCE(high, last_price) AS high,
+            COALESCE(low, last_price) AS low,
+            last_price AS close,
+            COALESCE(volume_mon, 0) AS volume_mon,
+            COALESCE(volume_tokens, 0) AS volume_tokens,
+            COALESCE(trade_count, 0) AS trade_count,
+            COALESCE(buy_count, 0) AS buy_count,
+            COALESCE(sell_count, 0) AS sell_count
+     FROM filled
+     WHERE last_price IS NOT NULL
+     ORDER BY bucket`,
+    [tokenAddress.toLowerCase(), bucketSeconds, from, to]
+  );
+  return result.rows;
+}
+
+// ============ Token Holders ============
+
+// Records the transfer and moves the amount between holder balances; mints and burns have no
+// zero-address balance row
+export async function applyTokenTransfer(
+  tokenAddress: string,
+  fromAddress: string,
+  toAddress: string,
+  amount: bigint,
+  blockNumber: bigint,
+  blockTime: Date,
+  logIndex: number,
+  txHash: string
+): Promise<void> {
+  const token = tokenAddress.toLowerCase();
+  const from = fromAddress.toLowerCase();
+  const to = toAddress.toLowerCase();
+
+  await transaction(async (client) => {
+    await client.query(
+      `INSERT INTO token_transfers
+         (token_address, from_address, to_address, amount, block_number, block_time, log_index, tx_hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [token, from, to, amount.toString(), blockNumber.toString(), blockTime, logIndex, txHash]
+    );
+
+    const moves: Array<[string, string]> = [
+      [from, (-amount).toString()],
+      [to, amount.toString()],
+    ];
+    for (const [holder, delta] of moves) {
+      if (holder === ZERO_ADDRESS) continue;
+      await client.query(
+        `INSERT INTO token_balances (token_address, holder_address, balance, updated_block)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (token_address, holder_address) DO UPDATE SET
+           balance = token_balances.balance + EXCLUDED.balance,
+           updated_block = EXCLUDED.updated_block`,
+        [token, holder, delta, blockNumber.toString()]
+      );
+    }
+  });
+}
+
+// Tokens among the given ones with no indexed Transfer, i.e. whose history still needs a backfill
+export async function getTokensWithoutTransfers(tokenAddresses: string[]): Promise<string[]> {
+  const result = await query<{ token_address: string }>(
+    `SELECT token_address FROM unnest($1::text[]) AS t(token_address)
+     WHERE NOT EXISTS (SELECT 1 FROM token_transfers tt WHERE tt.token_address = t.token_address)`,
+    [tokenAddresses.map((address) => address.toLowerCase())]
+  );
+  return result.rows.map((row) => row.token_address);
+}
+
+export async function upsertTokenSupply(tokenAddress: string, totalSupply: bigint, blockNumber: bigint): Promise<void> {
+  await query(
+    `INSERT INTO token_supplies (token_address, total_supply, updated_block)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (token_address) DO UPDATE SET
+       total_supply = EXCLUDED.total_supply,
+       updated_block = EXCLUDED.updated_block`,
+    [tokenAddress.toLowerCase(), totalSupply.toString(), blockNumber.toString()]
+  );
+}
+
+// Largest positive balances, optionally leaving out one address (the vault)
+export async function getTokenHolders(
+  tokenAddress: string,
+  limit: number,
+  excludeAddress: string | null = null
+): Promise<TokenBalance[]> {
+  const result = await query<TokenBalance>(
+    `SELECT * FROM token_balances
+     WHERE token_address = $1 AND balance > 0
+       AND ($2::text IS NULL OR holder_address <> $2::text)
+     ORDER BY balance DESC, holder_address
+     LIMIT $3`,
+    [tokenAddress.toLowerCase(), excludeAddress?.toLowerCase() ?? null, limit]
+  );
+  return result.rows;
+}
+
+// Supply is the token's own totalSupply(), falling back to the sum of indexed balances until the
+// listener's first read lands; holders excludes the treasury address
+export async function getTokenHolderSummary(
+  tokenAddress: string,
+  treasuryAddress: string | null
+): Promise<TokenHolderSummary> {
+  const result = await query<TokenHolderSummary>(
+    `SELECT COALESCE(
+              (SELECT total_supply FROM token_supplies WHERE token_address = $1),
+              SUM(balance),
+              0
+            ) AS total_supply,
+            COALESCE(SUM(balance) FILTER (WHERE holder_address = $2::text), 0) AS treasury_balance,
+            COUNT(*) FILTER (WHERE holder_address IS DISTINCT FROM $2::text)::integer AS holder_count
+     FROM token_balances
+     WHERE token_address = $1 AND balance > 0`,
+    [tokenAddress.toLowerCase(), treasuryAddress?.toLowerCase() ?? null]
+  );
+  return result.rows[0];
+}
+
+// Holders (excluding the treasury address) at the end of each UTC bucket of block time covering
+// [from, to], replayed from the transfer log in chain order: each balance crossing zero adds or
+// removes one holder.
+export async function getTokenHolderCountHistory(
+  tokenAddress: string,
+  treasuryAddress: string | null,
+  bucketSeconds: number,
+  from: Date,
+  to: Date
+): Promise<HolderCountPoint[]> {
+  const result = await query<HolderCountPoint>(
+    `WITH buckets AS (
+       SELECT generate_series(
+         to_timestamp((floor(extract(epoch FROM $4::timestamptz) / $3::integer) * $3::integer)::double precision),
+         $5::timestamptz,
+         make_interval(secs => $3::integer)
+       ) AS bucket
+     ),
+     bounds AS (
+       SELECT MIN(bucket) AS lo, MAX(bucket) + make_interval(secs => $3::integer) AS hi FROM buckets
+     ),
+     deltas AS (
+       SELECT block_number, log_index, block_time, from_address AS holder_address, -amount AS delta
+       FROM token_transfers
+       WHERE token_address = $1 AND from_address <> $6
+       UNION ALL
+       SELECT block_number, log_index, block_time, to_address, amount FROM token_transfers
+       WHERE token_address = $1 AND to_address <> $6
+     ),
+     running AS (
+       -- A self-transfer yields -amount then +amount at the same position; ordering by delta keeps
+       -- the balance from dipping below its true value
+       SELECT block_time, delta,
+              SUM(delta) OVER (PARTITION BY holder_address ORDER BY block_number, log_index, delta) AS balance
+       FROM deltas
+       WHERE holder_address IS DISTINCT FROM $2::text
+     ),
+     changes AS (
+       SELECT block_time, (balance > 0)::integer - (balance - delta > 0)::integer AS change FROM running
+     ),
+     per_bucket AS (
+       SELECT to_timestamp((floor(extract(epoch FROM c.block_time) / $3::integer) * $3::integer)::double precision) AS bucket,
+              SUM(c.change) AS change
+       FROM changes c, bounds
+       WHERE c.block_time >= bounds.lo AND c.block_time < bounds.hi
+       GROUP BY 1
+     ),
+     seed AS (
+       SELECT COALESCE(SUM(c.change), 0) AS holders FROM changes c, bounds WHERE c.block_time < bounds.lo
+     )
+     SELECT b.bucket,
+            (seed.holders + SUM(COALESCE(p.change, 0)) OVER (ORDER BY b.bucket))::integer AS holder_count
+     FROM buckets b
+     LEFT JOIN per_bucket p ON p.bucket = b.bucket
+     CROSS JOIN seed
+     ORDER BY b.bucket`,
+    [tokenAddress.toLowerCase(), treasuryAddress?.toLowerCase() ?? null, bucketSeconds, from, to, ZERO_ADDRESS]
+  );
+  return result.rows;
+}
+
 // ============ Settlements ============
 
-export async function insertSettlement(
+// One row per payout; net is left null when the contribution is unknown
+export async function insertSettlements(
   tableId: bigint,
   handId: bigint,
   winnerSeat: number,
   potAmount: bigint,
+  payouts: SeatPayout[],
   blockNumber: bigint,
   txHash: string
 ): Promise<void> {
   await query(
-    `INSERT INTO settlements (table_id, hand_id, winner_seat, pot_amount, block_number, tx_hash)
-     VALUES ($1, $2, $3, $4, $5, $6)`,
+    `INSERT INTO settlements (
+       table_id, hand_id, winner_seat, pot_amount, seat_index, owner_address,
+       amount_won, amount_contributed, net_amount, block_number, tx_hash
+     )
+     SELECT $1::bigint, $2::bigint, $3::smallint, $4::numeric, p.seat_index, p.owner_address,
+            p.amount_won, p.amount_contributed, p.amount_won - p.amount_contributed, $5::bigint, $6
+     FROM unnest($7::smallint[], $8::varchar[], $9::numeric[], $10::numeric[])
+       AS p(seat_index, owner_address, amount_won, amount_contributed)`,
     [
       tableId.toString(),
       handId.toString(),
@@ -507,182 +1904,437 @@ export async function insertSettlement(
       potAmount.toString(),
       blockNumber.toString(),
       txHash,
+      payouts.map((p) => p.seatIndex),
+      payouts.map((p) => p.ownerAddress?.toLowerCase() ?? null),
+      payouts.map((p) => p.won.toString()),
+      payouts.map((p) => p.contributed?.toString() ?? null),
     ]
   );
 }
 
-export async function getSettlement(
-  tableId: bigint,
-  handId: bigint
-): Promise<Settlement | null> {
+export async function getHandSettlements(tableId: bigint, handId: bigint): Promise<Settlement[]> {
   const result = await query<Settlement>(
-    `SELECT * FROM settlements WHERE table_id = $1 AND hand_id = $2`,
+    `SELECT * FROM settlements WHERE table_id = $1 AND hand_id = $2 ORDER BY seat_index`,
     [tableId.toString(), handId.toString()]
   );
-  return result.rows[0] || null;
+  return result.rows;
+}
+
+export async function getSettlementsForHands(keys: HandKey[]): Promise<Settlement[]> {
+  const result = await query<Settlement>(
+    `SELECT * FROM settlements
+     WHERE (table_id, hand_id) IN (SELECT * FROM unnest($1::bigint[], $2::bigint[]))
+     ORDER BY table_id, hand_id, seat_index`,
+    handKeyParams(keys)
+  );
+  return result.rows;
 }
 
 // ============ Leaderboard ============
 
-export interface AgentLeaderboardData {
-  token_address: string;
-  owner_address: string;
-  meta_uri: string | null;
-  vault_address: string | null;
-  // Initial state (for ROI calculation)
-  initial_nav_per_share: string | null;
-  // Current/latest state
-  current_nav_per_share: string | null;
-  cumulative_pnl: string | null;
-  // Peak nav for MDD calculation
-  peak_nav_per_share: string | null;
-  // Win/loss stats from settlements in period
-  total_hands: number;
-  winning_hands: number;
-}
-
-export async function getLeaderboardData(
-  periodStart: Date | null
-): Promise<AgentLeaderboardData[]> {
-  // This query aggregates:
-  // 1. Agent info
-  // 2. Initial NAV (first snapshot or snapshot at period start)
-  // 3. Current NAV (latest snapshot)
-  // 4. Peak NAV (max NAV in period for MDD)
-  // 5. Win/loss stats from settlements
-
-  const periodCondition = periodStart
-    ? `AND vs.created_at >= $1`
-    : "";
-  const settlementCondition = periodStart
-    ? `AND s.created_at >= $1`
-    : "";
-
-  const params = periodStart ? [periodStart.toISOString()] : [];
-
-  const sql = `
-    WITH agent_snapshots AS (
-      SELECT
-        a.token_address,
-        a.owner_address,
-        a.meta_uri,
-        a.vault_address,
-        vs.nav_per_share,
-        vs.cumulative_pnl,
-        vs.created_at,
-        ROW_NUMBER() OVER (PARTITION BY a.token_address ORDER BY vs.created_at ASC) as first_rank,
-        ROW_NUMBER() OVER (PARTITION BY a.token_address ORDER BY vs.created_at DESC) as last_rank,
-        MAX(vs.nav_per_share::numeric) OVER (PARTITION BY a.token_address) as peak_nav
-      FROM agents a
-      LEFT JOIN vault_snapshots vs ON a.vault_address = vs.vault_address
-      WHERE a.is_registered = true
-      ${periodCondition}
-    ),
-    initial_snapshots AS (
-      SELECT token_address, nav_per_share as initial_nav
-      FROM agent_snapshots
-      WHERE first_rank = 1
-    ),
-    latest_snapshots AS (
-      SELECT token_address, nav_per_share as current_nav, cumulative_pnl, peak_nav
-      FROM agent_snapshots
-      WHERE last_rank = 1
-    ),
-    win_stats AS (
-      SELECT
-        a.token_address,
-        COUNT(s.id) as total_hands,
-        COUNT(CASE
-          WHEN (s.winner_seat = 0 AND se.seat_index = 0) OR
-               (s.winner_seat = 1 AND se.seat_index = 1)
-          THEN 1
-        END) as winning_hands
-      FROM agents a
-      LEFT JOIN seats se ON a.owner_address = se.owner_address
-      LEFT JOIN settlements s ON se.table_id::text = s.table_id
-        AND s.table_id IS NOT NULL
-        ${settlementCondition}
-      WHERE a.is_registered = true
-      GROUP BY a.token_address
-    )
-    SELECT
-      a.token_address,
-      a.owner_address,
-      a.meta_uri,
-      a.vault_address,
-      i.initial_nav as initial_nav_per_share,
-      l.current_nav as current_nav_per_share,
-      l.cumulative_pnl,
-      l.peak_nav::text as peak_nav_per_share,
-      COALESCE(w.total_hands, 0)::int as total_hands,
-      COALESCE(w.winning_hands, 0)::int as winning_hands
-    FROM agents a
-    LEFT JOIN initial_snapshots i ON a.token_address = i.token_address
-    LEFT JOIN latest_snapshots l ON a.token_address = l.token_address
-    LEFT JOIN win_stats w ON a.token_address = w.token_address
-    WHERE a.is_registered = true
-  `;
-
-  const result = await query<AgentLeaderboardData>(sql, params);
-  return result.rows;
-}
-
-export async function getAgentSettlementsInPeriod(
-  tokenAddress: string,
-  periodStart: Date | null
-): Promise<{ total: number; wins: number }> {
-  // Get agent's vault to find their table/seat
-  const agent = await getAgent(tokenAddress);
-  if (!agent || !agent.vault_address) {
-    return { total: 0, wins: 0 };
+// Rolling windows match getPeriodStartDate in the API
+const LEADERBOARD_PERIODS_SQL = `
+  periods(period, since) AS (
+    VALUES
+      ('24h', NOW() - INTERVAL '24 hours'),
+      ('7d', NOW() - INTERVAL '7 days'),
+      ('30d', NOW() - INTERVAL '30 days'),
+      ('all', NULL::timestamptz)
+  )`;
+
+/**
+ * Recompute leaderboard_stats from settlements and snapshots. HandSettled and VaultSnapshot
+ * apply deltas instead (applyHandToLeaderboard, applyVaultSnapshotToLeaderboard); a full
+ * recompute is for registry changes (one token), startup and rollbacks, which deltas cannot
+ * undo. rollingOnly skips the all-time rows, so a timer can age out the rolling windows.
+ */
+export async function refreshLeaderboardStats(
+  scope: { tokenAddress?: string; rollingOnly?: boolean } = {}
+): Promise<void> {
+  const conditions = ["a.is_registered = true", "a.vault_address IS NOT NULL"];
+  const params: unknown[] = [scope.rollingOnly ?? false];
+  if (scope.tokenAddress) {
+    params.push(scope.tokenAddress.toLowerCase());
+    conditions.push(`a.token_address = $${params.length}`);
   }
 
-  const periodCondition = periodStart
-    ? `AND s.created_at >= $2`
-    : "";
-  const params = periodStart
-    ? [agent.owner_address.toLowerCase(), periodStart.toISOString()]
-    : [agent.owner_address.toLowerCase()];
-
-  // Find settlements where this agent's seat won
-  const sql = `
-    SELECT
-      COUNT(*) as total,
-      COUNT(CASE
-        WHEN (s.winner_seat = se.seat_index)
-        THEN 1
-      END) as wins
-    FROM seats se
-    JOIN settlements s ON se.table_id::text = s.table_id
-    WHERE se.owner_address = $1
-    ${periodCondition}
-  `;
-
-  const result = await query<{ total: string; wins: string }>(sql, params);
-  const row = result.rows[0];
-  return {
-    total: parseInt(row?.total || "0"),
-    wins: parseInt(row?.wins || "0"),
-  };
+  await query(
+    `WITH ${LEADERBOARD_PERIODS_SQL},
+     refreshed AS (
+       SELECT * FROM periods WHERE NOT $1::boolean OR since IS NOT NULL
+     ),
+     targets AS (
+       SELECT a.token_address, LOWER(a.owner_address) AS owner_address, a.vault_address
+       FROM agents a
+       WHERE ${conditions.join(" AND ")}
+     ),
+     snaps AS (
+       SELECT
+         t.token_address,
+         p.period,
+         vs.nav_per_share,
+         vs.cumulative_pnl,
+         ROW_NUMBER() OVER (PARTITION BY t.token_address, p.period ORDER BY vs.block_time ASC, vs.id ASC) AS first_rank,
+         ROW_NUMBER() OVER (PARTITION BY t.token_address, p.period ORDER BY vs.block_time DESC, vs.id DESC) AS last_rank,
+         MAX(vs.nav_per_share) OVER (
+           PARTITION BY t.token_address, p.period ORDER BY vs.block_time ASC, vs.id ASC
+           ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+         ) AS peak_nav
+       FROM targets t
+       CROSS JOIN refreshed p
+       JOIN vault_snapshots vs ON vs.vault_address = t.vault_address
+         AND (p.since IS NULL OR vs.block_time >= p.since)
+     ),
+     nav AS (
+       SELECT
+         token_address,
+         period,
+         MAX(nav_per_share) FILTER (WHERE first_rank = 1) AS initial_nav,
+         MAX(nav_per_share) FILTER (WHERE last_rank = 1) AS current_nav,
+         MAX(cumulative_pnl) FILTER (WHERE last_rank = 1) AS cumulative_pnl,
+         MAX(nav_per_share) AS peak_nav,
+         MAX(CASE WHEN peak_nav > 0 THEN TRUNC((peak_nav - nav_per_share) * 10000 / peak_nav) ELSE 0 END) AS mdd_bps
+       FROM snaps
+       GROUP BY token_address, period
+     ),
+     results AS (
+       SELECT
+         t.token_address,
+         p.period,
+         COUNT(s.id)::int AS total_hands,
+         COUNT(s.id) FILTER (WHERE s.amount_won > 0)::int AS winning_hands,
+         COUNT(s.id) FILTER (WHERE s.amount_won > 0 AND cardinality(h.winner_seats) > 1)::int AS split_hands
+       FROM targets t
+       CROSS JOIN refreshed p
+       JOIN settlements s ON s.owner_address = t.owner_address
+       JOIN hands h ON h.table_id = s.table_id AND h.hand_id = s.hand_id
+         AND (p.since IS NULL OR h.started_at >= p.since)
+       GROUP BY t.token_address, p.period
+     )
+     INSERT INTO leaderboard_stats (
+       token_address, period, initial_nav_per_share, current_nav_per_share, peak_nav_per_share, cumulative_pnl,
+       roi, mdd, winrate, total_hands, winning_hands, split_hands, updated_at
+     )
+     SELECT
+       t.token_address,
+       p.period,
+       COALESCE(n.initial_nav, 0),
+       COALESCE(n.current_nav, 0),
+       COALESCE(n.peak_nav, 0),
+       COALESCE(n.cumulative_pnl, 0),
+       CASE WHEN n.initial_nav > 0
+         THEN TRUNC((n.current_nav - n.initial_nav) * 10000 / n.initial_nav) / 10000
+         ELSE 0 END,
+       COALESCE(n.mdd_bps, 0) / 10000,
+       CASE WHEN r.total_hands > 0 THEN ROUND(r.winning_hands::numeric / r.total_hands, 4) ELSE 0 END,
+       COALESCE(r.total_hands, 0),
+       COALESCE(r.winning_hands, 0),
+       COALESCE(r.split_hands, 0),
+       NOW()
+     FROM targets t
+     CROSS JOIN refreshed p
+     LEFT JOIN nav n ON n.token_address = t.token_address AND n.period = p.period
+     LEFT JOIN results r ON r.token_address = t.token_address AND r.period = p.period
+     ON CONFLICT (token_address, period) DO UPDATE SET
+       initial_nav_per_share = EXCLUDED.initial_nav_per_share,
+       current_nav_per_share = EXCLUDED.current_nav_per_share,
+       peak_nav_per_share = EXCLUDED.peak_nav_per_share,
+       cumulative_pnl = EXCLUDED.cumulative_pnl,
+       roi = EXCLUDED.roi,
+       mdd = EXCLUDED.mdd,
+       winrate = EXCLUDED.winrate,
+       total_hands = EXCLUDED.total_hands,
+       winning_hands = EXCLUDED.winning_hands,
+       split_hands = EXCLUDED.split_hands,
+       updated_at = EXCLUDED.updated_at`,
+    params
+  );
 }
 
-export async function getVaultSnapshotsInPeriod(
+// Counts one settled hand into every period of the agents dealt in; the hand is newer than any
+// rolling window's start
+export async function applyHandToLeaderboard(tableId: bigint, handId: bigint): Promise<void> {
+  await query(
+    `WITH ${LEADERBOARD_PERIODS_SQL},
+     deltas AS (
+       SELECT
+         s.owner_address,
+         COUNT(*)::int AS total_hands,
+         COUNT(*) FILTER (WHERE s.amount_won > 0)::int AS winning_hands,
+         COUNT(*) FILTER (WHERE s.amount_won > 0 AND cardinality(h.winner_seats) > 1)::int AS split_hands
+       FROM settlements s
+       JOIN hands h ON h.table_id = s.table_id AND h.hand_id = s.hand_id
+       WHERE s.table_id = $1 AND s.hand_id = $2
+       GROUP BY s.owner_address
+     )
+     INSERT INTO leaderboard_stats (token_address, period, winrate, total_hands, winning_hands, split_hands, updated_at)
+     SELECT a.token_address, p.period, ROUND(d.winning_hands::numeric / d.total_hands, 4),
+            d.total_hands, d.winning_hands, d.split_hands, NOW()
+     FROM agents a
+     JOIN deltas d ON d.owner_address = LOWER(a.owner_address)
+     CROSS JOIN periods p
+     WHERE a.is_registered = true AND a.vault_address IS NOT NULL
+     ON CONFLICT (token_address, period) DO UPDATE SET
+       total_hands = leaderboard_stats.total_hands + EXCLUDED.total_hands,
+       winning_hands = leaderboard_stats.winning_hands + EXCLUDED.winning_hands,
+       split_hands = leaderboard_stats.split_hands + EXCLUDED.split_hands,
+       winrate = ROUND(
+         (leaderboard_stats.winning_hands + EXCLUDED.winning_hands)::numeric
+           / (leaderboard_stats.total_hands + EXCLUDED.total_hands),
+         4
+       ),
+       updated_at = EXCLUDED.updated_at`,
+    [tableId.toString(), handId.toString()]
+  );
+}
+
+// Moves every period of the vault's agent to the new NAV: it becomes the current value, the
+// initial one in a window with no positive NAV yet, and raises the running peak and drawdown
+export async function applyVaultSnapshotToLeaderboard(
   vaultAddress: string,
-  periodStart: Date | null
-): Promise<VaultSnapshot[]> {
-  const periodCondition = periodStart
-    ? `AND created_at >= $2`
-    : "";
-  const params = periodStart
-    ? [vaultAddress.toLowerCase(), periodStart.toISOString()]
-    : [vaultAddress.toLowerCase()];
+  navPerShare: bigint,
+  cumulativePnl: bigint
+): Promise<void> {
+  await query(
+    `WITH ${LEADERBOARD_PERIODS_SQL},
+     next AS (
+       SELECT
+         a.token_address,
+         p.period,
+         CASE WHEN ls.peak_nav_per_share > 0 THEN ls.initial_nav_per_share ELSE $2::numeric END AS initial_nav,
+         GREATEST(COALESCE(ls.peak_nav_per_share, 0), $2::numeric) AS peak_nav,
+         COALESCE(ls.mdd, 0) AS mdd
+       FROM agents a
+       CROSS JOIN periods p
+       LEFT JOIN leaderboard_stats ls ON ls.token_address = a.token_address AND ls.period = p.period
+       WHERE a.vault_address = $1 AND a.is_registered = true
+     )
+     INSERT INTO leaderboard_stats (
+       token_address, period, initial_nav_per_share, current_nav_per_share, peak_nav_per_share,
+       cumulative_pnl, roi, mdd, updated_at
+     )
+     SELECT
+       token_address,
+       period,
+       initial_nav,
+       $2::numeric,
+       peak_nav,
+       $3::numeric,
+       CASE WHEN initial_nav > 0 THEN TRUNC(($2::numeric - initial_nav) * 10000 / initial_nav) / 10000 ELSE 0 END,
+       GREATEST(mdd, CASE WHEN peak_nav > 0 THEN TRUNC((peak_nav - $2::numeric) * 10000 / peak_nav) / 10000 ELSE 0 END),
+       NOW()
+     FROM next
+     ON CONFLICT (token_address, period) DO UPDATE SET
+       initial_nav_per_share = EXCLUDED.initial_nav_per_share,
+       current_nav_per_share = EXCLUDED.current_nav_per_share,
+       peak_nav_per_share = EXCLUDED.peak_nav_per_share,
+       cumulative_pnl = EXCLUDED.cumulative_pnl,
+       roi = EXCLUDED.roi,
+       mdd = EXCLUDED.mdd,
+       updated_at = EXCLUDED.updated_at`,
+    [vaultAddress.toLowerCase(), navPerShare.toString(), cumulativePnl.toString()]
+  );
+}
 
-  const result = await query<VaultSnapshot>(
-    `SELECT * FROM vault_snapshots
-     WHERE vault_address = $1
-     ${periodCondition}
-     ORDER BY created_at ASC`,
-    params
+// Column and direction per metric; each pairs with an index on leaderboard_stats
+const LEADERBOARD_ORDER: Record<string, string> = {
+  roi: "ls.roi DESC",
+  pnl: "ls.cumulative_pnl DESC",
+  winrate: "ls.winrate DESC",
+  mdd: "ls.mdd ASC",
+};
+
+export async function getLeaderboardPage(
+  period: string,
+  metric: string,
+  limit: number,
+  offset: number
+): Promise<{ rows: LeaderboardRow[]; total: number }> {
+  const order = LEADERBOARD_ORDER[metric];
+  if (!order) throw new Error(`Unknown leaderboard metric: ${metric}`);
+
+  const result = await query<LeaderboardRow & { total_count: string }>(
+    `SELECT
+       ls.*,
+       a.owner_address,
+       a.meta_uri,
+       RANK() OVER (ORDER BY ${order}) AS rank,
+       COUNT(*) OVER () AS total_count
+     FROM leaderboard_stats ls
+     JOIN agents a ON a.token_address = ls.token_address
+     WHERE ls.period = $1 AND a.is_registered = true AND a.vault_address IS NOT NULL
+     ORDER BY ${order}, ls.token_address
+     LIMIT $2 OFFSET $3`,
+    [period, limit, offset]
+  );
+
+  let total = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0;
+  if (result.rows.length === 0 && offset > 0) {
+    const count = await query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM leaderboard_stats ls
+       JOIN agents a ON a.token_address = ls.token_address
+       WHERE ls.period = $1 AND a.is_registered = true AND a.vault_address IS NOT NULL`,
+      [period]
+    );
+    total = parseInt(count.rows[0]?.total ?? "0", 10);
+  }
+  return { rows: result.rows, total };
+}
+
+// ============ Webhooks ============
+
+export async function insertWebhook(
+  url: string,
+  secret: string,
+  eventTypes: string[],
+  topics: string[],
+  description: string | null
+): Promise<Webhook> {
+  const result = await query<Webhook>(
+    `INSERT INTO webhooks (url, secret, event_types, topics, description)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [url, secret, eventTypes, topics, description]
+  );
+  return result.rows[0];
+}
+
+export async function getWebhooks(): Promise<Webhook[]> {
+  const result = await query<Webhook>(`SELECT * FROM webhooks ORDER BY id`);
+  return result.rows;
+}
+
+export async function getWebhook(id: string): Promise<Webhook | null> {
+  const result = await query<Webhook>(`SELECT * FROM webhooks WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+// Deliveries go with it (ON DELETE CASCADE)
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const result = await query(`DELETE FROM webhooks WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function insertWebhookDeliveries(
+  deliveries: Array<{
+    webhookId: string;
+    eventType: string;
+    topic: string;
+    blockNumber: bigint;
+    payload: unknown;
+  }>
+): Promise<void> {
+  if (deliveries.length === 0) return;
+  await query(
+    `INSERT INTO webhook_deliveries (webhook_id, event_type, topic, block_number, payload)
+     SELECT * FROM unnest($1::bigint[], $2::text[], $3::text[], $4::bigint[], $5::jsonb[])`,
+    [
+      deliveries.map((d) => d.webhookId),
+      deliveries.map((d) => d.eventType),
+      deliveries.map((d) => d.topic),
+      deliveries.map((d) => d.blockNumber.toString()),
+      deliveries.map((d) => JSON.stringify(d.payload)),
+    ]
+  );
+}
+
+/**
+ * Claim due deliveries for sending. The lease pushes next_attempt_at forward so a dispatcher
+ * that dies mid-send has its claims picked up again once the lease runs out; SKIP LOCKED lets
+ * several dispatchers share the queue.
+ */
+export async function claimWebhookDeliveries(
+  limit: number,
+  leaseSeconds: number
+): Promise<ClaimedWebhookDelivery[]> {
+  const result = await query<ClaimedWebhookDelivery>(
+    `UPDATE webhook_deliveries d
+     SET next_attempt_at = NOW() + make_interval(secs => $2)
+     FROM webhooks w
+     WHERE w.id = d.webhook_id
+       AND d.id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at, id
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+     RETURNING d.*, w.url, w.secret`,
+    [limit, leaseSeconds]
+  );
+  return result.rows;
+}
+
+export async function markWebhookDelivered(id: string, responseStatus: number): Promise<void> {
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = 'delivered', attempts = attempts + 1, last_response_status = $2,
+         last_error = NULL, delivered_at = NOW()
+     WHERE id = $1`,
+    [id, responseStatus]
+  );
+}
+
+// retryAt null moves the delivery to the dead-letter state
+export async function markWebhookFailed(
+  id: string,
+  error: string,
+  responseStatus: number | null,
+  retryAt: Date | null
+): Promise<void> {
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = CASE WHEN $4::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+         attempts = attempts + 1,
+         last_error = $2,
+         last_response_status = $3,
+         next_attempt_at = COALESCE($4::timestamptz, next_attempt_at)
+     WHERE id = $1`,
+    [id, error, responseStatus, retryAt?.toISOString() ?? null]
+  );
+}
+
+// Newest first; beforeId pages further back
+export async function getWebhookDeliveries(
+  webhookId: string,
+  status: WebhookDeliveryStatus | null,
+  limit: number,
+  beforeId: string | null = null
+): Promise<WebhookDelivery[]> {
+  const result = await query<WebhookDelivery>(
+    `SELECT * FROM webhook_deliveries
+     WHERE webhook_id = $1
+       AND ($2::text IS NULL OR status = $2)
+       AND ($3::bigint IS NULL OR id < $3::bigint)
+     ORDER BY id DESC
+     LIMIT $4`,
+    [webhookId, status, beforeId, limit]
   );
   return result.rows;
 }
+
+/**
+ * Queue dead deliveries again with a fresh attempt budget. With deliveryIds only those are
+ * replayed (delivered ones included, for receivers that lost them); otherwise every dead one.
+ */
+export async function replayWebhookDeliveries(
+  webhookId: string,
+  deliveryIds: string[] | null
+): Promise<number> {
+  const result = await query(
+    `UPDATE webhook_deliveries
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+     WHERE webhook_id = $1
+       AND (CASE WHEN $2::bigint[] IS NULL THEN status = 'dead' ELSE id = ANY($2::bigint[]) END)`,
+    [webhookId, deliveryIds]
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function pruneWebhookDeliveries(retentionDays: number): Promise<void> {
+  await query(
+    `DELETE FROM webhook_deliveries
+     WHERE status = 'delivered' AND delivered_at < NOW() - make_interval(days => $1)`,
+    [retentionDays]
+  );
+}
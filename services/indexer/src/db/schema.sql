@@ -12,6 +12,13 @@ CREATE TABLE IF NOT EXISTS indexer_state (
     CONSTRAINT single_row CHECK (id = 1)
 );
 
+-- Recent canonical block hashes, kept for the reorg confirmation window
+CREATE TABLE IF NOT EXISTS block_hashes (
+    block_number BIGINT PRIMARY KEY,
+    block_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS processed_events (
     block_number BIGINT NOT NULL,
     log_index INTEGER NOT NULL,
@@ -21,6 +28,19 @@ CREATE TABLE IF NOT EXISTS processed_events (
     PRIMARY KEY (block_number, log_index)
 );
 
+-- Images of rows updated in place (seats, poker_tables, hands, rebalance_configs) taken before
+-- each change, so a reorg can put them back. previous is NULL when the change created the row.
+-- Pruned with block_hashes to the reorg confirmation window.
+CREATE TABLE IF NOT EXISTS rollback_journal (
+    id BIGSERIAL PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    entity VARCHAR(32) NOT NULL,
+    entity_key JSONB NOT NULL,
+    previous JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_rollback_journal_block ON rollback_journal(block_number);
+
 -- ============ Tables (Poker Tables) ============
 
 CREATE TABLE IF NOT EXISTS poker_tables (
@@ -54,6 +74,26 @@ CREATE TABLE IF NOT EXISTS seats (
 
 CREATE INDEX IF NOT EXISTS idx_seats_owner ON seats(owner_address);
 
+-- ============ Seat Events ============
+-- Append-only history of chips moving in and out of a seat outside of play
+
+CREATE TABLE IF NOT EXISTS seat_events (
+    id SERIAL PRIMARY KEY,
+    table_id BIGINT NOT NULL,
+    seat_index SMALLINT NOT NULL,
+    event_type VARCHAR(16) NOT NULL, -- TOP_UP, CASH_OUT, CLOSED, EVICTED
+    owner_address VARCHAR(42) NOT NULL,
+    recipient_address VARCHAR(42),
+    amount NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    stack_after NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_events_seat ON seat_events(table_id, seat_index, block_number);
+
 -- ============ Hands ============
 
 CREATE TABLE IF NOT EXISTS hands (
@@ -74,9 +114,32 @@ CREATE TABLE IF NOT EXISTS hands (
     PRIMARY KEY (table_id, hand_id)
 );
 
+-- Block of HandStarted, used to roll back hands on reorg
+ALTER TABLE hands ADD COLUMN IF NOT EXISTS started_block BIGINT;
+-- Block of BettingRoundComplete(-> SHOWDOWN); NULL for hands won uncontested
+ALTER TABLE hands ADD COLUMN IF NOT EXISTS showdown_block BIGINT;
+-- Every seat paid from the pot; winner_seat is the HandSettled seat (split-pot remainder taker)
+ALTER TABLE hands ADD COLUMN IF NOT EXISTS winner_seats SMALLINT[];
+UPDATE hands SET winner_seats = ARRAY[winner_seat]
+WHERE winner_seat IS NOT NULL AND winner_seats IS NULL;
+
 CREATE INDEX IF NOT EXISTS idx_hands_table ON hands(table_id);
 CREATE INDEX IF NOT EXISTS idx_hands_state ON hands(game_state);
 
+-- ============ Hand Players ============
+-- Seats dealt into a hand with their stacks before blinds (snapshot at HandStarted)
+
+CREATE TABLE IF NOT EXISTS hand_players (
+    table_id BIGINT NOT NULL,
+    hand_id BIGINT NOT NULL,
+    seat_index SMALLINT NOT NULL,
+    owner_address VARCHAR(42) NOT NULL,
+    operator_address VARCHAR(42) NOT NULL,
+    starting_stack NUMERIC(78, 0) NOT NULL,
+    PRIMARY KEY (table_id, hand_id, seat_index),
+    FOREIGN KEY (table_id, hand_id) REFERENCES hands(table_id, hand_id)
+);
+
 -- ============ Actions ============
 
 CREATE TABLE IF NOT EXISTS actions (
@@ -93,6 +156,18 @@ CREATE TABLE IF NOT EXISTS actions (
     FOREIGN KEY (table_id, hand_id) REFERENCES hands(table_id, hand_id)
 );
 
+-- Block of the BettingRoundComplete that closed the street on this action; NULL mid-street
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS street_end_block BIGINT;
+-- Actions indexed before the column: the last one in a BettingRoundComplete transaction closed the street
+UPDATE actions a
+SET street_end_block = pe.block_number
+FROM processed_events pe
+WHERE pe.event_name = 'BettingRoundComplete' AND pe.tx_hash = a.tx_hash AND a.street_end_block IS NULL
+  AND a.id = (
+    SELECT MAX(l.id) FROM actions l
+    WHERE l.table_id = a.table_id AND l.hand_id = a.hand_id AND l.tx_hash = a.tx_hash
+  );
+
 CREATE INDEX IF NOT EXISTS idx_actions_hand ON actions(table_id, hand_id);
 CREATE INDEX IF NOT EXISTS idx_actions_block ON actions(block_number);
 
@@ -111,6 +186,32 @@ CREATE TABLE IF NOT EXISTS vrf_requests (
 
 CREATE INDEX IF NOT EXISTS idx_vrf_table ON vrf_requests(table_id, hand_id);
 
+-- status: pending -> fulfilled, or pending -> rerequested (superseded by replaced_by)
+ALTER TABLE vrf_requests ADD COLUMN IF NOT EXISTS replaced_by BIGINT;
+ALTER TABLE vrf_requests ADD COLUMN IF NOT EXISTS requested_block BIGINT;
+ALTER TABLE vrf_requests ADD COLUMN IF NOT EXISTS requested_tx_hash VARCHAR(66);
+ALTER TABLE vrf_requests ADD COLUMN IF NOT EXISTS fulfilled_block BIGINT;
+ALTER TABLE vrf_requests ADD COLUMN IF NOT EXISTS fulfilled_tx_hash VARCHAR(66);
+
+-- ============ Hole Card Commitments ============
+-- Dealer commitments per seat, with cards filled in once revealed at showdown
+
+CREATE TABLE IF NOT EXISTS hole_commitments (
+    table_id BIGINT NOT NULL,
+    hand_id BIGINT NOT NULL,
+    seat_index SMALLINT NOT NULL,
+    commitment VARCHAR(66) NOT NULL,
+    committed_block BIGINT NOT NULL,
+    commit_tx_hash VARCHAR(66) NOT NULL,
+    card1 SMALLINT,
+    card2 SMALLINT,
+    revealed_block BIGINT,
+    reveal_tx_hash VARCHAR(66),
+    committed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revealed_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (table_id, hand_id, seat_index)
+);
+
 -- ============ Agents ============
 
 CREATE TABLE IF NOT EXISTS agents (
@@ -127,6 +228,26 @@ CREATE TABLE IF NOT EXISTS agents (
 
 CREATE INDEX IF NOT EXISTS idx_agents_owner ON agents(owner_address);
 CREATE INDEX IF NOT EXISTS idx_agents_table ON agents(table_address);
+CREATE INDEX IF NOT EXISTS idx_agents_vault ON agents(vault_address);
+
+-- ============ Agent Events ============
+-- Append-only history of AgentRegistry changes; agents only keeps the latest values.
+-- Addresses are lowercased; REGISTERED records the first owner as new_value.
+
+CREATE TABLE IF NOT EXISTS agent_events (
+    id BIGSERIAL PRIMARY KEY,
+    token_address VARCHAR(42) NOT NULL,
+    event_type VARCHAR(24) NOT NULL, -- REGISTERED, OWNER_UPDATED, OPERATOR_UPDATED, VAULT_UPDATED, TABLE_UPDATED, META_URI_UPDATED
+    old_value TEXT,
+    new_value TEXT,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_events_token ON agent_events(token_address, id);
+CREATE INDEX IF NOT EXISTS idx_agent_events_block ON agent_events(block_number);
 
 -- ============ Vault Snapshots ============
 
@@ -145,6 +266,118 @@ CREATE TABLE IF NOT EXISTS vault_snapshots (
 
 CREATE INDEX IF NOT EXISTS idx_vault_snapshots_vault ON vault_snapshots(vault_address);
 CREATE INDEX IF NOT EXISTS idx_vault_snapshots_hand ON vault_snapshots(hand_id);
+CREATE INDEX IF NOT EXISTS idx_vault_snapshots_vault_time ON vault_snapshots(vault_address, created_at);
+
+-- Timestamp of the snapshot's block; the NAV series is bucketed on it. Rows indexed before the
+-- column existed keep their ingestion time until the database is flushed and reindexed.
+ALTER TABLE vault_snapshots ADD COLUMN IF NOT EXISTS block_time TIMESTAMP WITH TIME ZONE;
+UPDATE vault_snapshots SET block_time = created_at WHERE block_time IS NULL;
+ALTER TABLE vault_snapshots ALTER COLUMN block_time SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vault_snapshots_vault_block_time ON vault_snapshots(vault_address, block_time);
+
+-- ============ Rebalances ============
+-- Treasury buys/sells of the agent token. Amounts are from the vault's perspective.
+
+CREATE TABLE IF NOT EXISTS rebalances (
+    id SERIAL PRIMARY KEY,
+    vault_address VARCHAR(42) NOT NULL,
+    hand_id BIGINT NOT NULL,
+    direction VARCHAR(4) NOT NULL, -- BUY, SELL
+    mon_in NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    mon_out NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    tokens_in NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    tokens_out NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    execution_price NUMERIC(78, 0) NOT NULL,
+    nav_before NUMERIC(78, 0) NOT NULL,
+    nav_after NUMERIC(78, 0) NOT NULL,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rebalances_vault ON rebalances(vault_address, block_number);
+
+CREATE TABLE IF NOT EXISTS rebalance_delays (
+    vault_address VARCHAR(42) NOT NULL,
+    hand_id BIGINT NOT NULL,
+    eligible_block BIGINT NOT NULL,
+    delay_blocks BIGINT NOT NULL,
+    block_number BIGINT NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    PRIMARY KEY (vault_address, hand_id)
+);
+
+CREATE TABLE IF NOT EXISTS rebalance_configs (
+    vault_address VARCHAR(42) PRIMARY KEY,
+    nadfun_lens VARCHAR(42) NOT NULL,
+    nadfun_router VARCHAR(42) NOT NULL,
+    max_mon_bps INTEGER NOT NULL,
+    max_token_bps INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============ Token Trades ============
+-- Agent token buys/sells through the nad.fun router. Amounts are from the trader's perspective;
+-- price is MON wei per whole token (mon_amount * 1e18 / token_amount), fees included.
+
+CREATE TABLE IF NOT EXISTS token_trades (
+    id BIGSERIAL PRIMARY KEY,
+    token_address VARCHAR(42) NOT NULL,
+    trader_address VARCHAR(42) NOT NULL,
+    side VARCHAR(4) NOT NULL, -- BUY, SELL
+    mon_amount NUMERIC(78, 0) NOT NULL,
+    token_amount NUMERIC(78, 0) NOT NULL,
+    price NUMERIC(78, 0) NOT NULL,
+    router_address VARCHAR(42) NOT NULL,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    block_time TIMESTAMP WITH TIME ZONE NOT NULL, -- the price series is bucketed on it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_trades_token ON token_trades(token_address, id);
+CREATE INDEX IF NOT EXISTS idx_token_trades_token_block_time ON token_trades(token_address, block_time);
+
+-- ============ Token Holders ============
+-- ERC-20 Transfers of agent tokens and the balances they produce. Mints and burns touch only
+-- the non-zero side; the vault's balance (treasury shares) is classified at read time.
+
+CREATE TABLE IF NOT EXISTS token_transfers (
+    id BIGSERIAL PRIMARY KEY,
+    token_address VARCHAR(42) NOT NULL,
+    from_address VARCHAR(42) NOT NULL,
+    to_address VARCHAR(42) NOT NULL,
+    amount NUMERIC(78, 0) NOT NULL,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    block_time TIMESTAMP WITH TIME ZONE NOT NULL, -- the holder count history is bucketed on it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transfers_token ON token_transfers(token_address, id);
+CREATE INDEX IF NOT EXISTS idx_token_transfers_block ON token_transfers(block_number);
+
+CREATE TABLE IF NOT EXISTS token_balances (
+    token_address VARCHAR(42) NOT NULL,
+    holder_address VARCHAR(42) NOT NULL,
+    balance NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    updated_block BIGINT NOT NULL,
+    PRIMARY KEY (token_address, holder_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_balances_top ON token_balances(token_address, balance DESC);
+
+-- totalSupply() as read from the token at updated_block; re-read whenever a mint or burn is indexed
+CREATE TABLE IF NOT EXISTS token_supplies (
+    token_address VARCHAR(42) PRIMARY KEY,
+    total_supply NUMERIC(78, 0) NOT NULL,
+    updated_block BIGINT NOT NULL
+);
 
 -- ============ Settlements ============
 
@@ -160,7 +393,120 @@ CREATE TABLE IF NOT EXISTS settlements (
     FOREIGN KEY (table_id, hand_id) REFERENCES hands(table_id, hand_id)
 );
 
+-- One row per seat dealt into the hand. Payouts are derived at HandSettled from the seat
+-- stacks the settlement left behind; contributed is everything the seat put in the pot.
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS seat_index SMALLINT;
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS owner_address VARCHAR(42);
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS amount_won NUMERIC(78, 0) NOT NULL DEFAULT 0;
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS amount_contributed NUMERIC(78, 0);
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS net_amount NUMERIC(78, 0);
+
+-- Rows indexed before per-seat payouts only record the winner. Every other seat dealt in gets
+-- a zero-payout row so losses still count toward hands and winrate. Seats come from hand_players,
+-- or for hands indexed before it from the table's current seats, as the leaderboard counted them
+-- then. Contributions stay unknown; exact per-seat history needs a flush and reindex.
+INSERT INTO settlements
+  (table_id, hand_id, winner_seat, pot_amount, block_number, tx_hash, created_at, seat_index, owner_address, amount_won)
+SELECT s.table_id, s.hand_id, s.winner_seat, s.pot_amount, s.block_number, s.tx_hash, s.created_at,
+       p.seat_index, p.owner_address, 0
+FROM settlements s
+CROSS JOIN LATERAL (
+  SELECT hp.seat_index, LOWER(hp.owner_address) AS owner_address FROM hand_players hp
+  WHERE hp.table_id = s.table_id AND hp.hand_id = s.hand_id
+  UNION ALL
+  SELECT se.seat_index, LOWER(se.owner_address) FROM seats se
+  WHERE se.table_id = s.table_id AND se.owner_address <> '0x0000000000000000000000000000000000000000'
+    AND NOT EXISTS (SELECT 1 FROM hand_players hp WHERE hp.table_id = s.table_id AND hp.hand_id = s.hand_id)
+) p
+WHERE s.seat_index IS NULL AND p.seat_index <> s.winner_seat;
+
+UPDATE settlements s
+SET seat_index = s.winner_seat,
+    amount_won = s.pot_amount,
+    owner_address = COALESCE(
+      (
+        SELECT LOWER(hp.owner_address) FROM hand_players hp
+        WHERE hp.table_id = s.table_id AND hp.hand_id = s.hand_id AND hp.seat_index = s.winner_seat
+      ),
+      (SELECT LOWER(se.owner_address) FROM seats se WHERE se.table_id = s.table_id AND se.seat_index = s.winner_seat)
+    )
+WHERE s.seat_index IS NULL;
+
 CREATE INDEX IF NOT EXISTS idx_settlements_hand ON settlements(table_id, hand_id);
+CREATE INDEX IF NOT EXISTS idx_settlements_owner ON settlements(owner_address, created_at);
+
+-- ============ Leaderboard ============
+-- One row per (agent, period). HandSettled and VaultSnapshot apply their deltas as they are
+-- indexed; a timer recomputes the rolling 24h/7d/30d windows so old data ages out.
+
+CREATE TABLE IF NOT EXISTS leaderboard_stats (
+    token_address VARCHAR(42) NOT NULL,
+    period VARCHAR(8) NOT NULL,
+    initial_nav_per_share NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    current_nav_per_share NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    -- Highest NAV per share in the period, so each VaultSnapshot can extend the drawdown in place
+    peak_nav_per_share NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    cumulative_pnl NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    roi NUMERIC(40, 4) NOT NULL DEFAULT 0,
+    mdd NUMERIC(40, 4) NOT NULL DEFAULT 0,
+    winrate NUMERIC(40, 4) NOT NULL DEFAULT 0,
+    total_hands INTEGER NOT NULL DEFAULT 0,
+    winning_hands INTEGER NOT NULL DEFAULT 0,
+    -- Winning hands where the pot was chopped with another seat
+    split_hands INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (token_address, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_roi ON leaderboard_stats(period, roi DESC, token_address);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_pnl ON leaderboard_stats(period, cumulative_pnl DESC, token_address);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_winrate ON leaderboard_stats(period, winrate DESC, token_address);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_mdd ON leaderboard_stats(period, mdd ASC, token_address);
+
+-- ============ WebSocket Relay ============
+-- Relay batches too large for a NOTIFY payload; listeners fetch them by id. Pruned after an hour.
+
+CREATE TABLE IF NOT EXISTS ws_relay_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ws_relay_outbox_created ON ws_relay_outbox(created_at);
+
+-- ============ Webhooks ============
+-- Registered endpoints with optional event type and topic filters (empty = everything).
+-- Deliveries are queued in the ingestion transaction and retried with backoff until they
+-- succeed or run out of attempts ("dead"), after which they can be replayed.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id BIGSERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    event_types TEXT[] NOT NULL DEFAULT '{}',
+    topics TEXT[] NOT NULL DEFAULT '{}',
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_type VARCHAR(32) NOT NULL,
+    topic VARCHAR(64) NOT NULL,
+    block_number BIGINT NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    last_response_status INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, status, id DESC);
 
 -- ============ Initialization ============
 
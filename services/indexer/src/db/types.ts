@@ -24,6 +24,23 @@ export interface Seat {
   updated_at: Date;
 }
 
+export type SeatEventType = "TOP_UP" | "CASH_OUT" | "CLOSED" | "EVICTED";
+
+export interface SeatEvent {
+  id: number;
+  table_id: string;
+  seat_index: number;
+  event_type: SeatEventType;
+  owner_address: string;
+  recipient_address: string | null;
+  amount: string;
+  stack_after: string;
+  block_number: string;
+  log_index: number;
+  tx_hash: string;
+  created_at: Date;
+}
+
 export interface Hand {
   hand_id: string;
   table_id: string;
@@ -36,11 +53,23 @@ export interface Hand {
   big_blind: string;
   community_cards: number[];
   winner_seat: number | null;
+  winner_seats: number[] | null;
   settlement_amount: string | null;
+  started_block: string | null;
+  showdown_block: string | null;
   started_at: Date;
   settled_at: Date | null;
 }
 
+export interface HandPlayer {
+  table_id: string;
+  hand_id: string;
+  seat_index: number;
+  owner_address: string;
+  operator_address: string;
+  starting_stack: string;
+}
+
 export interface Action {
   id: number;
   table_id: string;
@@ -51,10 +80,42 @@ export interface Action {
   pot_after: string;
   block_number: string;
   tx_hash: string;
+  street_end_block: string | null;
   ends_street?: boolean;
   created_at: Date;
 }
 
+export interface VrfRequest {
+  request_id: string;
+  table_id: string;
+  hand_id: string;
+  street: string;
+  status: "pending" | "rerequested" | "fulfilled";
+  randomness: string | null;
+  replaced_by: string | null;
+  requested_block: string | null;
+  requested_tx_hash: string | null;
+  fulfilled_block: string | null;
+  fulfilled_tx_hash: string | null;
+  requested_at: Date;
+  fulfilled_at: Date | null;
+}
+
+export interface HoleCommitment {
+  table_id: string;
+  hand_id: string;
+  seat_index: number;
+  commitment: string;
+  committed_block: string;
+  commit_tx_hash: string;
+  card1: number | null;
+  card2: number | null;
+  revealed_block: string | null;
+  reveal_tx_hash: string | null;
+  committed_at: Date;
+  revealed_at: Date | null;
+}
+
 export interface Agent {
   token_address: string;
   vault_address: string | null;
@@ -67,6 +128,26 @@ export interface Agent {
   updated_at: Date;
 }
 
+export type AgentEventType =
+  | "REGISTERED"
+  | "OWNER_UPDATED"
+  | "OPERATOR_UPDATED"
+  | "VAULT_UPDATED"
+  | "TABLE_UPDATED"
+  | "META_URI_UPDATED";
+
+export interface AgentEvent {
+  id: string;
+  token_address: string;
+  event_type: AgentEventType;
+  old_value: string | null;
+  new_value: string | null;
+  block_number: string;
+  log_index: number;
+  tx_hash: string;
+  created_at: Date;
+}
+
 export interface VaultSnapshot {
   id: number;
   vault_address: string;
@@ -77,15 +158,130 @@ export interface VaultSnapshot {
   nav_per_share: string;
   cumulative_pnl: string;
   block_number: string;
+  block_time: Date;
+  created_at: Date;
+}
+
+export type CandleInterval = "1h" | "1d";
+
+// One bucket of the NAV series; buckets without snapshots carry the previous close forward
+export interface NavCandle {
+  bucket: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  external_assets: string;
+  outstanding_shares: string;
+  cumulative_pnl: string;
+  snapshot_count: number;
+}
+
+export type RebalanceDirection = "BUY" | "SELL";
+
+// Rebalance row joined with the delay window set for its hand
+export interface Rebalance {
+  id: number;
+  vault_address: string;
+  hand_id: string;
+  direction: RebalanceDirection;
+  mon_in: string;
+  mon_out: string;
+  tokens_in: string;
+  tokens_out: string;
+  execution_price: string;
+  nav_before: string;
+  nav_after: string;
+  block_number: string;
+  log_index: number;
+  tx_hash: string;
+  created_at: Date;
+  eligible_block: string | null;
+  delay_blocks: string | null;
+}
+
+export interface RebalanceDelay {
+  vault_address: string;
+  hand_id: string;
+  eligible_block: string;
+  delay_blocks: string;
+  block_number: string;
+  tx_hash: string;
+}
+
+export interface RebalanceConfig {
+  vault_address: string;
+  nadfun_lens: string;
+  nadfun_router: string;
+  max_mon_bps: number;
+  max_token_bps: number;
+  block_number: string;
+  updated_at: Date;
+}
+
+export type TradeSide = "BUY" | "SELL";
+
+export interface TokenTrade {
+  id: string;
+  token_address: string;
+  trader_address: string;
+  side: TradeSide;
+  mon_amount: string;
+  token_amount: string;
+  price: string;
+  router_address: string;
+  block_number: string;
+  block_time: Date;
+  log_index: number;
+  tx_hash: string;
   created_at: Date;
 }
 
+// One bucket of the trade price series; buckets without trades carry the previous close forward
+export interface PriceCandle {
+  bucket: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume_mon: string;
+  volume_tokens: string;
+  trade_count: number;
+  buy_count: number;
+  sell_count: number;
+}
+
+export interface TokenBalance {
+  token_address: string;
+  holder_address: string;
+  balance: string;
+  updated_block: string;
+}
+
+export interface TokenHolderSummary {
+  total_supply: string;
+  treasury_balance: string;
+  holder_count: number;
+}
+
+export interface HolderCountPoint {
+  bucket: Date;
+  holder_count: number;
+}
+
+// One row per seat dealt into a settled hand; winner_seat and pot_amount repeat the HandSettled event.
+// Contributed and net are null for rows indexed before per-seat payouts were recorded.
 export interface Settlement {
   id: number;
   table_id: string;
   hand_id: string;
   winner_seat: number;
   pot_amount: string;
+  seat_index: number;
+  owner_address: string | null;
+  amount_won: string;
+  amount_contributed: string | null;
+  net_amount: string | null;
   block_number: string;
   tx_hash: string;
   created_at: Date;
@@ -98,6 +294,12 @@ export interface IndexerState {
   updated_at: Date;
 }
 
+export interface BlockHash {
+  block_number: string;
+  block_hash: string;
+  created_at: Date;
+}
+
 export interface ProcessedEvent {
   block_number: string;
   log_index: number;
@@ -106,6 +308,40 @@ export interface ProcessedEvent {
   processed_at: Date;
 }
 
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  event_types: string[];
+  topics: string[];
+  description: string | null;
+  created_at: Date;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  topic: string;
+  block_number: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  last_response_status: number | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+// Delivery claimed by the dispatcher, with what it needs to send it
+export interface ClaimedWebhookDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
 // API response types (with proper formatting)
 
 export interface TableResponse {
@@ -130,6 +366,18 @@ export interface SeatResponse {
   currentBet: string;
 }
 
+export interface SeatEventResponse {
+  eventType: SeatEventType;
+  seatIndex: number;
+  ownerAddress: string;
+  recipientAddress: string | null;
+  amount: string;
+  stackAfter: string;
+  blockNumber: string;
+  txHash: string;
+  timestamp: string;
+}
+
 export interface HandResponse {
   handId: string;
   tableId: string;
@@ -140,10 +388,88 @@ export interface HandResponse {
   buttonSeat: number;
   communityCards: number[];
   winnerSeat: number | null;
+  winnerSeats: number[];
   settlementAmount: string | null;
+  reachedShowdown: boolean;
   actions: ActionResponse[];
 }
 
+// Filters for GET /tables/:id/hands; beforeHandId comes from the decoded cursor
+export interface HandHistoryFilters {
+  seat?: number;
+  winner?: number;
+  minPot?: bigint;
+  maxPot?: bigint;
+  from?: Date;
+  to?: Date;
+  showdown?: boolean;
+  beforeHandId?: bigint;
+}
+
+// Payout derived for one seat at HandSettled; contributed is null when the hand's players are unknown
+export interface SeatPayout {
+  seatIndex: number;
+  ownerAddress: string | null;
+  won: bigint;
+  contributed: bigint | null;
+}
+
+// Identifies a hand across tables in batched lookups
+export interface HandKey {
+  tableId: bigint;
+  handId: bigint;
+}
+
+// One page of a table's hands, newest first, below an optional cursor
+export interface HandPageKey {
+  tableId: bigint;
+  beforeHandId: bigint | null;
+  limit: number;
+}
+
+// One page of a vault's snapshots, newest first, after an optional keyset cursor
+export interface SnapshotPageKey {
+  vaultAddress: string;
+  before: { blockNumber: bigint; id: number } | null;
+  limit: number;
+}
+
+export interface HandDetailResponse extends HandResponse {
+  payouts: SettlementPayoutResponse[];
+  holeCommitments: HoleCommitmentResponse[];
+  vrfTimeline: VrfRequestResponse[];
+}
+
+export interface SettlementPayoutResponse {
+  seatIndex: number;
+  ownerAddress: string | null;
+  amountWon: string;
+  amountContributed: string | null;
+  netAmount: string | null;
+}
+
+export interface HoleCommitmentResponse {
+  seatIndex: number;
+  commitment: string;
+  commitTxHash: string;
+  // Revealed hole cards (null until the seat reveals at showdown)
+  cards: [number, number] | null;
+  revealTxHash: string | null;
+}
+
+export interface VrfRequestResponse {
+  requestId: string;
+  street: string;
+  status: string;
+  replacedBy: string | null;
+  requestedBlock: string | null;
+  fulfilledBlock: string | null;
+  // When the indexer saw the request and fulfillment, not block times
+  requestedAt: string;
+  fulfilledAt: string | null;
+  latencyBlocks: number | null;
+}
+
 export interface ActionResponse {
   seatIndex: number;
   actionType: string;
@@ -166,6 +492,16 @@ export interface AgentResponse {
   latestSnapshot: VaultSnapshotResponse | null;
 }
 
+export interface AgentEventResponse {
+  id: string;
+  eventType: AgentEventType;
+  oldValue: string | null;
+  newValue: string | null;
+  blockNumber: string;
+  txHash: string;
+  timestamp: string;
+}
+
 export interface VaultSnapshotResponse {
   handId: string;
   externalAssets: string;
@@ -176,6 +512,213 @@ export interface VaultSnapshotResponse {
   blockNumber: string;
 }
 
+export interface NavCandleResponse {
+  time: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  externalAssets: string;
+  outstandingShares: string;
+  cumulativePnl: string;
+  snapshots: number;
+}
+
+export interface NavSeriesResponse {
+  tokenAddress: string;
+  vaultAddress: string;
+  interval: CandleInterval;
+  from: string;
+  to: string;
+  candles: NavCandleResponse[];
+}
+
+export interface RebalanceResponse {
+  handId: string;
+  direction: RebalanceDirection;
+  monIn: string;
+  monOut: string;
+  tokensIn: string;
+  tokensOut: string;
+  executionPrice: string;
+  navPerShareBefore: string;
+  navPerShareAfter: string;
+  // Buys must execute at or below NAV, sells at or above
+  accretive: boolean;
+  delayBlocks: string | null;
+  eligibleBlock: string | null;
+  blockNumber: string;
+  txHash: string;
+  timestamp: string;
+}
+
+export interface RebalanceConfigResponse {
+  nadfunLens: string;
+  nadfunRouter: string;
+  maxMonBps: number;
+  maxTokenBps: number;
+  blockNumber: string;
+}
+
+export interface RebalanceHistoryResponse {
+  vaultAddress: string;
+  config: RebalanceConfigResponse | null;
+  total: number;
+  limit: number;
+  offset: number;
+  rebalances: RebalanceResponse[];
+}
+
+export interface TokenTradeResponse {
+  id: string;
+  traderAddress: string;
+  side: TradeSide;
+  monAmount: string;
+  tokenAmount: string;
+  price: string;
+  blockNumber: string;
+  txHash: string;
+  timestamp: string;
+}
+
+export interface PriceCandleResponse {
+  time: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volumeMon: string;
+  volumeTokens: string;
+  trades: number;
+  buys: number;
+  sells: number;
+}
+
+export interface PriceSeriesResponse {
+  tokenAddress: string;
+  interval: CandleInterval;
+  from: string;
+  to: string;
+  candles: PriceCandleResponse[];
+}
+
+export interface TokenHolderResponse {
+  address: string;
+  balance: string;
+  // Percent of outstanding shares (supply minus treasury), 4 decimals; null when nothing is outstanding
+  percentOfOutstanding: string | null;
+}
+
+export interface TokenHoldersResponse {
+  tokenAddress: string;
+  vaultAddress: string | null;
+  totalSupply: string;
+  treasuryShares: string;
+  outstandingShares: string;
+  holderCount: number;
+  holders: TokenHolderResponse[];
+  history: {
+    interval: CandleInterval;
+    from: string;
+    to: string;
+    points: Array<{ time: string; holders: number }>;
+  };
+}
+
+// Premium is (price - NAV) / NAV as a signed decimal string (e.g., "-0.125000" = 12.5% discount).
+// The vault rebalancer is accretive-only: it may buy at or below NAV and sell at or above it.
+export interface PremiumPointResponse {
+  time: string;
+  price: string;
+  navPerShare: string;
+  premium: string;
+  accretiveBuy: boolean;
+  accretiveSell: boolean;
+}
+
+export interface RebalanceStatusResponse {
+  configured: boolean;
+  // Hand of the latest snapshot; one rebalance is allowed per settled hand
+  handId: string | null;
+  eligibleBlock: string | null;
+  alreadyRebalanced: boolean;
+  // Delay passed and not yet rebalanced this hand, as of the indexed block
+  eligible: boolean;
+  canBuy: boolean;
+  canSell: boolean;
+}
+
+export interface PremiumResponse {
+  tokenAddress: string;
+  vaultAddress: string;
+  current: {
+    price: string | null;
+    priceAt: string | null;
+    navPerShare: string | null;
+    premium: string | null;
+    accretiveBuy: boolean;
+    accretiveSell: boolean;
+    rebalance: RebalanceStatusResponse;
+  };
+  history: {
+    interval: CandleInterval;
+    from: string;
+    to: string;
+    points: PremiumPointResponse[];
+  };
+}
+
+// ============ Owner Types ============
+
+// Seat joined with its table, for an owner's seats across every table
+export interface OwnerSeat extends Seat {
+  contract_address: string;
+  current_hand_id: string;
+}
+
+// Current unsettled hand the owner was dealt into, with the seat they hold in it
+export interface OwnerOpenHand extends Hand {
+  seat_index: number;
+}
+
+export interface OwnerSeatResponse extends SeatResponse {
+  tableId: string;
+  tableAddress: string;
+  // Agent registered at this table for the owner, if any
+  agentTokenAddress: string | null;
+}
+
+export interface OwnerAgentResponse extends AgentResponse {
+  seats: OwnerSeatResponse[];
+}
+
+export interface OwnerOpenHandResponse {
+  tableId: string;
+  handId: string;
+  seatIndex: number;
+  gameState: string;
+  pot: string;
+  actorSeat: number | null;
+  toAct: boolean;
+  startedAt: string;
+}
+
+export interface OwnerSummaryResponse {
+  ownerAddress: string;
+  agents: OwnerAgentResponse[];
+  // Every seat the owner holds, including seats no agent is registered for
+  seats: OwnerSeatResponse[];
+  openHands: OwnerOpenHandResponse[];
+  totals: {
+    agents: number;
+    seats: number;
+    stack: string; // chips across all seats
+    externalAssets: string; // sum of latest vault A
+    lifetimePnl: string; // sum of latest vault cumulative PnL
+    openHands: number;
+  };
+}
+
 // ============ Leaderboard Types ============
 
 export type LeaderboardMetric = "roi" | "pnl" | "winrate" | "mdd";
@@ -195,14 +738,106 @@ export interface LeaderboardEntry {
   totalHands: number;
   winningHands: number;
   losingHands: number;
+  splitHands: number; // winning hands where the pot was chopped
   // Current state
   currentNavPerShare: string;
   initialNavPerShare: string;
 }
 
+// ============ Agent Stats Types ============
+
+export type StatsStreet = "preflop" | "flop" | "turn" | "river";
+
+// Ratios are decimal strings (e.g., "0.25" = 25%); null when there was no opportunity
+export interface StreetStatsResponse {
+  folds: number;
+  checks: number;
+  calls: number;
+  raises: number;
+  aggressionFactor: string | null; // (bets + raises) / calls
+  foldToRaise: string | null;
+  raisesFaced: number;
+}
+
+export interface PositionStatsResponse {
+  hands: number;
+  vpip: string | null;
+  pfr: string | null;
+  wtsd: string | null;
+}
+
+export interface AgentStatsResponse {
+  tokenAddress: string;
+  period: string;
+  handsPlayed: number;
+  vpip: string | null;
+  pfr: string | null;
+  threeBet: string | null;
+  aggressionFactor: string | null; // postflop
+  foldToRaise: string | null;
+  wtsd: string | null; // went to showdown, of hands that saw the flop
+  wsd: string | null; // won at showdown, of showdowns
+  samples: {
+    threeBetOpportunities: number;
+    raisesFaced: number;
+    sawFlop: number;
+    showdowns: number;
+  };
+  byStreet: Record<StatsStreet, StreetStatsResponse>;
+  byPosition: Record<string, PositionStatsResponse>;
+}
+
 export interface LeaderboardResponse {
   metric: LeaderboardMetric;
   period: LeaderboardPeriod;
+  total: number;
+  limit: number;
+  offset: number;
   entries: LeaderboardEntry[];
   updatedAt: string;
 }
+
+// leaderboard_stats row joined with agent info; rank is shared by ties
+export interface LeaderboardRow {
+  token_address: string;
+  owner_address: string;
+  meta_uri: string | null;
+  period: string;
+  initial_nav_per_share: string;
+  current_nav_per_share: string;
+  cumulative_pnl: string;
+  roi: string;
+  mdd: string;
+  winrate: string;
+  total_hands: number;
+  winning_hands: number;
+  split_hands: number;
+  updated_at: Date;
+  rank: string;
+}
+
+// Secret is only returned when the webhook is created
+export interface WebhookResponse {
+  id: string;
+  url: string;
+  events: string[];
+  topics: string[];
+  description: string | null;
+  createdAt: string;
+  secret?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  event: string;
+  topic: string;
+  blockNumber: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  lastResponseStatus: number | null;
+  createdAt: string;
+  deliveredAt: string | null;
+  payload: unknown;
+}
@@ -11,6 +11,45 @@ export const pokerTableAbi = [
       { indexed: false, name: "stack", type: "uint256" },
     ],
   },
+  {
+    type: "event",
+    name: "SeatTopUp",
+    inputs: [
+      { indexed: true, name: "seatIndex", type: "uint8" },
+      { indexed: true, name: "owner", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "stackAfter", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "SeatCashOut",
+    inputs: [
+      { indexed: true, name: "seatIndex", type: "uint8" },
+      { indexed: true, name: "owner", type: "address" },
+      { indexed: true, name: "recipient", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "stackAfter", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "SeatClosed",
+    inputs: [
+      { indexed: true, name: "seatIndex", type: "uint8" },
+      { indexed: true, name: "owner", type: "address" },
+      { indexed: true, name: "recipient", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "SeatEvicted",
+    inputs: [
+      { indexed: true, name: "seatIndex", type: "uint8" },
+      { indexed: true, name: "owner", type: "address" },
+    ],
+  },
   {
     type: "event",
     name: "HandStarted",
@@ -104,6 +143,66 @@ export const pokerTableAbi = [
       { indexed: false, name: "card2", type: "uint8" },
     ],
   },
+  {
+    type: "event",
+    name: "VRFReRequested",
+    inputs: [
+      { indexed: true, name: "handId", type: "uint256" },
+      { indexed: false, name: "street", type: "uint8" },
+      { indexed: false, name: "oldRequestId", type: "uint256" },
+      { indexed: false, name: "newRequestId", type: "uint256" },
+    ],
+  },
+] as const;
+
+// View functions used to build per-table event context and seed seats
+export const pokerTableReadAbi = [
+  {
+    type: "function",
+    name: "tableId",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "smallBlind",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "bigBlind",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "MAX_SEATS",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "getSeat",
+    stateMutability: "view",
+    inputs: [{ name: "seatIndex", type: "uint8" }],
+    outputs: [
+      {
+        type: "tuple",
+        components: [
+          { name: "owner", type: "address" },
+          { name: "operator", type: "address" },
+          { name: "stack", type: "uint256" },
+          { name: "isActive", type: "bool" },
+          { name: "currentBet", type: "uint256" },
+        ],
+      },
+    ],
+  },
 ] as const;
 
 export const playerRegistryAbi = [
@@ -214,6 +313,97 @@ export const playerVaultAbi = [
       { indexed: false, name: "amount", type: "uint256" },
     ],
   },
+  {
+    type: "event",
+    name: "RebalanceBuy",
+    inputs: [
+      { indexed: true, name: "handId", type: "uint256" },
+      { indexed: false, name: "monSpent", type: "uint256" },
+      { indexed: false, name: "tokensReceived", type: "uint256" },
+      { indexed: false, name: "executionPrice", type: "uint256" },
+      { indexed: false, name: "navPerShareBefore", type: "uint256" },
+      { indexed: false, name: "navPerShareAfter", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "RebalanceSell",
+    inputs: [
+      { indexed: true, name: "handId", type: "uint256" },
+      { indexed: false, name: "tokensSold", type: "uint256" },
+      { indexed: false, name: "monReceived", type: "uint256" },
+      { indexed: false, name: "executionPrice", type: "uint256" },
+      { indexed: false, name: "navPerShareBefore", type: "uint256" },
+      { indexed: false, name: "navPerShareAfter", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "RebalanceConfigUpdated",
+    inputs: [
+      { indexed: false, name: "nadfunLens", type: "address" },
+      { indexed: false, name: "nadfunRouter", type: "address" },
+      { indexed: false, name: "maxMonBps", type: "uint256" },
+      { indexed: false, name: "maxTokenBps", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "RebalanceDelaySet",
+    inputs: [
+      { indexed: true, name: "handId", type: "uint256" },
+      { indexed: false, name: "eligibleBlock", type: "uint256" },
+      { indexed: false, name: "delayBlocks", type: "uint256" },
+    ],
+  },
+] as const;
+
+// NadfunCompatRouter trade events. For buys amountIn is MON and amountOut tokens; for sells
+// the reverse. `to` is the recipient of the output.
+export const nadfunRouterAbi = [
+  {
+    type: "event",
+    name: "CurveBuy",
+    inputs: [
+      { indexed: true, name: "to", type: "address" },
+      { indexed: true, name: "token", type: "address" },
+      { indexed: false, name: "actualAmountIn", type: "uint256" },
+      { indexed: false, name: "effectiveAmountOut", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "CurveSell",
+    inputs: [
+      { indexed: true, name: "to", type: "address" },
+      { indexed: true, name: "token", type: "address" },
+      { indexed: false, name: "actualAmountIn", type: "uint256" },
+      { indexed: false, name: "effectiveAmountOut", type: "uint256" },
+    ],
+  },
+] as const;
+
+export const agentTokenAbi = [
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { indexed: true, name: "from", type: "address" },
+      { indexed: true, name: "to", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+  },
+] as const;
+
+// Supply is read from the token rather than summed from indexed balances
+export const agentTokenReadAbi = [
+  {
+    type: "function",
+    name: "totalSupply",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
 ] as const;
 
 // Game state enum mapping
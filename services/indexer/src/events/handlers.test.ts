@@ -2,7 +2,18 @@
 
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { gameStateToString, actionTypeToString, GAME_STATES, ACTION_TYPES } from "./abis.js";
+import { encodeAbiParameters, encodeEventTopics, decodeEventLog, type Hex } from "viem";
+import {
+  gameStateToString,
+  actionTypeToString,
+  GAME_STATES,
+  ACTION_TYPES,
+  pokerTableAbi,
+  nadfunRouterAbi,
+  agentTokenAbi,
+} from "./abis.js";
+import { tradePrice, handContributions, computeSeatPayouts } from "./handlers.js";
+import type { Action, Hand, HandPlayer, Seat } from "../db/types.js";
 
 describe("Event ABIs", () => {
   describe("gameStateToString", () => {
@@ -80,6 +91,206 @@ describe("Event ABIs", () => {
   });
 });
 
+describe("Seat lifecycle ABIs", () => {
+  it("should include every seat event emitted by PokerTable", () => {
+    const eventNames = pokerTableAbi.map((item) => item.name);
+    for (const name of ["SeatUpdated", "SeatTopUp", "SeatCashOut", "SeatClosed", "SeatEvicted"]) {
+      assert.ok(eventNames.includes(name as any), `missing ${name}`);
+    }
+  });
+
+  it("should decode SeatCashOut with indexed owner and recipient", () => {
+    const owner = "0x1111111111111111111111111111111111111111";
+    const recipient = "0x2222222222222222222222222222222222222222";
+    const topics = encodeEventTopics({
+      abi: pokerTableAbi,
+      eventName: "SeatCashOut",
+      args: { seatIndex: 3, owner, recipient },
+    });
+    const data = encodeAbiParameters(
+      [{ type: "uint256" }, { type: "uint256" }],
+      [250n, 750n]
+    );
+
+    const decoded = decodeEventLog({ abi: pokerTableAbi, data, topics: topics as [Hex, ...Hex[]] });
+    assert.strictEqual(decoded.eventName, "SeatCashOut");
+    const args = decoded.args as any;
+    assert.strictEqual(args.seatIndex, 3);
+    assert.strictEqual(args.owner.toLowerCase(), owner);
+    assert.strictEqual(args.recipient.toLowerCase(), recipient);
+    assert.strictEqual(args.amount, 250n);
+    assert.strictEqual(args.stackAfter, 750n);
+  });
+});
+
+describe("Provable fairness ABIs", () => {
+  it("should include commit/reveal and VRF re-request events", () => {
+    const eventNames = pokerTableAbi.map((item) => item.name);
+    for (const name of ["VRFRequested", "VRFReRequested", "HoleCommitSubmitted", "HoleCardsRevealed"]) {
+      assert.ok(eventNames.includes(name as any), `missing ${name}`);
+    }
+  });
+
+  it("should decode VRFReRequested request ids", () => {
+    const topics = encodeEventTopics({
+      abi: pokerTableAbi,
+      eventName: "VRFReRequested",
+      args: { handId: 7n },
+    });
+    const data = encodeAbiParameters(
+      [{ type: "uint8" }, { type: "uint256" }, { type: "uint256" }],
+      [3, 11n, 12n]
+    );
+
+    const decoded = decodeEventLog({ abi: pokerTableAbi, data, topics: topics as [Hex, ...Hex[]] });
+    assert.strictEqual(decoded.eventName, "VRFReRequested");
+    const args = decoded.args as any;
+    assert.strictEqual(args.handId, 7n);
+    assert.strictEqual(gameStateToString(args.street), "WAITING_VRF_FLOP");
+    assert.strictEqual(args.oldRequestId, 11n);
+    assert.strictEqual(args.newRequestId, 12n);
+  });
+});
+
+describe("Nad.fun router trades", () => {
+  it("should decode CurveSell with indexed recipient and token", () => {
+    const to = "0x1111111111111111111111111111111111111111";
+    const token = "0x3333333333333333333333333333333333333333";
+    const topics = encodeEventTopics({ abi: nadfunRouterAbi, eventName: "CurveSell", args: { to, token } });
+    const data = encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [5000n * 10n ** 18n, 2n * 10n ** 18n]);
+
+    const decoded = decodeEventLog({ abi: nadfunRouterAbi, data, topics: topics as [Hex, ...Hex[]] });
+    assert.strictEqual(decoded.eventName, "CurveSell");
+    assert.strictEqual(decoded.args.to.toLowerCase(), to);
+    assert.strictEqual(decoded.args.token.toLowerCase(), token);
+    assert.strictEqual(decoded.args.actualAmountIn, 5000n * 10n ** 18n);
+    assert.strictEqual(decoded.args.effectiveAmountOut, 2n * 10n ** 18n);
+  });
+
+  it("should price trades in MON wei per whole token", () => {
+    // 2 MON for 5000 tokens
+    assert.strictEqual(tradePrice(2n * 10n ** 18n, 5000n * 10n ** 18n), 400000000000000n);
+    assert.strictEqual(tradePrice(10n ** 18n, 10n ** 18n), 10n ** 18n);
+    assert.strictEqual(tradePrice(10n ** 18n, 0n), 0n);
+  });
+});
+
+describe("Agent token ABI", () => {
+  it("should decode mints from the zero address", () => {
+    const from = "0x0000000000000000000000000000000000000000";
+    const to = "0x4444444444444444444444444444444444444444";
+    const topics = encodeEventTopics({ abi: agentTokenAbi, eventName: "Transfer", args: { from, to } });
+    const data = encodeAbiParameters([{ type: "uint256" }], [10n ** 27n]);
+
+    const decoded = decodeEventLog({ abi: agentTokenAbi, data, topics: topics as [Hex, ...Hex[]] });
+    assert.strictEqual(decoded.eventName, "Transfer");
+    assert.strictEqual(decoded.args.from, from);
+    assert.strictEqual(decoded.args.to.toLowerCase(), to);
+    assert.strictEqual(decoded.args.amount, 10n ** 27n);
+  });
+});
+
+describe("Settlement payouts", () => {
+  const hand = {
+    hand_id: "4",
+    table_id: "1",
+    button_seat: 0,
+    small_blind: "5",
+    big_blind: "10",
+  } as Hand;
+  const owner = (seat: number) => `0x${(seat + 1).toString().repeat(40)}`;
+  const players: HandPlayer[] = [0, 1, 2].map((seat) => ({
+    table_id: "1",
+    hand_id: "4",
+    seat_index: seat,
+    owner_address: owner(seat),
+    operator_address: owner(seat),
+    starting_stack: "100",
+  }));
+  const seats = (stacks: number[]): Seat[] =>
+    stacks.map((stack, seat) => ({ ...players[seat], stack: stack.toString() }) as unknown as Seat);
+
+  let actionId = 0;
+  const action = (seat: number, type: string, amount: number, endsStreet = false): Action => ({
+    id: ++actionId,
+    table_id: "1",
+    hand_id: "4",
+    seat_index: seat,
+    action_type: type,
+    amount: amount.toString(),
+    pot_after: "0",
+    block_number: "1",
+    tx_hash: "0x",
+    street_end_block: endsStreet ? "1" : null,
+    ends_street: endsStreet,
+    created_at: new Date(),
+  });
+
+  // Button 0, SB 1, BB 2. Preflop limped; seat 1 bets 20 on the flop, seat 2 calls, seat 0 folds.
+  const actions = [
+    action(0, "CALL", 10),
+    action(1, "CALL", 5),
+    action(2, "CHECK", 0, true),
+    action(1, "RAISE", 20),
+    action(2, "CALL", 20),
+    action(0, "FOLD", 0, true),
+  ];
+
+  it("should count blinds, calls and raise increments", () => {
+    const contributions = handContributions(hand, players, actions);
+    assert.deepStrictEqual(Object.fromEntries(contributions), { 0: 10n, 1: 30n, 2: 30n });
+  });
+
+  it("should split a chopped pot between every seat it paid", () => {
+    // 70 chopped: seats 1 and 2 each get 35 back on a 30 contribution
+    const payouts = computeSeatPayouts({
+      hand,
+      players,
+      actions,
+      seats: seats([90, 105, 105]),
+      winnerSeat: 1,
+      potAmount: 70n,
+    });
+
+    assert.deepStrictEqual(
+      payouts.map((p) => [p.seatIndex, p.won, p.contributed]),
+      [
+        [0, 0n, 10n],
+        [1, 35n, 30n],
+        [2, 35n, 30n],
+      ]
+    );
+    assert.strictEqual(payouts[1].ownerAddress, owner(1));
+  });
+
+  it("should credit the named seat when the stacks do not match the settlement", () => {
+    const payouts = computeSeatPayouts({
+      hand,
+      players,
+      actions,
+      seats: seats([100, 100, 100]),
+      winnerSeat: 2,
+      potAmount: 70n,
+    });
+    assert.deepStrictEqual(
+      payouts.map((p) => p.won),
+      [0n, 0n, 70n]
+    );
+  });
+
+  it("should record only the winner when the hand was not indexed from its start", () => {
+    const payouts = computeSeatPayouts({
+      hand: null,
+      players: [],
+      actions: [],
+      seats: seats([90, 105, 105]),
+      winnerSeat: 1,
+      potAmount: 70n,
+    });
+    assert.deepStrictEqual(payouts, [{ seatIndex: 1, ownerAddress: owner(1), won: 70n, contributed: null }]);
+  });
+});
+
 describe("Event Handler Logic", () => {
   describe("Idempotency", () => {
     it("should use block_number and log_index as unique key", () => {
@@ -7,30 +7,66 @@ import {
   upsertTable,
   updateTableState,
   upsertSeat,
+  updateSeatStack,
+  deleteSeat,
+  insertSeatEvent,
   insertHand,
+  snapshotHandPlayers,
   updateHand,
   insertAction,
-  insertSettlement,
+  insertSettlements,
+  getHandPlayers,
+  getHandActions,
+  getSeats,
   upsertAgent,
   updateAgentOperator,
   updateAgentOwner,
   updateAgentVault,
   updateAgentTable,
   updateAgentMetaUri,
+  insertAgentEvent,
   insertVaultSnapshot,
+  insertRebalance,
+  upsertRebalanceDelay,
+  upsertRebalanceConfig,
   getHand,
+  insertVrfRequest,
+  markVrfRequestReplaced,
+  markVrfRequestFulfilled,
+  upsertHoleCommitment,
+  markHoleCardsRevealed,
+  markStreetEnd,
+  refreshLeaderboardStats,
+  applyHandToLeaderboard,
+  applyVaultSnapshotToLeaderboard,
+  getAgentByVault,
+  insertTokenTrade,
+  applyTokenTransfer,
 } from "../db/index.js";
+import type { Action, Hand, HandPlayer, Seat, SeatPayout, TradeSide } from "../db/index.js";
 import { gameStateToString, actionTypeToString } from "./abis.js";
 import {
   broadcastAction,
   broadcastHandStarted,
   broadcastBettingRoundComplete,
   broadcastVRFRequested,
+  broadcastVRFReRequested,
   broadcastCommunityCards,
   broadcastHandSettled,
   broadcastSeatUpdated,
+  broadcastSeatTopUp,
+  broadcastSeatCashOut,
+  broadcastSeatClosed,
+  broadcastSeatEvicted,
   broadcastPotUpdated,
   broadcastForceTimeout,
+  broadcastHoleCommitSubmitted,
+  broadcastHoleCardsRevealed,
+  broadcastVaultSnapshot,
+  broadcastAgentRegistered,
+  broadcastAgentUpdated,
+  broadcastLeaderboardUpdated,
+  broadcastTokenTrade,
 } from "../ws/index.js";
 
 export interface EventContext {
@@ -49,6 +85,106 @@ function getLogMeta(log: Log): { blockNumber: bigint; logIndex: number; txHash:
   return { blockNumber, logIndex, txHash: transactionHash };
 }
 
+// The listener fills blockTimestamp on logs whose rows are bucketed by time
+function getLogBlockTime(log: Log): Date {
+  if (log.blockTimestamp === undefined || log.blockTimestamp === null) {
+    throw new Error(`Log ${log.transactionHash}:${log.logIndex} has no block timestamp`);
+  }
+  return new Date(Number(log.blockTimestamp) * 1000);
+}
+
+// Number of community cards already on the board when a street is dealt
+export function communityCardOffset(street: number): number {
+  switch (gameStateToString(street)) {
+    case "WAITING_VRF_FLOP":
+      return 0;
+    case "WAITING_VRF_TURN":
+      return 3;
+    default:
+      return 4;
+  }
+}
+
+// Next seat clockwise among the dealt-in seats (PokerTable._nextPlayableSeat)
+function nextSeat(seats: number[], from: number): number {
+  return seats.find((seat) => seat > from) ?? seats[0];
+}
+
+/**
+ * Chips each dealt-in seat put into the pot: blinds, CALL amounts (chips added) and
+ * RAISE increments (RAISE amounts are the seat's total bet for the street).
+ */
+export function handContributions(hand: Hand, players: HandPlayer[], actions: Action[]): Map<number, bigint> {
+  const seats = players.map((p) => p.seat_index).sort((a, b) => a - b);
+  const total = new Map<number, bigint>(seats.map((seat) => [seat, 0n]));
+  if (seats.length < 2) return total;
+
+  const sbSeat = nextSeat(seats, hand.button_seat);
+  const bbSeat = nextSeat(seats, sbSeat);
+  total.set(sbSeat, BigInt(hand.small_blind));
+  total.set(bbSeat, BigInt(hand.big_blind));
+  let street = new Map(total);
+
+  for (const action of actions) {
+    const seat = action.seat_index;
+    const bet = street.get(seat) ?? 0n;
+    const amount = BigInt(action.amount);
+    const added = action.action_type === "CALL" ? amount : action.action_type === "RAISE" ? amount - bet : 0n;
+    if (added > 0n) {
+      street.set(seat, bet + added);
+      total.set(seat, (total.get(seat) ?? 0n) + added);
+    }
+    if (action.ends_street) street = new Map();
+  }
+  return total;
+}
+
+/**
+ * Split a settled pot into per-seat payouts. HandSettled names a single seat even when the pot
+ * is chopped, so each seat's share is read back from the stack the settlement left behind
+ * (its SeatUpdated precedes HandSettled in the same transaction): won = stack - (starting - contributed).
+ * When the stacks do not account for the pot exactly or pay a folded seat, e.g. indexing started
+ * mid-hand, the named seat is credited with the whole pot.
+ */
+export function computeSeatPayouts(input: {
+  hand: Hand | null;
+  players: HandPlayer[];
+  actions: Action[];
+  seats: Seat[];
+  winnerSeat: number;
+  potAmount: bigint;
+}): SeatPayout[] {
+  const { hand, players, seats, winnerSeat, potAmount } = input;
+  const stacks = new Map(seats.map((seat) => [seat.seat_index, BigInt(seat.stack)]));
+  const contributions = hand ? handContributions(hand, players, input.actions) : new Map<number, bigint>();
+
+  const payouts: SeatPayout[] = players.map((p) => {
+    const contributed = contributions.get(p.seat_index) ?? 0n;
+    const stack = stacks.get(p.seat_index);
+    return {
+      seatIndex: p.seat_index,
+      ownerAddress: p.owner_address,
+      won: stack === undefined ? -1n : stack - (BigInt(p.starting_stack) - contributed),
+      contributed,
+    };
+  });
+
+  const folded = new Set(input.actions.filter((a) => a.action_type === "FOLD").map((a) => a.seat_index));
+  const total = payouts.reduce((sum, p) => sum + p.won, 0n);
+  const consistent =
+    total === potAmount &&
+    payouts.every((p) => p.won === 0n || (p.won > 0n && !folded.has(p.seatIndex))) &&
+    payouts.some((p) => p.seatIndex === winnerSeat && p.won > 0n);
+  if (consistent) return payouts;
+
+  const fallback = payouts.map((p) => ({ ...p, won: p.seatIndex === winnerSeat ? potAmount : 0n }));
+  if (!fallback.some((p) => p.seatIndex === winnerSeat)) {
+    const owner = seats.find((seat) => seat.seat_index === winnerSeat)?.owner_address ?? null;
+    fallback.push({ seatIndex: winnerSeat, ownerAddress: owner, won: potAmount, contributed: null });
+  }
+  return fallback;
+}
+
 // ============ PokerTable Event Handlers ============
 
 export async function handleSeatUpdated(
@@ -70,7 +206,10 @@ export async function handleSeatUpdated(
     args.seatIndex,
     args.owner,
     args.operator,
-    args.stack
+    args.stack,
+    false,
+    0n,
+    meta.blockNumber
   );
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "SeatUpdated");
@@ -80,6 +219,132 @@ export async function handleSeatUpdated(
   broadcastSeatUpdated(ctx.tableId, args.seatIndex, args.owner, args.operator, args.stack);
 }
 
+export async function handleSeatTopUp(
+  log: Log,
+  args: { seatIndex: number; owner: string; amount: bigint; stackAfter: bigint },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await updateSeatStack(ctx.tableId, args.seatIndex, args.stackAfter, meta.blockNumber);
+  await insertSeatEvent(
+    ctx.tableId,
+    args.seatIndex,
+    "TOP_UP",
+    args.owner,
+    null,
+    args.amount,
+    args.stackAfter,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "SeatTopUp");
+  console.log(`[SeatTopUp] table=${ctx.tableId} seat=${args.seatIndex} amount=${args.amount} stack=${args.stackAfter}`);
+
+  // Broadcast to WebSocket clients
+  broadcastSeatTopUp(ctx.tableId, args.seatIndex, args.owner, args.amount, args.stackAfter);
+}
+
+export async function handleSeatCashOut(
+  log: Log,
+  args: { seatIndex: number; owner: string; recipient: string; amount: bigint; stackAfter: bigint },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await updateSeatStack(ctx.tableId, args.seatIndex, args.stackAfter, meta.blockNumber);
+  await insertSeatEvent(
+    ctx.tableId,
+    args.seatIndex,
+    "CASH_OUT",
+    args.owner,
+    args.recipient,
+    args.amount,
+    args.stackAfter,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "SeatCashOut");
+  console.log(`[SeatCashOut] table=${ctx.tableId} seat=${args.seatIndex} amount=${args.amount} stack=${args.stackAfter}`);
+
+  // Broadcast to WebSocket clients
+  broadcastSeatCashOut(ctx.tableId, args.seatIndex, args.owner, args.recipient, args.amount, args.stackAfter);
+}
+
+export async function handleSeatClosed(
+  log: Log,
+  args: { seatIndex: number; owner: string; recipient: string; amount: bigint },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  // The seat is deleted on-chain, so drop the row instead of keeping a zero-address placeholder
+  await deleteSeat(ctx.tableId, args.seatIndex, meta.blockNumber);
+  await insertSeatEvent(
+    ctx.tableId,
+    args.seatIndex,
+    "CLOSED",
+    args.owner,
+    args.recipient,
+    args.amount,
+    0n,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "SeatClosed");
+  console.log(`[SeatClosed] table=${ctx.tableId} seat=${args.seatIndex} payout=${args.amount}`);
+
+  // Broadcast to WebSocket clients
+  broadcastSeatClosed(ctx.tableId, args.seatIndex, args.owner, args.recipient, args.amount);
+}
+
+export async function handleSeatEvicted(
+  log: Log,
+  args: { seatIndex: number; owner: string },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  // Busted seats are evicted with a zero stack
+  await deleteSeat(ctx.tableId, args.seatIndex, meta.blockNumber);
+  await insertSeatEvent(
+    ctx.tableId,
+    args.seatIndex,
+    "EVICTED",
+    args.owner,
+    null,
+    0n,
+    0n,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "SeatEvicted");
+  console.log(`[SeatEvicted] table=${ctx.tableId} seat=${args.seatIndex} owner=${args.owner}`);
+
+  // Broadcast to WebSocket clients
+  broadcastSeatEvicted(ctx.tableId, args.seatIndex, args.owner);
+}
+
 export async function handleHandStarted(
   log: Log,
   args: { handId: bigint; smallBlind: bigint; bigBlind: bigint; buttonSeat: number },
@@ -99,11 +364,15 @@ export async function handleHandStarted(
     args.buttonSeat,
     args.smallBlind,
     args.bigBlind,
-    "BETTING_PRE"
+    "BETTING_PRE",
+    meta.blockNumber,
+    getLogBlockTime(log)
   );
+  // Seats are still pre-blind here: blind SeatUpdated events follow HandStarted
+  await snapshotHandPlayers(ctx.tableId, args.handId, args.bigBlind);
 
   // Update table state
-  await updateTableState(ctx.tableId, "BETTING_PRE", args.handId, args.buttonSeat);
+  await updateTableState(ctx.tableId, "BETTING_PRE", meta.blockNumber, args.handId, args.buttonSeat);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "HandStarted");
   console.log(`[HandStarted] table=${ctx.tableId} hand=${args.handId} button=${args.buttonSeat}`);
@@ -136,7 +405,7 @@ export async function handleActionTaken(
   );
 
   // Update hand pot
-  await updateHand(ctx.tableId, args.handId, { pot: args.potAfter });
+  await updateHand(ctx.tableId, args.handId, { pot: args.potAfter }, meta.blockNumber);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "ActionTaken");
   console.log(`[ActionTaken] hand=${args.handId} seat=${args.seatIndex} action=${actionType} amount=${args.amount}`);
@@ -164,7 +433,7 @@ export async function handlePotUpdated(
 
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
-  await updateHand(ctx.tableId, args.handId, { pot: args.pot });
+  await updateHand(ctx.tableId, args.handId, { pot: args.pot }, meta.blockNumber);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "PotUpdated");
 
@@ -183,8 +452,12 @@ export async function handleBettingRoundComplete(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   const toStateStr = gameStateToString(args.toState);
-  await updateHand(ctx.tableId, args.handId, { gameState: toStateStr });
-  await updateTableState(ctx.tableId, toStateStr);
+  await updateHand(ctx.tableId, args.handId, {
+    gameState: toStateStr,
+    ...(toStateStr === "SHOWDOWN" ? { showdownBlock: meta.blockNumber } : {}),
+  }, meta.blockNumber);
+  await updateTableState(ctx.tableId, toStateStr, meta.blockNumber);
+  await markStreetEnd(ctx.tableId, args.handId, meta.blockNumber);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "BettingRoundComplete");
   console.log(`[BettingRoundComplete] hand=${args.handId} ${gameStateToString(args.fromState)} -> ${toStateStr}`);
@@ -203,9 +476,13 @@ export async function handleVRFRequested(
 
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
-  // Just track the state transition - VRF request details are handled elsewhere
   const streetStr = gameStateToString(args.street);
-  await updateTableState(ctx.tableId, streetStr);
+  await updateTableState(ctx.tableId, streetStr, meta.blockNumber);
+
+  // requestId is 0 when the table has no VRF adapter configured
+  if (args.requestId > 0n) {
+    await insertVrfRequest(ctx.tableId, args.handId, args.requestId, streetStr, meta.blockNumber, meta.txHash);
+  }
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "VRFRequested");
   console.log(`[VRFRequested] hand=${args.handId} street=${streetStr} requestId=${args.requestId}`);
@@ -214,6 +491,29 @@ export async function handleVRFRequested(
   broadcastVRFRequested(ctx.tableId, args.handId, args.street, args.requestId);
 }
 
+export async function handleVRFReRequested(
+  log: Log,
+  args: { handId: bigint; street: number; oldRequestId: bigint; newRequestId: bigint },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  const streetStr = gameStateToString(args.street);
+  await markVrfRequestReplaced(ctx.tableId, args.oldRequestId, args.newRequestId);
+  await insertVrfRequest(ctx.tableId, args.handId, args.newRequestId, streetStr, meta.blockNumber, meta.txHash);
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "VRFReRequested");
+  console.log(
+    `[VRFReRequested] hand=${args.handId} street=${streetStr} requestId=${args.oldRequestId} -> ${args.newRequestId}`
+  );
+
+  // Broadcast to WebSocket clients
+  broadcastVRFReRequested(ctx.tableId, args.handId, args.street, args.oldRequestId, args.newRequestId);
+}
+
 export async function handleCommunityCardsDealt(
   log: Log,
   args: { handId: bigint; street: number; cards: readonly number[] },
@@ -225,14 +525,23 @@ export async function handleCommunityCardsDealt(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   // cards contains only newly dealt cards for this street (flop=3, turn=1, river=1).
-  // Merge with already revealed community cards.
+  // Place them at the street's offset so replaying a street (e.g. after a reorg) never duplicates cards.
   const hand = await getHand(ctx.tableId, args.handId);
   const existingCards = Array.isArray(hand?.community_cards) ? hand.community_cards : [];
-  const mergedCards = [...existingCards, ...args.cards];
+  const mergedCards = [...existingCards.slice(0, communityCardOffset(args.street)), ...args.cards];
 
   await updateHand(ctx.tableId, args.handId, {
     communityCards: mergedCards,
-  });
+  }, meta.blockNumber);
+
+  // Cards are dealt from VRF fulfilment, so this closes the pending request for the street
+  await markVrfRequestFulfilled(
+    ctx.tableId,
+    args.handId,
+    gameStateToString(args.street),
+    meta.blockNumber,
+    meta.txHash
+  );
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "CommunityCardsDealt");
   console.log(`[CommunityCardsDealt] hand=${args.handId} cards=[${args.cards.join(",")}]`);
@@ -251,32 +560,52 @@ export async function handleHandSettled(
 
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
+  const [hand, players, actions, seats] = await Promise.all([
+    getHand(ctx.tableId, args.handId),
+    getHandPlayers(ctx.tableId, args.handId),
+    getHandActions(ctx.tableId, args.handId),
+    getSeats(ctx.tableId),
+  ]);
+  const payouts = computeSeatPayouts({
+    hand,
+    players,
+    actions,
+    seats,
+    winnerSeat: args.winnerSeat,
+    potAmount: args.potAmount,
+  });
+  const winnerSeats = payouts.filter((p) => p.won > 0n).map((p) => p.seatIndex);
+
   // Update hand
   await updateHand(ctx.tableId, args.handId, {
     winnerSeat: args.winnerSeat,
+    winnerSeats,
     settlementAmount: args.potAmount,
     settledAt: new Date(),
     gameState: "SETTLED",
-  });
+  }, meta.blockNumber);
 
-  // Insert settlement record
-  await insertSettlement(
+  // One settlement row per seat dealt in
+  await insertSettlements(
     ctx.tableId,
     args.handId,
     args.winnerSeat,
     args.potAmount,
+    payouts,
     meta.blockNumber,
     meta.txHash
   );
 
   // Update table state
-  await updateTableState(ctx.tableId, "SETTLED");
+  await updateTableState(ctx.tableId, "SETTLED", meta.blockNumber);
+  await applyHandToLeaderboard(ctx.tableId, args.handId);
+  broadcastLeaderboardUpdated({ tableId: ctx.tableId.toString() });
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "HandSettled");
-  console.log(`[HandSettled] hand=${args.handId} winner=${args.winnerSeat} pot=${args.potAmount}`);
+  console.log(`[HandSettled] hand=${args.handId} winners=[${winnerSeats.join(",")}] pot=${args.potAmount}`);
 
   // Broadcast to WebSocket clients
-  broadcastHandSettled(ctx.tableId, args.handId, args.winnerSeat, args.potAmount);
+  broadcastHandSettled(ctx.tableId, args.handId, args.winnerSeat, args.potAmount, payouts);
 }
 
 export async function handleForceTimeout(
@@ -297,6 +626,60 @@ export async function handleForceTimeout(
   broadcastForceTimeout(ctx.tableId, args.handId, args.seatIndex, args.forcedAction);
 }
 
+export async function handleHoleCommitSubmitted(
+  log: Log,
+  args: { handId: bigint; seatIndex: number; commitment: string },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await upsertHoleCommitment(
+    ctx.tableId,
+    args.handId,
+    args.seatIndex,
+    args.commitment,
+    meta.blockNumber,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "HoleCommitSubmitted");
+  console.log(`[HoleCommitSubmitted] hand=${args.handId} seat=${args.seatIndex}`);
+
+  // Broadcast to WebSocket clients
+  broadcastHoleCommitSubmitted(ctx.tableId, args.handId, args.seatIndex, args.commitment);
+}
+
+export async function handleHoleCardsRevealed(
+  log: Log,
+  args: { handId: bigint; seatIndex: number; card1: number; card2: number },
+  ctx: EventContext
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  // Reveal is verified on-chain against the commitment, so it always follows HoleCommitSubmitted
+  await markHoleCardsRevealed(
+    ctx.tableId,
+    args.handId,
+    args.seatIndex,
+    args.card1,
+    args.card2,
+    meta.blockNumber,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "HoleCardsRevealed");
+  console.log(`[HoleCardsRevealed] hand=${args.handId} seat=${args.seatIndex} cards=[${args.card1},${args.card2}]`);
+
+  // Broadcast to WebSocket clients
+  broadcastHoleCardsRevealed(ctx.tableId, args.handId, args.seatIndex, args.card1, args.card2);
+}
+
 // ============ PlayerRegistry Event Handlers ============
 
 export async function handleAgentRegistered(
@@ -323,6 +706,18 @@ export async function handleAgentRegistered(
     args.table,
     args.metaURI
   );
+  await insertAgentEvent(
+    args.token,
+    "REGISTERED",
+    null,
+    args.owner.toLowerCase(),
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  await refreshLeaderboardStats({ tokenAddress: args.token });
+  broadcastAgentRegistered(args.token, args.owner, args.operator, args.vault, args.table, args.metaURI);
+  broadcastLeaderboardUpdated({ tokenAddress: args.token.toLowerCase() });
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "AgentRegistered");
   console.log(`[AgentRegistered] token=${args.token} owner=${args.owner}`);
@@ -338,6 +733,16 @@ export async function handleOperatorUpdated(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   await updateAgentOperator(args.token, args.newOperator);
+  await insertAgentEvent(
+    args.token,
+    "OPERATOR_UPDATED",
+    args.oldOperator.toLowerCase(),
+    args.newOperator.toLowerCase(),
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  broadcastAgentUpdated(args.token, "operator", args.oldOperator, args.newOperator);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "OperatorUpdated");
   console.log(`[OperatorUpdated] token=${args.token} ${args.oldOperator} -> ${args.newOperator}`);
@@ -353,6 +758,18 @@ export async function handleOwnerUpdated(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   await updateAgentOwner(args.token, args.newOwner);
+  await insertAgentEvent(
+    args.token,
+    "OWNER_UPDATED",
+    args.oldOwner.toLowerCase(),
+    args.newOwner.toLowerCase(),
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  await refreshLeaderboardStats({ tokenAddress: args.token });
+  broadcastAgentUpdated(args.token, "owner", args.oldOwner, args.newOwner);
+  broadcastLeaderboardUpdated({ tokenAddress: args.token.toLowerCase() });
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "OwnerUpdated");
   console.log(`[OwnerUpdated] token=${args.token} ${args.oldOwner} -> ${args.newOwner}`);
@@ -368,6 +785,18 @@ export async function handleVaultUpdated(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   await updateAgentVault(args.token, args.newVault);
+  await insertAgentEvent(
+    args.token,
+    "VAULT_UPDATED",
+    args.oldVault.toLowerCase(),
+    args.newVault.toLowerCase(),
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  await refreshLeaderboardStats({ tokenAddress: args.token });
+  broadcastAgentUpdated(args.token, "vault", args.oldVault, args.newVault);
+  broadcastLeaderboardUpdated({ tokenAddress: args.token.toLowerCase() });
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "VaultUpdated");
   console.log(`[VaultUpdated] token=${args.token} ${args.oldVault} -> ${args.newVault}`);
@@ -383,6 +812,16 @@ export async function handleTableUpdated(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   await updateAgentTable(args.token, args.newTable);
+  await insertAgentEvent(
+    args.token,
+    "TABLE_UPDATED",
+    args.oldTable.toLowerCase(),
+    args.newTable.toLowerCase(),
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  broadcastAgentUpdated(args.token, "table", args.oldTable, args.newTable);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "TableUpdated");
   console.log(`[TableUpdated] token=${args.token} ${args.oldTable} -> ${args.newTable}`);
@@ -398,6 +837,16 @@ export async function handleMetaURIUpdated(
   if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
 
   await updateAgentMetaUri(args.token, args.newMetaURI);
+  await insertAgentEvent(
+    args.token,
+    "META_URI_UPDATED",
+    args.oldMetaURI,
+    args.newMetaURI,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+  broadcastAgentUpdated(args.token, "metaUri", args.oldMetaURI, args.newMetaURI);
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "MetaURIUpdated");
   console.log(`[MetaURIUpdated] token=${args.token}`);
@@ -430,9 +879,209 @@ export async function handleVaultSnapshot(
     args.N,
     args.P,
     args.cumulativePnl,
+    meta.blockNumber,
+    getLogBlockTime(log)
+  );
+  await applyVaultSnapshotToLeaderboard(vaultAddress, args.P, args.cumulativePnl);
+
+  const agent = await getAgentByVault(vaultAddress);
+  broadcastVaultSnapshot(
+    vaultAddress,
+    agent?.token_address ?? null,
+    args.handId,
+    args.A,
+    args.B,
+    args.N,
+    args.P,
+    args.cumulativePnl,
     meta.blockNumber
   );
+  broadcastLeaderboardUpdated({ vaultAddress: vaultAddress.toLowerCase() });
 
   await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "VaultSnapshot");
   console.log(`[VaultSnapshot] vault=${vaultAddress} hand=${args.handId} A=${args.A} P=${args.P}`);
 }
+
+export async function handleRebalanceBuy(
+  log: Log,
+  args: {
+    handId: bigint;
+    monSpent: bigint;
+    tokensReceived: bigint;
+    executionPrice: bigint;
+    navPerShareBefore: bigint;
+    navPerShareAfter: bigint;
+  },
+  vaultAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await insertRebalance(
+    vaultAddress,
+    args.handId,
+    "BUY",
+    { monIn: 0n, monOut: args.monSpent, tokensIn: args.tokensReceived, tokensOut: 0n },
+    args.executionPrice,
+    args.navPerShareBefore,
+    args.navPerShareAfter,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "RebalanceBuy");
+  console.log(`[RebalanceBuy] vault=${vaultAddress} hand=${args.handId} mon=${args.monSpent} tokens=${args.tokensReceived}`);
+}
+
+export async function handleRebalanceSell(
+  log: Log,
+  args: {
+    handId: bigint;
+    tokensSold: bigint;
+    monReceived: bigint;
+    executionPrice: bigint;
+    navPerShareBefore: bigint;
+    navPerShareAfter: bigint;
+  },
+  vaultAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await insertRebalance(
+    vaultAddress,
+    args.handId,
+    "SELL",
+    { monIn: args.monReceived, monOut: 0n, tokensIn: 0n, tokensOut: args.tokensSold },
+    args.executionPrice,
+    args.navPerShareBefore,
+    args.navPerShareAfter,
+    meta.blockNumber,
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "RebalanceSell");
+  console.log(`[RebalanceSell] vault=${vaultAddress} hand=${args.handId} tokens=${args.tokensSold} mon=${args.monReceived}`);
+}
+
+export async function handleRebalanceConfigUpdated(
+  log: Log,
+  args: { nadfunLens: string; nadfunRouter: string; maxMonBps: bigint; maxTokenBps: bigint },
+  vaultAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await upsertRebalanceConfig(
+    vaultAddress,
+    args.nadfunLens,
+    args.nadfunRouter,
+    args.maxMonBps,
+    args.maxTokenBps,
+    meta.blockNumber
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "RebalanceConfigUpdated");
+  console.log(`[RebalanceConfigUpdated] vault=${vaultAddress} maxMonBps=${args.maxMonBps} maxTokenBps=${args.maxTokenBps}`);
+}
+
+export async function handleRebalanceDelaySet(
+  log: Log,
+  args: { handId: bigint; eligibleBlock: bigint; delayBlocks: bigint },
+  vaultAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await upsertRebalanceDelay(
+    vaultAddress,
+    args.handId,
+    args.eligibleBlock,
+    args.delayBlocks,
+    meta.blockNumber,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "RebalanceDelaySet");
+  console.log(`[RebalanceDelaySet] vault=${vaultAddress} hand=${args.handId} eligibleBlock=${args.eligibleBlock}`);
+}
+
+// ============ Nad.fun Router Event Handlers ============
+
+// MON wei paid or received per whole token (1e18 units), fees included
+export function tradePrice(monAmount: bigint, tokenAmount: bigint): bigint {
+  if (tokenAmount === 0n) return 0n;
+  return (monAmount * 10n ** 18n) / tokenAmount;
+}
+
+// CurveBuy and CurveSell share a layout; amountIn is MON for buys and tokens for sells
+export async function handleCurveTrade(
+  log: Log,
+  args: { to: string; token: string; actualAmountIn: bigint; effectiveAmountOut: bigint },
+  side: TradeSide,
+  routerAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  const monAmount = side === "BUY" ? args.actualAmountIn : args.effectiveAmountOut;
+  const tokenAmount = side === "BUY" ? args.effectiveAmountOut : args.actualAmountIn;
+  const price = tradePrice(monAmount, tokenAmount);
+
+  await insertTokenTrade(
+    args.token,
+    args.to,
+    side,
+    monAmount,
+    tokenAmount,
+    price,
+    routerAddress,
+    meta.blockNumber,
+    getLogBlockTime(log),
+    meta.logIndex,
+    meta.txHash
+  );
+  broadcastTokenTrade(args.token, args.to, side, monAmount, tokenAmount, price, meta.blockNumber, meta.txHash);
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, side === "BUY" ? "CurveBuy" : "CurveSell");
+  console.log(`[Curve${side === "BUY" ? "Buy" : "Sell"}] token=${args.token} trader=${args.to} mon=${monAmount} tokens=${tokenAmount}`);
+}
+
+// ============ Agent Token Event Handlers ============
+
+export async function handleTokenTransfer(
+  log: Log,
+  args: { from: string; to: string; amount: bigint },
+  tokenAddress: string
+): Promise<void> {
+  const meta = getLogMeta(log);
+  if (!meta) return;
+
+  if (await isEventProcessed(meta.blockNumber, meta.logIndex)) return;
+
+  await applyTokenTransfer(
+    tokenAddress,
+    args.from,
+    args.to,
+    args.amount,
+    meta.blockNumber,
+    getLogBlockTime(log),
+    meta.logIndex,
+    meta.txHash
+  );
+
+  await markEventProcessed(meta.blockNumber, meta.logIndex, meta.txHash, "Transfer");
+  console.log(`[Transfer] token=${tokenAddress} from=${args.from} to=${args.to} amount=${args.amount}`);
+}
@@ -1,27 +1,90 @@
 // Event listener - subscribes to chain events and dispatches to handlers
 
-import { createPublicClient, http, type Log, decodeEventLog, type Address } from "viem";
+import {
+  BaseError,
+  createPublicClient,
+  http,
+  type Log,
+  decodeEventLog,
+  encodeEventTopics,
+  type Address,
+  zeroHash,
+} from "viem";
 import { getChainConfig } from "@playerco/shared";
-import { pokerTableAbi, playerRegistryAbi, playerVaultAbi } from "./abis.js";
+import {
+  pokerTableAbi,
+  pokerTableReadAbi,
+  playerRegistryAbi,
+  playerVaultAbi,
+  nadfunRouterAbi,
+  agentTokenAbi,
+  agentTokenReadAbi,
+} from "./abis.js";
 import * as handlers from "./handlers.js";
-import { getAllAgents, getIndexerState, updateIndexerState, upsertSeat, upsertTable } from "../db/index.js";
+import { TableTracker, discoverRegistryAddresses } from "./tracking.js";
+import {
+  getAllAgents,
+  getAllTables,
+  getIndexerState,
+  getRecentBlockHashes,
+  getTokensWithoutTrades,
+  getTokensWithoutTransfers,
+  pruneBlockHashes,
+  pruneRollbackJournal,
+  refreshLeaderboardStats,
+  rollbackFromBlock,
+  saveBlockHashes,
+  transaction,
+  updateIndexerState,
+  upsertSeat,
+  upsertTable,
+  upsertTokenSupply,
+} from "../db/index.js";
+import type { Agent } from "../db/index.js";
+import { broadcastLeaderboardUpdated, broadcastReorg, getWsManager } from "../ws/index.js";
+import { enqueueWebhookEvents } from "../webhooks/index.js";
+
+function compareLogPosition(a: Log, b: Log): number {
+  const blockDiff = Number(a.blockNumber! - b.blockNumber!);
+  if (blockDiff !== 0) return blockDiff;
+  return a.logIndex! - b.logIndex!;
+}
+
+// Hands are stamped with their HandStarted block's time
+const HAND_STARTED_TOPIC = encodeEventTopics({ abi: pokerTableAbi, eventName: "HandStarted" })[0];
 
 export interface ListenerConfig {
-  pokerTableAddress: Address;
+  pokerTableAddresses: Address[];
   playerRegistryAddress: Address;
   playerVaultAddress?: Address;
+  // nad.fun routers whose CurveBuy/CurveSell events are indexed for registered agent tokens
+  nadfunRouterAddresses?: Address[];
   startBlock?: bigint;
   replayOnStart?: boolean;
   pollIntervalMs?: number;
   logBlockRange?: number;
+  // Blocks behind head whose hashes are kept and re-checked for reorgs
+  reorgConfirmationBlocks?: number;
+  // How often the rolling leaderboard periods are recomputed so old hands and snapshots age out
+  leaderboardRefreshMs?: number;
 }
 
 export class EventListener {
   private client;
   private config: ListenerConfig;
   private running = false;
-  private tableContext: handlers.EventContext;
+  private tables = new TableTracker();
   private trackedVaultAddresses = new Set<Address>();
+  private trackedTokenAddresses = new Set<Address>();
+  // Newly tracked tokens (loaded at startup or registered while running); those without any
+  // indexed Transfer or router trade have that history backfilled with the next block range
+  private pendingTokenBackfills = new Set<Address>();
+  // Deployment blocks located for this range's backfills, so each contract is bisected once
+  private deploymentBlocks = new Map<Address, Promise<bigint>>();
+  // Tokens whose stored totalSupply() may be out of date
+  private staleTokenSupplies = new Set<Address>();
+  private routerAddresses: Set<Address>;
+  private lastLeaderboardRefresh = 0;
   private static readonly ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
 
   constructor(config: ListenerConfig) {
@@ -33,16 +96,16 @@ export class EventListener {
       ...config,
       pollIntervalMs: config.pollIntervalMs ?? 2000,
       logBlockRange: Math.max(1, config.logBlockRange ?? 90),
+      reorgConfirmationBlocks: Math.max(1, config.reorgConfirmationBlocks ?? 32),
+      leaderboardRefreshMs: config.leaderboardRefreshMs ?? 60000,
     };
+    this.routerAddresses = new Set(
+      (config.nadfunRouterAddresses ?? []).map((address) => address.toLowerCase() as Address)
+    );
     this.trackVaultAddress(config.playerVaultAddress);
-
-    // Default table context - will be updated when we read table info
-    this.tableContext = {
-      tableId: 1n,
-      contractAddress: config.pokerTableAddress,
-      smallBlind: 10n,
-      bigBlind: 20n,
-    };
+    for (const address of config.pokerTableAddresses) {
+      this.tables.track(address);
+    }
   }
 
   async start(): Promise<void> {
@@ -51,9 +114,13 @@ export class EventListener {
 
     console.log("Starting event listener...");
     console.log(`Log block range: ${this.config.logBlockRange}`);
-    await this.seedSeatsFromChain();
-    await this.loadTrackedVaultAddresses();
-    console.log(`Tracking ${this.trackedVaultAddresses.size} vault address(es)`);
+    console.log(`Reorg confirmation window: ${this.config.reorgConfirmationBlocks} blocks`);
+    await this.loadTrackedAddresses();
+    await this.resolvePendingTables();
+    console.log(
+      `Tracking ${this.tables.size} table(s), ${this.trackedVaultAddresses.size} vault address(es), ` +
+        `${this.trackedTokenAddresses.size} agent token(s) on ${this.routerAddresses.size} router(s)`
+    );
 
     // Get last processed block from DB
     const state = await getIndexerState();
@@ -73,24 +140,39 @@ export class EventListener {
     }
 
     console.log(`Resuming from block ${fromBlock}`);
+    // Events only apply deltas, so start from rows that match the indexed history
+    await refreshLeaderboardStats();
 
     while (this.running) {
       try {
         const latestBlock = await this.client.getBlockNumber();
         let processedAny = false;
 
+        const forkBlock = await this.detectReorg(latestBlock);
+        if (forkBlock !== null && forkBlock < fromBlock) {
+          console.warn(`Reorg detected at head ${latestBlock}: rolling back to block ${forkBlock}`);
+          await this.rollback(forkBlock, latestBlock);
+          fromBlock = forkBlock;
+          this.lastLeaderboardRefresh = 0;
+        }
+
         while (this.running && fromBlock <= latestBlock) {
           // Process in RPC-safe chunks. Monad testnet RPC rejects large eth_getLogs ranges.
           const range = BigInt(this.config.logBlockRange! - 1);
           const toBlock = fromBlock + range < latestBlock ? fromBlock + range : latestBlock;
 
-          await this.processBlockRange(fromBlock, toBlock);
+          await this.processBlockRange(fromBlock, toBlock, latestBlock);
 
           fromBlock = toBlock + 1n;
-          await updateIndexerState(fromBlock, 0);
           processedAny = true;
         }
 
+        if (Date.now() - this.lastLeaderboardRefresh >= this.config.leaderboardRefreshMs!) {
+          await refreshLeaderboardStats({ rollingOnly: true });
+          this.lastLeaderboardRefresh = Date.now();
+          broadcastLeaderboardUpdated({});
+        }
+
         // Wait before next poll only when caught up.
         if (!processedAny) {
           await this.sleep(this.config.pollIntervalMs!);
@@ -106,33 +188,215 @@ export class EventListener {
     this.running = false;
   }
 
-  private async processBlockRange(fromBlock: bigint, toBlock: bigint): Promise<void> {
+  private async processBlockRange(fromBlock: bigint, toBlock: bigint, latestBlock: bigint): Promise<void> {
     console.log(`Processing blocks ${fromBlock} to ${toBlock}...`);
 
-    // Fetch table/registry first, then derive any new vault addresses before vault log query.
-    const [tableLogs, registryLogs] = await Promise.all([
+    // Read the range head hash before fetching logs: if a reorg lands in between, the
+    // next poll sees a mismatch and replays rather than trusting logs from a dead fork.
+    const windowStart = this.reorgWindowStart(latestBlock);
+    const headBlock = toBlock >= windowStart ? await this.client.getBlock({ blockNumber: toBlock }) : null;
+
+    // Fetch registry first, then derive any new table/vault addresses before their log queries.
+    // Tables and tokens discovered here get their logs from before this range backfilled.
+    const registryLogs = await this.fetchRegistryLogs(fromBlock, toBlock);
+    this.discoverAddressesFromRegistryLogs(registryLogs);
+    await this.resolvePendingTables();
+    const backfillTables = this.tables.getPendingBackfills();
+    const pendingTokens = Array.from(this.pendingTokenBackfills);
+    const [tableLogs, vaultLogs, routerLogs, tokenLogs, backfill] = await Promise.all([
       this.fetchPokerTableLogs(fromBlock, toBlock),
-      this.fetchRegistryLogs(fromBlock, toBlock),
+      this.fetchVaultLogs(fromBlock, toBlock),
+      this.fetchRouterLogs(fromBlock, toBlock),
+      this.fetchTokenLogs(Array.from(this.trackedTokenAddresses), fromBlock, toBlock),
+      this.fetchPendingBackfills(backfillTables, pendingTokens, fromBlock),
     ]);
-    this.discoverVaultAddressesFromRegistryLogs(registryLogs);
-    const vaultLogs = await this.fetchVaultLogs(fromBlock, toBlock);
+    const backfillLogs = [...backfill.tableLogs, ...backfill.transferLogs, ...backfill.tradeLogs].sort(
+      compareLogPosition
+    );
+    await this.fillBlockTimestamps([
+      ...[...tableLogs, ...backfill.tableLogs].filter((log) => log.topics[0] === HAND_STARTED_TOPIC),
+      ...vaultLogs,
+      ...routerLogs,
+      ...tokenLogs,
+      ...backfill.transferLogs,
+      ...backfill.tradeLogs,
+    ]);
+    const supplies = await this.readTokenSupplies([...tokenLogs, ...backfill.transferLogs], toBlock);
 
     // Sort all logs by block number and log index
-    const allLogs = [...tableLogs, ...registryLogs, ...vaultLogs].sort((a, b) => {
-      const blockDiff = Number(a.blockNumber! - b.blockNumber!);
-      if (blockDiff !== 0) return blockDiff;
-      return a.logIndex! - b.logIndex!;
-    });
+    const allLogs = [...tableLogs, ...registryLogs, ...vaultLogs, ...routerLogs, ...tokenLogs].sort(
+      compareLogPosition
+    );
+
+    // Apply the whole range and advance the cursor atomically; broadcasts wait for commit
+    // so clients never see events from a rolled-back range.
+    const wsManager = getWsManager();
+    wsManager.deferBroadcasts();
+    try {
+      await transaction(async () => {
+        // Backfilled history predates the cursor: it bypasses stream positions and is stored
+        // without being streamed or sent to webhooks
+        for (const log of backfillLogs) {
+          await this.dispatchLog(log);
+        }
+        wsManager.discardDeferred();
+        wsManager.deferBroadcasts();
+        for (const log of allLogs) {
+          await this.processLog(log);
+        }
+        for (const [token, supply] of supplies) {
+          await upsertTokenSupply(token, supply, toBlock);
+        }
+        await this.saveRecentBlockHashes(allLogs, toBlock, headBlock?.hash, windowStart);
+        // Row images only matter while their block can still be reorged out
+        await pruneRollbackJournal(windowStart);
+        await updateIndexerState(toBlock + 1n, 0);
+        await enqueueWebhookEvents(wsManager.getDeferred());
+      });
+    } catch (error) {
+      wsManager.discardDeferred();
+      throw error;
+    }
+    wsManager.flushDeferred();
+    this.deploymentBlocks.clear();
+    this.tables.completeBackfills(backfillTables);
+    for (const token of pendingTokens) {
+      this.pendingTokenBackfills.delete(token);
+    }
+    for (const token of supplies.keys()) {
+      this.staleTokenSupplies.delete(token);
+    }
+  }
 
-    // Process in order
-    for (const log of allLogs) {
-      await this.processLog(log);
+  // Roll back to the fork and tell clients and webhooks. The reorg webhook is queued with the
+  // rollback; WebSocket streams are rewound before the reorg message goes out.
+  private async rollback(forkBlock: bigint, latestBlock: bigint): Promise<void> {
+    const wsManager = getWsManager();
+    wsManager.deferBroadcasts();
+    let removedAgents: Agent[] = [];
+    try {
+      await transaction(async () => {
+        removedAgents = await rollbackFromBlock(forkBlock);
+        // Deltas from the orphaned blocks cannot be subtracted back out
+        await refreshLeaderboardStats();
+        wsManager.setEventPosition(forkBlock, 0);
+        broadcastReorg(forkBlock, latestBlock);
+        await enqueueWebhookEvents(wsManager.getDeferred());
+      });
+    } catch (error) {
+      wsManager.discardDeferred();
+      throw error;
+    }
+    wsManager.rewind(forkBlock);
+    wsManager.flushDeferred();
+    await this.untrackAgents(removedAgents);
+    // The rollback dropped supplies read on the orphaned fork
+    for (const token of this.trackedTokenAddresses) {
+      this.staleTokenSupplies.add(token);
+    }
+  }
+
+  // Stop indexing addresses that only a rolled-back registration brought in. Addresses still
+  // configured or referenced by a remaining agent stay tracked; the replay re-adds the rest if
+  // the registration lands again.
+  private async untrackAgents(removed: Agent[]): Promise<void> {
+    if (removed.length === 0) return;
+    const agents = await getAllAgents();
+    const referenced = (field: "vault_address" | "table_address", address: string) =>
+      agents.some((agent) => agent[field]?.toLowerCase() === address);
+    const configuredTables = new Set(this.config.pokerTableAddresses.map((address) => address.toLowerCase()));
+
+    for (const agent of removed) {
+      const token = agent.token_address.toLowerCase() as Address;
+      this.trackedTokenAddresses.delete(token);
+      this.pendingTokenBackfills.delete(token);
+      this.staleTokenSupplies.delete(token);
+
+      const vault = agent.vault_address?.toLowerCase() as Address | undefined;
+      if (vault && vault !== this.config.playerVaultAddress?.toLowerCase() && !referenced("vault_address", vault)) {
+        this.trackedVaultAddresses.delete(vault);
+      }
+
+      const table = agent.table_address?.toLowerCase() as Address | undefined;
+      if (table && !configuredTables.has(table) && !referenced("table_address", table)) {
+        this.tables.untrack(table);
+      }
+      console.log(`Untracked agent ${token} after its registration was rolled back`);
+    }
+  }
+
+  private async saveRecentBlockHashes(
+    logs: Log[],
+    toBlock: bigint,
+    headHash: string | undefined,
+    windowStart: bigint
+  ): Promise<void> {
+    if (headHash) {
+      const hashes = new Map<bigint, string>();
+      for (const log of logs) {
+        if (log.blockNumber !== null && log.blockHash && log.blockNumber >= windowStart) {
+          hashes.set(log.blockNumber, log.blockHash);
+        }
+      }
+      hashes.set(toBlock, headHash);
+      await saveBlockHashes(
+        Array.from(hashes.entries()).map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }))
+      );
+      await pruneBlockHashes(windowStart);
+    }
+  }
+
+  // Rows bucketed by time store their block's timestamp. Most RPCs leave blockTimestamp off
+  // logs, so it is read from the blocks themselves, a few requests at a time.
+  private async fillBlockTimestamps(logs: Log[]): Promise<void> {
+    const blockNumbers = Array.from(
+      new Set(logs.filter((log) => log.blockTimestamp == null).map((log) => log.blockNumber!))
+    );
+    const timestamps = new Map<bigint, bigint>();
+    for (let i = 0; i < blockNumbers.length; i += 10) {
+      const blocks = await Promise.all(
+        blockNumbers.slice(i, i + 10).map((blockNumber) => this.client.getBlock({ blockNumber }))
+      );
+      for (const block of blocks) {
+        timestamps.set(block.number, block.timestamp);
+      }
+    }
+    for (const log of logs) {
+      log.blockTimestamp ??= timestamps.get(log.blockNumber!);
     }
   }
 
+  private reorgWindowStart(latestBlock: bigint): bigint {
+    const window = BigInt(this.config.reorgConfirmationBlocks!);
+    return latestBlock > window ? latestBlock - window : 0n;
+  }
+
+  // Returns the first block to roll back from, or null when stored hashes still match.
+  // Only the newest stored hash is checked on the happy path: a match implies its ancestors match.
+  private async detectReorg(latestBlock: bigint): Promise<bigint | null> {
+    const stored = await getRecentBlockHashes(this.reorgWindowStart(latestBlock));
+    if (stored.length === 0) return null;
+
+    for (let i = 0; i < stored.length; i++) {
+      const blockNumber = BigInt(stored[i].block_number);
+      const block = await this.client.getBlock({ blockNumber }).catch(() => null);
+      if (block?.hash && block.hash.toLowerCase() === stored[i].block_hash) {
+        return i === 0 ? null : blockNumber + 1n;
+      }
+    }
+
+    const oldest = BigInt(stored[stored.length - 1].block_number);
+    console.error(
+      `Reorg deeper than ${this.config.reorgConfirmationBlocks} block confirmation window; rolling back to ${oldest}`
+    );
+    return oldest;
+  }
+
   private async fetchPokerTableLogs(fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+    const tableAddresses = this.tables.getAddresses();
+    if (tableAddresses.length === 0) return [];
     return this.client.getLogs({
-      address: this.config.pokerTableAddress,
+      address: tableAddresses.length === 1 ? tableAddresses[0] : tableAddresses,
       fromBlock,
       toBlock,
     });
@@ -156,19 +420,178 @@ export class EventListener {
     });
   }
 
+  // Only trade events are fetched; the router emits them for every token, so other tokens' trades are dropped here
+  private async fetchRouterLogs(fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+    const routerAddresses = Array.from(this.routerAddresses);
+    if (routerAddresses.length === 0 || this.trackedTokenAddresses.size === 0) return [];
+    const logs = await this.client.getLogs({
+      address: routerAddresses.length === 1 ? routerAddresses[0] : routerAddresses,
+      events: nadfunRouterAbi,
+      fromBlock,
+      toBlock,
+    });
+    return logs.filter((log) => this.trackedTokenAddresses.has(log.args.token?.toLowerCase() as Address));
+  }
+
+  // Trades of the given tokens only; token is indexed, so the RPC filters them, one event at a time
+  private async fetchRouterTradeLogs(tokenAddresses: Address[], fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+    const routerAddresses = Array.from(this.routerAddresses);
+    if (routerAddresses.length === 0 || tokenAddresses.length === 0) return [];
+    const logs = await Promise.all(
+      nadfunRouterAbi.map((event) =>
+        this.client.getLogs({
+          address: routerAddresses.length === 1 ? routerAddresses[0] : routerAddresses,
+          event,
+          args: { token: tokenAddresses },
+          fromBlock,
+          toBlock,
+        })
+      )
+    );
+    return logs.flat();
+  }
+
+  private async fetchTokenLogs(tokenAddresses: Address[], fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+    if (tokenAddresses.length === 0) return [];
+    return this.client.getLogs({
+      address: tokenAddresses.length === 1 ? tokenAddresses[0] : tokenAddresses,
+      event: agentTokenAbi[0],
+      fromBlock,
+      toBlock,
+    });
+  }
+
+  // Logs from before the range for newly resolved registry tables, and for newly tracked tokens
+  // without indexed Transfers or trades. Tokens are usually minted and traded before their
+  // AgentRegistered event, and tokens loaded at startup may predate any backfill.
+  private async fetchPendingBackfills(
+    tables: Address[],
+    tokens: Address[],
+    beforeBlock: bigint
+  ): Promise<{ tableLogs: Log[]; transferLogs: Log[]; tradeLogs: Log[] }> {
+    const [transferTokens, tradeTokens] = (await Promise.all([
+      getTokensWithoutTransfers(tokens),
+      getTokensWithoutTrades(tokens),
+    ])) as [Address[], Address[]];
+    const [tableLogs, transferLogs, tradeLogs] = await Promise.all([
+      this.fetchBackfillLogs("table events", tables, beforeBlock, (addresses, fromBlock, toBlock) =>
+        this.client.getLogs({ address: addresses, fromBlock, toBlock })
+      ),
+      this.fetchBackfillLogs("Transfers", transferTokens, beforeBlock, (addresses, fromBlock, toBlock) =>
+        this.fetchTokenLogs(addresses, fromBlock, toBlock)
+      ),
+      this.fetchBackfillLogs("router trades", tradeTokens, beforeBlock, (addresses, fromBlock, toBlock) =>
+        this.fetchRouterTradeLogs(addresses, fromBlock, toBlock)
+      ),
+    ]);
+    return { tableLogs, transferLogs, tradeLogs };
+  }
+
+  // Scans the contracts' logs from their earliest deployment (never before START_BLOCK) up to the
+  // range start, in RPC-safe chunks
+  private async fetchBackfillLogs(
+    label: string,
+    addresses: Address[],
+    beforeBlock: bigint,
+    fetchLogs: (addresses: Address[], fromBlock: bigint, toBlock: bigint) => Promise<Log[]>
+  ): Promise<Log[]> {
+    const startBlock = this.config.startBlock ?? 0n;
+    if (addresses.length === 0 || beforeBlock <= startBlock) return [];
+
+    let fromBlock = beforeBlock;
+    for (const address of addresses) {
+      if (!this.deploymentBlocks.has(address)) {
+        this.deploymentBlocks.set(address, this.findDeploymentBlock(address, startBlock, beforeBlock));
+      }
+      const deploymentBlock = await this.deploymentBlocks.get(address)!;
+      if (deploymentBlock < fromBlock) fromBlock = deploymentBlock;
+    }
+    console.log(`Backfilling ${label} for ${addresses.length} contract(s) from block ${fromBlock}`);
+
+    const logs: Log[] = [];
+    const range = BigInt(this.config.logBlockRange! - 1);
+    while (fromBlock < beforeBlock) {
+      const toBlock = fromBlock + range < beforeBlock - 1n ? fromBlock + range : beforeBlock - 1n;
+      logs.push(...(await fetchLogs(addresses, fromBlock, toBlock)));
+      fromBlock = toBlock + 1n;
+    }
+    return logs;
+  }
+
+  // First block in [fromBlock, beforeBlock) where the address has code, found by bisection.
+  // RPCs that cannot serve historical state get the whole range scanned instead.
+  private async findDeploymentBlock(address: Address, fromBlock: bigint, beforeBlock: bigint): Promise<bigint> {
+    let low = fromBlock;
+    let high = beforeBlock;
+    try {
+      while (low < high) {
+        const mid = (low + high) / 2n;
+        const code = await this.client.getCode({ address, blockNumber: mid });
+        if (code && code !== "0x") {
+          high = mid;
+        } else {
+          low = mid + 1n;
+        }
+      }
+      return low;
+    } catch (error) {
+      console.warn(`Could not locate deployment block of ${address}, scanning from ${fromBlock}:`, error);
+      return fromBlock;
+    }
+  }
+
+  // Supply only moves on mints and burns, so it is read at the range end for tokens with one in
+  // the range and for tokens not read yet. Failed reads stay stale and are retried next range.
+  private async readTokenSupplies(transferLogs: Log[], blockNumber: bigint): Promise<Map<Address, bigint>> {
+    for (const log of transferLogs) {
+      const [, from, to] = log.topics;
+      if (from === zeroHash || to === zeroHash) {
+        this.staleTokenSupplies.add(log.address.toLowerCase() as Address);
+      }
+    }
+
+    const supplies = new Map<Address, bigint>();
+    for (const token of this.staleTokenSupplies) {
+      try {
+        supplies.set(
+          token,
+          await this.client.readContract({
+            address: token,
+            abi: agentTokenReadAbi,
+            functionName: "totalSupply",
+            blockNumber,
+          })
+        );
+      } catch (error) {
+        console.warn(`Could not read totalSupply of ${token} at block ${blockNumber}:`, error);
+      }
+    }
+    return supplies;
+  }
+
   private async processLog(log: Log): Promise<void> {
-    const address = log.address.toLowerCase();
+    getWsManager().setEventPosition(log.blockNumber!, log.logIndex!);
+    await this.dispatchLog(log);
+  }
 
-    if (address === this.config.pokerTableAddress.toLowerCase()) {
-      await this.processPokerTableLog(log);
+  private async dispatchLog(log: Log): Promise<void> {
+    const address = log.address.toLowerCase() as Address;
+    const tableContext = this.tables.get(address);
+
+    if (tableContext) {
+      await this.processPokerTableLog(log, tableContext);
     } else if (address === this.config.playerRegistryAddress.toLowerCase()) {
       await this.processRegistryLog(log);
     } else if (this.trackedVaultAddresses.has(address as Address)) {
       await this.processVaultLog(log);
+    } else if (this.routerAddresses.has(address)) {
+      await this.processRouterLog(log);
+    } else if (this.trackedTokenAddresses.has(address)) {
+      await this.processTokenLog(log);
     }
   }
 
-  private async processPokerTableLog(log: Log): Promise<void> {
+  private async processPokerTableLog(log: Log, tableContext: handlers.EventContext): Promise<void> {
     try {
       const decoded = decodeEventLog({
         abi: pokerTableAbi,
@@ -181,67 +604,118 @@ export class EventListener {
           await handlers.handleSeatUpdated(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
+          );
+          break;
+        case "SeatTopUp":
+          await handlers.handleSeatTopUp(
+            log,
+            decoded.args as any,
+            tableContext
+          );
+          break;
+        case "SeatCashOut":
+          await handlers.handleSeatCashOut(
+            log,
+            decoded.args as any,
+            tableContext
+          );
+          break;
+        case "SeatClosed":
+          await handlers.handleSeatClosed(
+            log,
+            decoded.args as any,
+            tableContext
+          );
+          break;
+        case "SeatEvicted":
+          await handlers.handleSeatEvicted(
+            log,
+            decoded.args as any,
+            tableContext
           );
           break;
         case "HandStarted":
           await handlers.handleHandStarted(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "ActionTaken":
           await handlers.handleActionTaken(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "PotUpdated":
           await handlers.handlePotUpdated(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "BettingRoundComplete":
           await handlers.handleBettingRoundComplete(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "VRFRequested":
           await handlers.handleVRFRequested(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
+          );
+          break;
+        case "VRFReRequested":
+          await handlers.handleVRFReRequested(
+            log,
+            decoded.args as any,
+            tableContext
           );
           break;
         case "CommunityCardsDealt":
           await handlers.handleCommunityCardsDealt(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "HandSettled":
           await handlers.handleHandSettled(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
           );
           break;
         case "ForceTimeout":
           await handlers.handleForceTimeout(
             log,
             decoded.args as any,
-            this.tableContext
+            tableContext
+          );
+          break;
+        case "HoleCommitSubmitted":
+          await handlers.handleHoleCommitSubmitted(
+            log,
+            decoded.args as any,
+            tableContext
+          );
+          break;
+        case "HoleCardsRevealed":
+          await handlers.handleHoleCardsRevealed(
+            log,
+            decoded.args as any,
+            tableContext
           );
           break;
       }
     } catch (error) {
+      // Handler (DB) failures must abort the block's transaction; only skip undecodable logs
+      if (!(error instanceof BaseError)) throw error;
       console.error("Error decoding poker table log:", error);
     }
   }
@@ -256,7 +730,9 @@ export class EventListener {
 
       switch (decoded.eventName) {
         case "AgentRegistered":
+          this.trackTokenAddress((decoded.args as any).token);
           this.trackVaultAddress((decoded.args as any).vault);
+          this.tables.track((decoded.args as any).table, true);
           await handlers.handleAgentRegistered(log, decoded.args as any);
           break;
         case "OperatorUpdated":
@@ -270,6 +746,7 @@ export class EventListener {
           await handlers.handleVaultUpdated(log, decoded.args as any);
           break;
         case "TableUpdated":
+          this.tables.track((decoded.args as any).newTable, true);
           await handlers.handleTableUpdated(log, decoded.args as any);
           break;
         case "MetaURIUpdated":
@@ -277,6 +754,8 @@ export class EventListener {
           break;
       }
     } catch (error) {
+      // Handler (DB) failures must abort the block's transaction; only skip undecodable logs
+      if (!(error instanceof BaseError)) throw error;
       console.error("Error decoding registry log:", error);
     }
   }
@@ -297,12 +776,68 @@ export class EventListener {
             log.address
           );
           break;
+        case "RebalanceBuy":
+          await handlers.handleRebalanceBuy(log, decoded.args as any, log.address);
+          break;
+        case "RebalanceSell":
+          await handlers.handleRebalanceSell(log, decoded.args as any, log.address);
+          break;
+        case "RebalanceConfigUpdated":
+          await handlers.handleRebalanceConfigUpdated(log, decoded.args as any, log.address);
+          break;
+        case "RebalanceDelaySet":
+          await handlers.handleRebalanceDelaySet(log, decoded.args as any, log.address);
+          break;
       }
     } catch (error) {
+      // Handler (DB) failures must abort the block's transaction; only skip undecodable logs
+      if (!(error instanceof BaseError)) throw error;
       console.error("Error decoding vault log:", error);
     }
   }
 
+  private async processRouterLog(log: Log): Promise<void> {
+    try {
+      const decoded = decodeEventLog({
+        abi: nadfunRouterAbi,
+        data: log.data,
+        topics: log.topics,
+      });
+      if (!this.trackedTokenAddresses.has(decoded.args.token.toLowerCase() as Address)) return;
+
+      switch (decoded.eventName) {
+        case "CurveBuy":
+          await handlers.handleCurveTrade(log, decoded.args, "BUY", log.address);
+          break;
+        case "CurveSell":
+          await handlers.handleCurveTrade(log, decoded.args, "SELL", log.address);
+          break;
+      }
+    } catch (error) {
+      // Handler (DB) failures must abort the block's transaction; only skip undecodable logs
+      if (!(error instanceof BaseError)) throw error;
+      console.error("Error decoding router log:", error);
+    }
+  }
+
+  private async processTokenLog(log: Log): Promise<void> {
+    try {
+      const decoded = decodeEventLog({
+        abi: agentTokenAbi,
+        data: log.data,
+        topics: log.topics,
+      });
+
+      if (decoded.eventName === "Transfer") {
+        await handlers.handleTokenTransfer(log, decoded.args, log.address);
+      }
+    } catch (error) {
+      // Handler (DB) failures must abort the block's transaction; only skip undecodable logs
+      if (!(error instanceof BaseError)) throw error;
+      console.error("Error decoding agent token log:", error);
+    }
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -314,129 +849,104 @@ export class EventListener {
     this.trackedVaultAddresses.add(normalized);
   }
 
-  private async loadTrackedVaultAddresses(): Promise<void> {
-    const agents = await getAllAgents();
+  private trackTokenAddress(address?: string): void {
+    if (!address) return;
+    const normalized = address.toLowerCase() as Address;
+    if (normalized === EventListener.ZERO_ADDRESS || this.trackedTokenAddresses.has(normalized)) return;
+    this.trackedTokenAddresses.add(normalized);
+    this.pendingTokenBackfills.add(normalized);
+    this.staleTokenSupplies.add(normalized);
+  }
+
+  private async loadTrackedAddresses(): Promise<void> {
+    const [agents, tables] = await Promise.all([getAllAgents(), getAllTables()]);
+    for (const table of tables) {
+      this.tables.track(table.contract_address);
+    }
+    // An agent's table missing from poker_tables never resolved, so none of its history is indexed
+    const indexedTables = new Set(tables.map((table) => table.contract_address.toLowerCase()));
     for (const agent of agents) {
+      this.trackTokenAddress(agent.token_address);
       this.trackVaultAddress(agent.vault_address || undefined);
+      if (agent.table_address && !indexedTables.has(agent.table_address.toLowerCase())) {
+        this.tables.track(agent.table_address, true);
+      }
     }
   }
 
-  private discoverVaultAddressesFromRegistryLogs(logs: Log[]): void {
-    for (const log of logs) {
-      try {
-        const decoded = decodeEventLog({
-          abi: playerRegistryAbi,
-          data: log.data,
-          topics: log.topics,
-        });
+  private discoverAddressesFromRegistryLogs(logs: Log[]): void {
+    const { tokens, vaults, tables } = discoverRegistryAddresses(logs);
+    for (const address of tokens) {
+      this.trackTokenAddress(address);
+    }
+    for (const address of vaults) {
+      this.trackVaultAddress(address);
+    }
+    for (const address of tables) {
+      this.tables.track(address, true);
+    }
+  }
 
-        if (decoded.eventName === "AgentRegistered") {
-          this.trackVaultAddress((decoded.args as any).vault);
-        } else if (decoded.eventName === "VaultUpdated") {
-          this.trackVaultAddress((decoded.args as any).newVault);
-        }
-      } catch {
-        // Ignore decode failures in discovery pass; processRegistryLog handles reporting.
+  // Read context for newly discovered tables. Addresses that fail to resolve stay
+  // pending and are retried on the next block range.
+  private async resolvePendingTables(): Promise<void> {
+    for (const address of this.tables.getPending()) {
+      const ctx = await this.readTableContext(address);
+      if (!ctx) continue;
+
+      const conflict = this.tables.resolve(address, ctx);
+      if (conflict) {
+        console.warn(
+          `Ignoring table ${address}: tableId ${ctx.tableId} already indexed for ${conflict.contractAddress}`
+        );
+        continue;
+      }
+
+      await upsertTable(ctx.tableId, ctx.contractAddress, ctx.smallBlind, ctx.bigBlind);
+      // Backfilled tables get their seats from the replayed history
+      if (!this.tables.needsBackfill(address)) {
+        await this.seedSeatsFromChain(ctx);
       }
+      console.log(`Tracking table ${ctx.tableId} at ${address}`);
     }
   }
 
-  private async seedSeatsFromChain(): Promise<void> {
-    const tableReadAbi = [
-      {
-        type: "function",
-        name: "tableId",
-        stateMutability: "view",
-        inputs: [],
-        outputs: [{ type: "uint256" }],
-      },
-      {
-        type: "function",
-        name: "smallBlind",
-        stateMutability: "view",
-        inputs: [],
-        outputs: [{ type: "uint256" }],
-      },
-      {
-        type: "function",
-        name: "bigBlind",
-        stateMutability: "view",
-        inputs: [],
-        outputs: [{ type: "uint256" }],
-      },
-      {
-        type: "function",
-        name: "MAX_SEATS",
-        stateMutability: "view",
-        inputs: [],
-        outputs: [{ type: "uint8" }],
-      },
-      {
-        type: "function",
-        name: "getSeat",
-        stateMutability: "view",
-        inputs: [{ name: "seatIndex", type: "uint8" }],
-        outputs: [
-          {
-            type: "tuple",
-            components: [
-              { name: "owner", type: "address" },
-              { name: "operator", type: "address" },
-              { name: "stack", type: "uint256" },
-              { name: "isActive", type: "bool" },
-              { name: "currentBet", type: "uint256" },
-            ],
-          },
-        ],
-      },
-    ] as const;
-
-    const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
-
+  private async readTableContext(address: Address): Promise<handlers.EventContext | null> {
     try {
-      const [tableId, smallBlind, bigBlind, maxSeatsRaw] = await Promise.all([
-        this.client.readContract({
-          address: this.config.pokerTableAddress,
-          abi: tableReadAbi,
-          functionName: "tableId",
-        }),
-        this.client.readContract({
-          address: this.config.pokerTableAddress,
-          abi: tableReadAbi,
-          functionName: "smallBlind",
-        }),
-        this.client.readContract({
-          address: this.config.pokerTableAddress,
-          abi: tableReadAbi,
-          functionName: "bigBlind",
-        }),
-        this.client.readContract({
-          address: this.config.pokerTableAddress,
-          abi: tableReadAbi,
-          functionName: "MAX_SEATS",
-        }),
+      const [tableId, smallBlind, bigBlind] = await Promise.all([
+        this.client.readContract({ address, abi: pokerTableReadAbi, functionName: "tableId" }),
+        this.client.readContract({ address, abi: pokerTableReadAbi, functionName: "smallBlind" }),
+        this.client.readContract({ address, abi: pokerTableReadAbi, functionName: "bigBlind" }),
       ]);
 
-      this.tableContext = {
+      return {
         tableId: tableId as bigint,
-        contractAddress: this.config.pokerTableAddress,
+        contractAddress: address,
         smallBlind: smallBlind as bigint,
         bigBlind: bigBlind as bigint,
       };
+    } catch (error) {
+      console.error(`Failed to read table context for ${address} (will retry):`, error);
+      return null;
+    }
+  }
 
-      await upsertTable(
-        this.tableContext.tableId,
-        this.tableContext.contractAddress,
-        this.tableContext.smallBlind,
-        this.tableContext.bigBlind
-      );
+  private async seedSeatsFromChain(ctx: handlers.EventContext): Promise<void> {
+    const address = ctx.contractAddress as Address;
+
+    try {
+      const maxSeatsRaw = await this.client.readContract({
+        address,
+        abi: pokerTableReadAbi,
+        functionName: "MAX_SEATS",
+      });
 
       const maxSeats = Number(maxSeatsRaw);
       const seatResults = await Promise.all(
         Array.from({ length: maxSeats }, (_, seatIndex) =>
           this.client.readContract({
-            address: this.config.pokerTableAddress,
-            abi: tableReadAbi,
+            address,
+            abi: pokerTableReadAbi,
             functionName: "getSeat",
             args: [seatIndex],
           })
@@ -452,9 +962,9 @@ export class EventListener {
           isActive: boolean;
           currentBet: bigint;
         };
-        if (seat.owner.toLowerCase() === ZERO_ADDRESS) continue;
+        if (seat.owner.toLowerCase() === EventListener.ZERO_ADDRESS) continue;
         await upsertSeat(
-          this.tableContext.tableId,
+          ctx.tableId,
           seatIndex,
           seat.owner,
           seat.operator,
@@ -466,10 +976,10 @@ export class EventListener {
       }
 
       console.log(
-        `Seeded seat snapshot from chain: ${occupiedSeats}/${maxSeats} occupied seats for table ${this.tableContext.tableId}`
+        `Seeded seat snapshot from chain: ${occupiedSeats}/${maxSeats} occupied seats for table ${ctx.tableId}`
       );
     } catch (error) {
-      console.error("Failed to seed seat snapshot from chain (continuing with log replay):", error);
+      console.error(`Failed to seed seat snapshot for table ${ctx.tableId} (continuing with log replay):`, error);
     }
   }
 }
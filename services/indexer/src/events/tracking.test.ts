@@ -0,0 +1,127 @@
+// Table tracking and registry discovery tests
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { encodeAbiParameters, encodeEventTopics, type Address, type Hex, type Log } from "viem";
+import { playerRegistryAbi } from "./abis.js";
+import { TableTracker, discoverRegistryAddresses } from "./tracking.js";
+import type { EventContext } from "./handlers.js";
+
+const TOKEN = "0x" + "a1".repeat(20);
+const OWNER = "0x" + "b1".repeat(20);
+const VAULT = "0x" + "c1".repeat(20);
+const TABLE_A = "0x" + "d1".repeat(20);
+const TABLE_B = "0x" + "d2".repeat(20);
+const TABLE_C = "0x" + "d3".repeat(20);
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+function registryLog(topics: Hex[], data: Hex = "0x"): Log {
+  return { address: "0x" + "ee".repeat(20), topics, data } as unknown as Log;
+}
+
+function agentRegistered(vault: string, table: string): Log {
+  return registryLog(
+    encodeEventTopics({
+      abi: playerRegistryAbi,
+      eventName: "AgentRegistered",
+      args: { token: TOKEN as Address, owner: OWNER as Address },
+    }) as Hex[],
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "address" }, { type: "string" }],
+      [vault as Address, table as Address, OWNER as Address, "ipfs://agent"]
+    )
+  );
+}
+
+function tableUpdated(oldTable: string, newTable: string): Log {
+  return registryLog(
+    encodeEventTopics({
+      abi: playerRegistryAbi,
+      eventName: "TableUpdated",
+      args: { token: TOKEN as Address, oldTable: oldTable as Address, newTable: newTable as Address },
+    }) as Hex[]
+  );
+}
+
+function context(tableId: bigint, address: string): EventContext {
+  return { tableId, contractAddress: address, smallBlind: 10n, bigBlind: 20n };
+}
+
+describe("discoverRegistryAddresses", () => {
+  it("should collect every table an agent registers with or moves to, in log order", () => {
+    const found = discoverRegistryAddresses([
+      agentRegistered(VAULT, TABLE_A),
+      registryLog(["0x" + "00".repeat(32)] as Hex[]),
+      tableUpdated(TABLE_A, TABLE_B),
+    ]);
+
+    const lower = (addresses: string[]) => addresses.map((address) => address.toLowerCase());
+    assert.deepStrictEqual(lower(found.tokens), [TOKEN]);
+    assert.deepStrictEqual(lower(found.vaults), [VAULT]);
+    assert.deepStrictEqual(lower(found.tables), [TABLE_A, TABLE_B]);
+  });
+});
+
+describe("TableTracker", () => {
+  it("should index several tables side by side once their context resolves", () => {
+    const tables = new TableTracker();
+    tables.track(TABLE_A);
+    tables.track(TABLE_B);
+    tables.track(ZERO);
+    tables.track(null);
+    assert.deepStrictEqual(tables.getPending(), [TABLE_A, TABLE_B]);
+
+    assert.strictEqual(tables.resolve(TABLE_A as Address, context(1n, TABLE_A)), null);
+    assert.deepStrictEqual(tables.getPending(), [TABLE_B]);
+    assert.strictEqual(tables.resolve(TABLE_B as Address, context(2n, TABLE_B)), null);
+
+    assert.deepStrictEqual(tables.getAddresses(), [TABLE_A, TABLE_B]);
+    assert.strictEqual(tables.get(TABLE_B as Address)?.tableId, 2n);
+    assert.strictEqual(tables.track(TABLE_A), false);
+    assert.deepStrictEqual(tables.getPending(), []);
+  });
+
+  it("should backfill tables discovered from the registry once resolved, but not configured ones", () => {
+    const tables = new TableTracker();
+    tables.track(TABLE_A);
+    const discovered = discoverRegistryAddresses([agentRegistered(VAULT, TABLE_B), tableUpdated(TABLE_B, TABLE_C)]);
+    for (const table of discovered.tables) {
+      tables.track(table, true);
+    }
+    tables.resolve(TABLE_A as Address, context(1n, TABLE_A));
+    tables.resolve(TABLE_B as Address, context(2n, TABLE_B));
+    assert.deepStrictEqual(tables.getPendingBackfills(), [TABLE_B]);
+    assert.strictEqual(tables.needsBackfill(TABLE_A as Address), false);
+
+    tables.completeBackfills([TABLE_B as Address]);
+    tables.resolve(TABLE_C as Address, context(3n, TABLE_C));
+    assert.deepStrictEqual(tables.getPendingBackfills(), [TABLE_C]);
+    assert.deepStrictEqual(tables.getAddresses(), [TABLE_A, TABLE_B, TABLE_C]);
+  });
+
+  it("should drop an address whose tableId is already indexed elsewhere", () => {
+    const tables = new TableTracker();
+    tables.track(TABLE_A);
+    tables.track(TABLE_B, true);
+    tables.resolve(TABLE_A as Address, context(1n, TABLE_A));
+
+    const conflict = tables.resolve(TABLE_B as Address, context(1n, TABLE_B));
+    assert.strictEqual(conflict?.contractAddress, TABLE_A);
+    assert.deepStrictEqual(tables.getAddresses(), [TABLE_A]);
+    assert.deepStrictEqual(tables.getPending(), []);
+    assert.deepStrictEqual(tables.getPendingBackfills(), []);
+  });
+
+  it("should forget an untracked table so a later registration tracks it afresh", () => {
+    const tables = new TableTracker();
+    tables.track(TABLE_A, true);
+    tables.resolve(TABLE_A as Address, context(1n, TABLE_A));
+    tables.untrack(TABLE_A as Address);
+    assert.deepStrictEqual(tables.getAddresses(), []);
+    assert.deepStrictEqual(tables.getPendingBackfills(), []);
+
+    assert.strictEqual(tables.track(TABLE_A, true), true);
+    tables.resolve(TABLE_A as Address, context(1n, TABLE_A));
+    assert.deepStrictEqual(tables.getPendingBackfills(), [TABLE_A]);
+  });
+});
@@ -0,0 +1,116 @@
+// Contracts the listener indexes, as learned from config, the database and registry events
+
+import { decodeEventLog, type Address, type Log } from "viem";
+import { playerRegistryAbi } from "./abis.js";
+import type { EventContext } from "./handlers.js";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface RegistryAddresses {
+  tokens: string[];
+  vaults: string[];
+  tables: string[];
+}
+
+// Agent token, vault and table addresses named by registry logs, in log order. Logs that do not
+// decode are skipped here; processRegistryLog reports them.
+export function discoverRegistryAddresses(logs: Log[]): RegistryAddresses {
+  const found: RegistryAddresses = { tokens: [], vaults: [], tables: [] };
+  for (const log of logs) {
+    try {
+      const decoded = decodeEventLog({
+        abi: playerRegistryAbi,
+        data: log.data,
+        topics: log.topics,
+      });
+
+      if (decoded.eventName === "AgentRegistered") {
+        found.tokens.push(decoded.args.token);
+        found.vaults.push(decoded.args.vault);
+        found.tables.push(decoded.args.table);
+      } else if (decoded.eventName === "VaultUpdated") {
+        found.vaults.push(decoded.args.newVault);
+      } else if (decoded.eventName === "TableUpdated") {
+        found.tables.push(decoded.args.newTable);
+      }
+    } catch {
+      // Ignore decode failures in discovery pass
+    }
+  }
+  return found;
+}
+
+/**
+ * PokerTable contracts to index. An address stays pending until its context is read from the
+ * contract. Tables learned from the registry were usually in play before their registration, so
+ * once resolved they also wait for their earlier logs to be backfilled.
+ */
+export class TableTracker {
+  // Table contract address (lowercase) -> context read from that contract
+  private contexts = new Map<Address, EventContext>();
+  // Table addresses we know about but have not yet read context for
+  private pending = new Set<Address>();
+  private pendingBackfills = new Set<Address>();
+
+  // Returns whether the address is new or still unresolved
+  track(address: string | null | undefined, backfill = false): boolean {
+    if (!address) return false;
+    const normalized = address.toLowerCase() as Address;
+    if (normalized === ZERO_ADDRESS || this.contexts.has(normalized)) return false;
+    this.pending.add(normalized);
+    if (backfill) {
+      this.pendingBackfills.add(normalized);
+    }
+    return true;
+  }
+
+  getPending(): Address[] {
+    return Array.from(this.pending);
+  }
+
+  // Starts indexing the address, unless its tableId is already indexed at another address: the
+  // address is then dropped and that table returned
+  resolve(address: Address, ctx: EventContext): EventContext | null {
+    this.pending.delete(address);
+    const conflict = Array.from(this.contexts.values()).find((existing) => existing.tableId === ctx.tableId);
+    if (conflict) {
+      this.pendingBackfills.delete(address);
+      return conflict;
+    }
+    this.contexts.set(address, ctx);
+    return null;
+  }
+
+  get(address: Address): EventContext | undefined {
+    return this.contexts.get(address);
+  }
+
+  getAddresses(): Address[] {
+    return Array.from(this.contexts.keys());
+  }
+
+  get size(): number {
+    return this.contexts.size;
+  }
+
+  // Resolved tables whose earlier logs are still to be backfilled
+  getPendingBackfills(): Address[] {
+    return Array.from(this.pendingBackfills).filter((address) => this.contexts.has(address));
+  }
+
+  needsBackfill(address: Address): boolean {
+    return this.pendingBackfills.has(address);
+  }
+
+  completeBackfills(addresses: Address[]): void {
+    for (const address of addresses) {
+      this.pendingBackfills.delete(address);
+    }
+  }
+
+  untrack(address: Address): void {
+    this.contexts.delete(address);
+    this.pending.delete(address);
+    this.pendingBackfills.delete(address);
+  }
+}
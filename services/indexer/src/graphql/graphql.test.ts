@@ -0,0 +1,495 @@
+// GraphQL tests
+
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { getOperationAST, graphql, parse, subscribe } from "graphql";
+import { BatchLoader } from "./loader.js";
+import type { GraphqlDataSource } from "./loaders.js";
+import {
+  buildGraphqlSchema,
+  createContext,
+  decodeAgentCursor,
+  decodeSnapshotCursor,
+  decodeTableCursor,
+  encodeTableCursor,
+} from "./schema.js";
+import { TopicStream } from "./subscriptions.js";
+import { DEFAULT_QUERY_LIMITS, checkQueryLimits, measureQuery } from "./limits.js";
+import { WsManager, getWsManager, resetWsManager } from "../ws/manager.js";
+import type { Action, Agent, Hand, PokerTable, Seat, Settlement, VaultSnapshot } from "../db/types.js";
+
+const OWNER_1 = "0x1111111111111111111111111111111111111111";
+const OWNER_2 = "0x2222222222222222222222222222222222222222";
+const TOKEN_1 = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const VAULT_1 = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+function table(id: number, currentHandId: number): PokerTable {
+  return {
+    table_id: String(id),
+    contract_address: `0x${String(id).padStart(40, "0")}`,
+    small_blind: "10",
+    big_blind: "20",
+    current_hand_id: String(currentHandId),
+    game_state: "BETTING_PRE",
+    button_seat: 0,
+    action_deadline: null,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+function seat(tableId: number, seatIndex: number, owner: string): Seat {
+  return {
+    table_id: String(tableId),
+    seat_index: seatIndex,
+    owner_address: owner,
+    operator_address: owner,
+    stack: "1000",
+    is_active: true,
+    current_bet: "0",
+    updated_at: now,
+  };
+}
+
+function hand(tableId: number, handId: number): Hand {
+  return {
+    hand_id: String(handId),
+    table_id: String(tableId),
+    pot: "40",
+    current_bet: "20",
+    actor_seat: 0,
+    game_state: "SETTLED",
+    button_seat: 0,
+    small_blind: "10",
+    big_blind: "20",
+    community_cards: [1, 2, 3],
+    winner_seat: 0,
+    winner_seats: [0],
+    settlement_amount: "40",
+    started_block: "100",
+    showdown_block: null,
+    started_at: now,
+    settled_at: now,
+  };
+}
+
+function action(id: number, tableId: number, handId: number): Action {
+  return {
+    id,
+    table_id: String(tableId),
+    hand_id: String(handId),
+    seat_index: 0,
+    action_type: "CALL",
+    amount: "10",
+    pot_after: "40",
+    block_number: "101",
+    tx_hash: "0xtx",
+    street_end_block: null,
+    ends_street: false,
+    created_at: now,
+  };
+}
+
+const agent: Agent = {
+  token_address: TOKEN_1,
+  vault_address: VAULT_1,
+  table_address: table(1, 2).contract_address,
+  owner_address: OWNER_1,
+  operator_address: OWNER_1,
+  meta_uri: null,
+  is_registered: true,
+  created_at: now,
+  updated_at: now,
+};
+
+function snapshot(id: number, blockNumber: number): VaultSnapshot {
+  return {
+    id,
+    vault_address: VAULT_1,
+    hand_id: "2",
+    external_assets: "1000",
+    treasury_shares: "0",
+    outstanding_shares: "1000",
+    nav_per_share: "1000000000000000000",
+    cumulative_pnl: "0",
+    block_number: String(blockNumber),
+    block_time: now,
+    created_at: now,
+  };
+}
+
+const settlement: Settlement = {
+  id: 1,
+  table_id: "1",
+  hand_id: "2",
+  winner_seat: 0,
+  pot_amount: "40",
+  seat_index: 0,
+  owner_address: "0xowner",
+  amount_won: "40",
+  amount_contributed: "20",
+  net_amount: "20",
+  block_number: "102",
+  tx_hash: "0xtx",
+  created_at: now,
+};
+
+// In-memory data source recording how often each function is called
+function createFixtures() {
+  const tables = [table(1, 2), table(2, 3), table(3, 0)];
+  const seats = [seat(1, 0, OWNER_1), seat(1, 1, OWNER_2), seat(2, 0, OWNER_1)];
+  const hands = [hand(1, 1), hand(1, 2), hand(2, 3)];
+  const actions = [action(1, 1, 2), action(2, 1, 2), action(3, 2, 3)];
+  const snapshots = [snapshot(1, 100), snapshot(2, 110), snapshot(3, 120)];
+  const calls: Record<string, number> = {};
+  const count = (name: string) => {
+    calls[name] = (calls[name] ?? 0) + 1;
+  };
+  const handMatches = (keys: { tableId: bigint; handId: bigint }[]) => (row: { table_id: string; hand_id: string }) =>
+    keys.some((key) => String(key.tableId) === row.table_id && String(key.handId) === row.hand_id);
+
+  const data: GraphqlDataSource = {
+    getTablesByIds: async (ids) => (count("getTablesByIds"), tables.filter((t) => ids.includes(BigInt(t.table_id)))),
+    getTablesByAddresses: async (addresses) => (
+      count("getTablesByAddresses"), tables.filter((t) => addresses.includes(t.contract_address))
+    ),
+    getTablesPage: async (after, limit) => (
+      count("getTablesPage"), tables.filter((t) => after === null || BigInt(t.table_id) > after).slice(0, limit)
+    ),
+    getSeatsForTables: async (ids) => (count("getSeatsForTables"), seats.filter((s) => ids.includes(BigInt(s.table_id)))),
+    getHandsByKeys: async (keys) => (count("getHandsByKeys"), hands.filter(handMatches(keys))),
+    getTableHandPages: async (keys) => {
+      count("getTableHandPages");
+      return keys.flatMap((key, i) =>
+        hands
+          .filter((h) => h.table_id === String(key.tableId))
+          .filter((h) => key.beforeHandId === null || BigInt(h.hand_id) < key.beforeHandId)
+          .sort((a, b) => Number(b.hand_id) - Number(a.hand_id))
+          .slice(0, key.limit)
+          .map((h) => ({ ...h, page_index: i + 1 }))
+      );
+    },
+    countTableHands: async (ids) => {
+      count("countTableHands");
+      return ids
+        .map((id) => ({ table_id: String(id), total: hands.filter((h) => h.table_id === String(id)).length }))
+        .filter((row) => row.total > 0);
+    },
+    getActionsForHands: async (keys) => (count("getActionsForHands"), actions.filter(handMatches(keys))),
+    getSettlementsForHands: async (keys) => (count("getSettlementsForHands"), [settlement].filter(handMatches(keys))),
+    getAgentsByTokens: async (tokens) => (count("getAgentsByTokens"), [agent].filter((a) => tokens.includes(a.token_address))),
+    getAgentsByOwners: async (owners) => (count("getAgentsByOwners"), [agent].filter((a) => owners.includes(a.owner_address))),
+    getAgentsPage: async (after, limit) => (count("getAgentsPage"), after ? [] : [agent].slice(0, limit)),
+    getLatestVaultSnapshots: async (vaults) => (
+      count("getLatestVaultSnapshots"), vaults.includes(VAULT_1) ? [snapshots[2]] : []
+    ),
+    getVaultSnapshotPages: async (keys) => {
+      count("getVaultSnapshotPages");
+      return keys.flatMap((key, i) =>
+        [...snapshots]
+          .reverse()
+          .filter((s) => s.vault_address === key.vaultAddress)
+          .filter((s) => key.before === null || BigInt(s.block_number) < key.before.blockNumber)
+          .slice(0, key.limit)
+          .map((s) => ({ ...s, page_index: i + 1 }))
+      );
+    },
+  };
+
+  return { data, calls };
+}
+
+const schema = buildGraphqlSchema();
+
+async function run(source: string, data: GraphqlDataSource, variableValues?: Record<string, unknown>) {
+  return graphql({ schema, source, variableValues, contextValue: createContext(data) });
+}
+
+describe("BatchLoader", () => {
+  test("collects loads from the same tick into one batch and dedupes keys", async () => {
+    const batches: number[][] = [];
+    const loader = new BatchLoader<number, string>(async (keys) => {
+      batches.push(keys);
+      return keys.map((key) => `v${key}`);
+    });
+
+    const values = await Promise.all([loader.load(1), loader.load(2), loader.load(1)]);
+    assert.deepStrictEqual(values, ["v1", "v2", "v1"]);
+    assert.deepStrictEqual(batches, [[1, 2]]);
+
+    // Cached for the rest of the operation
+    assert.strictEqual(await loader.load(2), "v2");
+    assert.strictEqual(batches.length, 1);
+  });
+
+  test("rejects every key of a failed batch and retries them on the next load", async () => {
+    let fail = true;
+    const loader = new BatchLoader<number, number>(async (keys) => {
+      if (fail) throw new Error("db down");
+      return keys;
+    });
+
+    const results = await Promise.allSettled([loader.load(1), loader.load(2)]);
+    assert.ok(results.every((result) => result.status === "rejected"));
+
+    fail = false;
+    assert.strictEqual(await loader.load(1), 1);
+  });
+
+  test("rejects when the batch returns the wrong number of values", async () => {
+    const loader = new BatchLoader<number, number>(async () => []);
+    await assert.rejects(loader.load(1), /0 values for 1 keys/);
+  });
+});
+
+describe("GraphQL queries", () => {
+  test("resolves nested relationships with one query per relationship", async () => {
+    const { data, calls } = createFixtures();
+    const result = await run(
+      `{
+        tables(first: 3) {
+          edges {
+            node {
+              tableId
+              seats { seatIndex ownerAddress table { tableId } agent { tokenAddress } }
+              currentHand {
+                handId
+                reachedShowdown
+                actions { actionType hand { handId } }
+                settlements { potAmount hand { handId } }
+              }
+            }
+          }
+        }
+      }`,
+      data
+    );
+
+    assert.strictEqual(result.errors, undefined);
+    const edges = (result.data as any).tables.edges;
+    assert.strictEqual(edges.length, 3);
+    assert.deepStrictEqual(
+      edges[0].node.seats.map((s: any) => [s.seatIndex, s.agent?.tokenAddress ?? null]),
+      [
+        [0, TOKEN_1],
+        [1, null],
+      ]
+    );
+    assert.strictEqual(edges[0].node.currentHand.actions.length, 2);
+    assert.strictEqual(edges[0].node.currentHand.settlements[0].potAmount, "40");
+    assert.strictEqual(edges[1].node.currentHand.actions.length, 1);
+    assert.strictEqual(edges[2].node.currentHand, null);
+
+    assert.deepStrictEqual(calls, {
+      getTablesPage: 1,
+      getSeatsForTables: 1,
+      getTablesByIds: 1,
+      getAgentsByOwners: 1,
+      getHandsByKeys: 1,
+      getActionsForHands: 1,
+      getSettlementsForHands: 1,
+    });
+  });
+
+  test("pages tables with cursors", async () => {
+    const { data } = createFixtures();
+    const query = `query ($after: String) {
+      tables(first: 2, after: $after) { edges { cursor node { tableId } } pageInfo { hasNextPage endCursor } }
+    }`;
+
+    const first = (await run(query, data)).data as any;
+    assert.deepStrictEqual(first.tables.edges.map((e: any) => e.node.tableId), ["1", "2"]);
+    assert.strictEqual(first.tables.pageInfo.hasNextPage, true);
+    assert.strictEqual(first.tables.pageInfo.endCursor, encodeTableCursor(table(2, 0)));
+
+    const second = (await run(query, data, { after: first.tables.pageInfo.endCursor })).data as any;
+    assert.deepStrictEqual(second.tables.edges.map((e: any) => e.node.tableId), ["3"]);
+    assert.strictEqual(second.tables.pageInfo.hasNextPage, false);
+  });
+
+  test("pages a table's hands newest first with a total count", async () => {
+    const { data } = createFixtures();
+    const result = (await run(`{ table(id: "1") { hands(first: 1) { totalCount pageInfo { hasNextPage endCursor } edges { node { handId } } } } }`, data))
+      .data as any;
+    assert.strictEqual(result.table.hands.totalCount, 2);
+    assert.deepStrictEqual(result.table.hands.edges.map((e: any) => e.node.handId), ["2"]);
+    assert.strictEqual(result.table.hands.pageInfo.hasNextPage, true);
+
+    const next = (await run(
+      `query ($after: String) { table(id: "1") { hands(first: 1, after: $after) { pageInfo { hasNextPage } edges { node { handId } } } } }`,
+      data,
+      { after: result.table.hands.pageInfo.endCursor }
+    )).data as any;
+    assert.deepStrictEqual(next.table.hands.edges.map((e: any) => e.node.handId), ["1"]);
+    assert.strictEqual(next.table.hands.pageInfo.hasNextPage, false);
+  });
+
+  test("batches every table's hand page and count into one query each", async () => {
+    const { data, calls } = createFixtures();
+    const result = await run(
+      `{
+        tables(first: 3) {
+          edges { node { tableId hands(first: 1) { totalCount edges { node { handId } } } } }
+        }
+      }`,
+      data
+    );
+
+    assert.strictEqual(result.errors, undefined);
+    assert.deepStrictEqual(
+      (result.data as any).tables.edges.map((e: any) => [
+        e.node.tableId,
+        e.node.hands.totalCount,
+        e.node.hands.edges.map((h: any) => h.node.handId),
+      ]),
+      [
+        ["1", 2, ["2"]],
+        ["2", 1, ["3"]],
+        ["3", 0, []],
+      ]
+    );
+    assert.deepStrictEqual(calls, { getTablesPage: 1, getTableHandPages: 1, countTableHands: 1 });
+  });
+
+  test("resolves an agent with its table, latest snapshot and snapshot pages", async () => {
+    const { data } = createFixtures();
+    const result = await run(
+      `{
+        agent(token: "${TOKEN_1}") {
+          tokenAddress
+          isRegistered
+          table { tableId }
+          latestSnapshot { blockNumber timestamp }
+          snapshots(first: 2) { edges { node { blockNumber } } pageInfo { hasNextPage endCursor } }
+        }
+      }`,
+      data
+    );
+    assert.strictEqual(result.errors, undefined);
+    const resolved = (result.data as any).agent;
+    assert.strictEqual(resolved.tokenAddress, TOKEN_1);
+    assert.strictEqual(resolved.table.tableId, "1");
+    assert.deepStrictEqual({ ...resolved.latestSnapshot }, { blockNumber: "120", timestamp: now.toISOString() });
+    assert.deepStrictEqual(resolved.snapshots.edges.map((e: any) => e.node.blockNumber), ["120", "110"]);
+    assert.strictEqual(resolved.snapshots.pageInfo.hasNextPage, true);
+    assert.deepStrictEqual(decodeSnapshotCursor(resolved.snapshots.pageInfo.endCursor), { blockNumber: 110n, id: 2 });
+  });
+
+  test("reports bad cursors, page sizes and ids as user input errors", async () => {
+    const { data } = createFixtures();
+    for (const query of [
+      `{ tables(after: "nope") { pageInfo { hasNextPage } } }`,
+      `{ tables(first: 0) { pageInfo { hasNextPage } } }`,
+      `{ table(id: "abc") { tableId } }`,
+    ]) {
+      const result = await run(query, data);
+      assert.strictEqual(result.errors?.[0].extensions.code, "BAD_USER_INPUT", query);
+    }
+  });
+
+  test("cursor decoders reject malformed input", () => {
+    assert.strictEqual(decodeTableCursor("%%%"), null);
+    assert.strictEqual(decodeTableCursor(Buffer.from('{"t":"x"}').toString("base64url")), null);
+    assert.strictEqual(decodeAgentCursor(Buffer.from('{"c":"never","a":"0x"}').toString("base64url")), null);
+    assert.strictEqual(decodeSnapshotCursor(Buffer.from('{"b":"1","i":"2"}').toString("base64url")), null);
+  });
+});
+
+describe("GraphQL query limits", () => {
+  const measure = (query: string, variables?: Record<string, unknown>) => {
+    const document = parse(query);
+    return measureQuery(schema, document, getOperationAST(document)!, variables);
+  };
+
+  test("counts a connection's selection once per row its first can return", () => {
+    assert.deepStrictEqual(measure(`{ table(id: "1") { tableId } }`), { depth: 2, cost: 2 });
+    // tables(1) + 5 x (edges(1) + node(1) + tableId(1))
+    assert.deepStrictEqual(measure(`{ tables(first: 5) { edges { node { tableId } } } }`), { depth: 4, cost: 16 });
+    assert.strictEqual(measure(`{ tables { edges { node { tableId } } } }`).cost, 61);
+    assert.strictEqual(measure(`{ tables(first: 1000) { edges { node { tableId } } } }`).cost, 301);
+    assert.deepStrictEqual(
+      measure(`query ($n: Int) { tables(first: $n) { edges { node { tableId } } } }`, { n: 2 }),
+      measure(`{ tables(first: 2) { edges { node { tableId } } } }`)
+    );
+  });
+
+  test("follows fragments and leaves introspection uncounted", () => {
+    assert.deepStrictEqual(
+      measure(`{ __typename table(id: "1") { ...T } } fragment T on Table { seats { ... on Seat { stack } } }`),
+      measure(`{ table(id: "1") { seats { stack } } }`)
+    );
+  });
+
+  test("rejects queries that cycle through relationships or fan out too far", () => {
+    const cycle = `{ table(id: "1") { seats { table { seats { table { seats { table { seats { table {
+      seats { table { seats { stack } } } } } } } } } } } } }`;
+    assert.match(checkQueryLimits(measure(cycle), DEFAULT_QUERY_LIMITS) ?? "", /Query depth 13 exceeds the limit of 12/);
+
+    const fanOut = `{ tables(first: 100) { edges { node { hands(first: 100) { edges { node { handId } } } } } } }`;
+    assert.match(checkQueryLimits(measure(fanOut), DEFAULT_QUERY_LIMITS) ?? "", /Query cost \d+ exceeds the limit/);
+
+    const documented = `{
+      table(id: "1") {
+        gameState
+        seats { seatIndex stack agent { tokenAddress latestSnapshot { navPerShare } } }
+        hands(first: 10) { totalCount edges { cursor node { handId pot actions { actionType amount } } } }
+      }
+    }`;
+    assert.strictEqual(checkQueryLimits(measure(documented), DEFAULT_QUERY_LIMITS), null);
+    assert.strictEqual(checkQueryLimits(measure(cycle), { maxDepth: 0, maxCost: 0 }), null);
+  });
+});
+
+describe("GraphQL subscriptions", () => {
+  test("TopicStream yields messages published to its topics and unsubscribes on return", async () => {
+    const manager = new WsManager();
+    const stream = new TopicStream(["table:1"], manager);
+
+    manager.setEventPosition(10n, 0);
+    manager.publish("table:1", "action", { seatIndex: 0 });
+    manager.publish("table:2", "action", { seatIndex: 1 });
+
+    const first = await stream.next();
+    assert.strictEqual(first.value.type, "action");
+    assert.strictEqual(first.value.seq, "10:0:0");
+    assert.strictEqual(manager.getTopicSubscriberCount("table:1"), 1);
+
+    await stream.return();
+    assert.strictEqual(manager.getTopicSubscriberCount("table:1"), 0);
+    assert.strictEqual((await stream.next()).done, true);
+  });
+
+  test("tableEvents streams the table topic as StreamEvents", async () => {
+    resetWsManager();
+    const iterator = (await subscribe({
+      schema,
+      document: parse(`subscription { tableEvents(tableId: "7") { type topic tableId seq data } }`),
+      contextValue: createContext(createFixtures().data),
+    })) as AsyncIterableIterator<any>;
+
+    getWsManager().setEventPosition(5n, 2);
+    getWsManager().publish("table:7", "hand_started", { handId: "9" });
+
+    const { value } = await iterator.next();
+    assert.deepStrictEqual({ ...value.data.tableEvents }, {
+      type: "hand_started",
+      topic: "table:7",
+      tableId: "7",
+      seq: "5:2:0",
+      data: { handId: "9" },
+    });
+    await iterator.return?.();
+    assert.strictEqual(getWsManager().getTopicSubscriberCount("table:7"), 0);
+  });
+
+  test("rejects invalid topics", async () => {
+    const result = (await subscribe({
+      schema,
+      document: parse(`subscription { events(topics: ["bogus"]) { type } }`),
+      contextValue: createContext(createFixtures().data),
+    })) as any;
+    assert.match(result.errors[0].message, /Invalid topic/);
+  });
+});
@@ -0,0 +1,105 @@
+// GraphQL over HTTP: POST (JSON body) and GET (query string) for queries
+
+import { Router, type Request, type Response } from "express";
+import type { Router as RouterType } from "express";
+import {
+  GraphQLError,
+  getOperationAST,
+  parse,
+  validate,
+  execute,
+  type DocumentNode,
+  type ExecutionResult,
+  type GraphQLSchema,
+} from "graphql";
+import { createContext, getGraphqlSchema } from "./schema.js";
+import { DEFAULT_QUERY_LIMITS, checkQueryLimits, measureQuery, type QueryLimits } from "./limits.js";
+
+interface GraphqlRequest {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+// Resolver failures that are not GraphQLErrors are logged and reported generically
+export function maskErrors<T extends Pick<ExecutionResult, "errors">>(result: T): T {
+  if (!result.errors) return result;
+  return {
+    ...result,
+    errors: result.errors.map((error) => {
+      if (!error.originalError || error.originalError instanceof GraphQLError) return error;
+      console.error("Error resolving GraphQL field:", error.originalError);
+      return new GraphQLError("Internal server error", { nodes: error.nodes, path: error.path });
+    }),
+  };
+}
+
+export function createGraphqlRouter(
+  schema: GraphQLSchema = getGraphqlSchema(),
+  limits: QueryLimits = DEFAULT_QUERY_LIMITS
+): RouterType {
+  const router: RouterType = Router();
+
+  const handle = async (req: Request, res: Response, params: GraphqlRequest) => {
+    if (typeof params.query !== "string" || params.query.trim() === "") {
+      return res.status(400).json({ errors: [{ message: "Missing query" }] });
+    }
+
+    let variables: Record<string, unknown> | undefined;
+    if (typeof params.variables === "string" && params.variables !== "") {
+      try {
+        variables = JSON.parse(params.variables);
+      } catch {
+        return res.status(400).json({ errors: [{ message: "Variables must be JSON" }] });
+      }
+    } else if (params.variables && typeof params.variables === "object") {
+      variables = params.variables as Record<string, unknown>;
+    }
+    const operationName = typeof params.operationName === "string" ? params.operationName : undefined;
+
+    let document: DocumentNode;
+    try {
+      document = parse(params.query);
+    } catch (error) {
+      return res.status(400).json({ errors: [error as GraphQLError] });
+    }
+
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ errors: validationErrors });
+    }
+
+    const operation = getOperationAST(document, operationName);
+    if (!operation) {
+      return res.status(400).json({ errors: [{ message: "Unknown or ambiguous operation" }] });
+    }
+    if (operation.operation !== "query") {
+      return res.status(405).json({
+        errors: [{ message: "Only queries are served over HTTP; subscribe over WebSocket" }],
+      });
+    }
+    const overLimit = checkQueryLimits(measureQuery(schema, document, operation, variables), limits);
+    if (overLimit) {
+      return res.status(400).json({ errors: [{ message: overLimit }] });
+    }
+
+    try {
+      const result = await execute({
+        schema,
+        document,
+        variableValues: variables,
+        operationName,
+        contextValue: createContext(),
+      });
+      res.json(maskErrors(result));
+    } catch (error) {
+      console.error("Error executing GraphQL query:", error);
+      res.status(500).json({ errors: [{ message: "Internal server error" }] });
+    }
+  };
+
+  router.get("/", (req, res) => handle(req, res, req.query));
+  router.post("/", (req, res) => handle(req, res, req.body ?? {}));
+
+  return router;
+}
@@ -0,0 +1,9 @@
+// GraphQL module exports
+
+export * from "./loader.js";
+export * from "./loaders.js";
+export * from "./schema.js";
+export * from "./subscriptions.js";
+export * from "./limits.js";
+export * from "./http.js";
+export * from "./server.js";
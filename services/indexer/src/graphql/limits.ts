@@ -0,0 +1,108 @@
+// Depth and cost limits for queries served over HTTP
+//
+// Relationships cycle (Table.hands -> Hand.table -> Table.hands ...), so without a bound a
+// single query can fan out without end. Depth counts nested fields; cost counts the fields a
+// query can resolve, with a connection's selection counted once per row its `first` can return.
+
+import {
+  Kind,
+  getArgumentValues,
+  getNamedType,
+  getVariableValues,
+  isInterfaceType,
+  isObjectType,
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from "graphql";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./schema.js";
+
+export interface QueryLimits {
+  maxDepth: number;
+  maxCost: number;
+}
+
+export interface QueryMeasure {
+  depth: number;
+  cost: number;
+}
+
+export const DEFAULT_QUERY_LIMITS: QueryLimits = { maxDepth: 12, maxCost: 20_000 };
+
+// Rows a connection field can return, as its resolver will clamp `first`
+function rowsPerPage(first: unknown): number {
+  if (first === null || first === undefined) return DEFAULT_PAGE_SIZE;
+  if (typeof first !== "number" || !Number.isInteger(first) || first < 1) return MAX_PAGE_SIZE;
+  return Math.min(first, MAX_PAGE_SIZE);
+}
+
+// Introspection fields are not counted. The document must already be validated.
+export function measureQuery(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown> = {}
+): QueryMeasure {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+  // Variables that do not coerce fail execution anyway; measure as if they were absent
+  const coerced = getVariableValues(schema, operation.variableDefinitions ?? [], variables);
+  const variableValues = coerced.coerced ?? {};
+
+  const measure = (selectionSet: SelectionSetNode, parentType: GraphQLNamedType | null | undefined): QueryMeasure => {
+    const total: QueryMeasure = { depth: 0, cost: 0 };
+    for (const selection of selectionSet.selections) {
+      let inner: QueryMeasure;
+      if (selection.kind === Kind.FIELD) {
+        if (selection.name.value.startsWith("__")) continue;
+        const field =
+          isObjectType(parentType) || isInterfaceType(parentType)
+            ? parentType.getFields()[selection.name.value]
+            : undefined;
+        const child = selection.selectionSet
+          ? measure(selection.selectionSet, field && getNamedType(field.type))
+          : { depth: 0, cost: 0 };
+        let rows = 1;
+        if (field?.args.some((arg) => arg.name === "first")) {
+          try {
+            rows = rowsPerPage(getArgumentValues(field, selection, variableValues).first);
+          } catch {
+            rows = MAX_PAGE_SIZE;
+          }
+        }
+        inner = { depth: child.depth + 1, cost: 1 + rows * child.cost };
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const type = selection.typeCondition ? schema.getType(selection.typeCondition.name.value) : parentType;
+        inner = measure(selection.selectionSet, type);
+      } else {
+        const fragment = fragments.get(selection.name.value);
+        if (!fragment) continue;
+        inner = measure(fragment.selectionSet, schema.getType(fragment.typeCondition.name.value));
+      }
+      total.depth = Math.max(total.depth, inner.depth);
+      total.cost += inner.cost;
+    }
+    return total;
+  };
+
+  const rootType = schema.getRootType(operation.operation);
+  return measure(operation.selectionSet, rootType);
+}
+
+// Null when the operation is within the limits, else the reason it is not
+export function checkQueryLimits(measured: QueryMeasure, limits: QueryLimits): string | null {
+  if (limits.maxDepth > 0 && measured.depth > limits.maxDepth) {
+    return `Query depth ${measured.depth} exceeds the limit of ${limits.maxDepth}`;
+  }
+  if (limits.maxCost > 0 && measured.cost > limits.maxCost) {
+    return `Query cost ${measured.cost} exceeds the limit of ${limits.maxCost}`;
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+// Request-scoped batching for GraphQL relationship resolvers
+//
+// Every load() issued while one level of the query is being resolved is collected and handed
+// to a single batch function on the next microtask, so N sibling fields cost one query.
+
+export type BatchFn<K, V> = (keys: K[]) => Promise<V[]>;
+
+export class BatchLoader<K, V> {
+  private cache: Map<string, Promise<V>> = new Map();
+  private queue: Array<{ key: K; resolve: (value: V) => void; reject: (error: unknown) => void }> = [];
+
+  /**
+   * batch must return one value per key, in key order. keyOf maps keys to cache ids
+   * (bigints and composite keys are not usable as Map keys directly).
+   */
+  constructor(
+    private batch: BatchFn<K, V>,
+    private keyOf: (key: K) => string = String
+  ) {}
+
+  load(key: K): Promise<V> {
+    const id = this.keyOf(key);
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+      if (this.queue.length === 1) {
+        queueMicrotask(() => void this.dispatch());
+      }
+    });
+    this.cache.set(id, promise);
+    return promise;
+  }
+
+  loadMany(keys: K[]): Promise<V[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  private async dispatch(): Promise<void> {
+    const queue = this.queue;
+    this.queue = [];
+    try {
+      const values = await this.batch(queue.map((entry) => entry.key));
+      if (values.length !== queue.length) {
+        throw new Error(`Batch returned ${values.length} values for ${queue.length} keys`);
+      }
+      queue.forEach((entry, i) => entry.resolve(values[i]));
+    } catch (error) {
+      // Failed keys are retried by the next load rather than cached as rejections
+      for (const entry of queue) {
+        this.cache.delete(this.keyOf(entry.key));
+        entry.reject(error);
+      }
+    }
+  }
+}
+
+// Spread rows fetched for many keys back into one bucket per key, in key order
+export function groupBy<K, V>(keys: K[], rows: V[], keyOf: (key: K) => string, rowKey: (row: V) => string): V[][] {
+  const buckets = new Map<string, V[]>();
+  for (const row of rows) {
+    const id = rowKey(row);
+    if (!buckets.has(id)) {
+      buckets.set(id, []);
+    }
+    buckets.get(id)!.push(row);
+  }
+  return keys.map((key) => buckets.get(keyOf(key)) ?? []);
+}
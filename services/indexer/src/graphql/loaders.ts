@@ -0,0 +1,155 @@
+// Batched relationship loaders, created per GraphQL operation
+
+import {
+  getTablesByIds,
+  getTablesByAddresses,
+  getTablesPage,
+  getSeatsForTables,
+  getHandsByKeys,
+  getTableHandPages,
+  countTableHands,
+  getActionsForHands,
+  getSettlementsForHands,
+  getAgentsByTokens,
+  getAgentsByOwners,
+  getAgentsPage,
+  getLatestVaultSnapshots,
+  getVaultSnapshotPages,
+} from "../db/index.js";
+import type {
+  Action,
+  Agent,
+  Hand,
+  HandKey,
+  HandPageKey,
+  PokerTable,
+  Seat,
+  Settlement,
+  SnapshotPageKey,
+  VaultSnapshot,
+} from "../db/types.js";
+import { BatchLoader, groupBy } from "./loader.js";
+
+// Repository functions the schema reads through; swapped for fixtures in tests
+export interface GraphqlDataSource {
+  getTablesByIds: typeof getTablesByIds;
+  getTablesByAddresses: typeof getTablesByAddresses;
+  getTablesPage: typeof getTablesPage;
+  getSeatsForTables: typeof getSeatsForTables;
+  getHandsByKeys: typeof getHandsByKeys;
+  getTableHandPages: typeof getTableHandPages;
+  countTableHands: typeof countTableHands;
+  getActionsForHands: typeof getActionsForHands;
+  getSettlementsForHands: typeof getSettlementsForHands;
+  getAgentsByTokens: typeof getAgentsByTokens;
+  getAgentsByOwners: typeof getAgentsByOwners;
+  getAgentsPage: typeof getAgentsPage;
+  getLatestVaultSnapshots: typeof getLatestVaultSnapshots;
+  getVaultSnapshotPages: typeof getVaultSnapshotPages;
+}
+
+export const repositoryDataSource: GraphqlDataSource = {
+  getTablesByIds,
+  getTablesByAddresses,
+  getTablesPage,
+  getSeatsForTables,
+  getHandsByKeys,
+  getTableHandPages,
+  countTableHands,
+  getActionsForHands,
+  getSettlementsForHands,
+  getAgentsByTokens,
+  getAgentsByOwners,
+  getAgentsPage,
+  getLatestVaultSnapshots,
+  getVaultSnapshotPages,
+};
+
+export interface Loaders {
+  table: BatchLoader<bigint, PokerTable | null>;
+  tableByAddress: BatchLoader<string, PokerTable | null>;
+  seats: BatchLoader<bigint, Seat[]>;
+  hand: BatchLoader<HandKey, Hand | null>;
+  handPage: BatchLoader<HandPageKey, Hand[]>;
+  handCount: BatchLoader<bigint, number>;
+  actions: BatchLoader<HandKey, Action[]>;
+  settlements: BatchLoader<HandKey, Settlement[]>;
+  agent: BatchLoader<string, Agent | null>;
+  agentByOwner: BatchLoader<string, Agent | null>;
+  latestSnapshot: BatchLoader<string, VaultSnapshot | null>;
+  snapshotPage: BatchLoader<SnapshotPageKey, VaultSnapshot[]>;
+}
+
+export function handKeyId(key: HandKey): string {
+  return `${key.tableId}:${key.handId}`;
+}
+
+const rowHandKeyId = (row: { table_id: string; hand_id: string }) => `${row.table_id}:${row.hand_id}`;
+const lower = (address: string) => address.toLowerCase();
+
+const handPageId = (key: HandPageKey) => `${key.tableId}:${key.beforeHandId ?? ""}:${key.limit}`;
+const snapshotPageId = (key: SnapshotPageKey) =>
+  `${lower(key.vaultAddress)}:${key.before?.blockNumber ?? ""}:${key.before?.id ?? ""}:${key.limit}`;
+
+// Page rows carry the 1-based position of the key they were fetched for
+function groupPages<K, V extends { page_index: number }>(keys: K[], rows: V[]): V[][] {
+  return groupBy(
+    keys.map((_, i) => i + 1),
+    rows,
+    String,
+    (row) => String(row.page_index)
+  );
+}
+
+export function createLoaders(data: GraphqlDataSource = repositoryDataSource): Loaders {
+  return {
+    table: new BatchLoader<bigint, PokerTable | null>(async (ids) => {
+      const rows = await data.getTablesByIds(ids);
+      return groupBy(ids, rows, String, (row) => row.table_id).map((group) => group[0] ?? null);
+    }),
+    tableByAddress: new BatchLoader<string, PokerTable | null>(async (addresses) => {
+      const rows = await data.getTablesByAddresses(addresses);
+      return groupBy(addresses, rows, lower, (row) => lower(row.contract_address)).map((group) => group[0] ?? null);
+    }, lower),
+    seats: new BatchLoader(async (ids) => {
+      const rows = await data.getSeatsForTables(ids);
+      return groupBy(ids, rows, String, (row) => row.table_id);
+    }),
+    hand: new BatchLoader<HandKey, Hand | null>(async (keys) => {
+      const rows = await data.getHandsByKeys(keys);
+      return groupBy(keys, rows, handKeyId, rowHandKeyId).map((group) => group[0] ?? null);
+    }, handKeyId),
+    handPage: new BatchLoader<HandPageKey, Hand[]>(
+      async (keys) => groupPages(keys, await data.getTableHandPages(keys)),
+      handPageId
+    ),
+    handCount: new BatchLoader<bigint, number>(async (ids) => {
+      const rows = await data.countTableHands(ids);
+      return groupBy(ids, rows, String, (row) => row.table_id).map((group) => group[0]?.total ?? 0);
+    }),
+    actions: new BatchLoader(async (keys) => {
+      const rows = await data.getActionsForHands(keys);
+      return groupBy(keys, rows, handKeyId, rowHandKeyId);
+    }, handKeyId),
+    settlements: new BatchLoader(async (keys) => {
+      const rows = await data.getSettlementsForHands(keys);
+      return groupBy(keys, rows, handKeyId, rowHandKeyId);
+    }, handKeyId),
+    agent: new BatchLoader<string, Agent | null>(async (tokens) => {
+      const rows = await data.getAgentsByTokens(tokens);
+      return groupBy(tokens, rows, lower, (row) => row.token_address).map((group) => group[0] ?? null);
+    }, lower),
+    agentByOwner: new BatchLoader<string, Agent | null>(async (owners) => {
+      const rows = await data.getAgentsByOwners(owners);
+      return groupBy(owners, rows, lower, (row) => lower(row.owner_address)).map((group) => group[0] ?? null);
+    }, lower),
+    latestSnapshot: new BatchLoader<string, VaultSnapshot | null>(async (vaults) => {
+      const rows = await data.getLatestVaultSnapshots(vaults);
+      return groupBy(vaults, rows, lower, (row) => row.vault_address).map((group) => group[0] ?? null);
+    }, lower),
+    snapshotPage: new BatchLoader<SnapshotPageKey, VaultSnapshot[]>(
+      async (keys) => groupPages(keys, await data.getVaultSnapshotPages(keys)),
+      snapshotPageId
+    ),
+  };
+}
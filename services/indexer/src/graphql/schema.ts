@@ -0,0 +1,465 @@
+// GraphQL schema over the repository layer
+//
+// Resolvers receive database rows; fields without a resolver read the snake_case column of
+// the same name (seatIndex -> seat_index). Relationships go through the per-operation
+// loaders so a list of N parents costs one query per relationship, not N.
+
+import {
+  GraphQLError,
+  GraphQLObjectType,
+  buildSchema,
+  type GraphQLFieldResolver,
+  type GraphQLSchema,
+} from "graphql";
+import type { Action, Agent, Hand, PokerTable, Seat, Settlement, VaultSnapshot } from "../db/types.js";
+import { agentTopic, parseTopic, tableTopic } from "../ws/topics.js";
+import type { WsMessage } from "../ws/types.js";
+import { decodeHandCursor, encodeHandCursor } from "../api/routes.js";
+import { createLoaders, repositoryDataSource, type GraphqlDataSource, type Loaders } from "./loaders.js";
+import { TopicStream } from "./subscriptions.js";
+
+export interface GraphqlContext {
+  data: GraphqlDataSource;
+  loaders: Loaders;
+}
+
+// One context per operation; loader caches must not outlive it
+export function createContext(data: GraphqlDataSource = repositoryDataSource): GraphqlContext {
+  return { data, loaders: createLoaders(data) };
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+const MAX_SUBSCRIPTION_TOPICS = 100;
+
+export const typeDefs = /* GraphQL */ `
+  "Arbitrary JSON (WebSocket event payloads)"
+  scalar JSON
+
+  type Query {
+    table(id: ID!): Table
+    tables(first: Int, after: String): TableConnection!
+    hand(tableId: ID!, handId: ID!): Hand
+    agent(token: String!): Agent
+    agents(first: Int, after: String): AgentConnection!
+  }
+
+  type Subscription {
+    "Events on any WebSocket topics (table:<id>, agent:<address>, vault:<address>, leaderboard, global, kind:* or *)"
+    events(topics: [String!]!): StreamEvent!
+    tableEvents(tableId: ID!): StreamEvent!
+    agentEvents(token: String!): StreamEvent!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  type Table {
+    tableId: ID!
+    contractAddress: String!
+    smallBlind: String!
+    bigBlind: String!
+    currentHandId: String!
+    gameState: String!
+    buttonSeat: Int!
+    actionDeadline: String
+    seats: [Seat!]!
+    currentHand: Hand
+    "Newest first"
+    hands(first: Int, after: String): HandConnection!
+  }
+
+  type TableEdge {
+    cursor: String!
+    node: Table!
+  }
+
+  type TableConnection {
+    edges: [TableEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type Seat {
+    seatIndex: Int!
+    ownerAddress: String!
+    operatorAddress: String!
+    stack: String!
+    isActive: Boolean!
+    currentBet: String!
+    table: Table!
+    "Agent whose owner holds the seat"
+    agent: Agent
+  }
+
+  type Hand {
+    handId: ID!
+    tableId: ID!
+    pot: String!
+    currentBet: String!
+    actorSeat: Int
+    gameState: String!
+    buttonSeat: Int!
+    smallBlind: String!
+    bigBlind: String!
+    communityCards: [Int!]!
+    winnerSeat: Int
+    winnerSeats: [Int!]!
+    settlementAmount: String
+    reachedShowdown: Boolean!
+    startedAt: String!
+    settledAt: String
+    table: Table!
+    actions: [Action!]!
+    settlements: [Settlement!]!
+  }
+
+  type HandEdge {
+    cursor: String!
+    node: Hand!
+  }
+
+  type HandConnection {
+    edges: [HandEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type Action {
+    seatIndex: Int!
+    actionType: String!
+    amount: String!
+    potAfter: String!
+    blockNumber: String!
+    txHash: String!
+    endsStreet: Boolean!
+    timestamp: String!
+    hand: Hand!
+  }
+
+  type Agent {
+    tokenAddress: String!
+    vaultAddress: String
+    tableAddress: String
+    ownerAddress: String!
+    operatorAddress: String!
+    metaUri: String
+    isRegistered: Boolean!
+    table: Table
+    latestSnapshot: VaultSnapshot
+    "Newest first"
+    snapshots(first: Int, after: String): VaultSnapshotConnection!
+  }
+
+  type AgentEdge {
+    cursor: String!
+    node: Agent!
+  }
+
+  type AgentConnection {
+    edges: [AgentEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type VaultSnapshot {
+    handId: String!
+    externalAssets: String!
+    treasuryShares: String!
+    outstandingShares: String!
+    navPerShare: String!
+    cumulativePnl: String!
+    blockNumber: String!
+    timestamp: String!
+  }
+
+  type VaultSnapshotEdge {
+    cursor: String!
+    node: VaultSnapshot!
+  }
+
+  type VaultSnapshotConnection {
+    edges: [VaultSnapshotEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type Settlement {
+    seatIndex: Int!
+    ownerAddress: String
+    amountWon: String!
+    amountContributed: String
+    netAmount: String
+    winnerSeat: Int!
+    potAmount: String!
+    blockNumber: String!
+    txHash: String!
+    timestamp: String!
+    hand: Hand!
+  }
+
+  type StreamEvent {
+    type: String!
+    topic: String!
+    tableId: String
+    seq: String
+    timestamp: String!
+    data: JSON
+  }
+`;
+
+// ============ Cursors ============
+
+// Opaque base64url JSON, like the REST hand cursor
+function encodeCursor(value: Record<string, string | number>): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return parsed !== null && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function encodeTableCursor(table: PokerTable): string {
+  return encodeCursor({ t: table.table_id });
+}
+
+export function decodeTableCursor(cursor: string): bigint | null {
+  const parsed = decodeCursor(cursor);
+  return typeof parsed?.t === "string" && /^\d+$/.test(parsed.t) ? BigInt(parsed.t) : null;
+}
+
+export function encodeAgentCursor(agent: Agent): string {
+  return encodeCursor({ c: agent.created_at.toISOString(), a: agent.token_address });
+}
+
+export function decodeAgentCursor(cursor: string): { createdAt: Date; tokenAddress: string } | null {
+  const parsed = decodeCursor(cursor);
+  if (typeof parsed?.c !== "string" || typeof parsed.a !== "string") return null;
+  const createdAt = new Date(parsed.c);
+  return Number.isNaN(createdAt.getTime()) ? null : { createdAt, tokenAddress: parsed.a };
+}
+
+export function encodeSnapshotCursor(snapshot: VaultSnapshot): string {
+  return encodeCursor({ b: snapshot.block_number, i: snapshot.id });
+}
+
+export function decodeSnapshotCursor(cursor: string): { blockNumber: bigint; id: number } | null {
+  const parsed = decodeCursor(cursor);
+  if (typeof parsed?.b !== "string" || !/^\d+$/.test(parsed.b) || !Number.isInteger(parsed.i)) return null;
+  return { blockNumber: BigInt(parsed.b), id: parsed.i as number };
+}
+
+// ============ Helpers ============
+
+function badInput(message: string): GraphQLError {
+  return new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+}
+
+function parseId(raw: string, name: string): bigint {
+  if (!/^\d+$/.test(raw)) {
+    throw badInput(`Invalid ${name}`);
+  }
+  return BigInt(raw);
+}
+
+function pageSize(first: number | null | undefined): number {
+  if (first === null || first === undefined) return DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(first) || first < 1) {
+    throw badInput("first must be a positive integer");
+  }
+  return Math.min(first, MAX_PAGE_SIZE);
+}
+
+function decodeAfter<T>(after: string | null | undefined, decode: (cursor: string) => T | null): T | null {
+  if (after === null || after === undefined) return null;
+  const decoded = decode(after);
+  if (decoded === null) {
+    throw badInput("Invalid cursor");
+  }
+  return decoded;
+}
+
+// Pages are fetched with one extra row to tell whether another page follows
+function connection<T>(rows: T[], limit: number, cursorOf: (row: T) => string) {
+  const nodes = rows.slice(0, limit);
+  const edges = nodes.map((node) => ({ cursor: cursorOf(node), node }));
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: rows.length > limit,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+  };
+}
+
+const iso = (value: Date | null | undefined) => value?.toISOString() ?? null;
+
+function topicEvents(topics: string[]): TopicStream {
+  if (topics.length === 0 || topics.length > MAX_SUBSCRIPTION_TOPICS) {
+    throw badInput(`Subscribe to between 1 and ${MAX_SUBSCRIPTION_TOPICS} topics`);
+  }
+  const parsed = topics.map((raw) => {
+    const topic = parseTopic(raw);
+    if (!topic) {
+      throw badInput(`Invalid topic: ${raw}`);
+    }
+    return topic;
+  });
+  return new TopicStream(parsed);
+}
+
+// ============ Resolvers ============
+
+type Resolver = GraphQLFieldResolver<any, GraphqlContext, any>;
+type SubscriptionResolver = { subscribe: Resolver; resolve: Resolver };
+
+const passThrough = (event: WsMessage) => event;
+
+export const resolvers: Record<string, Record<string, Resolver | SubscriptionResolver>> = {
+  Query: {
+    table: (_root, args: { id: string }, ctx) => ctx.loaders.table.load(parseId(args.id, "table id")),
+    tables: async (_root, args: { first?: number; after?: string }, ctx) => {
+      const limit = pageSize(args.first);
+      const after = decodeAfter(args.after, decodeTableCursor);
+      const rows = await ctx.data.getTablesPage(after, limit + 1);
+      return connection(rows, limit, encodeTableCursor);
+    },
+    hand: (_root, args: { tableId: string; handId: string }, ctx) =>
+      ctx.loaders.hand.load({
+        tableId: parseId(args.tableId, "table id"),
+        handId: parseId(args.handId, "hand id"),
+      }),
+    agent: (_root, args: { token: string }, ctx) => ctx.loaders.agent.load(args.token),
+    agents: async (_root, args: { first?: number; after?: string }, ctx) => {
+      const limit = pageSize(args.first);
+      const after = decodeAfter(args.after, decodeAgentCursor);
+      const rows = await ctx.data.getAgentsPage(after, limit + 1);
+      return connection(rows, limit, encodeAgentCursor);
+    },
+  },
+
+  Subscription: {
+    events: { subscribe: (_root, args: { topics: string[] }) => topicEvents(args.topics), resolve: passThrough },
+    tableEvents: {
+      subscribe: (_root, args: { tableId: string }) => topicEvents([tableTopic(args.tableId)]),
+      resolve: passThrough,
+    },
+    agentEvents: {
+      subscribe: (_root, args: { token: string }) => topicEvents([agentTopic(args.token)]),
+      resolve: passThrough,
+    },
+  },
+
+  Table: {
+    actionDeadline: (table: PokerTable) => iso(table.action_deadline),
+    seats: (table: PokerTable, _args, ctx) => ctx.loaders.seats.load(BigInt(table.table_id)),
+    currentHand: (table: PokerTable, _args, ctx) =>
+      table.current_hand_id
+        ? ctx.loaders.hand.load({ tableId: BigInt(table.table_id), handId: BigInt(table.current_hand_id) })
+        : null,
+    hands: async (table: PokerTable, args: { first?: number; after?: string }, ctx) => {
+      const limit = pageSize(args.first);
+      const tableId = BigInt(table.table_id);
+      const beforeHandId = decodeAfter(args.after, decodeHandCursor);
+      const [rows, total] = await Promise.all([
+        ctx.loaders.handPage.load({ tableId, beforeHandId, limit: limit + 1 }),
+        ctx.loaders.handCount.load(tableId),
+      ]);
+      return {
+        ...connection(rows, limit, (hand: Hand) => encodeHandCursor(BigInt(hand.hand_id))),
+        totalCount: total,
+      };
+    },
+  },
+
+  Seat: {
+    table: (seat: Seat, _args, ctx) => ctx.loaders.table.load(BigInt(seat.table_id)),
+    agent: (seat: Seat, _args, ctx) => ctx.loaders.agentByOwner.load(seat.owner_address),
+  },
+
+  Hand: {
+    currentBet: (hand: Hand) => hand.current_bet || "0",
+    communityCards: (hand: Hand) => hand.community_cards || [],
+    winnerSeats: (hand: Hand) => hand.winner_seats || [],
+    reachedShowdown: (hand: Hand) => hand.showdown_block !== null && hand.showdown_block !== undefined,
+    startedAt: (hand: Hand) => iso(hand.started_at),
+    settledAt: (hand: Hand) => iso(hand.settled_at),
+    table: (hand: Hand, _args, ctx) => ctx.loaders.table.load(BigInt(hand.table_id)),
+    actions: (hand: Hand, _args, ctx) =>
+      ctx.loaders.actions.load({ tableId: BigInt(hand.table_id), handId: BigInt(hand.hand_id) }),
+    settlements: (hand: Hand, _args, ctx) =>
+      ctx.loaders.settlements.load({ tableId: BigInt(hand.table_id), handId: BigInt(hand.hand_id) }),
+  },
+
+  Action: {
+    endsStreet: (action: Action) => Boolean(action.ends_street),
+    timestamp: (action: Action) => iso(action.created_at),
+    hand: (action: Action, _args, ctx) =>
+      ctx.loaders.hand.load({ tableId: BigInt(action.table_id), handId: BigInt(action.hand_id) }),
+  },
+
+  Agent: {
+    table: (agent: Agent, _args, ctx) =>
+      agent.table_address ? ctx.loaders.tableByAddress.load(agent.table_address) : null,
+    latestSnapshot: (agent: Agent, _args, ctx) =>
+      agent.vault_address ? ctx.loaders.latestSnapshot.load(agent.vault_address) : null,
+    snapshots: async (agent: Agent, args: { first?: number; after?: string }, ctx) => {
+      const limit = pageSize(args.first);
+      const after = decodeAfter(args.after, decodeSnapshotCursor);
+      const rows = agent.vault_address
+        ? await ctx.loaders.snapshotPage.load({ vaultAddress: agent.vault_address, before: after, limit: limit + 1 })
+        : [];
+      return connection(rows, limit, encodeSnapshotCursor);
+    },
+  },
+
+  VaultSnapshot: {
+    timestamp: (snapshot: VaultSnapshot) => iso(snapshot.block_time),
+  },
+
+  Settlement: {
+    timestamp: (settlement: Settlement) => iso(settlement.created_at),
+    hand: (settlement: Settlement, _args, ctx) =>
+      ctx.loaders.hand.load({ tableId: BigInt(settlement.table_id), handId: BigInt(settlement.hand_id) }),
+  },
+};
+
+// camelCase field -> snake_case column, falling back to the field name itself
+function columnResolver(fieldName: string): Resolver {
+  const column = fieldName.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+  return (parent) => (column in parent ? parent[column] : parent[fieldName]);
+}
+
+let instance: GraphQLSchema | null = null;
+
+// Shared by the HTTP and WebSocket endpoints
+export function getGraphqlSchema(): GraphQLSchema {
+  instance ??= buildGraphqlSchema();
+  return instance;
+}
+
+export function buildGraphqlSchema(): GraphQLSchema {
+  const schema = buildSchema(typeDefs);
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!(type instanceof GraphQLObjectType) || type.name.startsWith("__")) continue;
+    const typeResolvers = resolvers[type.name] ?? {};
+    for (const field of Object.values(type.getFields())) {
+      const resolver = typeResolvers[field.name];
+      if (typeof resolver === "function") {
+        field.resolve = resolver;
+      } else if (resolver) {
+        field.subscribe = resolver.subscribe;
+        field.resolve = resolver.resolve;
+      } else if (!field.resolve) {
+        field.resolve = columnResolver(field.name);
+      }
+    }
+  }
+
+  return schema;
+}
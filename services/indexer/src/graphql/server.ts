@@ -0,0 +1,43 @@
+// GraphQL subscriptions over WebSocket (graphql-transport-ws protocol via graphql-ws)
+
+import { WebSocketServer, type WebSocket } from "ws";
+import type { IncomingMessage } from "http";
+import type { GraphQLSchema } from "graphql";
+import { useServer } from "graphql-ws/lib/use/ws";
+import { clientIp, getWsManager } from "../ws/index.js";
+import { createContext, getGraphqlSchema } from "./schema.js";
+import { maskErrors } from "./http.js";
+
+// Close code for connections refused by the caps (RFC 6455 "Try Again Later")
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
+/**
+ * Upgrade target for the GraphQL endpoint path, passed to createWsServer's `upgrades`.
+ * Sockets count against the same connection caps as /ws.
+ */
+export function createGraphqlWsServer(schema: GraphQLSchema = getGraphqlSchema()): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Registered before useServer so refused sockets are closed before the protocol starts
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+    const manager = getWsManager();
+    if (manager.registerConnection(ws, clientIp(req, manager.getTrustedProxyHops()))) {
+      ws.close(CLOSE_TRY_AGAIN_LATER, "Connection limit");
+      return;
+    }
+    ws.on("close", () => manager.unregisterConnection(ws));
+  });
+
+  useServer(
+    {
+      schema,
+      context: () => createContext(),
+      onNext: (_ctx, _message, _args, result) => maskErrors(result),
+    },
+    // graphql-ws ships CommonJS typings for ws; the runtime server is the same
+    wss as unknown as Parameters<typeof useServer>[1]
+  );
+
+  console.log("[GraphQL] Subscription server initialized");
+  return wss;
+}
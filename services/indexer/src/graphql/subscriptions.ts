@@ -0,0 +1,82 @@
+// GraphQL subscriptions over the WebSocket topic streams
+//
+// A TopicStream is one more StreamClient on the WsManager: it receives exactly the messages
+// WebSocket and SSE subscribers get and yields them to graphql-ws as an async iterator.
+// Queued bytes are reported as bufferedAmount, so the manager's slow-consumer thresholds
+// apply to subscriptions too.
+
+import { getWsManager, type StreamClient, type WsManager } from "../ws/manager.js";
+import type { WsMessage } from "../ws/types.js";
+
+const OPEN = 1;
+const CLOSED = 3;
+
+export class TopicStream implements StreamClient, AsyncIterableIterator<WsMessage> {
+  readonly OPEN = OPEN;
+  readyState = OPEN;
+  bufferedAmount = 0;
+
+  private queue: Array<{ message: WsMessage; bytes: number }> = [];
+  private waiting: ((result: IteratorResult<WsMessage>) => void) | null = null;
+
+  constructor(
+    topics: string[],
+    private manager: WsManager = getWsManager()
+  ) {
+    for (const topic of topics) {
+      manager.subscribeTopic(topic, this);
+    }
+  }
+
+  // Payloads are serialized WsMessage JSON
+  send(payload: string): void {
+    if (this.readyState !== OPEN) return;
+    const message = JSON.parse(payload) as WsMessage;
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: message, done: false });
+      return;
+    }
+    this.queue.push({ message, bytes: payload.length });
+    this.bufferedAmount += payload.length;
+  }
+
+  // Called by the manager for laggards; ends the iterator so graphql-ws completes the operation
+  terminate(): void {
+    this.close();
+  }
+
+  next(): Promise<IteratorResult<WsMessage>> {
+    const entry = this.queue.shift();
+    if (entry) {
+      this.bufferedAmount -= entry.bytes;
+      return Promise.resolve({ value: entry.message, done: false });
+    }
+    if (this.readyState !== OPEN) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  return(): Promise<IteratorResult<WsMessage>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<WsMessage> {
+    return this;
+  }
+
+  private close(): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.manager.unsubscribeAll(this);
+    this.queue = [];
+    this.bufferedAmount = 0;
+    this.waiting?.({ value: undefined, done: true });
+    this.waiting = null;
+  }
+}
@@ -1,10 +1,12 @@
 // @playerco/indexer - Event ingestion and REST API
 
 import { VERSION } from "@playerco/shared";
-import { createApp } from "./api/index.js";
+import { createApp, loadTableSnapshot } from "./api/index.js";
 import { EventListener } from "./events/index.js";
 import { getPool, closePool } from "./db/index.js";
-import { createWsServer, getWsManager } from "./ws/index.js";
+import { createPgRelayPublisher, createWsServer, getWsManager, startRelayListener } from "./ws/index.js";
+import { createGraphqlWsServer } from "./graphql/index.js";
+import { WebhookDispatcher } from "./webhooks/index.js";
 import type { Address } from "viem";
 import { createServer } from "http";
 
@@ -14,13 +16,47 @@ const PORT = parseInt(process.env.PORT || "3002", 10);
 const CHAIN_ENV = process.env.CHAIN_ENV || "local";
 const isLocal = CHAIN_ENV === "local";
 
+// full: ingest + API + WebSocket. ws: API + WebSocket fed by Postgres NOTIFY from a full instance.
+const INDEXER_MODE = process.env.INDEXER_MODE || "full";
+// local: broadcast to this process's clients only. postgres: also NOTIFY for ws-mode replicas.
+const WS_RELAY = process.env.WS_RELAY || "local";
+
 function parseBooleanEnv(value: string | undefined, defaultValue = false): boolean {
   if (!value) return defaultValue;
   const normalized = value.trim().toLowerCase();
   return normalized === "1" || normalized === "true" || normalized === "yes" || normalized === "on";
 }
 
+// POKER_TABLE_ADDRESS (single) and POKER_TABLE_ADDRESSES (comma-separated) are merged.
+function parseTableAddresses(): Address[] {
+  const raw = [process.env.POKER_TABLE_ADDRESS, process.env.POKER_TABLE_ADDRESSES]
+    .filter(Boolean)
+    .join(",");
+  const addresses = raw
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(addresses)) as Address[];
+}
+
+// The bonding-curve and DEX routers are the same contract on the compat deployment
+function parseRouterAddresses(): Address[] {
+  const addresses = [process.env.NADFUN_BONDING_ROUTER_ADDRESS, process.env.NADFUN_DEX_ROUTER_ADDRESS]
+    .map((value) => value?.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(addresses)) as Address[];
+}
+
 async function main(): Promise<void> {
+  if (INDEXER_MODE !== "full" && INDEXER_MODE !== "ws") {
+    console.error(`Invalid INDEXER_MODE "${INDEXER_MODE}". Use "full" or "ws".`);
+    process.exit(1);
+  }
+  if (WS_RELAY !== "local" && WS_RELAY !== "postgres") {
+    console.error(`Invalid WS_RELAY "${WS_RELAY}". Use "local" or "postgres".`);
+    process.exit(1);
+  }
+
   // Database configuration: require explicit values in non-local environments
   if (isLocal) {
     // Local dev defaults
@@ -53,15 +89,17 @@ async function main(): Promise<void> {
   }
 
   // Chain configuration: require in non-local environments
+  const tableAddresses = parseTableAddresses();
   const hasChainConfig =
-    process.env.POKER_TABLE_ADDRESS &&
+    tableAddresses.length > 0 &&
     process.env.PLAYER_REGISTRY_ADDRESS &&
     process.env.RPC_URL;
 
-  if (!isLocal && !hasChainConfig) {
+  // WS-only replicas never touch the chain
+  if (!isLocal && !hasChainConfig && INDEXER_MODE === "full") {
     console.error(
       `Chain configuration required for ${CHAIN_ENV} environment.\n` +
-        `Missing: POKER_TABLE_ADDRESS, PLAYER_REGISTRY_ADDRESS, and/or RPC_URL.\n` +
+        `Missing: POKER_TABLE_ADDRESS(ES), PLAYER_REGISTRY_ADDRESS, and/or RPC_URL.\n` +
         `Indexer cannot function without chain event ingestion in production.`
     );
     process.exit(1);
@@ -71,10 +109,22 @@ async function main(): Promise<void> {
   const app = createApp();
   const httpServer = createServer(app);
 
-  // Attach WebSocket server
+  // Attach WebSocket server (GraphQL subscriptions share the upgrade handler)
+  const graphqlWss = createGraphqlWsServer();
   const wss = createWsServer({
     httpServer,
     path: "/ws",
+    limits: {
+      replayBufferSize: parseInt(process.env.WS_REPLAY_BUFFER_SIZE || "500", 10),
+      maxConnections: parseInt(process.env.WS_MAX_CONNECTIONS || "1000", 10),
+      maxConnectionsPerIp: parseInt(process.env.WS_MAX_CONNECTIONS_PER_IP || "20", 10),
+      trustedProxyHops: parseInt(process.env.WS_TRUSTED_PROXY_HOPS || "0", 10),
+      sendBufferDropBytes: parseInt(process.env.WS_SEND_BUFFER_DROP_BYTES || "1048576", 10),
+      sendBufferCloseBytes: parseInt(process.env.WS_SEND_BUFFER_CLOSE_BYTES || "4194304", 10),
+    },
+    heartbeatIntervalMs: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || "30000", 10),
+    tableSnapshot: loadTableSnapshot,
+    upgrades: { "/api/graphql": graphqlWss },
   });
 
   httpServer.listen(PORT, () => {
@@ -83,21 +133,59 @@ async function main(): Promise<void> {
     console.log(`Health check: http://localhost:${PORT}/api/health`);
     console.log(`Tables: http://localhost:${PORT}/api/tables`);
     console.log(`Agents: http://localhost:${PORT}/api/agents`);
-    console.log(`WebSocket: ws://localhost:${PORT}/ws/tables/:id`);
+    console.log(`WebSocket: ws://localhost:${PORT}/ws (or /ws/tables/:id)`);
+    console.log(`GraphQL: http://localhost:${PORT}/api/graphql (subscriptions over ws://)`);
   });
 
   const server = httpServer;
 
+  if (INDEXER_MODE === "ws") {
+    const stopRelay = await startRelayListener(getWsManager());
+    console.log("WS-only mode - event listener disabled, fanning out relayed events");
+
+    const shutdown = async () => {
+      console.log("Shutting down...");
+      await stopRelay();
+      wss.close();
+      graphqlWss.close();
+      server.close();
+      await closePool();
+      process.exit(0);
+    };
+
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    return;
+  }
+
+  if (WS_RELAY === "postgres") {
+    getWsManager().setRelay(createPgRelayPublisher());
+    console.log("Relaying WebSocket events via Postgres NOTIFY");
+  }
+
+  // Deliver queued webhooks (safe to run on several full instances; claims skip locked rows)
+  const webhookDispatcher = new WebhookDispatcher({
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "1000", 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "10", 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10),
+  });
+  webhookDispatcher.start().catch((err) => {
+    console.error("Webhook dispatcher error:", err);
+  });
+
   // Start event listener
   if (hasChainConfig) {
     const listener = new EventListener({
-      pokerTableAddress: process.env.POKER_TABLE_ADDRESS as Address,
+      pokerTableAddresses: tableAddresses,
       playerRegistryAddress: process.env.PLAYER_REGISTRY_ADDRESS as Address,
       playerVaultAddress: process.env.PLAYER_VAULT_ADDRESS as Address | undefined,
+      nadfunRouterAddresses: parseRouterAddresses(),
       startBlock: process.env.START_BLOCK ? BigInt(process.env.START_BLOCK) : undefined,
       replayOnStart: parseBooleanEnv(process.env.INDEXER_REPLAY_ON_START, false),
       pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || "2000", 10),
       logBlockRange: parseInt(process.env.LOG_BLOCK_RANGE || "90", 10),
+      reorgConfirmationBlocks: parseInt(process.env.REORG_CONFIRMATION_BLOCKS || "32", 10),
+      leaderboardRefreshMs: parseInt(process.env.LEADERBOARD_REFRESH_MS || "60000", 10),
     });
 
     // Don't block on listener start - run in background
@@ -109,7 +197,9 @@ async function main(): Promise<void> {
     const shutdown = async () => {
       console.log("Shutting down...");
       listener.stop();
+      webhookDispatcher.stop();
       wss.close();
+      graphqlWss.close();
       server.close();
       await closePool();
       process.exit(0);
@@ -123,7 +213,9 @@ async function main(): Promise<void> {
 
     const shutdown = async () => {
       console.log("Shutting down...");
+      webhookDispatcher.stop();
       wss.close();
+      graphqlWss.close();
       server.close();
       await closePool();
       process.exit(0);
@@ -0,0 +1,149 @@
+// Webhook delivery worker
+//
+// Polls the webhook_deliveries queue, POSTs each due delivery with its signature and
+// reschedules failures with exponential backoff. After maxAttempts a delivery is dead and
+// stays in the queue for inspection and replay. Delivery is at-least-once and unordered:
+// receivers should dedupe on X-Webhook-Id and order by blockNumber/logIndex.
+
+import {
+  claimWebhookDeliveries,
+  markWebhookDelivered,
+  markWebhookFailed,
+  pruneWebhookDeliveries,
+} from "../db/index.js";
+import type { ClaimedWebhookDelivery } from "../db/types.js";
+import { SIGNATURE_HEADER, signWebhookPayload } from "./signing.js";
+
+export interface WebhookDispatcherConfig {
+  pollIntervalMs?: number;
+  maxAttempts?: number;
+  // Per-request timeout; slower receivers count as failed
+  timeoutMs?: number;
+  batchSize?: number;
+}
+
+const DEFAULT_CONFIG: Required<WebhookDispatcherConfig> = {
+  pollIntervalMs: 1000,
+  maxAttempts: 10,
+  timeoutMs: 10000,
+  batchSize: 20,
+};
+
+// 30s, 1m, 2m, ... capped at 1h between attempts
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 3_600_000;
+
+// Delivered rows are only kept for inspection
+const DELIVERED_RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 3_600_000;
+
+export type WebhookSendResult =
+  | { ok: true; status: number }
+  | { ok: false; status: number | null; error: string };
+
+// Delay before the next attempt, given how many attempts have failed so far
+export function webhookRetryDelayMs(failedAttempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(failedAttempts - 1, 0), RETRY_MAX_MS);
+}
+
+// Any 2xx is success; redirects are not followed and count as failures
+export async function sendWebhook(
+  delivery: ClaimedWebhookDelivery,
+  timeoutMs: number,
+  fetchImpl: typeof fetch = fetch
+): Promise<WebhookSendResult> {
+  const body = JSON.stringify(delivery.payload);
+  try {
+    const response = await fetchImpl(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "railbird-indexer-webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event_type,
+        [SIGNATURE_HEADER]: signWebhookPayload(delivery.secret, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, status: response.status };
+    }
+    return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export class WebhookDispatcher {
+  private config: Required<WebhookDispatcherConfig>;
+  private running = false;
+  private lastPrune = 0;
+
+  constructor(config: WebhookDispatcherConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    console.log(`[Webhooks] Dispatcher started (max ${this.config.maxAttempts} attempts)`);
+
+    while (this.running) {
+      try {
+        const claimed = await this.runOnce();
+        // A full batch means more are probably due; otherwise wait for the next poll
+        if (claimed < this.config.batchSize) {
+          await this.sleep(this.config.pollIntervalMs);
+        }
+      } catch (error) {
+        console.error("[Webhooks] Dispatcher error:", error);
+        await this.sleep(5000);
+      }
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  // Send one batch of due deliveries; returns how many were claimed
+  async runOnce(): Promise<number> {
+    if (Date.now() - this.lastPrune >= PRUNE_INTERVAL_MS) {
+      await pruneWebhookDeliveries(DELIVERED_RETENTION_DAYS);
+      this.lastPrune = Date.now();
+    }
+
+    // The lease outlasts the request timeout, so a claim is only retaken if this process died
+    const leaseSeconds = Math.ceil(this.config.timeoutMs / 1000) + 30;
+    const deliveries = await claimWebhookDeliveries(this.config.batchSize, leaseSeconds);
+    await Promise.all(deliveries.map((delivery) => this.attempt(delivery)));
+    return deliveries.length;
+  }
+
+  private async attempt(delivery: ClaimedWebhookDelivery): Promise<void> {
+    const result = await sendWebhook(delivery, this.config.timeoutMs);
+    if (result.ok) {
+      await markWebhookDelivered(delivery.id, result.status);
+      return;
+    }
+
+    const failedAttempts = delivery.attempts + 1;
+    const retryAt =
+      failedAttempts >= this.config.maxAttempts
+        ? null
+        : new Date(Date.now() + webhookRetryDelayMs(failedAttempts));
+    await markWebhookFailed(delivery.id, result.error, result.status, retryAt);
+    if (!retryAt) {
+      console.warn(
+        `[Webhooks] Delivery ${delivery.id} to webhook ${delivery.webhook_id} dead after ${failedAttempts} attempts: ${result.error}`
+      );
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,120 @@
+// Queue webhook deliveries for indexed events
+//
+// The listener passes the WebSocket messages of a block range before committing it, so
+// deliveries are written in the same transaction as the data they describe: a range that
+// rolls back queues nothing, and a committed one cannot lose its webhooks.
+
+import { getWebhooks, insertWebhookDeliveries } from "../db/index.js";
+import type { Webhook } from "../db/types.js";
+import type { DeferredBroadcast } from "../ws/manager.js";
+import { matchingSubscriptions } from "../ws/topics.js";
+import type { WsMessageType } from "../ws/types.js";
+
+// Indexed events that can be delivered; stream control messages and the timer-driven
+// leaderboard refresh are WebSocket-only
+export const WEBHOOK_EVENT_TYPES: readonly WsMessageType[] = [
+  "action",
+  "hand_started",
+  "betting_round_complete",
+  "vrf_requested",
+  "vrf_rerequested",
+  "community_cards",
+  "hand_settled",
+  "seat_updated",
+  "seat_top_up",
+  "seat_cash_out",
+  "seat_closed",
+  "seat_evicted",
+  "pot_updated",
+  "force_timeout",
+  "hole_commit_submitted",
+  "hole_cards_revealed",
+  "reorg",
+  "vault_snapshot",
+  "agent_registered",
+  "agent_updated",
+  "token_trade",
+];
+
+// Request body of a webhook delivery
+export interface WebhookPayload {
+  type: WsMessageType;
+  topic: string;
+  blockNumber: string;
+  logIndex: number;
+  timestamp: string;
+  data: unknown;
+}
+
+export interface QueuedWebhookDelivery {
+  webhookId: string;
+  eventType: string;
+  topic: string;
+  blockNumber: bigint;
+  payload: WebhookPayload;
+}
+
+/**
+ * Same matching as WebSocket subscriptions: a topic filter entry may be a concrete topic,
+ * `kind:*` or `*`, and broadcasts to everyone (topic null, e.g. reorg) ignore topic filters.
+ */
+export function webhookMatches(
+  webhook: Pick<Webhook, "event_types" | "topics">,
+  type: string,
+  topic: string | null
+): boolean {
+  if (webhook.event_types.length > 0 && !webhook.event_types.includes(type)) return false;
+  if (topic === null || webhook.topics.length === 0) return true;
+  return matchingSubscriptions(topic).some((key) => webhook.topics.includes(key));
+}
+
+/**
+ * One delivery per matching webhook and event. An event published on several topics
+ * (a vault snapshot goes to vault:<addr> and agent:<addr>) is delivered once, under the
+ * first topic that matched.
+ */
+export function buildWebhookDeliveries(
+  webhooks: readonly Webhook[],
+  events: readonly DeferredBroadcast[],
+  now = new Date()
+): QueuedWebhookDelivery[] {
+  const deliveries: QueuedWebhookDelivery[] = [];
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (!WEBHOOK_EVENT_TYPES.includes(event.type)) continue;
+    const topic = event.topic ?? "global";
+    const eventKey = `${event.type}|${event.position.blockNumber}:${event.position.logIndex}|${JSON.stringify(event.data)}`;
+
+    for (const webhook of webhooks) {
+      if (!webhookMatches(webhook, event.type, event.topic)) continue;
+      const key = `${webhook.id}|${eventKey}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      deliveries.push({
+        webhookId: webhook.id,
+        eventType: event.type,
+        topic,
+        blockNumber: event.position.blockNumber,
+        payload: {
+          type: event.type,
+          topic,
+          blockNumber: event.position.blockNumber.toString(),
+          logIndex: event.position.logIndex,
+          timestamp: now.toISOString(),
+          data: event.data,
+        },
+      });
+    }
+  }
+
+  return deliveries;
+}
+
+export async function enqueueWebhookEvents(events: readonly DeferredBroadcast[]): Promise<void> {
+  if (!events.some((event) => WEBHOOK_EVENT_TYPES.includes(event.type))) return;
+  const webhooks = await getWebhooks();
+  if (webhooks.length === 0) return;
+  await insertWebhookDeliveries(buildWebhookDeliveries(webhooks, events));
+}
@@ -0,0 +1,5 @@
+// Webhook module exports
+
+export * from "./signing.js";
+export * from "./enqueue.js";
+export * from "./dispatcher.js";
@@ -0,0 +1,172 @@
+// Webhook tests
+
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { signWebhookPayload, verifyWebhookSignature, generateWebhookSecret, SIGNATURE_HEADER } from "./signing.js";
+import { buildWebhookDeliveries, webhookMatches } from "./enqueue.js";
+import { sendWebhook, webhookRetryDelayMs } from "./dispatcher.js";
+import type { DeferredBroadcast } from "../ws/manager.js";
+import type { ClaimedWebhookDelivery, Webhook } from "../db/types.js";
+
+const TOKEN = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const VAULT = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+function webhook(id: string, eventTypes: string[] = [], topics: string[] = []): Webhook {
+  return {
+    id,
+    url: `https://example.com/hooks/${id}`,
+    secret: "whsec_test",
+    event_types: eventTypes,
+    topics,
+    description: null,
+    created_at: new Date(),
+  };
+}
+
+function event(topic: string | null, type: DeferredBroadcast["type"], data: unknown, blockNumber = 10n, logIndex = 0): DeferredBroadcast {
+  return { topic, type, data, position: { blockNumber, logIndex } };
+}
+
+function claimed(overrides: Partial<ClaimedWebhookDelivery> = {}): ClaimedWebhookDelivery {
+  return {
+    id: "42",
+    webhook_id: "1",
+    event_type: "hand_settled",
+    topic: "table:1",
+    block_number: "10",
+    payload: { type: "hand_settled", data: { handId: "3" } },
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: new Date(),
+    last_error: null,
+    last_response_status: null,
+    created_at: new Date(),
+    delivered_at: null,
+    url: "https://example.com/hook",
+    secret: "whsec_test",
+    ...overrides,
+  };
+}
+
+describe("Webhook signatures", () => {
+  test("verifies its own signature and rejects tampering", () => {
+    const secret = generateWebhookSecret();
+    const body = JSON.stringify({ type: "hand_settled" });
+    const header = signWebhookPayload(secret, body, 1_700_000_000);
+
+    assert.match(header, /^t=1700000000,v1=[0-9a-f]{64}$/);
+    assert.strictEqual(verifyWebhookSignature(secret, body, header, 300, 1_700_000_010), true);
+    assert.strictEqual(verifyWebhookSignature(secret, `${body} `, header, 300, 1_700_000_010), false);
+    assert.strictEqual(verifyWebhookSignature("whsec_other", body, header, 300, 1_700_000_010), false);
+  });
+
+  test("rejects stale and malformed headers", () => {
+    const body = "{}";
+    const header = signWebhookPayload("s", body, 1_700_000_000);
+    assert.strictEqual(verifyWebhookSignature("s", body, header, 300, 1_700_000_301), false);
+    assert.strictEqual(verifyWebhookSignature("s", body, "v1=abc", 300, 1_700_000_000), false);
+    assert.strictEqual(verifyWebhookSignature("s", body, "t=1700000000,v1=zz", 300, 1_700_000_000), false);
+  });
+});
+
+describe("Webhook matching", () => {
+  test("filters by event type and topic, with wildcards", () => {
+    assert.strictEqual(webhookMatches(webhook("1"), "action", "table:1"), true);
+    assert.strictEqual(webhookMatches(webhook("1", ["hand_settled"]), "action", "table:1"), false);
+    assert.strictEqual(webhookMatches(webhook("1", [], ["table:2"]), "action", "table:1"), false);
+    assert.strictEqual(webhookMatches(webhook("1", [], ["table:*"]), "action", "table:1"), true);
+    assert.strictEqual(webhookMatches(webhook("1", [], ["*"]), "vault_snapshot", `vault:${VAULT}`), true);
+  });
+
+  test("broadcasts to everyone ignore topic filters", () => {
+    assert.strictEqual(webhookMatches(webhook("1", [], ["table:2"]), "reorg", null), true);
+    assert.strictEqual(webhookMatches(webhook("1", ["hand_settled"]), "reorg", null), false);
+  });
+
+  test("builds one delivery per webhook and event, skipping WebSocket-only messages", () => {
+    const snapshot = { handId: "3", navPerShare: "1" };
+    const events = [
+      // A vault snapshot is published to both its vault and agent topics
+      event(`vault:${VAULT}`, "vault_snapshot", snapshot, 12n, 4),
+      event(`agent:${TOKEN}`, "vault_snapshot", snapshot, 12n, 4),
+      event("table:1", "hand_settled", { handId: "3" }, 12n, 5),
+      event("leaderboard", "leaderboard_updated", {}, 12n, 5),
+    ];
+    const now = new Date("2026-01-01T00:00:00.000Z");
+    const deliveries = buildWebhookDeliveries(
+      [webhook("1"), webhook("2", [], [`agent:${TOKEN}`]), webhook("3", ["hand_settled"])],
+      events,
+      now
+    );
+
+    assert.deepStrictEqual(
+      deliveries.map((d) => [d.webhookId, d.eventType, d.topic]),
+      [
+        ["1", "vault_snapshot", `vault:${VAULT}`],
+        ["2", "vault_snapshot", `agent:${TOKEN}`],
+        ["1", "hand_settled", "table:1"],
+        ["3", "hand_settled", "table:1"],
+      ]
+    );
+    assert.deepStrictEqual(deliveries[2].payload, {
+      type: "hand_settled",
+      topic: "table:1",
+      blockNumber: "12",
+      logIndex: 5,
+      timestamp: now.toISOString(),
+      data: { handId: "3" },
+    });
+  });
+
+  test("broadcasts are delivered under the global topic", () => {
+    const [delivery] = buildWebhookDeliveries([webhook("1")], [event(null, "reorg", { forkBlock: "9" }, 9n)]);
+    assert.strictEqual(delivery.topic, "global");
+    assert.strictEqual(delivery.blockNumber, 9n);
+  });
+});
+
+describe("Webhook dispatch", () => {
+  test("backs off exponentially up to an hour", () => {
+    assert.strictEqual(webhookRetryDelayMs(1), 30_000);
+    assert.strictEqual(webhookRetryDelayMs(2), 60_000);
+    assert.strictEqual(webhookRetryDelayMs(5), 480_000);
+    assert.strictEqual(webhookRetryDelayMs(20), 3_600_000);
+  });
+
+  test("posts the signed payload with delivery headers", async () => {
+    let request: { url: string; init: RequestInit } | null = null;
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      request = { url, init };
+      return new Response(null, { status: 204 });
+    }) as unknown as typeof fetch;
+
+    const result = await sendWebhook(claimed(), 1000, fetchImpl);
+    assert.deepStrictEqual(result, { ok: true, status: 204 });
+
+    const { url, init } = request!;
+    const headers = init.headers as Record<string, string>;
+    assert.strictEqual(url, "https://example.com/hook");
+    assert.strictEqual(init.redirect, "manual");
+    assert.strictEqual(headers["X-Webhook-Id"], "42");
+    assert.strictEqual(headers["X-Webhook-Event"], "hand_settled");
+    assert.strictEqual(init.body, JSON.stringify(claimed().payload));
+    assert.ok(verifyWebhookSignature("whsec_test", init.body as string, headers[SIGNATURE_HEADER]));
+  });
+
+  test("reports non-2xx responses and network errors as failures", async () => {
+    const failing = (async () => new Response("nope", { status: 500 })) as unknown as typeof fetch;
+    assert.deepStrictEqual(await sendWebhook(claimed(), 1000, failing), { ok: false, status: 500, error: "HTTP 500" });
+
+    const redirect = (async () => new Response(null, { status: 302 })) as unknown as typeof fetch;
+    assert.strictEqual((await sendWebhook(claimed(), 1000, redirect)).ok, false);
+
+    const offline = (async () => {
+      throw new Error("connect ECONNREFUSED");
+    }) as unknown as typeof fetch;
+    assert.deepStrictEqual(await sendWebhook(claimed(), 1000, offline), {
+      ok: false,
+      status: null,
+      error: "connect ECONNREFUSED",
+    });
+  });
+});
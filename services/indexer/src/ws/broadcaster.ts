@@ -6,12 +6,28 @@ import type {
   WsHandStartedData,
   WsBettingRoundCompleteData,
   WsVRFRequestedData,
+  WsVRFReRequestedData,
   WsCommunityCardsData,
   WsHandSettledData,
   WsSeatUpdatedData,
+  WsSeatTopUpData,
+  WsSeatCashOutData,
+  WsSeatClosedData,
+  WsSeatEvictedData,
   WsPotUpdatedData,
   WsForceTimeoutData,
+  WsHoleCommitData,
+  WsHoleCardsRevealedData,
+  WsReorgData,
+  WsVaultSnapshotData,
+  WsAgentRegisteredData,
+  WsAgentField,
+  WsAgentUpdatedData,
+  WsTokenTradeData,
+  WsLeaderboardUpdatedData,
 } from "./types.js";
+import type { SeatPayout } from "../db/types.js";
+import { agentTopic, vaultTopic } from "./topics.js";
 import { gameStateToString, actionTypeToString } from "../events/abis.js";
 
 // Broadcast action taken
@@ -84,6 +100,23 @@ export function broadcastVRFRequested(
   getWsManager().broadcast(tableId.toString(), "vrf_requested", data);
 }
 
+// Broadcast VRF re-requested after timeout
+export function broadcastVRFReRequested(
+  tableId: bigint,
+  handId: bigint,
+  street: number,
+  oldRequestId: bigint,
+  newRequestId: bigint
+): void {
+  const data: WsVRFReRequestedData = {
+    handId: handId.toString(),
+    street: gameStateToString(street),
+    oldRequestId: oldRequestId.toString(),
+    newRequestId: newRequestId.toString(),
+  };
+  getWsManager().broadcast(tableId.toString(), "vrf_rerequested", data);
+}
+
 // Broadcast community cards dealt
 export function broadcastCommunityCards(
   tableId: bigint,
@@ -104,12 +137,20 @@ export function broadcastHandSettled(
   tableId: bigint,
   handId: bigint,
   winnerSeat: number,
-  potAmount: bigint
+  potAmount: bigint,
+  payouts: SeatPayout[]
 ): void {
   const data: WsHandSettledData = {
     handId: handId.toString(),
     winnerSeat,
+    winnerSeats: payouts.filter((p) => p.won > 0n).map((p) => p.seatIndex),
     potAmount: potAmount.toString(),
+    payouts: payouts.map((p) => ({
+      seatIndex: p.seatIndex,
+      amountWon: p.won.toString(),
+      amountContributed: p.contributed?.toString() ?? null,
+      netAmount: p.contributed === null ? null : (p.won - p.contributed).toString(),
+    })),
   };
   getWsManager().broadcast(tableId.toString(), "hand_settled", data);
 }
@@ -131,6 +172,72 @@ export function broadcastSeatUpdated(
   getWsManager().broadcast(tableId.toString(), "seat_updated", data);
 }
 
+// Broadcast seat top-up
+export function broadcastSeatTopUp(
+  tableId: bigint,
+  seatIndex: number,
+  ownerAddress: string,
+  amount: bigint,
+  stackAfter: bigint
+): void {
+  const data: WsSeatTopUpData = {
+    seatIndex,
+    ownerAddress,
+    amount: amount.toString(),
+    stackAfter: stackAfter.toString(),
+  };
+  getWsManager().broadcast(tableId.toString(), "seat_top_up", data);
+}
+
+// Broadcast seat cash-out
+export function broadcastSeatCashOut(
+  tableId: bigint,
+  seatIndex: number,
+  ownerAddress: string,
+  recipientAddress: string,
+  amount: bigint,
+  stackAfter: bigint
+): void {
+  const data: WsSeatCashOutData = {
+    seatIndex,
+    ownerAddress,
+    recipientAddress,
+    amount: amount.toString(),
+    stackAfter: stackAfter.toString(),
+  };
+  getWsManager().broadcast(tableId.toString(), "seat_cash_out", data);
+}
+
+// Broadcast seat closed
+export function broadcastSeatClosed(
+  tableId: bigint,
+  seatIndex: number,
+  ownerAddress: string,
+  recipientAddress: string,
+  amount: bigint
+): void {
+  const data: WsSeatClosedData = {
+    seatIndex,
+    ownerAddress,
+    recipientAddress,
+    amount: amount.toString(),
+  };
+  getWsManager().broadcast(tableId.toString(), "seat_closed", data);
+}
+
+// Broadcast seat evicted
+export function broadcastSeatEvicted(
+  tableId: bigint,
+  seatIndex: number,
+  ownerAddress: string
+): void {
+  const data: WsSeatEvictedData = {
+    seatIndex,
+    ownerAddress,
+  };
+  getWsManager().broadcast(tableId.toString(), "seat_evicted", data);
+}
+
 // Broadcast pot updated
 export function broadcastPotUpdated(
   tableId: bigint,
@@ -158,3 +265,142 @@ export function broadcastForceTimeout(
   };
   getWsManager().broadcast(tableId.toString(), "force_timeout", data);
 }
+
+// Broadcast hole card commitment submitted
+export function broadcastHoleCommitSubmitted(
+  tableId: bigint,
+  handId: bigint,
+  seatIndex: number,
+  commitment: string
+): void {
+  const data: WsHoleCommitData = {
+    handId: handId.toString(),
+    seatIndex,
+    commitment,
+  };
+  getWsManager().broadcast(tableId.toString(), "hole_commit_submitted", data);
+}
+
+// Broadcast hole cards revealed at showdown
+export function broadcastHoleCardsRevealed(
+  tableId: bigint,
+  handId: bigint,
+  seatIndex: number,
+  card1: number,
+  card2: number
+): void {
+  const data: WsHoleCardsRevealedData = {
+    handId: handId.toString(),
+    seatIndex,
+    cards: [card1, card2],
+  };
+  getWsManager().broadcast(tableId.toString(), "hole_cards_revealed", data);
+}
+
+// Broadcast chain reorg to every subscriber; clients should refetch state at or after forkBlock
+export function broadcastReorg(forkBlock: bigint, detectedAtBlock: bigint): void {
+  const data: WsReorgData = {
+    forkBlock: forkBlock.toString(),
+    detectedAtBlock: detectedAtBlock.toString(),
+  };
+  getWsManager().broadcastAll("reorg", data);
+}
+
+// Broadcast a vault snapshot to the vault and its agent
+export function broadcastVaultSnapshot(
+  vaultAddress: string,
+  tokenAddress: string | null,
+  handId: bigint,
+  externalAssets: bigint,
+  treasuryShares: bigint,
+  outstandingShares: bigint,
+  navPerShare: bigint,
+  cumulativePnl: bigint,
+  blockNumber: bigint
+): void {
+  const data: WsVaultSnapshotData = {
+    vaultAddress: vaultAddress.toLowerCase(),
+    tokenAddress: tokenAddress?.toLowerCase() ?? null,
+    handId: handId.toString(),
+    externalAssets: externalAssets.toString(),
+    treasuryShares: treasuryShares.toString(),
+    outstandingShares: outstandingShares.toString(),
+    navPerShare: navPerShare.toString(),
+    cumulativePnl: cumulativePnl.toString(),
+    blockNumber: blockNumber.toString(),
+  };
+  const manager = getWsManager();
+  manager.publish(vaultTopic(vaultAddress), "vault_snapshot", data);
+  if (tokenAddress) {
+    manager.publish(agentTopic(tokenAddress), "vault_snapshot", data);
+  }
+}
+
+// Broadcast a new agent registration to the agent topic and global
+export function broadcastAgentRegistered(
+  tokenAddress: string,
+  ownerAddress: string,
+  operatorAddress: string,
+  vaultAddress: string,
+  tableAddress: string,
+  metaUri: string
+): void {
+  const data: WsAgentRegisteredData = {
+    tokenAddress: tokenAddress.toLowerCase(),
+    ownerAddress: ownerAddress.toLowerCase(),
+    operatorAddress: operatorAddress.toLowerCase(),
+    vaultAddress: vaultAddress.toLowerCase(),
+    tableAddress: tableAddress.toLowerCase(),
+    metaUri,
+  };
+  const manager = getWsManager();
+  manager.publish(agentTopic(tokenAddress), "agent_registered", data);
+  manager.publish("global", "agent_registered", data);
+}
+
+// Broadcast a registry field change to the agent topic and global
+export function broadcastAgentUpdated(
+  tokenAddress: string,
+  field: WsAgentField,
+  oldValue: string,
+  newValue: string
+): void {
+  const data: WsAgentUpdatedData = {
+    tokenAddress: tokenAddress.toLowerCase(),
+    field,
+    oldValue: field === "metaUri" ? oldValue : oldValue.toLowerCase(),
+    newValue: field === "metaUri" ? newValue : newValue.toLowerCase(),
+  };
+  const manager = getWsManager();
+  manager.publish(agentTopic(tokenAddress), "agent_updated", data);
+  manager.publish("global", "agent_updated", data);
+}
+
+// Broadcast an agent token trade to the agent topic
+export function broadcastTokenTrade(
+  tokenAddress: string,
+  traderAddress: string,
+  side: "BUY" | "SELL",
+  monAmount: bigint,
+  tokenAmount: bigint,
+  price: bigint,
+  blockNumber: bigint,
+  txHash: string
+): void {
+  const data: WsTokenTradeData = {
+    tokenAddress: tokenAddress.toLowerCase(),
+    traderAddress: traderAddress.toLowerCase(),
+    side,
+    monAmount: monAmount.toString(),
+    tokenAmount: tokenAmount.toString(),
+    price: price.toString(),
+    blockNumber: blockNumber.toString(),
+    txHash,
+  };
+  getWsManager().publish(agentTopic(tokenAddress), "token_trade", data);
+}
+
+// Broadcast that leaderboard stats were refreshed for the given scope (empty = everything)
+export function broadcastLeaderboardUpdated(scope: WsLeaderboardUpdatedData): void {
+  getWsManager().publish("leaderboard", "leaderboard_updated", scope);
+}
@@ -4,3 +4,7 @@ export * from "./types.js";
 export * from "./manager.js";
 export * from "./server.js";
 export * from "./broadcaster.js";
+export * from "./topics.js";
+export * from "./sequence.js";
+export * from "./relay.js";
+export * from "./sse.js";
@@ -1,104 +1,535 @@
-// WebSocket connection manager - tracks connections per table
+// Stream connection manager - tracks topic subscriptions per StreamClient or SSE client
 
-import type { WebSocket } from "ws";
-import type { WsMessage, WsMessageType } from "./types.js";
+import type { WsMessage, WsMessageType, WsRelayBatch, WsRelayedMessage } from "./types.js";
+import { matchingSubscriptions, tableTopic, topicTableId } from "./topics.js";
+import {
+  compareSequence,
+  formatSequence,
+  nextSequence,
+  parseSequence,
+  type EventPosition,
+  type StreamSequence,
+} from "./sequence.js";
+
+export const DEFAULT_REPLAY_BUFFER_SIZE = 500;
+
+// What the manager pushes to: a ws WebSocket, or an SSE response adapter with the same surface
+export interface StreamClient {
+  readonly readyState: number;
+  readonly OPEN: number;
+  readonly bufferedAmount: number;
+  send(data: string): void;
+  terminate(): void;
+}
+
+export interface WsManagerOptions {
+  // Messages kept per topic for resume
+  replayBufferSize: number;
+  // Open connection caps (0 = unlimited)
+  maxConnections: number;
+  maxConnectionsPerIp: number;
+  // Reverse proxies in front of the server whose X-Forwarded-For entries are trusted for the
+  // per-IP cap (0 = the socket's peer address is the client)
+  trustedProxyHops: number;
+  // Per-client send buffer: above the first, messages to the client are dropped;
+  // above the second, the client is disconnected
+  sendBufferDropBytes: number;
+  sendBufferCloseBytes: number;
+}
+
+const DEFAULT_OPTIONS: WsManagerOptions = {
+  replayBufferSize: DEFAULT_REPLAY_BUFFER_SIZE,
+  maxConnections: 1000,
+  maxConnectionsPerIp: 20,
+  trustedProxyHops: 0,
+  sendBufferDropBytes: 1024 * 1024,
+  sendBufferCloseBytes: 4 * 1024 * 1024,
+};
+
+export interface WsStats {
+  tables: number;
+  topics: number;
+  // Clients with at least one subscription
+  totalConnections: number;
+  openConnections: number;
+  rejectedConnections: number;
+  reapedConnections: number;
+  droppedMessages: number;
+  laggardDisconnects: number;
+}
+
+export type ConnectionRejection = "global_limit" | "ip_limit";
+
+// Message published while broadcasts are deferred (topic null = broadcastAll)
+export interface DeferredBroadcast {
+  topic: string | null;
+  type: WsMessageType;
+  data: unknown;
+  position: EventPosition;
+}
+
+export type ResumeResult =
+  | { status: "resumed"; replayed: number; latestSeq: string | null }
+  | { status: "snapshot_required"; latestSeq: string | null };
+
+// Sent messages retained for one topic, oldest first
+interface TopicStream {
+  last: StreamSequence | null;
+  buffer: Array<{ seq: StreamSequence; payload: string }>;
+}
 
 export class WsManager {
-  // Map of tableId -> Set of connected WebSocket clients
-  private connections: Map<string, Set<WebSocket>> = new Map();
+  // Map of topic (or wildcard) -> Set of subscribed clients
+  private subscriptions: Map<string, Set<StreamClient>> = new Map();
+
+  // Reverse index so a disconnect can drop every subscription at once
+  private clientTopics: Map<StreamClient, Set<string>> = new Map();
+
+  // Broadcasts held back while a DB transaction is open; null when sending immediately
+  private deferred: DeferredBroadcast[] | null = null;
+
+  // Chain event currently being handled; sequences are derived from it
+  private position: EventPosition = { blockNumber: 0n, logIndex: 0 };
+
+  private streams: Map<string, TopicStream> = new Map();
 
-  // Subscribe a client to a table
-  subscribe(tableId: string, ws: WebSocket): void {
-    if (!this.connections.has(tableId)) {
-      this.connections.set(tableId, new Set());
+  // Messages held per client and topic while that client's snapshot is loading
+  private pendingSnapshots: Map<StreamClient, Map<string, Array<{ seq: StreamSequence; payload: string }>>> =
+    new Map();
+
+  private options: WsManagerOptions = { ...DEFAULT_OPTIONS };
+
+  // Publishes committed messages to other instances (Postgres NOTIFY); null when fan-out is local only
+  private relay: ((batch: WsRelayBatch) => void) | null = null;
+
+  // Open sockets and their client IP, for connection caps
+  private connections: Map<StreamClient, string> = new Map();
+  private connectionsPerIp: Map<string, number> = new Map();
+
+  private counters = {
+    rejectedConnections: 0,
+    reapedConnections: 0,
+    droppedMessages: 0,
+    laggardDisconnects: 0,
+  };
+
+  configure(options: Partial<WsManagerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getTrustedProxyHops(): number {
+    return this.options.trustedProxyHops;
+  }
+
+  // Track a new socket, or return why it exceeds the connection caps
+  registerConnection(ws: StreamClient, ip: string): ConnectionRejection | null {
+    const { maxConnections, maxConnectionsPerIp } = this.options;
+    const fromIp = this.connectionsPerIp.get(ip) ?? 0;
+    if (maxConnections > 0 && this.connections.size >= maxConnections) {
+      this.counters.rejectedConnections++;
+      return "global_limit";
     }
-    this.connections.get(tableId)!.add(ws);
-    console.log(`[WS] Client subscribed to table ${tableId} (${this.getSubscriberCount(tableId)} total)`);
+    if (maxConnectionsPerIp > 0 && fromIp >= maxConnectionsPerIp) {
+      this.counters.rejectedConnections++;
+      return "ip_limit";
+    }
+    this.connections.set(ws, ip);
+    this.connectionsPerIp.set(ip, fromIp + 1);
+    return null;
+  }
+
+  // Forget a socket and all its subscriptions (on close)
+  unregisterConnection(ws: StreamClient): void {
+    this.unsubscribeAll(ws);
+    const ip = this.connections.get(ws);
+    if (ip === undefined) return;
+    this.connections.delete(ws);
+    const remaining = (this.connectionsPerIp.get(ip) ?? 1) - 1;
+    if (remaining > 0) {
+      this.connectionsPerIp.set(ip, remaining);
+    } else {
+      this.connectionsPerIp.delete(ip);
+    }
+  }
+
+  // Heartbeat found the socket unresponsive
+  recordReaped(): void {
+    this.counters.reapedConnections++;
+  }
+
+  setRelay(relay: ((batch: WsRelayBatch) => void) | null): void {
+    this.relay = relay;
   }
 
-  // Unsubscribe a client from a table
-  unsubscribe(tableId: string, ws: WebSocket): void {
-    const clients = this.connections.get(tableId);
-    if (clients) {
-      clients.delete(ws);
+  // Called by the listener before each log is handled
+  setEventPosition(blockNumber: bigint, logIndex: number): void {
+    this.position = { blockNumber, logIndex };
+  }
+
+  // Subscribe a client to a topic or wildcard (already validated by parseTopic)
+  subscribeTopic(topic: string, ws: StreamClient): void {
+    if (!this.subscriptions.has(topic)) {
+      this.subscriptions.set(topic, new Set());
+    }
+    this.subscriptions.get(topic)!.add(ws);
+
+    if (!this.clientTopics.has(ws)) {
+      this.clientTopics.set(ws, new Set());
+    }
+    this.clientTopics.get(ws)!.add(topic);
+    console.log(`[WS] Client subscribed to ${topic} (${this.getTopicSubscriberCount(topic)} total)`);
+  }
+
+  // Unsubscribe a client from a topic
+  unsubscribeTopic(topic: string, ws: StreamClient): void {
+    this.releaseSnapshot(topic, ws);
+    const clients = this.subscriptions.get(topic);
+    if (clients?.delete(ws)) {
       if (clients.size === 0) {
-        this.connections.delete(tableId);
+        this.subscriptions.delete(topic);
       }
-      console.log(`[WS] Client unsubscribed from table ${tableId} (${this.getSubscriberCount(tableId)} remaining)`);
+      console.log(`[WS] Client unsubscribed from ${topic} (${this.getTopicSubscriberCount(topic)} remaining)`);
     }
-  }
 
-  // Unsubscribe a client from all tables (on disconnect)
-  unsubscribeAll(ws: WebSocket): void {
-    for (const [tableId, clients] of this.connections.entries()) {
-      if (clients.has(ws)) {
-        clients.delete(ws);
-        if (clients.size === 0) {
-          this.connections.delete(tableId);
-        }
-        console.log(`[WS] Client unsubscribed from table ${tableId} (${this.getSubscriberCount(tableId)} remaining)`);
+    const topics = this.clientTopics.get(ws);
+    if (topics) {
+      topics.delete(topic);
+      if (topics.size === 0) {
+        this.clientTopics.delete(ws);
       }
     }
   }
 
-  // Get number of subscribers for a table
+  // Unsubscribe a client from every topic (on disconnect)
+  unsubscribeAll(ws: StreamClient): void {
+    for (const topic of Array.from(this.clientTopics.get(ws) ?? [])) {
+      this.unsubscribeTopic(topic, ws);
+    }
+  }
+
+  // Topics a client is currently subscribed to
+  getTopics(ws: StreamClient): string[] {
+    return Array.from(this.clientTopics.get(ws) ?? []);
+  }
+
+  getTopicSubscriberCount(topic: string): number {
+    return this.subscriptions.get(topic)?.size ?? 0;
+  }
+
+  // Table helpers, kept for /ws/tables/:id connections
+  subscribe(tableId: string, ws: StreamClient): void {
+    this.subscribeTopic(tableTopic(tableId), ws);
+  }
+
+  unsubscribe(tableId: string, ws: StreamClient): void {
+    this.unsubscribeTopic(tableTopic(tableId), ws);
+  }
+
   getSubscriberCount(tableId: string): number {
-    return this.connections.get(tableId)?.size ?? 0;
+    return this.getTopicSubscriberCount(tableTopic(tableId));
   }
 
-  // Broadcast a message to all clients subscribed to a table
   broadcast(tableId: string, type: WsMessageType, data: unknown): void {
-    const clients = this.connections.get(tableId);
-    if (!clients || clients.size === 0) {
+    this.publish(tableTopic(tableId), type, data);
+  }
+
+  // Send a message to every client subscribed to the topic, its kind wildcard or "*".
+  // A client matching several of those still receives the message once.
+  publish(topic: string, type: WsMessageType, data: unknown): void {
+    if (this.deferred) {
+      this.deferred.push({ topic, type, data, position: { ...this.position } });
       return;
     }
+    const seq = this.deliver(topic, type, data, this.sequenceFor(topic, this.position));
+    this.relay?.({ messages: [{ topic, type, data, seq: formatSequence(seq) }] });
+  }
+
+  private sequenceFor(topic: string, position: EventPosition): StreamSequence {
+    return nextSequence(this.streams.get(topic)?.last ?? null, position);
+  }
+
+  // Buffer for resume, then fan out. Buffered even without subscribers so a
+  // client that reconnects after a blip can still catch up.
+  private deliver(topic: string, type: WsMessageType, data: unknown, seq: StreamSequence): StreamSequence {
+    let stream = this.streams.get(topic);
+    if (!stream) {
+      stream = { last: null, buffer: [] };
+      this.streams.set(topic, stream);
+    }
+    stream.last = seq;
 
     const message: WsMessage = {
       type,
-      tableId,
+      topic,
+      tableId: topicTableId(topic),
+      seq: formatSequence(seq),
       timestamp: new Date().toISOString(),
       data,
     };
-
     const payload = JSON.stringify(message);
 
+    stream.buffer.push({ seq, payload });
+    if (stream.buffer.length > this.options.replayBufferSize) {
+      stream.buffer.splice(0, stream.buffer.length - this.options.replayBufferSize);
+    }
+
+    const recipients = new Set<StreamClient>();
+    for (const key of matchingSubscriptions(topic)) {
+      for (const ws of this.subscriptions.get(key) ?? []) {
+        recipients.add(ws);
+      }
+    }
+    for (const ws of recipients) {
+      const held = this.pendingSnapshots.get(ws)?.get(topic);
+      if (held) {
+        held.push({ seq, payload });
+        recipients.delete(ws);
+      }
+    }
+    if (recipients.size > 0) {
+      this.send(recipients, message, payload);
+    }
+    return seq;
+  }
+
+  /**
+   * Subscribe and hold the topic's live messages for this client until completeSnapshot,
+   * so the snapshot can be placed at the exact point in the stream it reflects.
+   */
+  beginSnapshot(topic: string, ws: StreamClient): void {
+    this.subscribeTopic(topic, ws);
+    if (!this.pendingSnapshots.has(ws)) {
+      this.pendingSnapshots.set(ws, new Map());
+    }
+    this.pendingSnapshots.get(ws)!.set(topic, []);
+  }
+
+  /**
+   * Send the snapshot, then the held messages it does not already reflect.
+   * cursorBlock is the indexer cursor read with the snapshot: events below it are included.
+   * The snapshot carries the seq of the last buffered message it covers, so it can be resumed from.
+   */
+  completeSnapshot(topic: string, ws: StreamClient, cursorBlock: bigint, type: WsMessageType, data: unknown): void {
+    const held = this.releaseSnapshot(topic, ws);
+    if (!held || ws.readyState !== ws.OPEN) return;
+
+    const covered = (this.streams.get(topic)?.buffer ?? []).filter((entry) => entry.seq.blockNumber < cursorBlock);
+    const message: WsMessage = {
+      type,
+      topic,
+      tableId: topicTableId(topic),
+      seq: covered.length > 0 ? formatSequence(covered[covered.length - 1].seq) : undefined,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    ws.send(JSON.stringify(message));
+
+    for (const entry of held) {
+      if (entry.seq.blockNumber >= cursorBlock) ws.send(entry.payload);
+    }
+  }
+
+  // Snapshot failed: deliver whatever was held so the client still gets the live stream
+  abortSnapshot(topic: string, ws: StreamClient): void {
+    const held = this.releaseSnapshot(topic, ws);
+    if (!held || ws.readyState !== ws.OPEN) return;
+    for (const entry of held) {
+      ws.send(entry.payload);
+    }
+  }
+
+  private releaseSnapshot(topic: string, ws: StreamClient): Array<{ seq: StreamSequence; payload: string }> | null {
+    const pending = this.pendingSnapshots.get(ws);
+    const held = pending?.get(topic);
+    if (!pending || !held) return null;
+    pending.delete(topic);
+    if (pending.size === 0) {
+      this.pendingSnapshots.delete(ws);
+    }
+    return held;
+  }
+
+  /**
+   * Replay messages after lastSeq to one client. Only possible while the client's last
+   * message is still buffered; otherwise (evicted, rolled back by a reorg, or sent before
+   * a restart) the client must refetch state over REST.
+   */
+  resume(topic: string, lastSeq: string, ws: StreamClient): ResumeResult {
+    const stream = this.streams.get(topic);
+    const latestSeq = stream?.last ? formatSequence(stream.last) : null;
+    const since = parseSequence(lastSeq);
+    if (!stream || !since) {
+      return { status: "snapshot_required", latestSeq };
+    }
+
+    const index = stream.buffer.findIndex((entry) => compareSequence(entry.seq, since) === 0);
+    if (index === -1) {
+      return { status: "snapshot_required", latestSeq };
+    }
+
+    const missed = stream.buffer.slice(index + 1);
+    for (const entry of missed) {
+      if (ws.readyState === ws.OPEN) ws.send(entry.payload);
+    }
+    return { status: "resumed", replayed: missed.length, latestSeq };
+  }
+
+  // Drop buffered messages from rolled-back blocks so resumes across a reorg require a snapshot
+  rewind(forkBlock: bigint): void {
+    this.rewindStreams(forkBlock);
+    this.relay?.({ rewind: forkBlock.toString() });
+  }
+
+  private rewindStreams(forkBlock: bigint): void {
+    for (const [topic, stream] of this.streams) {
+      stream.buffer = stream.buffer.filter((entry) => entry.seq.blockNumber < forkBlock);
+      stream.last = stream.buffer.length > 0 ? stream.buffer[stream.buffer.length - 1].seq : null;
+      if (stream.buffer.length === 0) {
+        this.streams.delete(topic);
+      }
+    }
+    if (this.position.blockNumber >= forkBlock) {
+      this.position = { blockNumber: forkBlock, logIndex: 0 };
+    }
+  }
+
+  // Send a message once to every subscribed client (chain-wide events like reorgs)
+  broadcastAll(type: WsMessageType, data: unknown): void {
+    if (this.deferred) {
+      this.deferred.push({ topic: null, type, data, position: { ...this.position } });
+      return;
+    }
+    this.sendAll(type, data);
+    this.relay?.({ messages: [{ topic: null, type, data }] });
+  }
+
+  private sendAll(type: WsMessageType, data: unknown): void {
+    const message: WsMessage = {
+      type,
+      topic: "global",
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    this.send(new Set(this.clientTopics.keys()), message);
+  }
+
+  private send(recipients: Set<StreamClient>, message: WsMessage, payload = JSON.stringify(message)): void {
     let sent = 0;
     let failed = 0;
 
-    for (const ws of clients) {
+    for (const ws of recipients) {
       try {
         if (ws.readyState === ws.OPEN) {
+          // Slow consumer: drop while its buffer drains, disconnect if it keeps growing.
+          // Dropped messages show up as a seq gap the client can resume across.
+          if (ws.bufferedAmount > this.options.sendBufferCloseBytes) {
+            this.disconnectLaggard(ws);
+            failed++;
+            continue;
+          }
+          if (ws.bufferedAmount > this.options.sendBufferDropBytes) {
+            this.counters.droppedMessages++;
+            continue;
+          }
           ws.send(payload);
           sent++;
         } else {
           // Clean up closed connections
-          clients.delete(ws);
+          this.unsubscribeAll(ws);
           failed++;
         }
       } catch (error) {
         console.error(`[WS] Failed to send message to client:`, error);
-        clients.delete(ws);
+        this.unsubscribeAll(ws);
         failed++;
       }
     }
 
     if (sent > 0) {
-      console.log(`[WS] Broadcast ${type} to ${sent} clients for table ${tableId}`);
+      console.log(`[WS] Broadcast ${message.type} to ${sent} clients for ${message.topic}`);
     }
     if (failed > 0) {
-      console.log(`[WS] Removed ${failed} stale connections for table ${tableId}`);
+      console.log(`[WS] Removed ${failed} stale connections for ${message.topic}`);
+    }
+  }
+
+  private disconnectLaggard(ws: StreamClient): void {
+    console.warn(`[WS] Disconnecting slow client (${ws.bufferedAmount} bytes buffered)`);
+    this.counters.laggardDisconnects++;
+    this.unregisterConnection(ws);
+    ws.terminate();
+  }
+
+  // Queue broadcasts until flushDeferred (commit) or discardDeferred (rollback)
+  deferBroadcasts(): void {
+    this.deferred ??= [];
+  }
+
+  // Deliver locally and relay the committed range to other instances as one batch
+  flushDeferred(): void {
+    const pending = this.deferred ?? [];
+    this.deferred = null;
+    const relayed: WsRelayedMessage[] = [];
+    for (const { topic, type, data, position } of pending) {
+      if (topic === null) {
+        this.sendAll(type, data);
+        relayed.push({ topic, type, data });
+      } else {
+        const seq = this.deliver(topic, type, data, this.sequenceFor(topic, position));
+        relayed.push({ topic, type, data, seq: formatSequence(seq) });
+      }
+    }
+    if (relayed.length > 0) {
+      this.relay?.({ messages: relayed });
     }
   }
 
+  // Messages waiting for commit, so other outputs (webhooks) can be written in the same transaction
+  getDeferred(): readonly DeferredBroadcast[] {
+    return this.deferred ?? [];
+  }
+
+  discardDeferred(): void {
+    this.deferred = null;
+  }
+
+  /**
+   * Apply a batch published by the ingesting instance. Sequences are taken as published
+   * so every replica stamps a message with the same seq and clients can resume on any of them.
+   */
+  applyRelayed(batch: WsRelayBatch): void {
+    if ("rewind" in batch) {
+      this.rewindStreams(BigInt(batch.rewind));
+      return;
+    }
+    for (const { topic, type, data, seq } of batch.messages) {
+      const parsed = parseSequence(seq);
+      if (topic === null) {
+        this.sendAll(type, data);
+      } else if (parsed) {
+        this.deliver(topic, type, data, parsed);
+      }
+    }
+  }
+
+  // Forget all replay buffers: after a relay outage this replica may have missed messages,
+  // so resumes must fall back to snapshots rather than replay an incomplete stream
+  clearReplayBuffers(): void {
+    this.streams.clear();
+  }
+
   // Get statistics
-  getStats(): { tables: number; totalConnections: number } {
-    let totalConnections = 0;
-    for (const clients of this.connections.values()) {
-      totalConnections += clients.size;
+  getStats(): WsStats {
+    let tables = 0;
+    for (const topic of this.subscriptions.keys()) {
+      if (topicTableId(topic) !== undefined) tables++;
     }
     return {
-      tables: this.connections.size,
-      totalConnections,
+      tables,
+      topics: this.subscriptions.size,
+      totalConnections: this.clientTopics.size,
+      openConnections: this.connections.size,
+      ...this.counters,
     };
   }
 }
@@ -0,0 +1,137 @@
+// Cross-instance fan-out over Postgres LISTEN/NOTIFY
+//
+// The ingesting instance publishes every committed batch of WS messages on a NOTIFY channel;
+// WS-only instances LISTEN and replay them into their local WsManager. Payloads over the
+// NOTIFY size limit are stored in ws_relay_outbox and referenced by id.
+
+import pg from "pg";
+import { getDbConfig, getPool } from "../db/index.js";
+import type { WsManager } from "./manager.js";
+import type { WsRelayBatch } from "./types.js";
+
+export const WS_RELAY_CHANNEL = "ws_relay";
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_BYTES = 7900;
+
+// Outbox rows only need to outlive delivery to listening instances
+const OUTBOX_RETENTION = "1 hour";
+
+const RECONNECT_DELAY_MS = 1000;
+
+type RelayNotification = WsRelayBatch | { outboxId: string };
+
+/**
+ * Publisher for WsManager.setRelay. Batches are sent strictly in order on the pool, outside
+ * any ingestion transaction (they are only published after commit).
+ */
+export function createPgRelayPublisher(): (batch: WsRelayBatch) => void {
+  let chain: Promise<void> = Promise.resolve();
+  return (batch) => {
+    chain = chain
+      .then(() => publishBatch(batch))
+      .catch((error) => {
+        console.error("[WS] Failed to publish relay batch:", error);
+      });
+  };
+}
+
+async function publishBatch(batch: WsRelayBatch): Promise<void> {
+  const pool = getPool();
+  const payload = JSON.stringify(batch);
+  if (Buffer.byteLength(payload) <= MAX_NOTIFY_BYTES) {
+    await pool.query("SELECT pg_notify($1, $2)", [WS_RELAY_CHANNEL, payload]);
+    return;
+  }
+
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO ws_relay_outbox (payload) VALUES ($1) RETURNING id`,
+    [payload]
+  );
+  const notification: RelayNotification = { outboxId: result.rows[0].id };
+  await pool.query("SELECT pg_notify($1, $2)", [WS_RELAY_CHANNEL, JSON.stringify(notification)]);
+  await pool.query(`DELETE FROM ws_relay_outbox WHERE created_at < NOW() - INTERVAL '${OUTBOX_RETENTION}'`);
+}
+
+/**
+ * LISTEN on a dedicated connection and apply batches to the manager in arrival order.
+ * Reconnects on connection loss; since notifications sent meanwhile are lost, replay buffers
+ * are cleared so clients resuming on this instance get snapshot_required instead of a gap.
+ * Returns a function that stops listening.
+ */
+export async function startRelayListener(manager: WsManager): Promise<() => Promise<void>> {
+  let client: pg.Client | null = null;
+  let stopped = false;
+  let chain: Promise<void> = Promise.resolve();
+
+  const apply = async (payload: string) => {
+    const notification = JSON.parse(payload) as RelayNotification;
+    if ("outboxId" in notification) {
+      const result = await getPool().query<{ payload: string }>(
+        `SELECT payload FROM ws_relay_outbox WHERE id = $1`,
+        [notification.outboxId]
+      );
+      if (result.rows.length === 0) {
+        console.error(`[WS] Relay outbox row ${notification.outboxId} missing; clearing replay buffers`);
+        manager.clearReplayBuffers();
+        return;
+      }
+      manager.applyRelayed(JSON.parse(result.rows[0].payload) as WsRelayBatch);
+      return;
+    }
+    manager.applyRelayed(notification);
+  };
+
+  const connect = async (): Promise<void> => {
+    const next = new pg.Client(getDbConfig());
+    next.on("notification", (message) => {
+      if (message.channel !== WS_RELAY_CHANNEL || !message.payload) return;
+      const payload = message.payload;
+      chain = chain
+        .then(() => apply(payload))
+        .catch((error) => {
+          console.error("[WS] Failed to apply relay batch:", error);
+        });
+    });
+    next.on("error", (error) => {
+      console.error("[WS] Relay listener connection error:", error);
+    });
+    next.on("end", () => {
+      // Only the established connection reconnects; failed attempts are retried by reconnect()
+      if (stopped || client !== next) return;
+      client = null;
+      console.warn("[WS] Relay listener disconnected; reconnecting");
+      manager.clearReplayBuffers();
+      setTimeout(() => void reconnect(), RECONNECT_DELAY_MS);
+    });
+
+    try {
+      await next.connect();
+      await next.query(`LISTEN ${WS_RELAY_CHANNEL}`);
+    } catch (error) {
+      await next.end().catch(() => undefined);
+      throw error;
+    }
+    client = next;
+    console.log(`[WS] Listening for relayed events on ${WS_RELAY_CHANNEL}`);
+  };
+
+  const reconnect = async (): Promise<void> => {
+    while (!stopped) {
+      try {
+        await connect();
+        return;
+      } catch (error) {
+        console.error("[WS] Relay listener reconnect failed:", error);
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    }
+  };
+
+  await connect();
+
+  return async () => {
+    stopped = true;
+    await client?.end();
+  };
+}
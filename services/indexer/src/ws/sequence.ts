@@ -0,0 +1,43 @@
+// Per-topic stream sequence numbers
+//
+// A sequence is "<block_number>:<log_index>:<ordinal>" where block/log index identify the chain
+// event that produced the message and the ordinal separates several messages for one event on
+// the same topic. Sequences only ever increase within a topic.
+
+export interface EventPosition {
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+export interface StreamSequence extends EventPosition {
+  ordinal: number;
+}
+
+export function formatSequence(seq: StreamSequence): string {
+  return `${seq.blockNumber}:${seq.logIndex}:${seq.ordinal}`;
+}
+
+export function parseSequence(raw: unknown): StreamSequence | null {
+  if (typeof raw !== "string") return null;
+  const match = raw.match(/^(\d+):(\d+):(\d+)$/);
+  if (!match) return null;
+  return {
+    blockNumber: BigInt(match[1]),
+    logIndex: parseInt(match[2], 10),
+    ordinal: parseInt(match[3], 10),
+  };
+}
+
+export function compareSequence(a: StreamSequence, b: StreamSequence): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  if (a.logIndex !== b.logIndex) return a.logIndex - b.logIndex;
+  return a.ordinal - b.ordinal;
+}
+
+// Sequence for the next message on a topic whose last message was `last`
+export function nextSequence(last: StreamSequence | null, position: EventPosition): StreamSequence {
+  const candidate = { ...position, ordinal: 0 };
+  if (!last || compareSequence(candidate, last) > 0) return candidate;
+  // Same event (or an out-of-order position): stay monotonic by bumping the ordinal
+  return { blockNumber: last.blockNumber, logIndex: last.logIndex, ordinal: last.ordinal + 1 };
+}
@@ -1,43 +1,113 @@
-// WebSocket server for table streaming
+// WebSocket server for topic streaming
 
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server } from "http";
 import type { IncomingMessage } from "http";
-import { getWsManager } from "./manager.js";
-import type { WsConnectedData, WsErrorData } from "./types.js";
+import { getWsManager, type StreamClient, type WsManagerOptions } from "./manager.js";
+import { parseTopic, tableTopic, topicTableId } from "./topics.js";
+import { parseSequence } from "./sequence.js";
+import type {
+  WsConnectedData,
+  WsErrorData,
+  WsMessageType,
+  WsResumedData,
+  WsSnapshotRequiredData,
+  WsSubscriptionData,
+} from "./types.js";
+import type { TableResponse } from "../db/types.js";
+
+// Table state for table_snapshot plus the indexer cursor it was read at
+export type TableSnapshotLoader = (
+  tableId: string
+) => Promise<{ table: TableResponse; cursorBlock: bigint } | null>;
 
 export interface WsServerConfig {
   httpServer: Server;
   path?: string;
+  // Replay buffer, connection caps and send-buffer thresholds
+  limits?: Partial<WsManagerOptions>;
+  // Protocol ping interval; clients that miss a pong by the next tick are terminated (0 disables)
+  heartbeatIntervalMs?: number;
+  // When set, subscribing to table:<id> first pushes a table_snapshot
+  tableSnapshot?: TableSnapshotLoader;
+  // Other WebSocket endpoints sharing the HTTP server, by exact path (e.g. GraphQL subscriptions)
+  upgrades?: Record<string, WebSocketServer>;
 }
 
+// Upper bound on topics per client message
+const MAX_TOPICS_PER_MESSAGE = 100;
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+
+// Close code for connections refused by the caps (RFC 6455 "Try Again Later")
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
 export function createWsServer(config: WsServerConfig): WebSocketServer {
-  const wss = new WebSocketServer({
-    server: config.httpServer,
-    path: config.path ?? "/ws",
+  const basePath = config.path ?? "/ws";
+
+  // noServer so /ws/tables/:id is accepted as well as /ws itself (the ws path option only matches exactly)
+  const wss = new WebSocketServer({ noServer: true });
+  if (config.limits) {
+    getWsManager().configure(config.limits);
+  }
+
+  // Clients pinged by the heartbeat that have not answered yet
+  const awaitingPong = new Set<WebSocket>();
+
+  config.httpServer.on("upgrade", (req, socket, head) => {
+    const pathname = (req.url ?? "").split("?")[0];
+    const other = config.upgrades?.[pathname];
+    if (other) {
+      other.handleUpgrade(req, socket, head, (ws) => {
+        other.emit("connection", ws, req);
+      });
+      return;
+    }
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
   });
 
   wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
-    const url = req.url ?? "";
-    const tableId = parseTableId(url);
+    const manager = getWsManager();
+    const rejection = manager.registerConnection(ws, clientIp(req, manager.getTrustedProxyHops()));
+    if (rejection) {
+      sendError(
+        ws,
+        "CONNECTION_LIMIT",
+        rejection === "ip_limit" ? "Too many connections from this address" : "Server is at capacity"
+      );
+      ws.close(CLOSE_TRY_AGAIN_LATER, "Connection limit");
+      return;
+    }
+
+    // Anything from the client proves it is alive
+    ws.on("pong", () => awaitingPong.delete(ws));
 
-    if (!tableId) {
-      sendError(ws, "INVALID_PATH", "Invalid WebSocket path. Use /ws/tables/:id");
+    const initial = parseInitialTopics(req.url ?? "");
+    if (initial === null) {
+      sendError(ws, "INVALID_PATH", "Invalid WebSocket path. Use /ws, /ws/tables/:id or /ws?topics=...");
+      manager.unregisterConnection(ws);
       ws.close(4000, "Invalid path");
       return;
     }
 
-    const manager = getWsManager();
-    manager.subscribe(tableId, ws);
-
     // Send connected confirmation
-    sendConnected(ws, tableId);
+    sendConnected(ws, initial);
+    for (const topic of initial) {
+      subscribeWithSnapshot(ws, topic, config.tableSnapshot);
+    }
 
-    // Handle client messages (ping/pong, etc.)
+    // Handle client messages (subscribe/unsubscribe/resume, ping/pong)
     ws.on("message", (data) => {
+      awaitingPong.delete(ws);
       try {
         const message = JSON.parse(data.toString());
-        handleClientMessage(ws, tableId, message);
+        handleClientMessage(ws, message, config);
       } catch (error) {
         // Ignore invalid JSON
       }
@@ -45,71 +115,245 @@ export function createWsServer(config: WsServerConfig): WebSocketServer {
 
     // Handle disconnect
     ws.on("close", () => {
-      manager.unsubscribe(tableId, ws);
+      awaitingPong.delete(ws);
+      manager.unregisterConnection(ws);
     });
 
     // Handle errors
     ws.on("error", (error) => {
       console.error(`[WS] Client error:`, error);
-      manager.unsubscribe(tableId, ws);
+      manager.unregisterConnection(ws);
     });
   });
 
-  console.log(`[WS] WebSocket server initialized on path ${config.path ?? "/ws"}`);
+  // Heartbeat: ping every client each tick and terminate those that did not answer the last one
+  const heartbeatIntervalMs = config.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  if (heartbeatIntervalMs > 0) {
+    const heartbeat = setInterval(() => {
+      for (const ws of wss.clients) {
+        if (awaitingPong.has(ws)) {
+          awaitingPong.delete(ws);
+          getWsManager().recordReaped();
+          getWsManager().unregisterConnection(ws);
+          ws.terminate();
+          continue;
+        }
+        awaitingPong.add(ws);
+        ws.ping();
+      }
+    }, heartbeatIntervalMs);
+    heartbeat.unref();
+    wss.on("close", () => clearInterval(heartbeat));
+  }
+
+  console.log(`[WS] WebSocket server initialized on path ${basePath}`);
   return wss;
 }
 
-// Parse table ID from WebSocket URL path
-// Expected format: /ws/tables/:id or /ws (with query param)
-function parseTableId(url: string): string | null {
-  // Try path format: /ws/tables/:id
-  const pathMatch = url.match(/\/ws\/tables\/(\d+)/);
+// Client address for per-IP caps: the socket's peer, or behind trusted proxies the X-Forwarded-For
+// entry that many hops from the right. Entries further left are whatever the client sent.
+export function clientIp(req: IncomingMessage, trustedProxyHops: number): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(",") : (forwarded ?? ""))
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .reverse();
+  const addresses = [req.socket.remoteAddress || "unknown", ...hops];
+  return addresses[Math.min(trustedProxyHops, addresses.length - 1)];
+}
+
+// Topics to subscribe on connect, or null if the URL is malformed.
+// Supported forms: /ws/tables/:id, /ws?tableId=:id, /ws?topics=table:1,leaderboard and bare /ws
+function parseInitialTopics(url: string): string[] | null {
+  const [pathname, search = ""] = url.split("?");
+  const params = new URLSearchParams(search);
+  const topics = new Set<string>();
+
+  // Path format: /ws/tables/:id
+  const pathMatch = pathname.match(/\/ws\/tables\/([^/]+)\/?$/);
   if (pathMatch) {
-    return pathMatch[1];
+    if (!/^\d+$/.test(pathMatch[1])) return null;
+    topics.add(tableTopic(pathMatch[1]));
+  } else if (!/\/ws\/?$/.test(pathname)) {
+    return null;
+  }
+
+  // Query param format: /ws?tableId=:id
+  const tableId = params.get("tableId");
+  if (tableId !== null) {
+    if (!/^\d+$/.test(tableId)) return null;
+    topics.add(tableTopic(tableId));
   }
 
-  // Try query param format: /ws?tableId=:id
-  const queryMatch = url.match(/[?&]tableId=(\d+)/);
-  if (queryMatch) {
-    return queryMatch[1];
+  const requested = params.get("topics");
+  if (requested) {
+    for (const raw of requested.split(",")) {
+      const topic = parseTopic(raw);
+      if (!topic) return null;
+      topics.add(topic);
+    }
   }
 
-  return null;
+  return Array.from(topics);
 }
 
-function sendConnected(ws: WebSocket, tableId: string): void {
-  const data: WsConnectedData = {
-    message: `Subscribed to table ${tableId}`,
-  };
+function send(ws: StreamClient, type: WsMessageType, topic: string, data: unknown): void {
   ws.send(JSON.stringify({
-    type: "connected",
-    tableId,
+    type,
+    topic,
     timestamp: new Date().toISOString(),
     data,
   }));
 }
 
-function sendError(ws: WebSocket, code: string, message: string): void {
+function sendConnected(ws: WebSocket, topics: string[]): void {
+  const data: WsConnectedData = {
+    message: topics.length > 0 ? `Subscribed to ${topics.join(", ")}` : "Connected",
+    topics,
+  };
+  send(ws, "connected", "", data);
+}
+
+export function sendError(ws: StreamClient, code: string, message: string): void {
   const data: WsErrorData = { code, message };
-  ws.send(JSON.stringify({
-    type: "error",
-    tableId: "",
-    timestamp: new Date().toISOString(),
-    data,
-  }));
+  send(ws, "error", "", data);
+}
+
+// Subscribe, pushing a table_snapshot first for concrete table topics (shared with SSE)
+export function subscribeWithSnapshot(
+  ws: StreamClient,
+  topic: string,
+  tableSnapshot: TableSnapshotLoader | undefined
+): void {
+  const manager = getWsManager();
+  const tableId = topicTableId(topic);
+  if (tableId === undefined || !tableSnapshot) {
+    manager.subscribeTopic(topic, ws);
+    return;
+  }
+
+  manager.beginSnapshot(topic, ws);
+  tableSnapshot(tableId)
+    .then((result) => {
+      if (!result) {
+        // Stay subscribed: the table may be created later
+        manager.abortSnapshot(topic, ws);
+        sendError(ws, "TABLE_NOT_FOUND", `Table ${tableId} not found`);
+        return;
+      }
+      manager.completeSnapshot(topic, ws, result.cursorBlock, "table_snapshot", result.table);
+    })
+    .catch((error) => {
+      console.error(`[WS] Failed to load snapshot for ${topic}:`, error);
+      manager.abortSnapshot(topic, ws);
+      sendError(ws, "SNAPSHOT_FAILED", `Failed to load snapshot for ${topic}`);
+    });
+}
+
+function handleClientMessage(ws: WebSocket, message: unknown, config: WsServerConfig): void {
+  if (typeof message !== "object" || message === null) return;
+  const msg = message as Record<string, unknown>;
+
+  if (msg.type === "ping") {
+    send(ws, "pong", "", {});
+    return;
+  }
+
+  if (msg.type === "resume") {
+    handleResume(ws, msg.topics, config);
+    return;
+  }
+
+  if (msg.type !== "subscribe" && msg.type !== "unsubscribe") return;
+
+  const requested = Array.isArray(msg.topics) ? msg.topics : [msg.topic];
+  if (requested.length === 0 || requested.length > MAX_TOPICS_PER_MESSAGE) {
+    sendError(ws, "INVALID_TOPIC", `Provide between 1 and ${MAX_TOPICS_PER_MESSAGE} topics`);
+    return;
+  }
+
+  const topics: string[] = [];
+  for (const raw of requested) {
+    const topic = parseTopic(raw);
+    if (!topic) {
+      sendError(ws, "INVALID_TOPIC", `Invalid topic: ${String(raw)}`);
+      return;
+    }
+    topics.push(topic);
+  }
+
+  // Acknowledge before snapshots go out so clients see subscribed -> table_snapshot -> deltas
+  const manager = getWsManager();
+  if (msg.type === "subscribe") {
+    const current = new Set([...manager.getTopics(ws), ...topics]);
+    const data: WsSubscriptionData = { topics, subscriptions: Array.from(current) };
+    send(ws, "subscribed", "", data);
+    for (const topic of topics) {
+      subscribeWithSnapshot(ws, topic, config.tableSnapshot);
+    }
+  } else {
+    for (const topic of topics) {
+      manager.unsubscribeTopic(topic, ws);
+    }
+    const data: WsSubscriptionData = { topics, subscriptions: manager.getTopics(ws) };
+    send(ws, "unsubscribed", "", data);
+  }
+}
+
+// { type: "resume", topics: { "table:1": "<last seq>" } } subscribes to each topic and replays what
+// was missed, or answers snapshot_required when the gap is no longer buffered (followed by a
+// table_snapshot for table topics).
+function handleResume(ws: WebSocket, cursors: unknown, config: WsServerConfig): void {
+  if (typeof cursors !== "object" || cursors === null || Array.isArray(cursors)) {
+    sendError(ws, "INVALID_RESUME", "resume expects topics: { [topic]: lastSeq }");
+    return;
+  }
+  const entries = Object.entries(cursors as Record<string, unknown>);
+  if (entries.length === 0 || entries.length > MAX_TOPICS_PER_MESSAGE) {
+    sendError(ws, "INVALID_RESUME", `Provide between 1 and ${MAX_TOPICS_PER_MESSAGE} topics`);
+    return;
+  }
+
+  const resumes: Array<{ topic: string; lastSeq: string }> = [];
+  for (const [raw, lastSeq] of entries) {
+    const topic = parseTopic(raw);
+    // Sequences are per concrete topic, so wildcards cannot be resumed
+    if (!topic || topic.includes("*")) {
+      sendError(ws, "INVALID_TOPIC", `Invalid resume topic: ${raw}`);
+      return;
+    }
+    if (typeof lastSeq !== "string" || !parseSequence(lastSeq)) {
+      sendError(ws, "INVALID_RESUME", `Invalid sequence for ${topic}`);
+      return;
+    }
+    resumes.push({ topic, lastSeq });
+  }
+
+  for (const { topic, lastSeq } of resumes) {
+    resumeTopic(ws, topic, lastSeq, config.tableSnapshot);
+  }
 }
 
-function handleClientMessage(ws: WebSocket, tableId: string, message: unknown): void {
-  // Currently just ping/pong support
-  if (typeof message === "object" && message !== null) {
-    const msg = message as Record<string, unknown>;
-    if (msg.type === "ping") {
-      ws.send(JSON.stringify({
-        type: "pong",
-        tableId,
-        timestamp: new Date().toISOString(),
-        data: {},
-      }));
+// Subscribe and replay in the same tick so no live message can land between them (shared with SSE)
+export function resumeTopic(
+  ws: StreamClient,
+  topic: string,
+  lastSeq: string,
+  tableSnapshot: TableSnapshotLoader | undefined
+): void {
+  const manager = getWsManager();
+  manager.subscribeTopic(topic, ws);
+  const result = manager.resume(topic, lastSeq, ws);
+  if (result.status === "resumed") {
+    const data: WsResumedData = { topic, lastSeq, replayed: result.replayed, latestSeq: result.latestSeq };
+    send(ws, "resumed", topic, data);
+  } else {
+    const data: WsSnapshotRequiredData = { topic, lastSeq, latestSeq: result.latestSeq };
+    send(ws, "snapshot_required", topic, data);
+    // Table topics can be rebuilt from the stream: push a fresh table_snapshot
+    if (topicTableId(topic) !== undefined) {
+      subscribeWithSnapshot(ws, topic, tableSnapshot);
     }
   }
 }
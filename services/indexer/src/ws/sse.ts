@@ -0,0 +1,49 @@
+// Server-Sent Events transport for the same topic streams as the WebSocket server
+//
+// SseClient adapts an HTTP response to the StreamClient surface WsManager pushes to, so SSE
+// subscribers get exactly what the broadcaster sends WebSocket clients. Each message becomes
+// an event named after its type, with the topic seq as the event id for Last-Event-ID resume.
+
+import type { ServerResponse } from "http";
+import type { StreamClient } from "./manager.js";
+
+const OPEN = 1;
+const CLOSED = 3;
+
+// Comment line keeping proxies from timing out idle streams
+export const SSE_KEEPALIVE_MS = 15000;
+
+export class SseClient implements StreamClient {
+  readonly OPEN = OPEN;
+  readyState = OPEN;
+
+  constructor(private res: ServerResponse) {
+    res.on("close", () => {
+      this.readyState = CLOSED;
+    });
+  }
+
+  get bufferedAmount(): number {
+    return this.res.writableLength;
+  }
+
+  // Payloads are serialized WsMessage JSON
+  send(payload: string): void {
+    if (this.readyState !== OPEN) return;
+    const message = JSON.parse(payload) as { type: string; seq?: string };
+    let frame = "";
+    if (message.seq) frame += `id: ${message.seq}\n`;
+    frame += `event: ${message.type}\n`;
+    frame += `data: ${payload}\n\n`;
+    this.res.write(frame);
+  }
+
+  keepAlive(): void {
+    if (this.readyState === OPEN) this.res.write(": keepalive\n\n");
+  }
+
+  terminate(): void {
+    this.readyState = CLOSED;
+    this.res.destroy();
+  }
+}
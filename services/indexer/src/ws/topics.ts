@@ -0,0 +1,64 @@
+// Subscription topics
+//
+//   table:<id>         table events (seats, hands, actions, cards)
+//   agent:<token>      registry changes and vault snapshots for one agent
+//   vault:<address>    vault snapshots for one vault
+//   leaderboard        leaderboard stats refreshed
+//   global             chain-wide events (registrations, reorgs)
+//
+// "<kind>:*" matches every topic of that kind and "*" matches everything.
+
+export const WILDCARD = "*";
+
+const ADDRESS_RE = /^0x[0-9a-f]{40}$/;
+
+export function tableTopic(tableId: string | bigint): string {
+  return `table:${tableId.toString()}`;
+}
+
+export function agentTopic(tokenAddress: string): string {
+  return `agent:${tokenAddress.toLowerCase()}`;
+}
+
+export function vaultTopic(vaultAddress: string): string {
+  return `vault:${vaultAddress.toLowerCase()}`;
+}
+
+/**
+ * Normalize a client-supplied topic, or return null if it is not a valid topic or wildcard.
+ * Addresses are lowercased so subscriptions match the indexer's stored form.
+ */
+export function parseTopic(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const topic = raw.trim().toLowerCase();
+
+  if (topic === WILDCARD || topic === "leaderboard" || topic === "global") return topic;
+
+  const separator = topic.indexOf(":");
+  if (separator === -1) return null;
+  const kind = topic.slice(0, separator);
+  const key = topic.slice(separator + 1);
+
+  switch (kind) {
+    case "table":
+      return key === WILDCARD || /^\d+$/.test(key) ? topic : null;
+    case "agent":
+    case "vault":
+      return key === WILDCARD || ADDRESS_RE.test(key) ? topic : null;
+    default:
+      return null;
+  }
+}
+
+// Subscription keys that receive a message published to `topic`
+export function matchingSubscriptions(topic: string): string[] {
+  const separator = topic.indexOf(":");
+  if (separator === -1) return [topic, WILDCARD];
+  return [topic, `${topic.slice(0, separator)}:${WILDCARD}`, WILDCARD];
+}
+
+// Table id of a concrete table topic, used to keep `tableId` on table messages
+export function topicTableId(topic: string): string | undefined {
+  const match = topic.match(/^table:(\d+)$/);
+  return match ? match[1] : undefined;
+}
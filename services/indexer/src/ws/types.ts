@@ -1,4 +1,4 @@
-// WebSocket message types for table streaming
+// WebSocket message types for topic streaming
 
 export type WsMessageType =
   | "connected"
@@ -6,22 +6,70 @@ export type WsMessageType =
   | "hand_started"
   | "betting_round_complete"
   | "vrf_requested"
+  | "vrf_rerequested"
   | "community_cards"
   | "hand_settled"
   | "seat_updated"
+  | "seat_top_up"
+  | "seat_cash_out"
+  | "seat_closed"
+  | "seat_evicted"
   | "pot_updated"
   | "force_timeout"
+  | "hole_commit_submitted"
+  | "hole_cards_revealed"
+  | "reorg"
+  | "vault_snapshot"
+  | "agent_registered"
+  | "agent_updated"
+  | "token_trade"
+  | "leaderboard_updated"
+  | "subscribed"
+  | "unsubscribed"
+  | "resumed"
+  | "snapshot_required"
+  | "table_snapshot"
+  | "pong"
   | "error";
 
 export interface WsMessage {
   type: WsMessageType;
-  tableId: string;
+  topic: string;
+  // Set on table:<id> messages
+  tableId?: string;
+  // Per-topic sequence "<block>:<logIndex>:<ordinal>"; absent on control messages
+  seq?: string;
   timestamp: string;
   data: unknown;
 }
 
+// Message relayed between instances; topic null = broadcastAll, seq assigned by the publisher
+export interface WsRelayedMessage {
+  topic: string | null;
+  type: WsMessageType;
+  data: unknown;
+  seq?: string;
+}
+
+// One committed block range (or a reorg rewind) as published by the ingesting instance
+export type WsRelayBatch = { messages: WsRelayedMessage[] } | { rewind: string };
+
+// Client -> server
+export interface WsClientMessage {
+  type: "subscribe" | "unsubscribe" | "resume" | "ping";
+  // resume takes a map of topic -> last seq received
+  topics?: string[] | Record<string, string>;
+}
+
 export interface WsConnectedData {
   message: string;
+  topics: string[];
+}
+
+// Reply to subscribe/unsubscribe: the topics just changed and the client's full subscription set
+export interface WsSubscriptionData {
+  topics: string[];
+  subscriptions: string[];
 }
 
 export interface WsActionData {
@@ -53,16 +101,33 @@ export interface WsVRFRequestedData {
   requestId: string;
 }
 
+export interface WsVRFReRequestedData {
+  handId: string;
+  street: string;
+  oldRequestId: string;
+  newRequestId: string;
+}
+
 export interface WsCommunityCardsData {
   handId: string;
   street: string;
   cards: number[];
 }
 
+// winnerSeat is the seat named by HandSettled; winnerSeats lists every seat paid from a chopped pot
 export interface WsHandSettledData {
   handId: string;
   winnerSeat: number;
+  winnerSeats: number[];
   potAmount: string;
+  payouts: WsSeatPayoutData[];
+}
+
+export interface WsSeatPayoutData {
+  seatIndex: number;
+  amountWon: string;
+  amountContributed: string | null;
+  netAmount: string | null;
 }
 
 export interface WsSeatUpdatedData {
@@ -72,6 +137,33 @@ export interface WsSeatUpdatedData {
   stack: string;
 }
 
+export interface WsSeatTopUpData {
+  seatIndex: number;
+  ownerAddress: string;
+  amount: string;
+  stackAfter: string;
+}
+
+export interface WsSeatCashOutData {
+  seatIndex: number;
+  ownerAddress: string;
+  recipientAddress: string;
+  amount: string;
+  stackAfter: string;
+}
+
+export interface WsSeatClosedData {
+  seatIndex: number;
+  ownerAddress: string;
+  recipientAddress: string;
+  amount: string;
+}
+
+export interface WsSeatEvictedData {
+  seatIndex: number;
+  ownerAddress: string;
+}
+
 export interface WsPotUpdatedData {
   handId: string;
   pot: string;
@@ -83,6 +175,86 @@ export interface WsForceTimeoutData {
   forcedAction: string;
 }
 
+export interface WsHoleCommitData {
+  handId: string;
+  seatIndex: number;
+  commitment: string;
+}
+
+export interface WsHoleCardsRevealedData {
+  handId: string;
+  seatIndex: number;
+  cards: [number, number];
+}
+
+export interface WsReorgData {
+  forkBlock: string;
+  detectedAtBlock: string;
+}
+
+export interface WsResumedData {
+  topic: string;
+  lastSeq: string;
+  replayed: number;
+  latestSeq: string | null;
+}
+
+// The missed messages are no longer buffered; refetch over REST, live events continue
+export interface WsSnapshotRequiredData {
+  topic: string;
+  lastSeq: string;
+  latestSeq: string | null;
+}
+
+export interface WsVaultSnapshotData {
+  vaultAddress: string;
+  tokenAddress: string | null;
+  handId: string;
+  externalAssets: string;
+  treasuryShares: string;
+  outstandingShares: string;
+  navPerShare: string;
+  cumulativePnl: string;
+  blockNumber: string;
+}
+
+export interface WsAgentRegisteredData {
+  tokenAddress: string;
+  ownerAddress: string;
+  operatorAddress: string;
+  vaultAddress: string;
+  tableAddress: string;
+  metaUri: string;
+}
+
+export type WsAgentField = "operator" | "owner" | "vault" | "table" | "metaUri";
+
+export interface WsAgentUpdatedData {
+  tokenAddress: string;
+  field: WsAgentField;
+  oldValue: string;
+  newValue: string;
+}
+
+// price is MON wei per whole token
+export interface WsTokenTradeData {
+  tokenAddress: string;
+  traderAddress: string;
+  side: "BUY" | "SELL";
+  monAmount: string;
+  tokenAmount: string;
+  price: string;
+  blockNumber: string;
+  txHash: string;
+}
+
+// Scope of the refresh; clients refetch GET /leaderboard
+export interface WsLeaderboardUpdatedData {
+  tokenAddress?: string;
+  vaultAddress?: string;
+  tableId?: string;
+}
+
 export interface WsErrorData {
   code: string;
   message: string;
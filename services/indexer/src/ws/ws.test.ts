@@ -3,7 +3,14 @@
 import { test, describe, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import { WsManager, resetWsManager, getWsManager } from "./manager.js";
+import { parseTopic, matchingSubscriptions } from "./topics.js";
+import { compareSequence, nextSequence, parseSequence } from "./sequence.js";
 import type { WebSocket } from "ws";
+import type { WsRelayBatch } from "./types.js";
+import { SseClient } from "./sse.js";
+import { EventEmitter } from "node:events";
+import type { IncomingMessage, ServerResponse } from "http";
+import { clientIp } from "./server.js";
 
 // Mock WebSocket for testing
 function createMockWs(readyState: number = 1): WebSocket {
@@ -149,6 +156,59 @@ describe("WsManager", () => {
     assert.strictEqual(stats.totalConnections, 3);
   });
 
+  test("broadcastAll should reach every subscribed client once", () => {
+    const manager = new WsManager();
+    const ws1 = createMockWs() as WebSocket & { sentMessages: string[] };
+    const ws2 = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.subscribe("1", ws1);
+    manager.subscribe("2", ws1);
+    manager.subscribeTopic("leaderboard", ws2);
+
+    manager.broadcastAll("reorg", { forkBlock: "100", detectedAtBlock: "105" });
+
+    assert.strictEqual(ws1.sentMessages.length, 1);
+    assert.strictEqual(ws2.sentMessages.length, 1);
+    const msg2 = JSON.parse(ws2.sentMessages[0]);
+    assert.strictEqual(msg2.type, "reorg");
+    assert.strictEqual(msg2.topic, "global");
+    assert.strictEqual(msg2.data.forkBlock, "100");
+  });
+
+  test("deferred broadcasts are sent on flush in order", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribe("1", ws);
+
+    manager.deferBroadcasts();
+    manager.broadcast("1", "hand_started", { handId: "1" });
+    manager.broadcast("1", "action", { handId: "1" });
+    assert.strictEqual(ws.sentMessages.length, 0);
+
+    manager.flushDeferred();
+    assert.deepStrictEqual(
+      ws.sentMessages.map((m) => JSON.parse(m).type),
+      ["hand_started", "action"]
+    );
+
+    // Back to immediate delivery after flush
+    manager.broadcast("1", "pot_updated", { handId: "1" });
+    assert.strictEqual(ws.sentMessages.length, 3);
+  });
+
+  test("discarded broadcasts are never sent", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribe("1", ws);
+
+    manager.deferBroadcasts();
+    manager.broadcast("1", "action", { handId: "1" });
+    manager.discardDeferred();
+    manager.flushDeferred();
+
+    assert.strictEqual(ws.sentMessages.length, 0);
+  });
+
   test("should handle broadcast to empty table", () => {
     const manager = new WsManager();
 
@@ -176,6 +236,447 @@ describe("WsManager", () => {
   });
 });
 
+describe("WsManager topics", () => {
+  const TOKEN = "0x" + "ab".repeat(20);
+
+  test("should deliver to exact, kind wildcard and global wildcard subscribers", () => {
+    const manager = new WsManager();
+    const exact = createMockWs() as WebSocket & { sentMessages: string[] };
+    const kind = createMockWs() as WebSocket & { sentMessages: string[] };
+    const all = createMockWs() as WebSocket & { sentMessages: string[] };
+    const other = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.subscribeTopic(`agent:${TOKEN}`, exact);
+    manager.subscribeTopic("agent:*", kind);
+    manager.subscribeTopic("*", all);
+    manager.subscribeTopic("vault:*", other);
+
+    manager.publish(`agent:${TOKEN}`, "agent_updated", { field: "owner" });
+
+    assert.strictEqual(exact.sentMessages.length, 1);
+    assert.strictEqual(kind.sentMessages.length, 1);
+    assert.strictEqual(all.sentMessages.length, 1);
+    assert.strictEqual(other.sentMessages.length, 0);
+
+    const msg = JSON.parse(exact.sentMessages[0]);
+    assert.strictEqual(msg.topic, `agent:${TOKEN}`);
+    assert.strictEqual(msg.tableId, undefined);
+  });
+
+  test("should send once to a client matching several subscriptions", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.subscribe("7", ws);
+    manager.subscribeTopic("table:*", ws);
+    manager.subscribeTopic("*", ws);
+
+    manager.broadcast("7", "action", {});
+
+    assert.strictEqual(ws.sentMessages.length, 1);
+    assert.strictEqual(JSON.parse(ws.sentMessages[0]).tableId, "7");
+  });
+
+  test("table wildcard subscribers receive every table", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribeTopic("table:*", ws);
+
+    manager.broadcast("1", "action", {});
+    manager.broadcast("2", "action", {});
+    manager.publish("leaderboard", "leaderboard_updated", {});
+
+    assert.deepStrictEqual(ws.sentMessages.map((m) => JSON.parse(m).tableId), ["1", "2"]);
+  });
+
+  test("should track topics per client and drop them on unsubscribeAll", () => {
+    const manager = new WsManager();
+    const ws = createMockWs();
+
+    manager.subscribeTopic("leaderboard", ws);
+    manager.subscribeTopic("global", ws);
+    manager.unsubscribeTopic("global", ws);
+    assert.deepStrictEqual(manager.getTopics(ws), ["leaderboard"]);
+
+    manager.unsubscribeAll(ws);
+    assert.deepStrictEqual(manager.getTopics(ws), []);
+    assert.strictEqual(manager.getStats().totalConnections, 0);
+    assert.strictEqual(manager.getStats().topics, 0);
+  });
+
+  test("deferred publishes keep their topic", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribeTopic("vault:*", ws);
+
+    manager.deferBroadcasts();
+    manager.publish(`vault:${TOKEN}`, "vault_snapshot", {});
+    manager.flushDeferred();
+
+    assert.strictEqual(JSON.parse(ws.sentMessages[0]).topic, `vault:${TOKEN}`);
+  });
+});
+
+describe("WsManager sequences and resume", () => {
+  function seqs(ws: WebSocket & { sentMessages: string[] }): string[] {
+    return ws.sentMessages.map((m) => JSON.parse(m).seq);
+  }
+
+  test("should stamp per-topic sequences from the event position", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribeTopic("*", ws);
+
+    manager.setEventPosition(100n, 3);
+    manager.broadcast("1", "action", {});
+    manager.broadcast("1", "pot_updated", {});
+    manager.publish("leaderboard", "leaderboard_updated", {});
+    manager.setEventPosition(101n, 0);
+    manager.broadcast("1", "action", {});
+
+    assert.deepStrictEqual(seqs(ws), ["100:3:0", "100:3:1", "100:3:0", "101:0:0"]);
+  });
+
+  test("deferred messages keep the position they were published at", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribe("1", ws);
+
+    manager.deferBroadcasts();
+    manager.setEventPosition(50n, 1);
+    manager.broadcast("1", "action", {});
+    manager.setEventPosition(52n, 7);
+    manager.flushDeferred();
+
+    assert.deepStrictEqual(seqs(ws), ["50:1:0"]);
+  });
+
+  test("should replay messages after the client's last sequence", () => {
+    const manager = new WsManager();
+    for (let block = 1n; block <= 3n; block++) {
+      manager.setEventPosition(block, 0);
+      manager.broadcast("1", "action", { block: block.toString() });
+    }
+
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    const result = manager.resume("table:1", "1:0:0", ws);
+
+    assert.deepStrictEqual(result, { status: "resumed", replayed: 2, latestSeq: "3:0:0" });
+    assert.deepStrictEqual(seqs(ws), ["2:0:0", "3:0:0"]);
+  });
+
+  test("should require a snapshot once the gap is evicted", () => {
+    const manager = new WsManager();
+    manager.configure({ replayBufferSize: 2 });
+    for (let block = 1n; block <= 3n; block++) {
+      manager.setEventPosition(block, 0);
+      manager.broadcast("1", "action", {});
+    }
+
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    assert.strictEqual(manager.resume("table:1", "1:0:0", ws).status, "snapshot_required");
+    assert.strictEqual(manager.resume("table:2", "1:0:0", ws).status, "snapshot_required");
+    assert.strictEqual(ws.sentMessages.length, 0);
+
+    const upToDate = manager.resume("table:1", "3:0:0", ws);
+    assert.deepStrictEqual(upToDate, { status: "resumed", replayed: 0, latestSeq: "3:0:0" });
+  });
+
+  test("rewind should drop rolled-back messages", () => {
+    const manager = new WsManager();
+    for (let block = 1n; block <= 3n; block++) {
+      manager.setEventPosition(block, 0);
+      manager.broadcast("1", "action", {});
+    }
+
+    manager.rewind(2n);
+
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    assert.strictEqual(manager.resume("table:1", "3:0:0", ws).status, "snapshot_required");
+    assert.deepStrictEqual(manager.resume("table:1", "1:0:0", ws), {
+      status: "resumed",
+      replayed: 0,
+      latestSeq: "1:0:0",
+    });
+
+    // Replayed blocks sequence again from the fork
+    manager.setEventPosition(2n, 0);
+    manager.broadcast("1", "action", {});
+    manager.resume("table:1", "1:0:0", ws);
+    assert.deepStrictEqual(seqs(ws), ["2:0:0"]);
+  });
+
+  test("sequence helpers should order and stay monotonic", () => {
+    assert.strictEqual(parseSequence("12:3"), null);
+    const a = parseSequence("12:3:0")!;
+    const b = parseSequence("12:10:0")!;
+    assert.ok(compareSequence(a, b) < 0);
+    assert.deepStrictEqual(nextSequence(b, { blockNumber: 12n, logIndex: 3 }), { ...b, ordinal: 1 });
+  });
+});
+
+describe("WsManager snapshots", () => {
+  function types(ws: WebSocket & { sentMessages: string[] }): string[] {
+    return ws.sentMessages.map((m) => JSON.parse(m).type);
+  }
+
+  test("should place the snapshot at the indexer cursor and drop events it covers", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.setEventPosition(9n, 0);
+    manager.broadcast("1", "hand_started", {});
+
+    manager.beginSnapshot("table:1", ws);
+    // Committed while the snapshot loads: block 10 is in it, block 11 is not
+    manager.setEventPosition(10n, 2);
+    manager.broadcast("1", "action", {});
+    manager.setEventPosition(11n, 0);
+    manager.broadcast("1", "pot_updated", {});
+    assert.strictEqual(ws.sentMessages.length, 0);
+
+    manager.completeSnapshot("table:1", ws, 11n, "table_snapshot", { tableId: "1" });
+
+    assert.deepStrictEqual(types(ws), ["table_snapshot", "pot_updated"]);
+    const snapshot = JSON.parse(ws.sentMessages[0]);
+    assert.strictEqual(snapshot.seq, "10:2:0");
+    assert.strictEqual(snapshot.tableId, "1");
+    assert.deepStrictEqual(snapshot.data, { tableId: "1" });
+
+    // Live again after the snapshot
+    manager.broadcast("1", "action", {});
+    assert.strictEqual(ws.sentMessages.length, 3);
+  });
+
+  test("should only hold the topic being snapshotted", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    manager.subscribeTopic("leaderboard", ws);
+
+    manager.beginSnapshot("table:1", ws);
+    manager.publish("leaderboard", "leaderboard_updated", {});
+    assert.deepStrictEqual(types(ws), ["leaderboard_updated"]);
+  });
+
+  test("abortSnapshot should release held messages", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.beginSnapshot("table:1", ws);
+    manager.broadcast("1", "action", {});
+    manager.abortSnapshot("table:1", ws);
+
+    assert.deepStrictEqual(types(ws), ["action"]);
+    assert.strictEqual(manager.getSubscriberCount("1"), 1);
+  });
+
+  test("unsubscribing cancels a pending snapshot", () => {
+    const manager = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+
+    manager.beginSnapshot("table:1", ws);
+    manager.unsubscribeAll(ws);
+    manager.completeSnapshot("table:1", ws, 1n, "table_snapshot", {});
+
+    assert.strictEqual(ws.sentMessages.length, 0);
+  });
+});
+
+describe("WsManager connection hygiene", () => {
+  test("should enforce global and per-IP connection caps", () => {
+    const manager = new WsManager();
+    manager.configure({ maxConnections: 3, maxConnectionsPerIp: 2 });
+    const a1 = createMockWs();
+    const a2 = createMockWs();
+    const b1 = createMockWs();
+
+    assert.strictEqual(manager.registerConnection(a1, "10.0.0.1"), null);
+    assert.strictEqual(manager.registerConnection(a2, "10.0.0.1"), null);
+    assert.strictEqual(manager.registerConnection(createMockWs(), "10.0.0.1"), "ip_limit");
+    assert.strictEqual(manager.registerConnection(b1, "10.0.0.2"), null);
+    assert.strictEqual(manager.registerConnection(createMockWs(), "10.0.0.3"), "global_limit");
+
+    manager.unregisterConnection(a1);
+    assert.strictEqual(manager.registerConnection(createMockWs(), "10.0.0.1"), null);
+
+    const stats = manager.getStats();
+    assert.strictEqual(stats.openConnections, 3);
+    assert.strictEqual(stats.rejectedConnections, 2);
+  });
+
+  test("should drop messages for slow clients and disconnect laggards", () => {
+    const manager = new WsManager();
+    manager.configure({ sendBufferDropBytes: 100, sendBufferCloseBytes: 1000 });
+    const slow = createMockWs() as WebSocket & { sentMessages: string[]; bufferedAmount: number };
+    let terminated = false;
+    (slow as unknown as { terminate: () => void }).terminate = () => {
+      terminated = true;
+    };
+    manager.registerConnection(slow, "10.0.0.1");
+    manager.subscribe("1", slow);
+
+    slow.bufferedAmount = 500;
+    manager.broadcast("1", "action", {});
+    assert.strictEqual(slow.sentMessages.length, 0);
+    assert.strictEqual(manager.getSubscriberCount("1"), 1);
+
+    slow.bufferedAmount = 5000;
+    manager.broadcast("1", "action", {});
+    assert.ok(terminated);
+    assert.strictEqual(manager.getSubscriberCount("1"), 0);
+
+    const stats = manager.getStats();
+    assert.strictEqual(stats.droppedMessages, 1);
+    assert.strictEqual(stats.laggardDisconnects, 1);
+    assert.strictEqual(stats.openConnections, 0);
+  });
+
+  test("should take the client IP from the socket unless proxies are trusted", () => {
+    const req = {
+      headers: { "x-forwarded-for": "6.6.6.6, 203.0.113.7" },
+      socket: { remoteAddress: "10.0.0.9" },
+    } as unknown as IncomingMessage;
+
+    // Entries beyond the trusted hops may be spoofed by the client and are ignored
+    assert.strictEqual(clientIp(req, 0), "10.0.0.9");
+    assert.strictEqual(clientIp(req, 1), "203.0.113.7");
+    assert.strictEqual(clientIp(req, 5), "6.6.6.6");
+    assert.strictEqual(
+      clientIp({ headers: {}, socket: { remoteAddress: "10.0.0.9" } } as unknown as IncomingMessage, 1),
+      "10.0.0.9"
+    );
+  });
+});
+
+describe("WsManager relay", () => {
+  test("should relay each committed range as one batch with its sequences", () => {
+    const manager = new WsManager();
+    const batches: WsRelayBatch[] = [];
+    manager.setRelay((batch) => batches.push(batch));
+
+    manager.deferBroadcasts();
+    manager.setEventPosition(10n, 1);
+    manager.broadcast("1", "action", { a: 1 });
+    manager.broadcastAll("reorg", {});
+    manager.discardDeferred();
+    assert.strictEqual(batches.length, 0);
+
+    manager.deferBroadcasts();
+    manager.setEventPosition(10n, 1);
+    manager.broadcast("1", "action", { a: 1 });
+    manager.publish("leaderboard", "leaderboard_updated", {});
+    manager.flushDeferred();
+    manager.rewind(10n);
+
+    assert.deepStrictEqual(batches, [
+      {
+        messages: [
+          { topic: "table:1", type: "action", data: { a: 1 }, seq: "10:1:0" },
+          { topic: "leaderboard", type: "leaderboard_updated", data: {}, seq: "10:1:0" },
+        ],
+      },
+      { rewind: "10" },
+    ]);
+  });
+
+  test("replicas should deliver relayed messages with the publisher's sequences", () => {
+    const replica = new WsManager();
+    const ws = createMockWs() as WebSocket & { sentMessages: string[] };
+    replica.subscribeTopic("table:*", ws);
+    const everyone = createMockWs() as WebSocket & { sentMessages: string[] };
+    replica.subscribeTopic("global", everyone);
+
+    replica.applyRelayed({
+      messages: [
+        { topic: "table:1", type: "action", data: {}, seq: "10:1:3" },
+        { topic: null, type: "reorg", data: { forkBlock: "9" } },
+      ],
+    });
+
+    assert.strictEqual(JSON.parse(ws.sentMessages[0]).seq, "10:1:3");
+    assert.strictEqual(JSON.parse(everyone.sentMessages[0]).type, "reorg");
+
+    // Resumable on the replica, until a relayed rewind drops it
+    const resumer = createMockWs() as WebSocket & { sentMessages: string[] };
+    assert.strictEqual(replica.resume("table:1", "10:1:3", resumer).status, "resumed");
+    replica.applyRelayed({ rewind: "10" });
+    assert.strictEqual(replica.resume("table:1", "10:1:3", resumer).status, "snapshot_required");
+  });
+});
+
+describe("SseClient", () => {
+  function createMockResponse() {
+    const res = Object.assign(new EventEmitter(), {
+      chunks: [] as string[],
+      writableLength: 0,
+      destroyed: false,
+      write(chunk: string) {
+        res.chunks.push(chunk);
+        return true;
+      },
+      destroy() {
+        res.destroyed = true;
+      },
+    });
+    return res;
+  }
+
+  test("should frame broadcasts as named events with the seq as id", () => {
+    const manager = new WsManager();
+    const res = createMockResponse();
+    const client = new SseClient(res as unknown as ServerResponse);
+    manager.subscribe("3", client);
+
+    manager.setEventPosition(20n, 4);
+    manager.broadcast("3", "action", { seatIndex: 1 });
+
+    assert.strictEqual(res.chunks.length, 1);
+    const [id, event, data] = res.chunks[0].trimEnd().split("\n");
+    assert.strictEqual(id, "id: 20:4:0");
+    assert.strictEqual(event, "event: action");
+    assert.deepStrictEqual(JSON.parse(data.slice("data: ".length)).data, { seatIndex: 1 });
+  });
+
+  test("should stop receiving once the response closes", () => {
+    const manager = new WsManager();
+    const res = createMockResponse();
+    const client = new SseClient(res as unknown as ServerResponse);
+    manager.subscribe("3", client);
+
+    res.emit("close");
+    manager.broadcast("3", "action", {});
+
+    assert.strictEqual(res.chunks.length, 0);
+    assert.strictEqual(manager.getSubscriberCount("3"), 0);
+  });
+});
+
+describe("Topic parsing", () => {
+  test("should accept and normalize valid topics", () => {
+    const address = "0x" + "AB".repeat(20);
+    assert.strictEqual(parseTopic("table:12"), "table:12");
+    assert.strictEqual(parseTopic("table:*"), "table:*");
+    assert.strictEqual(parseTopic(`agent:${address}`), `agent:${address.toLowerCase()}`);
+    assert.strictEqual(parseTopic("vault:*"), "vault:*");
+    assert.strictEqual(parseTopic("Leaderboard"), "leaderboard");
+    assert.strictEqual(parseTopic("global"), "global");
+    assert.strictEqual(parseTopic("*"), "*");
+  });
+
+  test("should reject malformed topics", () => {
+    assert.strictEqual(parseTopic("table:abc"), null);
+    assert.strictEqual(parseTopic("agent:0x1234"), null);
+    assert.strictEqual(parseTopic("leaderboard:*"), null);
+    assert.strictEqual(parseTopic("seats:1"), null);
+    assert.strictEqual(parseTopic(42), null);
+  });
+
+  test("should list the subscriptions a topic matches", () => {
+    assert.deepStrictEqual(matchingSubscriptions("table:1"), ["table:1", "table:*", "*"]);
+    assert.deepStrictEqual(matchingSubscriptions("global"), ["global", "*"]);
+  });
+});
+
 describe("WsMessage format", () => {
   test("broadcast message has correct structure", () => {
     const manager = new WsManager();
@@ -187,6 +688,7 @@ describe("WsMessage format", () => {
     const msg = JSON.parse(ws.sentMessages[0]);
     assert.strictEqual(msg.type, "hand_settled");
     assert.strictEqual(msg.tableId, "42");
+    assert.strictEqual(msg.topic, "table:42");
     assert.ok(msg.timestamp);
     assert.deepStrictEqual(msg.data, { winnerSeat: 1 });
   });